@@ -50,6 +50,11 @@ export default abstract class AbstractBackendAdapter {
    */
   protected supportedFields!: string[];
 
+  /**
+   * schema.org type of the things this adapter describes, e.g. 'Book'
+   */
+  protected schemaType: string = 'Thing';
+
   /**
    * Minimum milliseconds to wait between requests to this adapter's API.
    * Set to 0 to disable throttling.
@@ -154,4 +159,8 @@ export default abstract class AbstractBackendAdapter {
   getSupportedFields(): string[] {
     return this.supportedFields || [];
   }
+
+  getSchemaType(): string {
+    return this.schemaType;
+  }
 }
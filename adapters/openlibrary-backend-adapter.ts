@@ -75,6 +75,7 @@ export default class OpenLibraryBackendAdapter extends AbstractBackendAdapter {
       /^https*:\/\/openlibrary.org\/(works|books)\/(OL[^\/.]+)(?:\/(?:.*))*$/i;
     this.supportedFields = ['label', 'authors', 'subtitle'];
     this.sourceID = 'openlibrary';
+    this.schemaType = 'Book';
     this.sourceURL = 'https://openlibrary.org/';
     this.throttleMs = 2000; // Wait 2 seconds between OpenLibrary requests
   }
@@ -38,6 +38,7 @@ export default class OpenStreetMapBackendAdapter extends AbstractBackendAdapter
     this.supportedPattern = /^https:\/\/www.openstreetmap.org\/(node|way)\/(\d+)(?:#.*)?$/i;
     this.supportedFields = ['label'];
     this.sourceID = 'openstreetmap';
+    this.schemaType = 'Place';
     this.sourceURL = 'https://openstreetmap.org/';
     this.throttleMs = 5000; // Wait 5 seconds between OSM requests
   }
@@ -4,8 +4,9 @@
 
 import promiseLimit from 'promise-limit';
 import { initializeDAL } from '../../bootstrap/dal.ts';
+import type { ThingInstance } from '../../models/manifests/thing.ts';
 import Thing from '../../models/thing.js';
-import search from '../../search.ts';
+import searchOutbox from '../../search/outbox.ts';
 import type { AdapterLookupResult } from '../abstract-backend-adapter.ts';
 import WikidataBackendAdapter from '../wikidata-backend-adapter.ts';
 
@@ -26,8 +27,6 @@ interface WikidataThing {
   save(): Promise<unknown>;
 }
 
-type IndexableThing = Parameters<typeof search.indexThing>[0];
-
 const wikidata = new WikidataBackendAdapter();
 const limit = promiseLimit<AdapterLookupResult>(4); // Max 4 concurrent requests
 
@@ -67,7 +66,7 @@ async function syncWikidata(): Promise<void> {
 
   const wikidataResults = await Promise.all(lookupTasks);
 
-  const updates: Array<Promise<IndexableThing>> = [];
+  const updates: Array<Promise<ThingInstance>> = [];
   wikidataThings.forEach((thing, index) => {
     const descriptionSync = thing.sync?.description;
     const result = wikidataResults[index];
@@ -80,7 +79,7 @@ async function syncWikidata(): Promise<void> {
       thing.metadata.description = adapterDescription;
       descriptionSync.updated = new Date();
       descriptionSync.source = 'wikidata';
-      updates.push(thing.save() as Promise<IndexableThing>);
+      updates.push(thing.save() as Promise<ThingInstance>);
     }
   });
 
@@ -88,8 +87,11 @@ async function syncWikidata(): Promise<void> {
   console.log(`Sync complete. ${updatedThings.length} items updated.`);
   console.log('Updating search index now.');
 
-  await Promise.all(updatedThings.map(record => search.indexThing(record)));
-  console.log('Search index updated.');
+  await Promise.all(updatedThings.map(record => searchOutbox.queueThing(record)));
+  const { processed, failed } = await searchOutbox.processDue();
+  console.log(
+    `Search index updated (${processed} updates, ${failed} failed and queued for retry).`
+  );
 }
 
 // From an array of URLs, return the first one (if any) that matches the
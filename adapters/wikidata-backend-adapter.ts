@@ -47,6 +47,7 @@ export default class WikidataBackendAdapter extends AbstractBackendAdapter {
     this.supportedPattern = /^http(s)*:\/\/(www.)*wikidata.org\/(entity|wiki)\/(Q\d+)(?:#.*)?$/i;
     this.supportedFields = ['label', 'description'];
     this.sourceID = 'wikidata';
+    this.schemaType = 'CreativeWork';
     this.sourceURL = 'https://www.wikidata.org/';
     this.throttleMs = 0; // No throttling for Wikidata
   }
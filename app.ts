@@ -35,6 +35,8 @@ import clientAssets from './util/client-assets.ts';
 import { csrfSynchronisedProtection, invalidCsrfTokenError } from './util/csrf.ts';
 import debug from './util/debug.ts';
 import flashStore from './util/flash-store.ts';
+import webhookDeliveries from './util/webhook-deliveries.ts';
+import webHookEvents from './util/webhook-events.ts';
 import WebHookDispatcher from './util/webhooks.ts';
 import './util/handlebars-helpers.ts';
 import languages from './locales/languages.ts';
@@ -149,6 +151,11 @@ async function getApp(): Promise<express.Express> {
   const { default: api } = await import('./routes/api.ts');
   const { default: pages } = await import('./routes/pages.ts');
   const { default: blogPosts } = await import('./routes/blog-posts.ts');
+  const { default: embeds } = await import('./routes/embeds.ts');
+  const { default: sitemaps } = await import('./routes/sitemaps.ts');
+  const { default: activityPubRoutes } = await import('./routes/activitypub.ts');
+  const { endpointRouter: webmentionEndpoint, moderationRouter: webmentionModeration } =
+    await import('./routes/webmentions.ts');
   const { stage1Router, stage2Router } = await import('./routes/uploads.ts');
 
   // Ensure DAL pool is initialized and typed for connect-pg-simple
@@ -248,7 +255,7 @@ async function getApp(): Promise<express.Express> {
 
   app.use('/robots.txt', (_req, res) => {
     res.type('text');
-    res.send('User-agent: *\nDisallow: /api/\n');
+    res.send(`User-agent: *\nDisallow: /api/\nSitemap: ${config.qualifiedURL}sitemap.xml\n`);
   });
 
   // Initialize Passport and restore authentication state, if any, from the session.
@@ -257,9 +264,15 @@ async function getApp(): Promise<express.Express> {
 
   // API requests do not require CSRF tokens (hence declared before CSRF middleware),
   // but session-authenticated POST requests do require the X-Requested-With header to be set,
-  // which ensures they're subject to CORS rules. This middleware also sets req.isAPI to true.
+  // which ensures they're subject to CORS rules. Requests carrying a personal access token are
+  // authenticated here instead. This middleware also sets req.isAPI to true.
   app.use('/api', apiHelper.prepareRequest);
 
+  // ActivityPub inboxes verify signatures over the raw body and are posted to
+  // by other servers, so they come before body parsing and CSRF protection.
+  // In maintenance mode, they are left to the maintenance handler below.
+  if (!config.maintenanceMode) app.use('/', activityPubRoutes);
+
   app.use(bodyParser.json());
   app.use(
     bodyParser.urlencoded({
@@ -292,16 +305,21 @@ async function getApp(): Promise<express.Express> {
   });
 
   app.use('/api', api);
+  // Other sites send Webmentions without a CSRF token
+  app.use('/', webmentionEndpoint);
   // Register CSRF middleware early so templated routes can call req.csrfToken().
   // Multipart uploads validate CSRF after Multer has populated req.body.
   app.use(csrfSynchronisedProtection);
   app.use('/', stage1Router);
+  app.use('/', webmentionModeration);
   app.use('/', pages);
   app.use('/', reviews);
   app.use('/', actions);
   app.use('/', teams);
   app.use('/', files);
   app.use('/', blogPosts);
+  app.use('/', embeds);
+  app.use('/', sitemaps);
   app.use('/', stage2Router);
   app.use('/user', users);
   // Goes last to avoid accidental overlap w/ reserved routes
@@ -328,8 +346,12 @@ async function getApp(): Promise<express.Express> {
   app.use(errorProvider.generic);
 
   // Webhooks let us notify other applications and services (local or remote) when something happens.
-  // See configuration for the webHooks block to adjust behaviour.
-  app.locals.webHooks = new WebHookDispatcher(config.webHooks);
+  // See configuration for the webHooks block to adjust behaviour. Deliveries are
+  // stored, so failed ones can be retried (see util/webhook-deliveries.ts).
+  const webHooks = new WebHookDispatcher(config.webHooks, { store: webhookDeliveries });
+  app.locals.webHooks = webHooks;
+  // Models and routes emit the events listed in util/webhook-events.ts
+  webHookEvents.setDispatcher(webHooks);
 
   await Promise.all(asyncJobs);
   const mode = app.get('env') === 'production' ? 'PRODUCTION' : 'DEVELOPMENT';
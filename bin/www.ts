@@ -17,6 +17,14 @@ async function runWebsite(): Promise<void> {
   const { default: getApp } = await import('../app.ts');
   const app = await getApp();
 
+  // Send queued search index updates to the search backend in the background
+  const { default: searchOutbox } = await import('../search/outbox.ts');
+  searchOutbox.startWorker();
+
+  // Retry failed webhook deliveries in the background
+  const { default: webhookDeliveries } = await import('../util/webhook-deliveries.ts');
+  webhookDeliveries.startWorker(app.locals.webHooks);
+
   const httpsConfig: HTTPSConfig | null = config.has('https')
     ? config.get<HTTPSConfig>('https')
     : null;
@@ -14,14 +14,17 @@ import { setBootstrapResolver } from 'rev-dal/lib/model-handle';
 
 import type { DataAccessLayer, JsonObject, ModelConstructor } from 'rev-dal/lib/model-types';
 import '../models/account-request.ts';
+import '../models/api-token.ts';
 import '../models/blog-post.ts';
 import '../models/file.ts';
 import '../models/invite-link.ts';
 import '../models/password-reset-token.ts';
 import '../models/review.ts';
+import '../models/saved-search.ts';
 import '../models/team.ts';
 import '../models/team-join-request.ts';
 import '../models/team-slug.ts';
+import '../models/team-webhook.ts';
 import '../models/thing.ts';
 import '../models/thing-slug.ts';
 import '../models/user.ts';
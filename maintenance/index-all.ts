@@ -1,14 +1,23 @@
-// Set up indices and update all reviews and review subjects (things)
+// Set up indices and update all reviews, review subjects (things), teams, users
+// and team blog posts in place.
+// To rebuild the index after a mapping change, use search-index.ts reindex.
 
 import promiseLimit from 'promise-limit';
 import { initializeDAL } from '../bootstrap/dal.ts';
+import BlogPost from '../models/blog-post.ts';
 import Review from '../models/review.js';
+import Team from '../models/team.ts';
 import Thing from '../models/thing.js';
+import User from '../models/user.ts';
+import searchOutbox from '../search/outbox.ts';
 import search from '../search.ts';
 import debug from '../util/debug.ts';
 
 type IndexableThing = Parameters<typeof search.indexThing>[0];
 type IndexableReview = Parameters<typeof search.indexReview>[0];
+type IndexableTeam = Parameters<typeof search.indexTeam>[0];
+type IndexableUser = Parameters<typeof search.indexUser>[0];
+type IndexableBlogPost = Parameters<typeof search.indexBlogPost>[0];
 
 const limit = promiseLimit<unknown>(2); // Throttle index updates
 
@@ -35,17 +44,37 @@ async function updateIndices(): Promise<void> {
   }
 
   const createIndicesPromise = search.createIndices();
-  const [things, reviews] = await Promise.all([
+  const [things, reviews, teams, users, blogPosts] = await Promise.all([
     Thing.filterWhere({}).run() as Promise<IndexableThing[]>,
-    Review.filterWhere({}).run() as Promise<IndexableReview[]>,
+    Review.filterWhere({}).getJoin({ teams: true }).run() as Promise<IndexableReview[]>,
+    Team.filterWhere({}).run() as Promise<IndexableTeam[]>,
+    User.filterWhere({}).getJoin({ meta: true }).run() as Promise<IndexableUser[]>,
+    BlogPost.filterWhere({}).run() as Promise<IndexableBlogPost[]>,
   ]);
   await createIndicesPromise;
 
-  debug.util(`Found ${things.length} things and ${reviews.length} reviews to index`);
+  debug.util(
+    `Found ${things.length} things, ${reviews.length} reviews, ${teams.length} teams, ` +
+      `${users.length} users and ${blogPosts.length} blog posts to index`
+  );
 
+  // Failed updates are left to the outbox worker to retry
   const indexUpdates: Array<Promise<unknown>> = [
-    ...things.map(thing => limit(() => search.indexThing(thing))),
-    ...reviews.map(review => limit(() => search.indexReview(review))),
+    ...things.map(thing =>
+      limit(() => search.indexThing(thing).catch(() => searchOutbox.queueThing(thing)))
+    ),
+    ...reviews.map(review =>
+      limit(() => search.indexReview(review).catch(() => searchOutbox.queueReview(review)))
+    ),
+    ...teams.map(team =>
+      limit(() => search.indexTeam(team).catch(() => searchOutbox.queueTeam(team)))
+    ),
+    ...users.map(user =>
+      limit(() => search.indexUser(user).catch(() => searchOutbox.queueUser(user)))
+    ),
+    ...blogPosts.map(post =>
+      limit(() => search.indexBlogPost(post).catch(() => searchOutbox.queueBlogPost(post)))
+    ),
   ];
 
   await Promise.all(indexUpdates);
@@ -0,0 +1,96 @@
+// Sends email alerts about new results of saved searches. Meant to be run
+// periodically, e.g. hourly via cron; each run covers the results created
+// since the previous one.
+import url from 'node:url';
+import config from 'config';
+import mlString, { type MultilingualString } from 'rev-dal/lib/ml-string';
+import { initializeDAL } from '../bootstrap/dal.ts';
+import SavedSearch, {
+  type SavedSearchInstance,
+  type SavedSearchMatches,
+} from '../models/saved-search.ts';
+import Thing from '../models/thing.ts';
+import User from '../models/user.ts';
+import debug from '../util/debug.ts';
+import { sendSavedSearchAlert } from '../util/email.ts';
+
+// Commonly run from command-line, force output
+debug.util.enabled = true;
+debug.errorLog.enabled = true;
+
+const qualify = (path: string) => url.resolve(config.qualifiedURL, path);
+
+function getAlertResults(matches: SavedSearchMatches, lang: string) {
+  const things = matches.things.hits.map(hit => ({
+    title: Thing.getLabel(hit, lang) ?? hit.urlID,
+    url: qualify(`/${hit.urlID}`),
+  }));
+  const reviews = matches.reviews.hits.map(hit => {
+    const title = mlString.resolve(lang, hit.title as MultilingualString)?.str;
+    const thingLabel = hit.thing ? Thing.getLabel(hit.thing, lang) : undefined;
+    return {
+      title: [title, thingLabel].filter(Boolean).join(' – ') || hit.id,
+      url: qualify(`/review/${hit.id}`),
+    };
+  });
+  return [...things, ...reviews];
+}
+
+async function sendAlert(savedSearch: SavedSearchInstance): Promise<boolean> {
+  const { until, ...matches } = await savedSearch.checkForNewMatches();
+  const total = matches.things.total + matches.reviews.total;
+  const user = total
+    ? await User.filterWhere({ id: savedSearch.userID }).includeSensitive(['email']).first()
+    : null;
+  if (!user?.email) {
+    await savedSearch.markChecked(until);
+    return false;
+  }
+
+  const results = getAlertResults(matches, savedSearch.lang);
+  await sendSavedSearchAlert(
+    user.email,
+    {
+      query: savedSearch.query,
+      results,
+      moreResults: total - results.length,
+      searchURL: qualify(savedSearch.getSearchURL()),
+      manageURL: qualify(`/user/${user.urlName}/settings/searches`),
+    },
+    savedSearch.lang
+  );
+  // Only now, so that a failed alert is sent again next time
+  await savedSearch.markChecked(until);
+  return true;
+}
+
+async function sendSavedSearchAlerts(): Promise<void> {
+  await initializeDAL();
+
+  const savedSearches = await SavedSearch.getWithEmailAlerts();
+  let sent = 0;
+  let failed = 0;
+  for (const savedSearch of savedSearches) {
+    try {
+      if (await sendAlert(savedSearch)) sent++;
+    } catch (error) {
+      // A search that fails before it is marked as checked is retried next time
+      debug.error(`Could not check saved search ${savedSearch.id}:`, error);
+      failed++;
+    }
+  }
+
+  debug.util(
+    `Saved search alerts: checked ${savedSearches.length} searches, sent ${sent} alerts` +
+      (failed ? `, ${failed} searches failed` : '')
+  );
+}
+
+sendSavedSearchAlerts()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    debug.error('Problem sending saved search alerts:', error);
+    process.exit(1);
+  });
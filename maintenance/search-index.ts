@@ -0,0 +1,204 @@
+// Manage the versioned ElasticSearch indices behind the search alias:
+// rebuild the index without downtime, list versions, and prune old ones.
+
+import { parseArgs } from 'node:util';
+import config from 'config';
+import promiseLimit from 'promise-limit';
+import { initializeDAL } from '../bootstrap/dal.ts';
+import BlogPost from '../models/blog-post.ts';
+import Review from '../models/review.js';
+import Team from '../models/team.ts';
+import Thing from '../models/thing.js';
+import User from '../models/user.ts';
+import elasticsearchBackend from '../search/elasticsearch.ts';
+import searchOutbox from '../search/outbox.ts';
+import debug from '../util/debug.ts';
+
+type IndexableThing = Parameters<typeof elasticsearchBackend.indexThing>[0];
+type IndexableReview = Parameters<typeof elasticsearchBackend.indexReview>[0];
+type IndexableTeam = Parameters<typeof elasticsearchBackend.indexTeam>[0];
+type IndexableUser = Parameters<typeof elasticsearchBackend.indexUser>[0];
+type IndexableBlogPost = Parameters<typeof elasticsearchBackend.indexBlogPost>[0];
+
+type IndexableDocuments = {
+  things: IndexableThing[];
+  reviews: IndexableReview[];
+  teams: IndexableTeam[];
+  users: IndexableUser[];
+  blogPosts: IndexableBlogPost[];
+};
+
+const limit = promiseLimit<unknown>(2); // Throttle index updates
+
+const options = {
+  keep: {
+    type: 'string',
+    default: '1',
+  },
+  help: {
+    type: 'boolean',
+  },
+} as const;
+
+const { values, positionals } = parseArgs({
+  options,
+  args: process.argv.slice(2),
+  allowPositionals: true,
+});
+
+const usage = `
+Usage: maintenance/search-index.ts <command> [options]
+
+Commands:
+  reindex           Build a new index version from the database and switch
+                    the search alias to it once it is complete.
+  list              List all index versions and show which one is current.
+  prune             Delete index versions the search alias does not point to,
+                    including newer ones left behind by a failed reindex.
+
+Options:
+  --keep <n>        Number of previous versions that prune retains. (default: 1)
+  --help            Show this help message.
+`;
+
+// Commonly run from command-line, force output
+debug.util.enabled = true;
+debug.errorLog.enabled = true;
+
+async function loadDocuments(): Promise<IndexableDocuments> {
+  const [things, reviews, teams, users, blogPosts] = await Promise.all([
+    Thing.filterWhere({}).run() as Promise<IndexableThing[]>,
+    Review.filterWhere({}).getJoin({ teams: true }).run() as Promise<IndexableReview[]>,
+    Team.filterWhere({}).run() as Promise<IndexableTeam[]>,
+    User.filterWhere({}).getJoin({ meta: true }).run() as Promise<IndexableUser[]>,
+    BlogPost.filterWhere({}).run() as Promise<IndexableBlogPost[]>,
+  ]);
+  return { things, reviews, teams, users, blogPosts };
+}
+
+const countDocuments = (documents: Partial<IndexableDocuments>) =>
+  Object.values(documents).reduce((sum, list) => sum + list.length, 0);
+
+// The documents in `previous` that are missing from `current`
+function getDeletedDocuments(
+  previous: IndexableDocuments,
+  current: IndexableDocuments
+): { [Key in keyof IndexableDocuments]: Array<{ id: string }> } {
+  const missing = (before: Array<{ id: string }>, after: Array<{ id: string }>) => {
+    const ids = new Set(after.map(doc => doc.id));
+    return before.filter(doc => !ids.has(doc.id));
+  };
+  return {
+    things: missing(previous.things, current.things),
+    reviews: missing(previous.reviews, current.reviews),
+    teams: missing(previous.teams, current.teams),
+    users: missing(previous.users, current.users),
+    blogPosts: missing(previous.blogPosts, current.blogPosts),
+  };
+}
+
+async function reindex(): Promise<void> {
+  await initializeDAL();
+  const startedOn = new Date();
+
+  const index = await elasticsearchBackend.createIndexVersion();
+  debug.util(`Created index ${index}`);
+
+  const documents = await loadDocuments();
+  debug.util(`Indexing ${countDocuments(documents)} documents into ${index}`);
+  await Promise.all([
+    ...documents.things.map(thing => limit(() => elasticsearchBackend.indexThing(thing, index))),
+    ...documents.reviews.map(review =>
+      limit(() => elasticsearchBackend.indexReview(review, index))
+    ),
+    ...documents.teams.map(team => limit(() => elasticsearchBackend.indexTeam(team, index))),
+    ...documents.users.map(user => limit(() => elasticsearchBackend.indexUser(user, index))),
+    ...documents.blogPosts.map(post =>
+      limit(() => elasticsearchBackend.indexBlogPost(post, index))
+    ),
+  ]);
+
+  await elasticsearchBackend.switchAlias(index);
+  debug.util(`Search alias now points to ${index}`);
+
+  // Edits made while the new index was being built only reached the old
+  // index, so queue them again now that writes go to the new one.
+  const current = await loadDocuments();
+  const isNew = (date?: Date | null) => !date || date >= startedOn;
+  const changedSince = (doc: { _revDate?: Date | null }) => isNew(doc._revDate);
+  const changed = {
+    things: current.things.filter(changedSince),
+    reviews: current.reviews.filter(changedSince),
+    teams: current.teams.filter(changedSince),
+    // Users have no revisions, but their bios do
+    users: current.users.filter(
+      user => isNew(user.registrationDate) || Boolean(user.meta && changedSince(user.meta))
+    ),
+    blogPosts: current.blogPosts.filter(changedSince),
+  };
+  const deleted = getDeletedDocuments(documents, current);
+  debug.util(
+    `Catching up on ${countDocuments(changed)} changed and ` +
+      `${countDocuments(deleted)} deleted documents`
+  );
+  await Promise.all([
+    ...changed.things.map(thing => searchOutbox.queueThing(thing)),
+    ...changed.reviews.map(review => searchOutbox.queueReview(review)),
+    ...changed.teams.map(team => searchOutbox.queueTeam(team)),
+    ...changed.users.map(user => searchOutbox.queueUser(user)),
+    ...changed.blogPosts.map(post => searchOutbox.queueBlogPost(post)),
+    ...deleted.reviews.map(review => searchOutbox.queueReviewDeletion(review)),
+    ...deleted.things.map(thing => searchOutbox.queueThingDeletion(thing)),
+    ...deleted.teams.map(team => searchOutbox.queueTeamDeletion(team)),
+    ...deleted.users.map(user => searchOutbox.queueUserDeletion(user)),
+    ...deleted.blogPosts.map(post => searchOutbox.queueBlogPostDeletion(post)),
+  ]);
+  const { failed } = await searchOutbox.processDue();
+  if (failed) debug.util(`${failed} updates failed and remain queued for retry`);
+}
+
+async function list(): Promise<void> {
+  const versions = await elasticsearchBackend.listIndexVersions();
+  if (!versions.length) {
+    console.log('No versioned search indices found.');
+    return;
+  }
+  for (const version of versions) {
+    console.log(
+      `${version.isCurrent ? '*' : ' '} ${version.name}\t${version.documents} documents\t` +
+        `created ${version.createdOn.toISOString()}`
+    );
+  }
+}
+
+async function prune(): Promise<void> {
+  const keep = Number(values.keep);
+  if (!Number.isInteger(keep) || keep < 0)
+    throw new Error(`--keep must be a non-negative integer, got "${values.keep}".`);
+  const deleted = await elasticsearchBackend.pruneIndexVersions(keep);
+  debug.util(deleted.length ? `Deleted ${deleted.join(', ')}` : 'Nothing to prune.');
+}
+
+const commands: Record<string, () => Promise<void>> = { reindex, list, prune };
+const command = commands[positionals[0]];
+
+if (values.help || !command) {
+  console.log(usage);
+  process.exit(values.help ? 0 : 1);
+}
+
+if ((config.search.backend ?? 'elasticsearch') !== 'elasticsearch') {
+  console.error('Search index versions only exist for the ElasticSearch backend.');
+  process.exit(1);
+}
+
+command()
+  .then(() => {
+    elasticsearchBackend.close();
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    debug.error(`Problem running search index command "${positionals[0]}". The error was:`);
+    debug.error(error instanceof Error ? error : new Error(String(error)));
+    process.exit(1);
+  });
@@ -0,0 +1,96 @@
+// Inspect and replay the outbox of search index updates (see search/outbox.ts).
+
+import { parseArgs } from 'node:util';
+import { initializeDAL } from '../bootstrap/dal.ts';
+import searchOutbox, { type OutboxStatus } from '../search/outbox.ts';
+import search from '../search.ts';
+import debug from '../util/debug.ts';
+
+const options = {
+  id: {
+    type: 'string',
+    multiple: true,
+  },
+  failed: {
+    type: 'boolean',
+  },
+  help: {
+    type: 'boolean',
+  },
+} as const;
+
+const { values, positionals } = parseArgs({
+  options,
+  args: process.argv.slice(2),
+  allowPositionals: true,
+});
+
+const usage = `
+Usage: maintenance/search-outbox.ts <command> [options]
+
+Commands:
+  show              List queued search index updates with their last error.
+  replay            Make failed updates due again and process the outbox.
+  process           Process all updates that are due now.
+
+Options:
+  --failed          show: Only list updates that have exhausted their retries.
+  --id <id>         replay: Only replay the given item(s). Can be specified
+                    multiple times. (default: all failed items)
+  --help            Show this help message.
+`;
+
+// Commonly run from command-line, force output
+debug.util.enabled = true;
+debug.errorLog.enabled = true;
+
+async function show(): Promise<void> {
+  const status: OutboxStatus | undefined = values.failed ? 'failed' : undefined;
+  const items = await searchOutbox.list(status);
+  if (!items.length) {
+    console.log('The search index outbox is empty.');
+    return;
+  }
+  for (const item of items) {
+    console.log(
+      `${item.id}\t${item.status}\t${item.operation} ${item.documentType} ${item.documentID}\t` +
+        `${item.attempts} attempts\tnext ${item.nextAttemptAt.toISOString()}`
+    );
+    if (item.lastError) console.log(`\tLast error: ${item.lastError}`);
+  }
+}
+
+async function processOutbox(): Promise<void> {
+  const { processed, failed } = await searchOutbox.processDue();
+  debug.util(`Processed ${processed} search index updates, ${failed} failed.`);
+}
+
+async function replay(): Promise<void> {
+  const replayed = await searchOutbox.replayFailed(values.id);
+  debug.util(`Replaying ${replayed} failed search index updates.`);
+  await processOutbox();
+}
+
+const commands: Record<string, () => Promise<void>> = {
+  show,
+  replay,
+  process: processOutbox,
+};
+const command = commands[positionals[0]];
+
+if (values.help || !command) {
+  console.log(usage);
+  process.exit(values.help ? 0 : 1);
+}
+
+initializeDAL()
+  .then(command)
+  .then(() => {
+    search.close();
+    process.exit(0);
+  })
+  .catch((error: unknown) => {
+    debug.error(`Problem running search outbox command "${positionals[0]}". The error was:`);
+    debug.error(error instanceof Error ? error : new Error(String(error)));
+    process.exit(1);
+  });
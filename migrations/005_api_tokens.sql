@@ -0,0 +1,24 @@
+-- Personal access tokens for authenticating API requests without a session
+
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL,
+  token_prefix VARCHAR(16) NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT api_tokens_user_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT api_tokens_token_hash_key UNIQUE (token_hash)
+);
+
+CREATE INDEX idx_api_tokens_user_created
+  ON api_tokens(user_id, created_at DESC)
+  WHERE revoked_at IS NULL;
+
+COMMENT ON COLUMN api_tokens.token_hash IS 'SHA-256 hex digest of the token secret. The secret itself is only shown once, when the token is created.';
+COMMENT ON COLUMN api_tokens.token_prefix IS 'Leading characters of the secret, shown in the token list so users can tell tokens apart.';
@@ -0,0 +1,22 @@
+-- Full-text search vectors for the PostgreSQL search backend (search/postgres.ts).
+-- All languages share one vector without stemming, since the language of each
+-- value is only known from its JSONB key.
+
+ALTER TABLE things ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('simple', coalesce(label, '{}'::jsonb), '["string"]'), 'A') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(aliases, '{}'::jsonb), '["string"]'), 'B') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(metadata->'subtitle', '{}'::jsonb), '["string"]'), 'B') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(metadata->'authors', '[]'::jsonb), '["string"]'), 'C') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(metadata->'description', '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+ALTER TABLE reviews ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('simple', coalesce(title, '{}'::jsonb), '["string"]'), 'A') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(text, '{}'::jsonb), '["string"]'), 'B')
+) STORED;
+
+CREATE INDEX idx_things_search_vector ON things USING GIN (search_vector);
+CREATE INDEX idx_reviews_search_vector ON reviews USING GIN (search_vector);
+
+COMMENT ON COLUMN things.search_vector IS 'Words of the label, aliases and metadata in all languages, for full-text search.';
+COMMENT ON COLUMN reviews.search_vector IS 'Words of the title and text in all languages, for full-text search.';
@@ -0,0 +1,32 @@
+-- Outbox of search index updates that have not reached the search backend yet.
+-- Processed by the worker in search/outbox.ts; a row is removed once the
+-- backend accepted the update.
+
+CREATE TABLE search_index_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type VARCHAR(16) NOT NULL,
+  document_id UUID NOT NULL,
+  operation VARCHAR(16) NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  version INTEGER NOT NULL DEFAULT 1,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT search_index_outbox_document_type_check
+    CHECK (document_type IN ('thing', 'review')),
+  CONSTRAINT search_index_outbox_operation_check
+    CHECK (operation IN ('index', 'delete')),
+  CONSTRAINT search_index_outbox_status_check
+    CHECK (status IN ('pending', 'failed')),
+  CONSTRAINT search_index_outbox_document_key UNIQUE (document_type, document_id)
+);
+
+CREATE INDEX idx_search_index_outbox_due
+  ON search_index_outbox(next_attempt_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN search_index_outbox.version IS 'Incremented whenever the document is queued again, so a worker that is still processing an earlier update does not remove the newer one.';
+COMMENT ON COLUMN search_index_outbox.next_attempt_at IS 'When the item is due. Pushed into the future while a worker holds the item and after failed attempts (exponential backoff).';
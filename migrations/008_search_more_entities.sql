@@ -0,0 +1,30 @@
+-- Full-text search vectors for teams, users and team blog posts (see migration
+-- 006), and outbox entries for these document types (see migration 007).
+
+ALTER TABLE teams ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('simple', coalesce(name, '{}'::jsonb), '["string"]'), 'A') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(motto, '{}'::jsonb), '["string"]'), 'B') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(description->'text', '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+ALTER TABLE users ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(display_name, '')), 'A')
+) STORED;
+
+ALTER TABLE user_metas ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('simple', coalesce(bio->'text', '{}'::jsonb), '["string"]'), 'B')
+) STORED;
+
+ALTER TABLE blog_posts ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('simple', coalesce(title, '{}'::jsonb), '["string"]'), 'A') ||
+  setweight(jsonb_to_tsvector('simple', coalesce(text, '{}'::jsonb), '["string"]'), 'B')
+) STORED;
+
+CREATE INDEX idx_teams_search_vector ON teams USING GIN (search_vector);
+CREATE INDEX idx_users_search_vector ON users USING GIN (search_vector);
+CREATE INDEX idx_user_metas_search_vector ON user_metas USING GIN (search_vector);
+CREATE INDEX idx_blog_posts_search_vector ON blog_posts USING GIN (search_vector);
+
+ALTER TABLE search_index_outbox DROP CONSTRAINT search_index_outbox_document_type_check;
+ALTER TABLE search_index_outbox ADD CONSTRAINT search_index_outbox_document_type_check
+  CHECK (document_type IN ('thing', 'review', 'team', 'user', 'blogPost'));
@@ -0,0 +1,27 @@
+-- Searches that users saved to be notified about new matching reviews and
+-- review subjects, by email or through an Atom feed
+
+CREATE TABLE saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  query VARCHAR(200) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  lang VARCHAR(8) NOT NULL DEFAULT 'en',
+  notify_by_email BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT saved_searches_user_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_saved_searches_user_created
+  ON saved_searches(user_id, created_at DESC);
+
+CREATE INDEX idx_saved_searches_email_due
+  ON saved_searches(last_checked_at)
+  WHERE notify_by_email;
+
+COMMENT ON COLUMN saved_searches.filters IS 'Search filters (language, minRating, teamID, sourceTag) as on the search page.';
+COMMENT ON COLUMN saved_searches.lang IS 'Interface language when the search was saved. Used for language fallback in the search and for alert emails.';
+COMMENT ON COLUMN saved_searches.last_checked_at IS 'Results created before this time have already been sent as alerts.';
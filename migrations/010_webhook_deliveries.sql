@@ -0,0 +1,47 @@
+-- Queue and log of webhook deliveries. Every event is stored once per
+-- configured endpoint and retried by the worker in util/webhook-deliveries.ts
+-- until the endpoint accepts it; every attempt is logged.
+
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event VARCHAR(64) NOT NULL,
+  url TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT webhook_deliveries_status_check
+    CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_webhook_deliveries_created
+  ON webhook_deliveries(created_at DESC);
+
+CREATE TABLE webhook_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ok BOOLEAN NOT NULL,
+  status_code INTEGER,
+  error TEXT,
+
+  CONSTRAINT webhook_delivery_attempts_delivery_fkey
+    FOREIGN KEY (delivery_id) REFERENCES webhook_deliveries(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_webhook_delivery_attempts_delivery
+  ON webhook_delivery_attempts(delivery_id, attempted_at);
+
+COMMENT ON COLUMN webhook_deliveries.headers IS 'Extra HTTP headers sent with the payload, in addition to the Content-Type.';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When the delivery is due. Pushed into the future while a worker holds the delivery and after failed attempts (exponential backoff).';
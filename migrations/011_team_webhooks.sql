@@ -0,0 +1,18 @@
+-- Webhook endpoints registered by team moderators. They receive the events
+-- about the team's reviews and blog posts, in addition to the endpoints in
+-- the webHooks configuration.
+
+CREATE TABLE team_webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT team_webhooks_team_id_fkey FOREIGN KEY (team_id) REFERENCES teams(id),
+  CONSTRAINT team_webhooks_created_by_fkey FOREIGN KEY (created_by) REFERENCES users(id),
+  CONSTRAINT team_webhooks_unique UNIQUE (team_id, url)
+);
+
+COMMENT ON COLUMN team_webhooks.events IS 'Names of the events the endpoint receives, as in util/webhook-events.ts.';
@@ -0,0 +1,26 @@
+-- ActivityPub federation: the key pairs users and teams sign their activities
+-- with, and the remote actors that follow them
+
+CREATE TABLE activitypub_keys (
+  owner_id UUID PRIMARY KEY,
+  public_key TEXT NOT NULL,
+  private_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE activitypub_followers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL,
+  owner_type VARCHAR(8) NOT NULL CHECK (owner_type IN ('user', 'team')),
+  follower_id TEXT NOT NULL,
+  inbox TEXT NOT NULL,
+  shared_inbox TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT activitypub_followers_unique UNIQUE (owner_id, follower_id)
+);
+
+COMMENT ON COLUMN activitypub_keys.owner_id IS 'ID of the user or team whose actor the key pair belongs to.';
+COMMENT ON COLUMN activitypub_followers.owner_id IS 'ID of the followed user or team.';
+COMMENT ON COLUMN activitypub_followers.follower_id IS 'ActivityPub ID of the remote actor.';
+COMMENT ON COLUMN activitypub_followers.shared_inbox IS 'Inbox shared by all actors on the follower''s server, used instead of inbox if set.';
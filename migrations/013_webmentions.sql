@@ -0,0 +1,21 @@
+-- Webmentions: pages elsewhere that link to a review and told us so. Only
+-- mentions whose source was verified to link to the review are stored.
+
+CREATE TABLE webmentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  source TEXT NOT NULL,
+  title TEXT,
+  hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT webmentions_review_id_fkey FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
+  CONSTRAINT webmentions_unique UNIQUE (review_id, source)
+);
+
+CREATE INDEX webmentions_review_id_idx ON webmentions (review_id, created_at);
+
+COMMENT ON COLUMN webmentions.source IS 'URL of the page that links to the review.';
+COMMENT ON COLUMN webmentions.title IS 'Title of the source page when it was last verified.';
+COMMENT ON COLUMN webmentions.hidden IS 'Set by moderators for spam; hidden mentions are not shown on the review page.';
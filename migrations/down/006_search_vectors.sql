@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_reviews_search_vector;
+DROP INDEX IF EXISTS idx_things_search_vector;
+ALTER TABLE reviews DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE things DROP COLUMN IF EXISTS search_vector;
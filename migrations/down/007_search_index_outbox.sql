@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_search_index_outbox_due;
+DROP TABLE IF EXISTS search_index_outbox;
@@ -0,0 +1,13 @@
+DELETE FROM search_index_outbox WHERE document_type NOT IN ('thing', 'review');
+ALTER TABLE search_index_outbox DROP CONSTRAINT search_index_outbox_document_type_check;
+ALTER TABLE search_index_outbox ADD CONSTRAINT search_index_outbox_document_type_check
+  CHECK (document_type IN ('thing', 'review'));
+
+DROP INDEX IF EXISTS idx_blog_posts_search_vector;
+DROP INDEX IF EXISTS idx_user_metas_search_vector;
+DROP INDEX IF EXISTS idx_users_search_vector;
+DROP INDEX IF EXISTS idx_teams_search_vector;
+ALTER TABLE blog_posts DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE user_metas DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE users DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE teams DROP COLUMN IF EXISTS search_vector;
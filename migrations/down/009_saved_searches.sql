@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_saved_searches_email_due;
+DROP INDEX IF EXISTS idx_saved_searches_user_created;
+DROP TABLE IF EXISTS saved_searches;
@@ -0,0 +1,153 @@
+import { createHash, randomBytes } from 'node:crypto';
+import isUUID from 'is-uuid';
+
+import { defineInstanceMethods, defineModel, defineStaticMethods } from 'rev-dal/lib/create-model';
+import debug from '../util/debug.ts';
+import apiTokenManifest, {
+  type ApiTokenInstance,
+  type ApiTokenInstanceMethods,
+  type ApiTokenModel,
+  type ApiTokenScope,
+  type ApiTokenStaticMethods,
+  apiTokenOptions,
+} from './manifests/api-token.ts';
+
+// Avoid writing to the database on every API call made with the same token
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+const apiTokenStaticMethods = defineStaticMethods(apiTokenManifest, {
+  /**
+   * Create a new token for a user. Only a hash of the secret is stored, so
+   * the returned secret must be shown to the user right away.
+   *
+   * @param userID - User the token authenticates as
+   * @param name - Label chosen by the user to identify the token
+   * @param scopes - Write permissions granted to the token
+   * @returns The persisted token and its plain-text secret
+   */
+  async issue(userID: string, name: string, scopes: ApiTokenScope[]) {
+    const secret = `${apiTokenOptions.secretPrefix}${randomBytes(32).toString('base64url')}`;
+
+    const token = new this({}) as ApiTokenInstance;
+    token.userID = userID;
+    token.name = name;
+    token.scopes = [...new Set(scopes)];
+    token.tokenHash = this.hashSecret(secret);
+    token.tokenPrefix = secret.slice(0, apiTokenOptions.displayPrefixLength);
+    token.createdAt = new Date();
+
+    await token.save();
+    return { token, secret };
+  },
+
+  /**
+   * Look up an active (unrevoked) token by its plain-text secret.
+   *
+   * @param secret - Secret as sent by the client
+   * @returns Token instance or null if the secret is unknown or revoked
+   */
+  async findBySecret(secret: string) {
+    if (typeof secret !== 'string' || !secret.startsWith(apiTokenOptions.secretPrefix)) {
+      return null;
+    }
+
+    try {
+      const token = (await this.filterWhere({
+        tokenHash: this.hashSecret(secret),
+        revokedAt: null,
+      })
+        .includeSensitive(['tokenHash'])
+        .first()) as ApiTokenInstance | null;
+      return token ?? null;
+    } catch (error) {
+      debug.error('Failed to look up API token:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Get the tokens a user has not revoked, newest first.
+   *
+   * @param userID - Owner of the tokens
+   * @returns Active tokens (without their hashes)
+   */
+  async getActiveForUser(userID: string) {
+    if (!userID) return [];
+
+    return (await this.filterWhere({ userID, revokedAt: null })
+      .orderBy('createdAt', 'DESC')
+      .run()) as ApiTokenInstance[];
+  },
+
+  /**
+   * Revoke one of a user's tokens. Tokens belonging to other users are left
+   * untouched.
+   *
+   * @param tokenID - Token identifier (UUID v4)
+   * @param userID - User who must own the token
+   * @returns True if an active token was revoked
+   */
+  async revoke(tokenID: string, userID: string) {
+    if (!tokenID || !isUUID.v4(tokenID) || !userID) return false;
+
+    const token = (await this.filterWhere({ id: tokenID, userID, revokedAt: null })
+      .includeSensitive(['tokenHash'])
+      .first()) as ApiTokenInstance | null;
+    if (!token) return false;
+
+    token.revokedAt = new Date();
+    await token.save();
+    return true;
+  },
+
+  /**
+   * Compute the digest under which a secret is stored.
+   *
+   * @param secret - Plain-text token secret
+   * @returns Hex-encoded SHA-256 digest
+   */
+  hashSecret(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  },
+}) satisfies ApiTokenStaticMethods;
+
+const apiTokenInstanceMethods = defineInstanceMethods(apiTokenManifest, {
+  /**
+   * Check whether the token grants the given scope.
+   *
+   * @param scope - Scope required by the route
+   * @returns True when the scope was granted
+   */
+  hasScope(scope: ApiTokenScope) {
+    return Array.isArray(this.scopes) && this.scopes.includes(scope);
+  },
+
+  /**
+   * Record that the token was just used. Updates are skipped if the token
+   * was already marked as used within the last few minutes.
+   */
+  async markAsUsed() {
+    const now = new Date();
+    if (this.lastUsedAt && now.getTime() - this.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS)
+      return;
+    this.lastUsedAt = now;
+    await this.save();
+  },
+}) satisfies ApiTokenInstanceMethods;
+
+const ApiToken = defineModel(apiTokenManifest, {
+  statics: {
+    options: apiTokenOptions,
+  },
+  staticMethods: apiTokenStaticMethods,
+  instanceMethods: apiTokenInstanceMethods,
+}) as ApiTokenModel;
+
+export default ApiToken;
+export type {
+  ApiTokenInstance,
+  ApiTokenInstanceMethods,
+  ApiTokenModel,
+  ApiTokenScope,
+  ApiTokenStaticMethods,
+} from './manifests/api-token.ts';
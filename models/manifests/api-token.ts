@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto';
+
+import dal from 'rev-dal';
+import type { ManifestBundle, ManifestInstance } from 'rev-dal/lib/create-model';
+import { referenceModel } from 'rev-dal/lib/model-handle';
+import type { ModelManifest } from 'rev-dal/lib/model-manifest';
+
+const { types } = dal;
+
+/**
+ * Scopes that can be granted to a personal access token. Read access to the
+ * API does not require a scope; each scope unlocks one group of write routes.
+ */
+export const apiTokenScopes = ['review:write', 'upload', 'preferences'] as const;
+export type ApiTokenScope = (typeof apiTokenScopes)[number];
+
+export const apiTokenOptions = {
+  maxNameLength: 100,
+  // Prepended to every secret so tokens are easy to recognize (e.g., by
+  // secret scanners) and so we can reject malformed values without a query.
+  secretPrefix: 'lrpat_',
+  // Number of characters of the secret that are stored and displayed in the clear
+  displayPrefixLength: 12,
+} as const;
+
+export const isApiTokenScope = (value: unknown): value is ApiTokenScope =>
+  typeof value === 'string' && (apiTokenScopes as readonly string[]).includes(value);
+
+const apiTokenManifest = {
+  tableName: 'api_tokens',
+  hasRevisions: false as const,
+  schema: {
+    id: types
+      .string()
+      .uuid(4)
+      .default(() => randomUUID()),
+    userID: types.string().uuid(4).required(true),
+    name: types.string().max(apiTokenOptions.maxNameLength).required(true),
+    tokenHash: types.string().max(64).required(true).sensitive(),
+    tokenPrefix: types.string().max(16).required(true),
+    scopes: types.array(types.string().validator(isApiTokenScope)),
+    createdAt: types.date().default(() => new Date()),
+    lastUsedAt: types.date(),
+    revokedAt: types.date(),
+  },
+  camelToSnake: {
+    userID: 'user_id',
+    tokenHash: 'token_hash',
+    tokenPrefix: 'token_prefix',
+    createdAt: 'created_at',
+    lastUsedAt: 'last_used_at',
+    revokedAt: 'revoked_at',
+  },
+} as const satisfies ModelManifest;
+
+export type ApiTokenInstanceMethodsMap = {
+  hasScope(scope: ApiTokenScope): boolean;
+  markAsUsed(): Promise<void>;
+};
+export type ApiTokenInstance = ManifestInstance<
+  typeof apiTokenManifest,
+  ApiTokenInstanceMethodsMap
+>;
+
+/** Result of issuing a token. `secret` is never persisted and cannot be recovered. */
+export interface ApiTokenIssueResult {
+  token: ApiTokenInstance;
+  secret: string;
+}
+
+export type ApiTokenStaticMethodsMap = {
+  issue(userID: string, name: string, scopes: ApiTokenScope[]): Promise<ApiTokenIssueResult>;
+  findBySecret(secret: string): Promise<ApiTokenInstance | null>;
+  getActiveForUser(userID: string): Promise<ApiTokenInstance[]>;
+  revoke(tokenID: string, userID: string): Promise<boolean>;
+  hashSecret(secret: string): string;
+};
+type ApiTokenTypes = ManifestBundle<
+  typeof apiTokenManifest,
+  Record<never, never>,
+  ApiTokenStaticMethodsMap,
+  ApiTokenInstanceMethodsMap
+>;
+export type ApiTokenInstanceMethods = ApiTokenTypes['InstanceMethods'];
+export type ApiTokenStaticMethods = ApiTokenTypes['StaticMethods'];
+export type ApiTokenModel = ApiTokenTypes['Model'] & { options: typeof apiTokenOptions };
+
+/**
+ * Lazy reference to the ApiToken model for use in other manifests.
+ */
+export function referenceApiToken(): ApiTokenModel {
+  return referenceModel(apiTokenManifest) as ApiTokenModel;
+}
+
+export default apiTokenManifest;
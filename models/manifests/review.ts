@@ -22,6 +22,7 @@ export interface ReviewFeedOptions {
   offsetDate?: Date;
   onlyTrusted?: boolean;
   thingID?: string;
+  teamID?: string;
   withThing?: boolean;
   withTeams?: boolean;
   withoutCreator?: string;
@@ -0,0 +1,115 @@
+import { randomUUID } from 'node:crypto';
+
+import dal from 'rev-dal';
+import type { ManifestBundle, ManifestInstance } from 'rev-dal/lib/create-model';
+import { referenceModel } from 'rev-dal/lib/model-handle';
+import type { ModelManifest } from 'rev-dal/lib/model-manifest';
+import languages from '../../locales/languages.ts';
+import type {
+  ReviewSearchPage,
+  SearchFilters,
+  SearchPage,
+  SearchPageOptions,
+  ThingSearchHit,
+} from '../../search/backend.ts';
+
+const { types } = dal;
+const { isValid: isValidLanguage } = languages as { isValid: (code: string) => boolean };
+
+export const savedSearchOptions = {
+  maxQueryLength: 200,
+  // Saved searches per user, to keep the periodic matcher cheap
+  maxPerUser: 50,
+  // Results must be this old before alerts include them, so that updates
+  // still waiting in the search index outbox are not skipped
+  alertDelayMs: 10 * 60 * 1000,
+  // Results per kind (review subjects, reviews) in one alert or feed
+  maxResults: 20,
+} as const;
+
+/** Filters from the search page that can be saved with a search. */
+export type SavedSearchFilters = Pick<
+  SearchFilters,
+  'language' | 'minRating' | 'teamID' | 'sourceTag'
+>;
+
+/** Review subjects and reviews matching a saved search, newest first. */
+export interface SavedSearchMatches {
+  things: SearchPage<ThingSearchHit>;
+  reviews: ReviewSearchPage;
+}
+
+/** New matches of a saved search, with the end of the checked period. */
+export interface SavedSearchCheck extends SavedSearchMatches {
+  until: Date;
+}
+
+const savedSearchManifest = {
+  tableName: 'saved_searches',
+  hasRevisions: false as const,
+  schema: {
+    id: types
+      .string()
+      .uuid(4)
+      .default(() => randomUUID()),
+    userID: types.string().uuid(4).required(true),
+    query: types.string().max(savedSearchOptions.maxQueryLength).required(true),
+    filters: types.object(),
+    lang: types.string().max(8).default('en').validator(isValidLanguage),
+    notifyByEmail: types.boolean().default(false),
+    createdAt: types.date().default(() => new Date()),
+    lastCheckedAt: types.date().default(() => new Date()),
+  },
+  camelToSnake: {
+    userID: 'user_id',
+    notifyByEmail: 'notify_by_email',
+    createdAt: 'created_at',
+    lastCheckedAt: 'last_checked_at',
+  },
+} as const satisfies ModelManifest;
+
+export type SavedSearchInstanceMethodsMap = {
+  getSearchOptions(extraFilters?: SearchFilters): SearchPageOptions;
+  findMatches(extraFilters?: SearchFilters): Promise<SavedSearchMatches>;
+  checkForNewMatches(until?: Date): Promise<SavedSearchCheck>;
+  markChecked(until: Date): Promise<void>;
+  getSearchURL(): string;
+};
+export type SavedSearchInstance = ManifestInstance<
+  typeof savedSearchManifest,
+  SavedSearchInstanceMethodsMap
+> & { filters: SavedSearchFilters };
+
+export interface SavedSearchData {
+  query: string;
+  filters: SavedSearchFilters;
+  lang: LibReviews.LocaleCode;
+  notifyByEmail: boolean;
+}
+
+export type SavedSearchStaticMethodsMap = {
+  createForUser(userID: string, data: SavedSearchData): Promise<SavedSearchInstance>;
+  getForUser(userID: string): Promise<SavedSearchInstance[]>;
+  getOwned(id: string, userID: string): Promise<SavedSearchInstance | null>;
+  getWithEmailAlerts(): Promise<SavedSearchInstance[]>;
+};
+type SavedSearchTypes = ManifestBundle<
+  typeof savedSearchManifest,
+  Record<never, never>,
+  SavedSearchStaticMethodsMap,
+  SavedSearchInstanceMethodsMap
+>;
+export type SavedSearchInstanceMethods = SavedSearchTypes['InstanceMethods'];
+export type SavedSearchStaticMethods = SavedSearchTypes['StaticMethods'];
+export type SavedSearchModel = SavedSearchTypes['Model'] & {
+  options: typeof savedSearchOptions;
+};
+
+/**
+ * Lazy reference to the SavedSearch model for use in other manifests.
+ */
+export function referenceSavedSearch(): SavedSearchModel {
+  return referenceModel(savedSearchManifest) as SavedSearchModel;
+}
+
+export default savedSearchManifest;
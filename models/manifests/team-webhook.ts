@@ -0,0 +1,85 @@
+import { randomUUID } from 'node:crypto';
+
+import dal from 'rev-dal';
+import type { ManifestBundle, ManifestInstance } from 'rev-dal/lib/create-model';
+import { referenceModel } from 'rev-dal/lib/model-handle';
+import type { ModelManifest } from 'rev-dal/lib/model-manifest';
+import type { WebHookEventName } from '../../util/webhook-events.ts';
+
+const { types } = dal;
+
+/**
+ * Events that team webhooks can subscribe to. Each is only sent to the
+ * webhooks of the teams the review or blog post belongs to.
+ */
+export const teamWebHookEvents = [
+  'newReview',
+  'reviewEdited',
+  'reviewDeleted',
+  'blogPostPublished',
+] as const satisfies readonly WebHookEventName[];
+export type TeamWebHookEvent = (typeof teamWebHookEvents)[number];
+
+export const teamWebHookOptions = {
+  maxURLLength: 2000,
+  // Endpoints per team, to limit how many requests one event can cause
+  maxPerTeam: 5,
+} as const;
+
+export const isTeamWebHookEvent = (value: unknown): value is TeamWebHookEvent =>
+  typeof value === 'string' && (teamWebHookEvents as readonly string[]).includes(value);
+
+const teamWebHookManifest = {
+  tableName: 'team_webhooks',
+  hasRevisions: false as const,
+  schema: {
+    id: types
+      .string()
+      .uuid(4)
+      .default(() => randomUUID()),
+    teamID: types.string().uuid(4).required(true),
+    url: types.string().max(teamWebHookOptions.maxURLLength).required(true),
+    events: types.array(types.string().validator(isTeamWebHookEvent)),
+    createdBy: types.string().uuid(4).required(true),
+    createdAt: types.date().default(() => new Date()),
+  },
+  camelToSnake: {
+    teamID: 'team_id',
+    createdBy: 'created_by',
+    createdAt: 'created_at',
+  },
+} as const satisfies ModelManifest;
+
+export type TeamWebHookInstance = ManifestInstance<typeof teamWebHookManifest> & {
+  events: TeamWebHookEvent[];
+};
+
+export type TeamWebHookStaticMethodsMap = {
+  createForTeam(
+    teamID: string,
+    userID: string,
+    data: { url: string; events: TeamWebHookEvent[] }
+  ): Promise<TeamWebHookInstance>;
+  getForTeam(teamID: string): Promise<TeamWebHookInstance[]>;
+  getOwned(id: string, teamID: string): Promise<TeamWebHookInstance | null>;
+  getURLsForEvent(teamIDs: string[], eventName: TeamWebHookEvent): Promise<string[]>;
+};
+type TeamWebHookTypes = ManifestBundle<
+  typeof teamWebHookManifest,
+  Record<never, never>,
+  TeamWebHookStaticMethodsMap,
+  Record<never, never>
+>;
+export type TeamWebHookStaticMethods = TeamWebHookTypes['StaticMethods'];
+export type TeamWebHookModel = TeamWebHookTypes['Model'] & {
+  options: typeof teamWebHookOptions;
+};
+
+/**
+ * Lazy reference to the TeamWebHook model for use in other manifests.
+ */
+export function referenceTeamWebHook(): TeamWebHookModel {
+  return referenceModel(teamWebHookManifest) as TeamWebHookModel;
+}
+
+export default teamWebHookManifest;
@@ -17,6 +17,7 @@ export const reservedSlugs = [
   'signout',
   'logout',
   'api',
+  'api-docs',
   'faq',
   'static',
   'terms',
@@ -6,6 +6,7 @@ import type { RevisionActor } from 'rev-dal/lib/model-types';
 import adapters from '../adapters/adapters.ts';
 import debug from '../util/debug.ts';
 import ReportedError from '../util/reported-error.ts';
+import webHookEvents, { getThingEventData } from '../util/webhook-events.ts';
 import { type FileInstance } from './manifests/file.ts';
 import reviewManifest, {
   type ReviewCreateOptions,
@@ -245,6 +246,7 @@ const reviewStaticMethods = defineStaticMethods(reviewManifest, {
         await thing.save();
       }
     }
+    webHookEvents.emit('thingCreated', getThingEventData(thing));
     return thing;
   },
   /**
@@ -258,6 +260,7 @@ const reviewStaticMethods = defineStaticMethods(reviewManifest, {
     offsetDate,
     onlyTrusted = false,
     thingID,
+    teamID,
     withThing = true,
     withTeams = true,
     withoutCreator,
@@ -273,6 +276,10 @@ const reviewStaticMethods = defineStaticMethods(reviewManifest, {
       builder.and({ thingID });
     }
 
+    if (teamID) {
+      builder.whereRelated('teams', 'id', teamID);
+    }
+
     if (withoutCreator) {
       builder.and({ createdBy: this.ops.neq(withoutCreator) });
     }
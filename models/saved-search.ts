@@ -0,0 +1,173 @@
+import isUUID from 'is-uuid';
+
+import { defineInstanceMethods, defineModel, defineStaticMethods } from 'rev-dal/lib/create-model';
+import type { SearchFilters } from '../search/backend.ts';
+import search from '../search.ts';
+import savedSearchManifest, {
+  type SavedSearchData,
+  type SavedSearchInstance,
+  type SavedSearchInstanceMethods,
+  type SavedSearchModel,
+  type SavedSearchStaticMethods,
+  savedSearchOptions,
+} from './manifests/saved-search.ts';
+
+const savedSearchStaticMethods = defineStaticMethods(savedSearchManifest, {
+  /**
+   * Save a search for a user. Only results created from now on are sent as
+   * alerts.
+   *
+   * @param userID - User who saves the search
+   * @param data - Query, filters, language and whether to send emails
+   * @returns The persisted saved search
+   */
+  async createForUser(userID: string, data: SavedSearchData) {
+    const savedSearch = new this({}) as SavedSearchInstance;
+    savedSearch.userID = userID;
+    savedSearch.query = data.query;
+    // Drop unset filters so they don't end up as nulls in the JSON
+    savedSearch.filters = Object.fromEntries(
+      Object.entries(data.filters).filter(([, value]) => value !== undefined)
+    );
+    savedSearch.lang = data.lang;
+    savedSearch.notifyByEmail = data.notifyByEmail;
+    savedSearch.createdAt = new Date();
+    savedSearch.lastCheckedAt = savedSearch.createdAt;
+    await savedSearch.save();
+    return savedSearch;
+  },
+
+  /**
+   * Get a user's saved searches, newest first.
+   *
+   * @param userID - Owner of the saved searches
+   */
+  async getForUser(userID: string) {
+    if (!userID) return [];
+    return (await this.filterWhere({ userID })
+      .orderBy('createdAt', 'DESC')
+      .run()) as SavedSearchInstance[];
+  },
+
+  /**
+   * Get one of a user's saved searches. Searches of other users are treated
+   * as nonexistent.
+   *
+   * @param id - Saved search identifier (UUID v4)
+   * @param userID - User who must own the search
+   * @returns The saved search, or null if there is no such search
+   */
+  async getOwned(id: string, userID: string) {
+    if (!id || !isUUID.v4(id) || !userID) return null;
+    return ((await this.filterWhere({ id, userID }).first()) as SavedSearchInstance | null) ?? null;
+  },
+
+  /**
+   * Get all saved searches whose owners want email alerts, least recently
+   * checked first.
+   */
+  async getWithEmailAlerts() {
+    return (await this.filterWhere({ notifyByEmail: true })
+      .orderBy('lastCheckedAt', 'ASC')
+      .run()) as SavedSearchInstance[];
+  },
+}) satisfies SavedSearchStaticMethods;
+
+const savedSearchInstanceMethods = defineInstanceMethods(savedSearchManifest, {
+  /**
+   * Options for running this search with the search backend, newest results
+   * first.
+   *
+   * @param extraFilters - Filters to add to the saved ones, e.g., a date range
+   */
+  getSearchOptions(extraFilters: SearchFilters = {}) {
+    return {
+      lang: this.lang as LibReviews.LocaleCode,
+      size: savedSearchOptions.maxResults,
+      sort: 'date' as const,
+      filters: { ...this.filters, ...extraFilters },
+    };
+  },
+
+  /**
+   * Run this search for review subjects and reviews.
+   *
+   * @param extraFilters - Filters to add to the saved ones
+   */
+  async findMatches(extraFilters: SearchFilters = {}) {
+    const options = this.getSearchOptions(extraFilters);
+    const [things, reviews] = await Promise.all([
+      search.findThings(this.query, options),
+      search.findReviews(this.query, options),
+    ]);
+    return { things, reviews };
+  },
+
+  /**
+   * Find the results created since the last check. Results newer than the
+   * alert delay are left for the next check, since they may not have been
+   * indexed yet. The search is not marked as checked; call `markChecked`
+   * with the returned `until` once the results have been handled.
+   *
+   * @param until - End of the checked period
+   * @returns Results created in the checked period
+   */
+  async checkForNewMatches(until = new Date(Date.now() - savedSearchOptions.alertDelayMs)) {
+    if (until <= this.lastCheckedAt) {
+      return {
+        things: { total: 0, hits: [] },
+        reviews: { total: 0, hits: [], facets: { starRating: [], language: [], team: [] } },
+        until: this.lastCheckedAt,
+      };
+    }
+
+    // Both ends of the date range are inclusive
+    const matches = await this.findMatches({
+      createdAfter: this.lastCheckedAt,
+      createdBefore: new Date(until.getTime() - 1),
+    });
+    return { ...matches, until };
+  },
+
+  /**
+   * Remember that the results up to the given date have been handled, so
+   * the next check starts there.
+   *
+   * @param until - End of the checked period
+   */
+  async markChecked(until: Date) {
+    if (until <= this.lastCheckedAt) return;
+    this.lastCheckedAt = until;
+    await this.save();
+  },
+
+  /**
+   * Path of the search page showing this search, newest results first.
+   */
+  getSearchURL() {
+    const params = new URLSearchParams({ query: this.query, sort: 'date' });
+    const { language, minRating, teamID, sourceTag } = this.filters ?? {};
+    if (minRating !== undefined) params.set('minRating', String(minRating));
+    if (language !== undefined) params.set('language', language);
+    if (teamID !== undefined) params.set('team', teamID);
+    if (sourceTag !== undefined) params.set('sourceTag', sourceTag);
+    return `/actions/search?${params}`;
+  },
+}) satisfies SavedSearchInstanceMethods;
+
+const SavedSearch = defineModel(savedSearchManifest, {
+  statics: {
+    options: savedSearchOptions,
+  },
+  staticMethods: savedSearchStaticMethods,
+  instanceMethods: savedSearchInstanceMethods,
+}) as SavedSearchModel;
+
+export default SavedSearch;
+export type {
+  SavedSearchCheck,
+  SavedSearchFilters,
+  SavedSearchInstance,
+  SavedSearchMatches,
+  SavedSearchModel,
+} from './manifests/saved-search.ts';
@@ -0,0 +1,86 @@
+import isUUID from 'is-uuid';
+
+import { defineModel, defineStaticMethods } from 'rev-dal/lib/create-model';
+import teamWebHookManifest, {
+  type TeamWebHookEvent,
+  type TeamWebHookInstance,
+  type TeamWebHookModel,
+  type TeamWebHookStaticMethods,
+  teamWebHookOptions,
+} from './manifests/team-webhook.ts';
+
+const teamWebHookStaticMethods = defineStaticMethods(teamWebHookManifest, {
+  /**
+   * Register a webhook endpoint for a team.
+   *
+   * @param teamID - Team whose events are sent to the endpoint
+   * @param userID - Moderator who registers the endpoint
+   * @param data - Endpoint URL and the events it receives
+   * @returns The persisted webhook
+   */
+  async createForTeam(teamID: string, userID: string, data) {
+    const webHook = new this({}) as TeamWebHookInstance;
+    webHook.teamID = teamID;
+    webHook.url = data.url;
+    webHook.events = data.events;
+    webHook.createdBy = userID;
+    webHook.createdAt = new Date();
+    await webHook.save();
+    return webHook;
+  },
+
+  /**
+   * Get a team's webhooks, oldest first.
+   *
+   * @param teamID - Team the webhooks belong to
+   */
+  async getForTeam(teamID: string) {
+    if (!teamID) return [];
+    return (await this.filterWhere({ teamID })
+      .orderBy('createdAt', 'ASC')
+      .run()) as TeamWebHookInstance[];
+  },
+
+  /**
+   * Get one of a team's webhooks. Webhooks of other teams are treated as
+   * nonexistent.
+   *
+   * @param id - Webhook identifier (UUID v4)
+   * @param teamID - Team that must own the webhook
+   * @returns The webhook, or null if there is no such webhook
+   */
+  async getOwned(id: string, teamID: string) {
+    if (!id || !isUUID.v4(id) || !teamID) return null;
+    return ((await this.filterWhere({ id, teamID }).first()) as TeamWebHookInstance | null) ?? null;
+  },
+
+  /**
+   * Get the endpoints that receive an event from any of the given teams.
+   *
+   * @param teamIDs - Teams the event is about
+   * @param eventName - Event from the catalogue
+   * @returns Distinct endpoint URLs
+   */
+  async getURLsForEvent(teamIDs: string[], eventName: TeamWebHookEvent) {
+    if (!teamIDs.length) return [];
+    const webHooks = (await this.filterWhere({
+      teamID: this.ops.in(teamIDs as [string, ...string[]]),
+      events: this.ops.containsAll([eventName]),
+    }).run()) as TeamWebHookInstance[];
+    return [...new Set(webHooks.map(webHook => webHook.url))];
+  },
+}) satisfies TeamWebHookStaticMethods;
+
+const TeamWebHook = defineModel(teamWebHookManifest, {
+  statics: {
+    options: teamWebHookOptions,
+  },
+  staticMethods: teamWebHookStaticMethods,
+}) as TeamWebHookModel;
+
+export default TeamWebHook;
+export type {
+  TeamWebHookEvent,
+  TeamWebHookInstance,
+  TeamWebHookModel,
+} from './manifests/team-webhook.ts';
@@ -11,7 +11,7 @@ import type {
   AdapterLookupResult,
 } from '../adapters/abstract-backend-adapter.ts';
 import adapters from '../adapters/adapters.ts';
-import search from '../search.ts';
+import searchOutbox from '../search/outbox.ts';
 import debug from '../util/debug.ts';
 import ReportedError from '../util/reported-error.ts';
 import { generateSlugName } from '../util/slug.ts';
@@ -378,7 +378,7 @@ const thingInstanceMethods = defineInstanceMethods(thingManifest, {
 
     await this.save();
 
-    (search as { indexThing?: (thing: ThingInstance) => void }).indexThing?.(this);
+    void searchOutbox.queueThing(this);
 
     return this;
 
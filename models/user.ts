@@ -3,6 +3,7 @@ import bcrypt from 'bcrypt';
 import { defineInstanceMethods, defineModel, defineStaticMethods } from 'rev-dal/lib/create-model';
 import { DocumentNotFound } from 'rev-dal/lib/errors';
 import type { GetOptions, ModelInstance } from 'rev-dal/lib/model-types';
+import searchOutbox from '../search/outbox.ts';
 import type { ReportedErrorOptions } from '../util/abstract-reported-error.ts';
 import debug from '../util/debug.ts';
 import ReportedError from '../util/reported-error.ts';
@@ -57,6 +58,7 @@ const userStaticMethods = defineStaticMethods(userManifest, {
       await this.ensureUnique(userObj.name);
       await user.setPassword(userObj.password);
       await user.save();
+      void searchOutbox.queueUser(user);
       updateUploadPermission(user);
     } catch (error) {
       if (error instanceof NewUserError) throw error;
@@ -162,6 +164,7 @@ const userStaticMethods = defineStaticMethods(userManifest, {
     user.userMetaID = metaRev.id as string;
     user.meta = metaRev;
     await user.save();
+    void searchOutbox.queueUser(user);
     return user;
   },
   canonicalize,
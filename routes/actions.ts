@@ -22,7 +22,7 @@ import Team, { type TeamInstance } from '../models/team.ts';
 import TeamJoinRequest, { type TeamJoinRequestInstance } from '../models/team-join-request.ts';
 import TeamSlug from '../models/team-slug.ts';
 import User from '../models/user.ts';
-import search from '../search.ts';
+import search, { parseURLQuery, searchSortOrders } from '../search.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
 import debug from '../util/debug.ts';
 import {
@@ -32,8 +32,15 @@ import {
   sendAccountRequestRejection,
   sendPasswordResetEmail,
 } from '../util/email.ts';
+import urlUtils from '../util/url-utils.ts';
+import webhookDeliveries from '../util/webhook-deliveries.ts';
+import webHookEvents, {
+  getAccountRequestEventData,
+  getTeamJoinRequestEventData,
+} from '../util/webhook-events.ts';
 import actionHandler from './handlers/action-handler.ts';
 import signinRequiredRoute from './handlers/signin-required-route.ts';
+import { maxSearchResultWindow } from './helpers/api-schemas.ts';
 import forms from './helpers/forms.ts';
 import render from './helpers/render.ts';
 import { flashZodIssues, formatZodIssueMessage } from './helpers/zod-flash.ts';
@@ -63,6 +70,7 @@ type ActionsRequestBody = {
   requestId?: string;
   action?: string;
   rejectionReason?: string;
+  deliveryID?: string;
   [key: string]: string | string[] | boolean | undefined;
 };
 
@@ -213,43 +221,183 @@ function isAccountRequestFeatureEnabled(): boolean {
   return Boolean(enabled && emailEnabled && config.requireInviteLinks);
 }
 
-router.get('/actions/search', (req: ActionsRequest, res: ActionsResponse, next: HandlerNext) => {
-  const queryValue = req.query.query;
-  const rawQuery =
-    typeof queryValue === 'string'
-      ? queryValue
-      : Array.isArray(queryValue)
-        ? String(queryValue[0] ?? '')
-        : '';
-  const query = rawQuery.trim();
-  if (query) {
-    const localeCode = languages.isValid(req.locale) ? (req.locale as LibReviews.LocaleCode) : 'en';
-    Promise.all([search.searchThings(query, localeCode), search.searchReviews(query, localeCode)])
-      .then(([thingsResult, reviewsResult]) => {
-        let labelMatches = thingsResult.hits.hits;
-        let textMatches = search.filterDuplicateInnerHighlights(reviewsResult.hits.hits, 'review');
-        const noMatches = !labelMatches.length && !textMatches.length;
-
-        render.template(req, res, 'search', {
-          titleKey: 'search results',
-          noMatches,
-          labelMatches,
-          textMatches,
-          query,
-          showHelp: noMatches,
-          deferPageHeader: true,
-        });
-      })
-      .catch(next);
-  } else {
-    render.template(req, res, 'search', {
-      titleKey: 'search lib.reviews',
-      showHelp: true,
-      deferPageHeader: true,
-    });
-  }
+const searchPageSize = 10;
+
+// Parameters of the search page. Invalid values (e.g., from edited URLs) are
+// ignored instead of reported.
+const searchFormSchema = z.object({
+  query: z.string().trim().catch(''),
+  page: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(maxSearchResultWindow / searchPageSize)
+    .catch(1),
+  sort: z.enum(searchSortOrders).catch('relevance'),
+  minRating: z.coerce.number().int().min(1).max(5).optional().catch(undefined),
+  language: z
+    .string()
+    .refine(value => languages.isValid(value))
+    .optional()
+    .catch(undefined),
+  team: z
+    .string()
+    .refine(value => isUUID.v4(value))
+    .optional()
+    .catch(undefined),
+  sourceTag: z
+    .enum(urlUtils.getTags() as [string, ...string[]])
+    .optional()
+    .catch(undefined),
+});
+
+type SearchForm = z.infer<typeof searchFormSchema>;
+
+const getSearchFormOptions = (
+  req: ActionsRequest,
+  form: SearchForm,
+  teams: TeamInstance[],
+  localeCode: LibReviews.LocaleCode
+) => ({
+  sortOrders: searchSortOrders.map(value => ({
+    value,
+    label: req.__(`sort by ${value}`),
+    selected: value === form.sort,
+  })),
+  ratings: [1, 2, 3, 4, 5].map(value => ({
+    value,
+    label: req.__n('minimum star rating', value),
+    selected: value === form.minRating,
+  })),
+  languages: languages.getValidLanguagesSorted().map(value => ({
+    value,
+    label: languages.getCompositeName(value, localeCode),
+    selected: value === form.language,
+  })),
+  teams: teams.map(team => ({
+    value: team.id,
+    label: mlString.resolve(localeCode, team.name)?.str ?? team.id,
+    selected: team.id === form.team,
+  })),
+  sourceTags: urlUtils.getTags().map(value => ({
+    value,
+    label: req.__(`${value} tag label`),
+    selected: value === form.sourceTag,
+  })),
+});
+
+// Review subjects are always searched. A pasted URL only matches them (see
+// parseURLQuery). Teams, users and blog posts have no ratings or sources, so
+// rating and source filters hide them. Filtering by team or language narrows
+// them down where the filter applies, and hides those where it doesn't.
+const getSearchSections = (form: SearchForm) => {
+  const urlQuery = parseURLQuery(form.query);
+  const isURL = urlQuery !== null && 'url' in urlQuery;
+  const hideOthers = isURL || form.minRating !== undefined || form.sourceTag !== undefined;
+  return {
+    reviews: !isURL,
+    teams: !hideOthers && form.team === undefined,
+    users: !hideOthers && form.team === undefined && form.language === undefined,
+    blogPosts: !hideOthers,
+  };
+};
+
+const getSearchPageURL = (form: SearchForm, page: number) => {
+  const params = new URLSearchParams({ query: form.query, sort: form.sort });
+  for (const key of ['minRating', 'language', 'team', 'sourceTag'] as const)
+    if (form[key] !== undefined) params.set(key, String(form[key]));
+  params.set('page', String(page));
+  return `/actions/search?${params}`;
+};
+
+// Signed-in users can save a search with its filters, see saved-search-handlers.ts
+const getSaveSearchForm = (form: SearchForm) => ({
+  filters: (['minRating', 'language', 'team', 'sourceTag'] as const)
+    .filter(name => form[name] !== undefined)
+    .map(name => ({ name, value: String(form[name]) })),
 });
 
+router.get(
+  '/actions/search',
+  async (req: ActionsRequest, res: ActionsResponse, next: HandlerNext) => {
+    const form = searchFormSchema.parse(req.query);
+    if (!form.query) {
+      render.template(req, res, 'search', {
+        titleKey: 'search lib.reviews',
+        showHelp: true,
+        deferPageHeader: true,
+      });
+      return;
+    }
+
+    try {
+      const localeCode = languages.isValid(req.locale)
+        ? (req.locale as LibReviews.LocaleCode)
+        : 'en';
+      const options = {
+        lang: localeCode,
+        from: (form.page - 1) * searchPageSize,
+        size: searchPageSize,
+        sort: form.sort,
+        filters: {
+          minRating: form.minRating,
+          language: form.language,
+          teamID: form.team,
+          sourceTag: form.sourceTag,
+        },
+      };
+      const sections = getSearchSections(form);
+      const noResults = { total: 0, hits: [] };
+      const noReviewResults = {
+        ...noResults,
+        facets: { starRating: [], language: [], team: [] },
+      };
+      const [thingResults, reviewResults, teamResults, userResults, blogPostResults, teams] =
+        await Promise.all([
+          search.findThings(form.query, options),
+          sections.reviews ? search.findReviews(form.query, options) : noReviewResults,
+          sections.teams ? search.findTeams(form.query, options) : noResults,
+          sections.users ? search.findUsers(form.query, options) : noResults,
+          sections.blogPosts ? search.findBlogPosts(form.query, options) : noResults,
+          Team.filterWhere({}).run(),
+        ]);
+      const totals = [thingResults, reviewResults, teamResults, userResults, blogPostResults].map(
+        results => results.total
+      );
+      const noMatches = totals.every(total => !total);
+      const lastPage = Math.min(
+        Math.ceil(Math.max(...totals) / searchPageSize),
+        maxSearchResultWindow / searchPageSize
+      );
+      const teamsByID = new Map(teams.map(team => [team.id, team]));
+
+      render.template(req, res, 'search', {
+        titleKey: 'search results',
+        noMatches,
+        thingResults,
+        reviewResults,
+        teamResults,
+        userResults,
+        blogPostResults: {
+          ...blogPostResults,
+          hits: blogPostResults.hits.map(hit => ({ ...hit, team: teamsByID.get(hit.teamID) })),
+        },
+        query: form.query,
+        formOptions: getSearchFormOptions(req, form, teams, localeCode),
+        saveSearch: req.user ? getSaveSearchForm(form) : undefined,
+        page: form.page,
+        lastPage,
+        previousPageURL: form.page > 1 ? getSearchPageURL(form, form.page - 1) : undefined,
+        nextPageURL: form.page < lastPage ? getSearchPageURL(form, form.page + 1) : undefined,
+        showHelp: noMatches,
+        deferPageHeader: true,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 router.get('/actions/invite', signinRequiredRoute('invite users', renderInviteLinkPage));
 
 router.post(
@@ -664,6 +812,7 @@ router.post(
       ).catch(error => {
         debug.error(`Failed to send account request notification: ${formatMailgunError(error)}`);
       });
+      webHookEvents.emit('accountRequestSubmitted', getAccountRequestEventData(createdRequest));
 
       req.flash('siteMessages', res.__('account request submitted'));
       return res.redirect('/');
@@ -1014,6 +1163,86 @@ router.post(
   )
 );
 
+const webhookDeliveryStatuses = ['pending', 'delivered', 'failed'] as const;
+
+router.get(
+  '/actions/webhook-deliveries',
+  signinRequiredRoute(
+    'webhook deliveries',
+    async (req: ActionsRequest, res: ActionsResponse, next: HandlerNext) => {
+      if (!req.user?.isSiteModerator) {
+        return render.permissionError(req, res, {
+          titleKey: 'webhook deliveries',
+          detailsKey: 'must be site moderator',
+        });
+      }
+
+      const status = z
+        .enum(webhookDeliveryStatuses)
+        .optional()
+        .catch(undefined)
+        .parse(req.query.status);
+      try {
+        const deliveries = await webhookDeliveries.list(status);
+        const attempts = await webhookDeliveries.getAttempts(
+          deliveries.map(delivery => delivery.id)
+        );
+        render.template(req, res, 'webhook-deliveries', {
+          titleKey: 'webhook deliveries',
+          deliveries: deliveries.map(delivery => ({
+            ...delivery,
+            statusLabel: req.__(`webhook delivery ${delivery.status}`),
+            payloadJSON: JSON.stringify(delivery.payload, null, 2),
+            attempts: attempts.get(delivery.id) ?? [],
+          })),
+          statusFilters: webhookDeliveryStatuses.map(value => ({
+            value,
+            label: req.__(`webhook delivery ${value}`),
+            selected: value === status,
+          })),
+          hasFailed: deliveries.some(delivery => delivery.status === 'failed'),
+          pageErrors: req.flash('pageErrors'),
+          pageMessages: req.flash('pageMessages'),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  )
+);
+
+// Replays one delivery, or all failed ones if no ID is given
+router.post(
+  '/actions/webhook-deliveries/replay',
+  signinRequiredRoute(
+    'webhook deliveries',
+    async (req: ActionsRequest, res: ActionsResponse, next: HandlerNext) => {
+      if (!req.user?.isSiteModerator) {
+        return render.permissionError(req, res, {
+          titleKey: 'webhook deliveries',
+          detailsKey: 'must be site moderator',
+        });
+      }
+
+      const deliveryID = typeof req.body.deliveryID === 'string' ? req.body.deliveryID.trim() : '';
+      if (deliveryID && !isUUID.v4(deliveryID)) {
+        req.flash('pageErrors', req.__('webhook delivery not found'));
+        return res.redirect('/actions/webhook-deliveries');
+      }
+
+      try {
+        const count = await webhookDeliveries.replay(deliveryID ? [deliveryID] : undefined);
+        if (deliveryID && !count) req.flash('pageErrors', req.__('webhook delivery not found'));
+        else req.flash('pageMessages', req.__n('webhook deliveries replayed', count));
+        void webhookDeliveries.processDue(req.app.locals.webHooks);
+        return res.redirect('/actions/webhook-deliveries');
+      } catch (error) {
+        next(error);
+      }
+    }
+  )
+);
+
 async function sendRegistrationForm(
   req: ActionsRequest,
   res: ActionsResponse,
@@ -1146,7 +1375,7 @@ async function joinTeams(
   const teamSlugsUnique = [...new Set(teamSlugs)];
 
   const teamsToJoin: TeamInstance[] = [];
-  const joinRequests: TeamJoinRequestInstance[] = [];
+  const joinRequests: Array<{ request: TeamJoinRequestInstance; team: TeamInstance }> = [];
 
   for (const slugName of teamSlugsUnique) {
     if (typeof slugName !== 'string') continue;
@@ -1162,7 +1391,7 @@ async function joinTeams(
             requestDate: new Date(),
             status: 'pending',
           });
-          joinRequests.push(teamJoinRequest);
+          joinRequests.push({ request: teamJoinRequest, team });
         } else {
           teamsToJoin.push(team);
         }
@@ -1185,8 +1414,9 @@ async function joinTeams(
     }
   }
 
-  for (const request of joinRequests) {
+  for (const { request, team } of joinRequests) {
     await request.save();
+    webHookEvents.emit('teamJoinRequested', getTeamJoinRequestEventData(request, team, user));
   }
 }
 
@@ -0,0 +1,240 @@
+import express, { Router } from 'express';
+import isUUID from 'is-uuid';
+
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { TeamInstance } from '../models/manifests/team.ts';
+import type { UserInstance } from '../models/manifests/user.ts';
+import Review from '../models/review.ts';
+import Team from '../models/team.ts';
+import TeamSlug from '../models/team-slug.ts';
+import User from '../models/user.ts';
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
+import activityPub, {
+  ACTIVITY_CONTENT_TYPE,
+  ACTIVITY_CONTENT_TYPES,
+  type Activity,
+  type ActorType,
+} from '../util/activitypub.ts';
+import api from './helpers/api.ts';
+
+type ActivityPubRequest<Params extends Record<string, string> = Record<string, string>> =
+  HandlerRequest<Params>;
+type ActivityPubResponse = HandlerResponse;
+
+const router = Router();
+
+// Inbox requests are signed over the body as sent, so it is kept as is
+const rawBody = express.raw({ type: () => true, limit: '1mb' });
+
+const send = (res: ActivityPubResponse, body: unknown, type = ACTIVITY_CONTENT_TYPE) => {
+  res.type(type);
+  res.send(JSON.stringify(body, null, 2));
+};
+
+const wantsActivity = (req: ActivityPubRequest) => {
+  const preferred = req.accepts(['text/html', ...ACTIVITY_CONTENT_TYPES]);
+  return typeof preferred === 'string' && preferred !== 'text/html';
+};
+
+const ignoreNotFound = async <T>(promise: Promise<T>): Promise<T | null> => {
+  try {
+    return await promise;
+  } catch (error) {
+    if (api.isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+const loaders: Record<ActorType, (id: string) => Promise<UserInstance | TeamInstance | null>> = {
+  user: async id =>
+    isUUID.v4(id)
+      ? ((await User.filterWhere({ id }).getJoin({ meta: true }).first()) ?? null)
+      : null,
+  team: async id => (isUUID.v4(id) ? ((await Team.filterWhere({ id }).first()) ?? null) : null),
+};
+
+const findTeam = async (idOrSlug: string) => {
+  const teamID = isUUID.v4(idOrSlug) ? idOrSlug : (await TeamSlug.getByName(idOrSlug))?.teamID;
+  return teamID ? (loaders.team(teamID) as Promise<TeamInstance | null>) : null;
+};
+
+const getActor = (type: ActorType, actor: UserInstance | TeamInstance) =>
+  type === 'user'
+    ? activityPub.getUserActor(actor as UserInstance)
+    : activityPub.getTeamActor(actor as TeamInstance);
+
+// Federation can be switched off in the configuration
+router.use((_req: ActivityPubRequest, _res: ActivityPubResponse, next: HandlerNext) =>
+  activityPub.isEnabled() ? next() : next('router')
+);
+
+router.get(
+  '/.well-known/webfinger',
+  async (req: ActivityPubRequest, res: ActivityPubResponse, next: HandlerNext) => {
+    const resource = typeof req.query.resource === 'string' ? req.query.resource : '';
+    const account = activityPub.parseWebFingerResource(resource);
+    if (!account) return void res.sendStatus(404);
+    try {
+      if (account.type === 'user') {
+        const user = await ignoreNotFound<UserInstance>(User.findByURLName(account.name));
+        if (!user) return void res.sendStatus(404);
+        send(res, activityPub.getWebFinger('user', user.id, user.urlName), 'application/jrd+json');
+      } else {
+        const team = await findTeam(account.name);
+        if (!team) return void res.sendStatus(404);
+        send(res, activityPub.getWebFinger('team', team.id, team.urlID), 'application/jrd+json');
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Fediverse servers look up profile URLs that people paste into their search
+router.get(
+  '/user/:name',
+  async (
+    req: ActivityPubRequest<{ name: string }>,
+    res: ActivityPubResponse,
+    next: HandlerNext
+  ) => {
+    if (!wantsActivity(req)) return next();
+    try {
+      const user = await ignoreNotFound<UserInstance>(User.findByURLName(req.params.name));
+      if (!user) return next();
+      res.redirect(activityPub.getActorID('user', user.id));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/team/:id',
+  async (req: ActivityPubRequest<{ id: string }>, res: ActivityPubResponse, next: HandlerNext) => {
+    if (!wantsActivity(req)) return next();
+    try {
+      const team = await findTeam(req.params.id);
+      if (!team) return next();
+      res.redirect(activityPub.getActorID('team', team.id));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/ap/review/:id',
+  async (req: ActivityPubRequest<{ id: string }>, res: ActivityPubResponse, next: HandlerNext) => {
+    try {
+      const review = isUUID.v4(req.params.id)
+        ? await ignoreNotFound(Review.getWithData(req.params.id))
+        : null;
+      if (!review) return void res.sendStatus(404);
+      send(res, {
+        '@context': 'https://www.w3.org/ns/activitystreams',
+        ...activityPub.getReviewNote(review),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+for (const type of ['user', 'team'] as const) {
+  router.get(
+    `/ap/${type}/:id`,
+    async (
+      req: ActivityPubRequest<{ id: string }>,
+      res: ActivityPubResponse,
+      next: HandlerNext
+    ) => {
+      try {
+        const actor = await loaders[type](req.params.id);
+        if (!actor) return void res.sendStatus(404);
+        send(res, await getActor(type, actor));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    `/ap/${type}/:id/outbox`,
+    async (
+      req: ActivityPubRequest<{ id: string }>,
+      res: ActivityPubResponse,
+      next: HandlerNext
+    ) => {
+      try {
+        const actor = await loaders[type](req.params.id);
+        if (!actor) return void res.sendStatus(404);
+        const { feedItems } = await Review.getFeed({
+          ...(type === 'user' ? { createdBy: actor.id } : { teamID: actor.id }),
+          withTeams: false,
+          limit: 20,
+        });
+        send(res, activityPub.getOutbox(type, actor.id, feedItems as ReviewInstance[]));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    `/ap/${type}/:id/followers`,
+    async (
+      req: ActivityPubRequest<{ id: string }>,
+      res: ActivityPubResponse,
+      next: HandlerNext
+    ) => {
+      try {
+        const actor = await loaders[type](req.params.id);
+        if (!actor) return void res.sendStatus(404);
+        send(res, await activityPub.getFollowersCollection(type, actor.id));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    `/ap/${type}/:id/inbox`,
+    rawBody,
+    async (
+      req: ActivityPubRequest<{ id: string }>,
+      res: ActivityPubResponse,
+      next: HandlerNext
+    ) => {
+      const body: unknown = req.body;
+      let activity: Activity;
+      try {
+        activity = JSON.parse(Buffer.isBuffer(body) ? body.toString() : '');
+      } catch {
+        return void res.sendStatus(400);
+      }
+      if (!activity || typeof activity !== 'object') return void res.sendStatus(400);
+
+      try {
+        const actor = await loaders[type](req.params.id);
+        if (!actor) return void res.sendStatus(404);
+        const authentic = await activityPub.receive(
+          type,
+          actor.id,
+          {
+            method: req.method,
+            path: req.originalUrl,
+            getHeader: name => req.get(name),
+            body: body as Buffer,
+          },
+          activity
+        );
+        res.sendStatus(authentic ? 202 : 401);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+}
+
+export default router;
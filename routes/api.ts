@@ -1,26 +1,154 @@
 import { Router } from 'express';
+import isUUID from 'is-uuid';
 import languages from '../locales/languages.ts';
+import type { ReviewFeedOptions } from '../models/manifests/review.ts';
 import { type ThingModel } from '../models/manifests/thing.ts';
+import Review from '../models/review.ts';
+import Team from '../models/team.ts';
+import TeamSlug from '../models/team-slug.ts';
 import Thing from '../models/thing.ts';
+import ThingSlug from '../models/thing-slug.ts';
 import User from '../models/user.ts';
-import search, { type SuggestThingResponse } from '../search.ts';
+import search, { parseURLQuery, type SuggestThingResponse } from '../search.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
 import urlUtils from '../util/url-utils.ts';
 import actionHandler from './handlers/action-handler.ts';
+import apiReviewHandlers from './handlers/api-review-handlers.ts';
+import api from './helpers/api.ts';
+import {
+  feedQuerySchema,
+  searchQuerySchema,
+  thingLookupBodySchema,
+} from './helpers/api-schemas.ts';
+import apiSerializers, { type ApiThingBatchLookup } from './helpers/api-serializers.ts';
+import { buildOpenAPIDocument } from './helpers/openapi.ts';
+import slugs from './helpers/slugs.ts';
 
-type ApiRouteRequest = HandlerRequest;
+type ApiRouteRequest<Params extends Record<string, string> = Record<string, string>> =
+  HandlerRequest<Params>;
 type ApiRouteResponse = HandlerResponse;
 
 const router = Router();
 const ThingHandle = Thing as ThingModel;
 
+const sendNotFound = (res: ApiRouteResponse, message: string, error: string) =>
+  api.send(res, { message, errors: [error] }, 404);
+
+// Resolve a UUID or canonical slug name to the ID of a current thing.
+// Resolves to null when no such thing exists.
+const resolveThingID = async (idOrSlug: string): Promise<string | null> => {
+  let thingID: string | undefined = idOrSlug;
+  if (!isUUID.v4(idOrSlug)) thingID = (await ThingSlug.getByName(idOrSlug))?.thingID;
+  if (!thingID) return null;
+  try {
+    const thing = await ThingHandle.getWithData(thingID, {
+      withFiles: false,
+      withReviewMetrics: false,
+    });
+    return thing.id;
+  } catch (error) {
+    if (api.isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+// Resolve a UUID or canonical slug name to the ID of a current team.
+// Resolves to null when no such team exists.
+const resolveTeamID = async (idOrSlug: string): Promise<string | null> => {
+  let teamID: string | undefined = idOrSlug;
+  if (!isUUID.v4(idOrSlug)) teamID = (await TeamSlug.getByName(idOrSlug))?.teamID;
+  if (!teamID) return null;
+  try {
+    const team = await Team.getWithData(teamID, {
+      withMembers: false,
+      withModerators: false,
+      withJoinRequests: false,
+    });
+    return team.id;
+  } catch (error) {
+    if (error instanceof Error && (api.isNotFoundError(error) || /not found/.test(error.message)))
+      return null;
+    throw error;
+  }
+};
+
+type ThingLookupKind = 'url' | 'id' | 'slug';
+type ApiThingLookupResult = ApiThingBatchLookup['urls'][number];
+
+// Look up a single query of a batch lookup. Subjects that do not exist yield
+// a result without a thing; malformed queries one with an error.
+const lookupThing = async (kind: ThingLookupKind, query: string): Promise<ApiThingLookupResult> => {
+  if (kind === 'url') {
+    if (!urlUtils.validate(query)) return { query, thing: null, error: 'URL is not valid.' };
+    const [thing] = await ThingHandle.lookupByURL(urlUtils.normalize(query));
+    if (!thing) return { query, thing: null };
+    await thing.populateReviewMetrics();
+    return { query, thing: apiSerializers.thing(thing) };
+  }
+
+  if (kind === 'id' && !isUUID.v4(query))
+    return { query, thing: null, error: 'ID is not a valid UUID.' };
+
+  try {
+    const { document } = await slugs.findThing(query, { withFiles: false });
+    return { query, thing: apiSerializers.thing(document) };
+  } catch (error) {
+    if (api.isNotFoundError(error)) return { query, thing: null };
+    throw error;
+  }
+};
+
+// Respond with one page of the review feed selected by `feedOptions`,
+// paginated via the `offsetDate` and `limit` query parameters.
+const sendReviewFeed = async (
+  req: ApiRouteRequest,
+  res: ApiRouteResponse,
+  feedOptions: ReviewFeedOptions = {}
+) => {
+  const parseResult = feedQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    api.send(
+      res,
+      {
+        message: 'Could not retrieve reviews.',
+        errors: api.formatIssues(parseResult.error.issues),
+      },
+      400
+    );
+    return;
+  }
+
+  const { offsetDate, limit } = parseResult.data;
+  const result = await Review.getFeed({
+    ...feedOptions,
+    offsetDate,
+    limit,
+    withThing: true,
+    withTeams: true,
+  });
+  api.send(res, apiSerializers.reviewFeed(result, `${req.baseUrl}${req.path}`, limit));
+};
+
+// Machine-readable description of the routes in this file
+router.get('/openapi.json', (req: ApiRouteRequest, res: ApiRouteResponse) => {
+  api.send(res, buildOpenAPIDocument(req));
+});
+
 // Specific routes must come before parameterized routes
-router.post('/actions/suppress-notice', actionHandler.suppressNotice);
+router.post(
+  '/actions/suppress-notice',
+  api.requireScope('preferences'),
+  actionHandler.suppressNotice
+);
 
-router.post('/actions/upload', actionHandler.upload);
+router.post('/actions/upload', api.requireScope('upload'), actionHandler.upload);
 
 // For user preferences (boolean and enum types) - parameterized route
-router.post('/actions/:modify-preference', actionHandler.modifyPreference);
+router.post(
+  '/actions/:modify-preference',
+  api.requireScope('preferences'),
+  actionHandler.modifyPreference
+);
 
 // Query existence/properties of a thing (review subject)
 // look up by canonical URL name via /thing/:label or use URL query parameter
@@ -61,21 +189,7 @@ router.get('/thing', (req: ApiRouteRequest, res: ApiRouteResponse, next: Handler
             .populateReviewMetrics()
             .then(() => {
               res.status(200);
-              rv.thing = {
-                id: thing.id,
-                label: thing.label,
-                aliases: thing.aliases,
-                description: thing.description,
-                originalLanguage: thing.originalLanguage,
-                canonicalSlugName: thing.canonicalSlugName,
-                urlID: thing.urlID,
-                createdOn: thing.createdOn,
-                createdBy: thing.createdBy,
-                numberOfReviews: thing.numberOfReviews,
-                averageStarRating: thing.averageStarRating,
-                urls: thing.urls,
-                reviews: thing.reviews,
-              };
+              rv.thing = apiSerializers.thing(thing);
               res.type('json');
               res.send(JSON.stringify(rv, null, 2));
             })
@@ -86,6 +200,46 @@ router.get('/thing', (req: ApiRouteRequest, res: ApiRouteResponse, next: Handler
   }
 });
 
+// Look up many review subjects at once by URL, ID or slug name. Read-only
+// despite the method (see `api.prepareRequest`).
+router.post(
+  '/things/lookup',
+  async (req: ApiRouteRequest, res: ApiRouteResponse, next: HandlerNext) => {
+    const parseResult = thingLookupBodySchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      api.send(
+        res,
+        {
+          message: 'Could not look up review subjects.',
+          errors: api.formatIssues(parseResult.error.issues),
+        },
+        400
+      );
+      return;
+    }
+
+    // Pages often link to the same subject more than once
+    const lookups = new Map<string, Promise<ApiThingLookupResult>>();
+    const lookup = (kind: ThingLookupKind, query: string) => {
+      const key = `${kind}:${query}`;
+      if (!lookups.has(key)) lookups.set(key, lookupThing(kind, query));
+      return lookups.get(key) as Promise<ApiThingLookupResult>;
+    };
+
+    try {
+      const { urls, ids, slugs: slugNames } = parseResult.data;
+      const [urlResults, idResults, slugResults] = await Promise.all([
+        Promise.all(urls.map(url => lookup('url', url))),
+        Promise.all(ids.map(id => lookup('id', id))),
+        Promise.all(slugNames.map(slugName => lookup('slug', slugName))),
+      ]);
+      api.send(res, { urls: urlResults, ids: idResults, slugs: slugResults });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Search suggestions
 router.get(
   '/suggest/thing/:prefix',
@@ -123,6 +277,64 @@ router.get(
   }
 );
 
+// Search review subjects and reviews, with filters and paging
+router.get('/search', async (req: ApiRouteRequest, res: ApiRouteResponse, next: HandlerNext) => {
+  const failureMsg = 'Could not perform search.';
+  const parseResult = searchQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    api.send(res, { message: failureMsg, errors: api.formatIssues(parseResult.error.issues) }, 400);
+    return;
+  }
+
+  const {
+    q,
+    type,
+    from,
+    size,
+    sort,
+    minRating,
+    maxRating,
+    language,
+    team,
+    sourceTag,
+    after,
+    before,
+  } = parseResult.data;
+  try {
+    let teamID: string | undefined;
+    if (team) {
+      teamID = (await resolveTeamID(team)) ?? undefined;
+      if (!teamID) return sendNotFound(res, failureMsg, 'Team does not exist.');
+    }
+
+    const options = {
+      lang: languages.isValid(req.locale) ? (req.locale as LibReviews.LocaleCode) : 'en',
+      from,
+      size,
+      sort,
+      filters: {
+        minRating,
+        maxRating,
+        language,
+        teamID,
+        sourceTag,
+        createdAfter: after,
+        createdBefore: before,
+      },
+    };
+    // A URL only matches review subjects
+    const urlQuery = parseURLQuery(q);
+    const isURL = urlQuery !== null && 'url' in urlQuery;
+    const [things, reviews] = await Promise.all([
+      type === 'reviews' ? null : search.findThings(q, options),
+      type === 'things' || isURL ? null : search.findReviews(q, options),
+    ]);
+    api.send(res, { query: q, from, size, things, reviews });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/user/:name', (req: ApiRouteRequest, res: ApiRouteResponse) => {
   const { name } = req.params;
   const rv: Record<string, unknown> = {};
@@ -147,4 +359,89 @@ router.get('/user/:name', (req: ApiRouteRequest, res: ApiRouteResponse) => {
   });
 });
 
+// Feed of all reviews, most recent first
+router.get('/reviews', async (req: ApiRouteRequest, res: ApiRouteResponse, next: HandlerNext) => {
+  try {
+    await sendReviewFeed(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a review; the review subject is identified (or created) by URL
+router.post('/reviews', api.requireScope('review:write'), apiReviewHandlers.create);
+
+// A single review, including its subject, author and teams
+router.get(
+  '/review/:id',
+  async (req: ApiRouteRequest<{ id: string }>, res: ApiRouteResponse, next: HandlerNext) => {
+    const failureMsg = 'Could not retrieve review.';
+    const { id } = req.params;
+    if (!isUUID.v4(id)) return sendNotFound(res, failureMsg, 'Review does not exist.');
+
+    try {
+      const review = await Review.getWithData(id);
+      if (!review) return sendNotFound(res, failureMsg, 'Review does not exist.');
+      api.send(res, { review: apiSerializers.review(review) });
+    } catch (error) {
+      if (api.isNotFoundError(error))
+        return sendNotFound(res, failureMsg, 'Review does not exist.');
+      next(error);
+    }
+  }
+);
+
+router.put('/review/:id', api.requireScope('review:write'), apiReviewHandlers.update);
+
+router.delete('/review/:id', api.requireScope('review:write'), apiReviewHandlers.remove);
+
+// Reviews of a thing, identified by UUID or canonical slug name
+router.get(
+  '/thing/:id/reviews',
+  async (req: ApiRouteRequest<{ id: string }>, res: ApiRouteResponse, next: HandlerNext) => {
+    try {
+      const thingID = await resolveThingID(req.params.id);
+      if (!thingID)
+        return sendNotFound(res, 'Could not retrieve reviews.', 'Review subject does not exist.');
+      await sendReviewFeed(req, res, { thingID });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Reviews written by a user, identified by their URL name
+router.get(
+  '/user/:name/reviews',
+  async (req: ApiRouteRequest<{ name: string }>, res: ApiRouteResponse, next: HandlerNext) => {
+    try {
+      let userID: string;
+      try {
+        userID = (await User.findByURLName(req.params.name)).id;
+      } catch (error) {
+        if (api.isNotFoundError(error))
+          return sendNotFound(res, 'Could not retrieve reviews.', 'User does not exist.');
+        throw error;
+      }
+      await sendReviewFeed(req, res, { createdBy: userID });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Reviews associated with a team, identified by UUID or canonical slug name
+router.get(
+  '/team/:id/reviews',
+  async (req: ApiRouteRequest<{ id: string }>, res: ApiRouteResponse, next: HandlerNext) => {
+    try {
+      const teamID = await resolveTeamID(req.params.id);
+      if (!teamID) return sendNotFound(res, 'Could not retrieve reviews.', 'Team does not exist.');
+      await sendReviewFeed(req, res, { teamID });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
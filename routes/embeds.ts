@@ -0,0 +1,146 @@
+import config from 'config';
+import { decodeHTML } from 'entities';
+import { Router } from 'express';
+import csp from 'helmet-csp';
+import isUUID from 'is-uuid';
+import mlString from 'rev-dal/lib/ml-string';
+
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { ThingInstance } from '../models/manifests/thing.ts';
+import Review from '../models/review.ts';
+import Thing from '../models/thing.ts';
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
+import api from './helpers/api.ts';
+import oEmbed from './helpers/oembed.ts';
+import render from './helpers/render.ts';
+import slugs from './helpers/slugs.ts';
+
+type EmbedsRouteRequest<Params extends Record<string, string> = Record<string, string>> =
+  HandlerRequest<Params>;
+type EmbedsRouteResponse = HandlerResponse;
+
+const router = Router();
+
+// Embed views are shown in iframes on other sites. They load nothing but our
+// own stylesheets and images, and run no scripts.
+const embedPolicy = csp({
+  directives: {
+    defaultSrc: ["'none'"],
+    styleSrc: ["'self'"],
+    imgSrc: ["'self'", 'data:'],
+    fontSrc: ["'self'"],
+    baseUri: ["'none'"],
+    formAction: ["'none'"],
+    frameAncestors: ['*'],
+    upgradeInsecureRequests: Boolean(config.forceHTTPS),
+  },
+});
+
+const ignoreNotFound = async <T>(promise: Promise<T>): Promise<T | null> => {
+  try {
+    return await promise;
+  } catch (error) {
+    if (api.isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+const findThing = async (id: string) =>
+  (await ignoreNotFound(slugs.findThing(id, { withFiles: false })))?.document ?? null;
+
+const getThingLabel = (thing: ThingInstance, locale: string) =>
+  decodeHTML(Thing.getLabel(thing, locale) ?? '');
+
+router.get(
+  '/oembed',
+  async (req: EmbedsRouteRequest, res: EmbedsRouteResponse, next: HandlerNext) => {
+    const { url, format = 'json', maxwidth, maxheight } = req.query;
+    if (format !== 'json') return void res.sendStatus(501);
+    const resource = typeof url === 'string' ? oEmbed.parseResourceURL(url) : null;
+    if (!resource) return void res.sendStatus(404);
+
+    const size = oEmbed.getSize(resource.type, maxwidth, maxheight);
+    // oEmbed responses must not exceed the requested size
+    if (!size) return void res.sendStatus(404);
+    const response = {
+      version: '1.0',
+      type: 'rich',
+      provider_name: req.__('site name'),
+      provider_url: config.qualifiedURL,
+      cache_age: 3600,
+      ...size,
+    };
+    try {
+      if (resource.type === 'review') {
+        const review = await ignoreNotFound<ReviewInstance | null>(Review.getWithData(resource.id));
+        if (!review) return void res.sendStatus(404);
+        const reviewTitle = mlString.resolve(req.locale, review.title)?.str;
+        const title = decodeHTML(reviewTitle ?? req.__('review'));
+        res.json({
+          ...response,
+          title,
+          author_name: review.creator?.displayName,
+          author_url: review.creator
+            ? `${config.qualifiedURL}user/${review.creator.urlName}`
+            : undefined,
+          html: oEmbed.getIframeHTML('review', review.id, req.locale, size, title),
+        });
+      } else {
+        const thing = await findThing(resource.id);
+        if (!thing) return void res.sendStatus(404);
+        const title = req.__('reviews of', getThingLabel(thing, req.locale));
+        res.json({
+          ...response,
+          title,
+          html: oEmbed.getIframeHTML('thing', thing.id, req.locale, size, title),
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/embed/review/:id',
+  embedPolicy,
+  async (req: EmbedsRouteRequest<{ id: string }>, res: EmbedsRouteResponse, next: HandlerNext) => {
+    try {
+      const review = isUUID.v4(req.params.id)
+        ? await ignoreNotFound<ReviewInstance | null>(Review.getWithData(req.params.id))
+        : null;
+      if (!review) return void res.sendStatus(404);
+      const htmlContent = review.html?.[review.originalLanguage || 'en'] || '';
+      review.isLongReview = htmlContent.length > 500;
+      render.template(req, res, 'embed-review', {
+        layout: 'layout-embed',
+        titleKey: 'review',
+        review,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/embed/thing/:id',
+  embedPolicy,
+  async (req: EmbedsRouteRequest<{ id: string }>, res: EmbedsRouteResponse, next: HandlerNext) => {
+    try {
+      const thing = await findThing(req.params.id);
+      if (!thing) return void res.sendStatus(404);
+      render.template(req, res, 'embed-thing', {
+        layout: 'layout-embed',
+        titleKey: 'reviews of',
+        titleParam: Thing.getLabel(thing, req.locale),
+        thing,
+        roundedRating: Math.round(Number(thing.averageStarRating) || 0),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
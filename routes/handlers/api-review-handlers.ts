@@ -0,0 +1,211 @@
+import isUUID from 'is-uuid';
+import type { ReviewInputObject, ReviewInstance } from '../../models/manifests/review.ts';
+import Review from '../../models/review.ts';
+import User from '../../models/user.ts';
+import searchOutbox from '../../search/outbox.ts';
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
+import activityPub from '../../util/activitypub.ts';
+import ReportedError from '../../util/reported-error.ts';
+import webHookEvents, {
+  getReviewChangeEventData,
+  getReviewEventData,
+} from '../../util/webhook-events.ts';
+import webmentions from '../../util/webmentions.ts';
+import api from '../helpers/api.ts';
+import apiSerializers from '../helpers/api-serializers.ts';
+import {
+  apiBodyToReviewFormValues,
+  applyReviewEdit,
+  buildReviewAPISchema,
+  resolveReviewTeams,
+  saveReviewRevisionAndFiles,
+} from './review-provider.ts';
+
+type ReviewWriteRequest = HandlerRequest<{ id: string }, unknown, Record<string, unknown>>;
+type ReviewWriteResponse = HandlerResponse;
+
+const getBody = (req: ReviewWriteRequest): Record<string, unknown> =>
+  req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+
+const getLanguage = (body: Record<string, unknown>, fallback: string) =>
+  typeof body.language === 'string' && body.language.length ? body.language : fallback;
+
+// Localized messages for errors we report to users, undefined for other errors
+const getUserMessages = (req: ReviewWriteRequest, error: unknown): string[] | undefined => {
+  if (!(error instanceof ReportedError)) return undefined;
+  const [message, ...params] = error.getEscapedUserMessageArray();
+  return message ? [req.__(message, ...params)] : undefined;
+};
+
+// Load a review for modification by the current user. Sends an error response
+// and resolves to null if it does not exist or the user lacks the permission.
+const loadReviewForUpdate = async (
+  req: ReviewWriteRequest,
+  res: ReviewWriteResponse,
+  permission: 'userCanEdit' | 'userCanDelete'
+): Promise<ReviewInstance | null> => {
+  const { id } = req.params;
+  let review: ReviewInstance | null = null;
+  if (isUUID.v4(id)) {
+    try {
+      review = await Review.getWithData(id);
+    } catch (error) {
+      if (!api.isNotFoundError(error)) throw error;
+    }
+  }
+
+  if (!review) {
+    api.error(req, res, 'Review does not exist.', 404);
+    return null;
+  }
+
+  review.populateUserInfo(req.user);
+  if (!review[permission]) {
+    api.error(
+      req,
+      res,
+      `User '${req.user?.displayName}' is not permitted to modify this review.`,
+      403
+    );
+    return null;
+  }
+  return review;
+};
+
+const sendReview = async (res: ReviewWriteResponse, reviewID: string, status = 200) => {
+  const review = await Review.getWithData(reviewID);
+  api.send(res, { review: review ? apiSerializers.review(review) : null }, status);
+};
+
+/**
+ * JSON counterparts to the review form actions of `ReviewProvider`. Requests
+ * are validated with the same schema fields and go through the same team,
+ * search index and webhook processing, but errors are reported in the
+ * `api.error` format instead of being flashed.
+ */
+const apiReviewHandlers = {
+  /**
+   * Create a review of the thing with the given `url`, creating the thing if
+   * necessary. Responds with 201 and the new review.
+   */
+  async create(req: ReviewWriteRequest, res: ReviewWriteResponse, next: HandlerNext) {
+    const user = req.user;
+    if (!user) return api.signinRequired(req, res);
+
+    const body = getBody(req);
+    const language = getLanguage(body, 'en');
+    const { schema } = buildReviewAPISchema(req, language, {
+      requireURL: true,
+      requireLanguage: false,
+      renderLocale: req.locale,
+    });
+    const parseResult = schema.safeParse(body);
+    if (!parseResult.success)
+      return api.error(req, res, api.formatIssues(parseResult.error.issues));
+
+    const values = apiBodyToReviewFormValues(parseResult.data, language);
+    values.createdBy = user.id;
+    values.createdOn = new Date();
+
+    let review: ReviewInstance;
+    try {
+      values.teams = await resolveReviewTeams(values.teams as string[], user);
+      review = await Review.create(values as ReviewInputObject, {
+        tags: ['create-via-api'],
+        files: values.files,
+      });
+    } catch (error) {
+      const messages = getUserMessages(req, error);
+      return messages ? api.error(req, res, messages) : next(error);
+    }
+
+    try {
+      webHookEvents.emit('newReview', getReviewEventData(review, user), { teams: review.teams });
+      void activityPub.publishReview(review);
+      void webmentions.sendForReview(review);
+      await User.filterWhere({ id: user.id }).increment('inviteLinkCount', { by: 1 });
+      void searchOutbox.queueReview(review);
+
+      res.location(`${req.baseUrl}/review/${review.id}`);
+      await sendReview(res, review.id, 201);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Replace the title, text, rating, teams and social image of a review in
+   * the given language (by default, the review's original language).
+   */
+  async update(req: ReviewWriteRequest, res: ReviewWriteResponse, next: HandlerNext) {
+    if (!req.user) return api.signinRequired(req, res);
+
+    try {
+      const review = await loadReviewForUpdate(req, res, 'userCanEdit');
+      if (!review) return;
+
+      const body = getBody(req);
+      const language = getLanguage(body, review.originalLanguage ?? 'en');
+      const { schema } = buildReviewAPISchema(req, language, {
+        requireURL: false,
+        requireLanguage: false,
+        renderLocale: req.locale,
+      });
+      const parseResult = schema.safeParse(body);
+      if (!parseResult.success)
+        return api.error(req, res, api.formatIssues(parseResult.error.issues));
+      if (parseResult.data.url)
+        return api.error(
+          req,
+          res,
+          'The URL of a review subject cannot be changed by editing a review.'
+        );
+
+      const values = apiBodyToReviewFormValues(parseResult.data, language);
+      try {
+        values.teams = await resolveReviewTeams(values.teams as string[], req.user);
+        const newRev = await review.newRevision(req.user, { tags: ['edit-via-api'] });
+        applyReviewEdit(newRev, review, values, language);
+        await saveReviewRevisionAndFiles(newRev, values.files ?? []);
+        void searchOutbox.queueReview(newRev);
+        webHookEvents.emit(
+          'reviewEdited',
+          getReviewChangeEventData(newRev, req.user, review.creator),
+          { teams: newRev.teams }
+        );
+      } catch (error) {
+        const messages = getUserMessages(req, error);
+        if (messages) return api.error(req, res, messages);
+        throw error;
+      }
+
+      await sendReview(res, review.id);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Delete all revisions of a review. The review subject is kept.
+   */
+  async remove(req: ReviewWriteRequest, res: ReviewWriteResponse, next: HandlerNext) {
+    if (!req.user) return api.signinRequired(req, res);
+
+    try {
+      const review = await loadReviewForUpdate(req, res, 'userCanDelete');
+      if (!review) return;
+
+      await review.deleteAllRevisions(req.user);
+      void searchOutbox.queueReviewDeletion(review);
+      webHookEvents.emit('reviewDeleted', getReviewChangeEventData(review, req.user), {
+        teams: review.teams,
+      });
+      api.send(res, { message: 'Review deleted.', errors: [] });
+    } catch (error) {
+      next(error);
+    }
+  },
+};
+
+export type ApiReviewHandlers = typeof apiReviewHandlers;
+export default apiReviewHandlers;
@@ -5,6 +5,7 @@ import type { FileInstance } from '../../models/file.ts';
 import File from '../../models/file.ts';
 import type { HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
 import ReportedError from '../../util/reported-error.ts';
+import webHookEvents, { getFileEventData } from '../../util/webhook-events.ts';
 import api from '../helpers/api.ts';
 import { cleanupFiles, completeUploads, getFileRevs, validateFiles } from '../uploads.ts';
 
@@ -104,6 +105,10 @@ function apiUploadHandler(req: UploadRequest, res: UploadResponse) {
 
     const persistRevisions = async (fileRevs: FileInstance[]): Promise<FileInstance[]> => {
       await Promise.all(fileRevs.map(fileRev => fileRev.save()));
+      // Files uploaded via the API are added to a review subject later, when
+      // the review is saved
+      for (const fileRev of fileRevs)
+        webHookEvents.emit('fileUploaded', getFileEventData(fileRev, req.user));
       return fileRevs;
     };
 
@@ -11,8 +11,10 @@ import BlogPostModel, { type BlogPostInstance } from '../../models/blog-post.ts'
 import type { BlogPostData, BlogPostVirtual } from '../../models/manifests/blog-post.ts';
 import type { TeamInstance } from '../../models/manifests/team.ts';
 // Internal dependencies
+import searchOutbox from '../../search/outbox.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
 import frontendMessages from '../../util/frontend-messages.ts';
+import webHookEvents, { getBlogPostEventData } from '../../util/webhook-events.ts';
 import feeds from '../helpers/feeds.ts';
 import slugs from '../helpers/slugs.ts';
 import {
@@ -326,6 +328,7 @@ class BlogPostProvider extends AbstractBREADProvider {
             newRev
               .save()
               .then(() => {
+                void searchOutbox.queueBlogPost(newRev);
                 this.req.flash('pageMessages', this.req.__('edit saved'));
                 this.res.redirect(`/team/${team.urlID}/post/${newRev.id}`);
               })
@@ -384,6 +387,12 @@ class BlogPostProvider extends AbstractBREADProvider {
         rev
           .save()
           .then(savedRev => {
+            void searchOutbox.queueBlogPost(savedRev);
+            webHookEvents.emit(
+              'blogPostPublished',
+              getBlogPostEventData(savedRev, team, this.req.user),
+              { teams: [team] }
+            );
             this.res.redirect(`/team/${team.urlID}/post/${savedRev.id}`);
           })
           .catch(this.next);
@@ -416,6 +425,7 @@ class BlogPostProvider extends AbstractBREADProvider {
             tags: ['delete-via-form'],
           })
           .then(() => {
+            void searchOutbox.queueBlogPostDeletion(blogPost);
             this.renderTemplate('post-deleted', {
               titleKey: 'blog post deleted',
             });
@@ -16,15 +16,24 @@ import type { ThingInstance } from '../../models/manifests/thing.ts';
 import Review from '../../models/review.ts';
 import Team from '../../models/team.ts';
 import User from '../../models/user.ts';
-import search from '../../search.ts';
+import searchOutbox from '../../search/outbox.ts';
 // Internal dependencies
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
+import activityPub from '../../util/activitypub.ts';
 import frontendMessages from '../../util/frontend-messages.ts';
 import getMessages from '../../util/get-messages.ts';
 import md, { getMarkdownMessageKeys } from '../../util/md.ts';
 import ReportedError from '../../util/reported-error.ts';
 import urlUtils from '../../util/url-utils.ts';
+import webHookEvents, {
+  getReviewChangeEventData,
+  getReviewEventData,
+  getThingChangeEventData,
+} from '../../util/webhook-events.ts';
+import webmentions, { type Webmention } from '../../util/webmentions.ts';
+import oEmbed from '../helpers/oembed.ts';
 import slugs from '../helpers/slugs.ts';
+import structuredData from '../helpers/structured-data.ts';
 import {
   flashZodIssues,
   formatZodIssueMessage,
@@ -235,6 +244,36 @@ const buildReviewSchema = (
   };
 };
 
+/**
+ * Build the JSON body schema for creating or editing a review via the API.
+ * Reuses the field validation of the review form, but with plain field names
+ * and without form-only fields such as the CSRF token or preview action.
+ */
+const buildReviewAPISchema = (
+  req: HandlerRequest,
+  language: string,
+  options: { requireURL: boolean; requireLanguage: boolean; renderLocale?: string }
+) => {
+  const { fields } = buildReviewSchema(req, language, options);
+  const schema = z
+    .object({
+      url: fields.url,
+      title: fields.title,
+      label: fields.label,
+      text: fields.text,
+      starRating: fields.starRating,
+      language: fields.language,
+      teams: fields.teams,
+      files: fields.files,
+      socialImageID: fields.socialImageID,
+    })
+    .strict();
+
+  return { schema, fields };
+};
+
+type ParsedReviewAPIBody = z.infer<ReturnType<typeof buildReviewAPISchema>['schema']>;
+
 const buildDeleteReviewSchema = (req: HandlerRequest) => {
   return csrfSchema.extend({
     'delete-action': z.string().min(1, req.__('need delete-action')),
@@ -264,6 +303,27 @@ const toReviewFormValues = (data: ParsedReviewForm, fallbackLanguage: string): R
   return values;
 };
 
+const apiBodyToReviewFormValues = (
+  data: ParsedReviewAPIBody,
+  fallbackLanguage: string
+): ReviewFormValues => {
+  const values: ReviewFormValues = {
+    title: data.title,
+    text: data.text.text,
+    html: data.text.html,
+    starRating: data.starRating,
+    originalLanguage: data.language ?? fallbackLanguage,
+    teams: data.teams,
+    files: data.files ?? [],
+  };
+
+  if (data.url) values.url = data.url;
+  if (data.label) values.label = data.label;
+  if (data.socialImageID) values.socialImageID = data.socialImageID;
+
+  return values;
+};
+
 const extractReviewFormValues = (
   fields: ReviewSchemaResult['fields'],
   body: Record<string, unknown>,
@@ -343,7 +403,7 @@ class ReviewProvider extends AbstractBREADProvider {
     };
   }
 
-  read_GET(review: ReviewInstance): void {
+  async read_GET(review: ReviewInstance): Promise<void> {
     let titleParam;
     if (review.thing) {
       if (review.thing.label)
@@ -355,6 +415,19 @@ class ReviewProvider extends AbstractBREADProvider {
     review.populateUserInfo(this.req.user);
 
     let pageMessages = this.req.flash('pageMessages');
+    let pageErrors = this.req.flash('pageErrors');
+
+    // Site moderators also see mentions they hid, so they can show them again
+    const isSiteModerator = Boolean(this.req.user?.isSiteModerator);
+    let mentions: Webmention[] = [];
+    if (webmentions.isEnabled()) {
+      this.res.set('Link', `<${config.qualifiedURL}webmention>; rel="webmention"`);
+      try {
+        mentions = await webmentions.getForReview(review.id, isSiteModerator);
+      } catch (error) {
+        return this.next(error);
+      }
+    }
 
     this.renderTemplate('review', {
       titleKey: titleParam ? 'review of' : 'review',
@@ -365,6 +438,12 @@ class ReviewProvider extends AbstractBREADProvider {
         : review.headerImage,
       review,
       pageMessages,
+      pageErrors,
+      mentions,
+      canModerateMentions: isSiteModerator,
+      oEmbedURL: oEmbed.getDiscoveryURL(`/review/${review.id}`),
+      oEmbedTitleKey: 'embed review',
+      structuredData: structuredData.serialize(structuredData.review(review, this.req.locale)),
     });
   }
 
@@ -546,17 +625,17 @@ class ReviewProvider extends AbstractBREADProvider {
           files: formValues.files,
         })
           .then((review: ReviewInstance) => {
-            this.req.app.locals.webHooks.trigger('newReview', {
-              event: 'new-review',
-              data: this.getWebHookData(review, this.req.user),
+            webHookEvents.emit('newReview', getReviewEventData(review, this.req.user), {
+              teams: review.teams,
             });
+            void activityPub.publishReview(review);
+            void webmentions.sendForReview(review);
 
             User.filterWhere({ id: this.req.user.id })
               .increment('inviteLinkCount', { by: 1 })
               .then(() => {
                 this.res.redirect(`/${review.thing.id}#your-review`);
-                search.indexReview(review);
-                search.indexThing(review.thing);
+                void searchOutbox.queueReview(review);
               })
               .catch(this.next); // Problem updating invite count
           })
@@ -668,31 +747,15 @@ class ReviewProvider extends AbstractBREADProvider {
           })
           .then(async newRev => {
             const f = formValues;
-
-            Review.validateSocialImage({
-              socialImageID: f.socialImageID,
-              newFileIDs: f.files,
-              fileObjects: review.thing.files as ReviewValidateSocialImageOptions['fileObjects'],
-            });
-
-            const titleTranslations = newRev.title as MultilingualString;
-            const textTranslations = newRev.text as MultilingualString;
-            const htmlTranslations = newRev.html as MultilingualString;
-            const formTitles = f.title ?? {};
-            const formTexts = f.text ?? {};
-            const formHtml = f.html ?? {};
-            titleTranslations[language] = formTitles[language] ?? '';
-            textTranslations[language] = formTexts[language] ?? '';
-            htmlTranslations[language] = formHtml[language] ?? '';
-            newRev.starRating = f.starRating;
-            // After resolveTeamData(), teams is always TeamInstance[]
-            newRev.teams = f.teams as TeamInstance[];
-            newRev.thing = review.thing;
-            newRev.socialImageID = f.socialImageID;
+            applyReviewEdit(newRev, review, f, language);
             this.saveNewRevisionAndFiles(newRev, f.files)
               .then(() => {
-                search.indexReview(review);
-                search.indexThing(review.thing);
+                void searchOutbox.queueReview(review);
+                webHookEvents.emit(
+                  'reviewEdited',
+                  getReviewChangeEventData(newRev, this.req.user, review.creator),
+                  { teams: newRev.teams }
+                );
                 this.req.flash('pageMessages', this.req.__('edit saved'));
                 this.res.redirect(`/review/${newRev.id}`);
               })
@@ -706,50 +769,13 @@ class ReviewProvider extends AbstractBREADProvider {
   // Save an edited review, and associate any newly uploaded files with the
   // review subject
   async saveNewRevisionAndFiles(newRev: ReviewInstance, files: string[]): Promise<void> {
-    await newRev.saveAll({
-      teams: true,
-      thing: true,
-    });
-
-    if (Array.isArray(files) && typeof newRev.thing == 'object')
-      await newRev.thing.addFilesByIDsAndSave(files, newRev.createdBy);
+    await saveReviewRevisionAndFiles(newRev, files);
   }
 
   // Obtain the data for each team submitted in the form and assign it to
   // formValues.
   async resolveTeamData(formValues: ReviewFormValues): Promise<void> {
-    if (!Array.isArray(formValues.teams) || !formValues.teams.length) {
-      formValues.teams = [];
-      return;
-    }
-
-    const queries = (formValues.teams as string[]).map(teamId => Team.getWithData(teamId));
-
-    try {
-      formValues.teams = await Promise.all(queries);
-    } catch (error) {
-      if (
-        error.name == 'DocumentNotFound' ||
-        error.name == 'DocumentNotFoundError' ||
-        error.name == 'RevisionDeletedError'
-      )
-        throw new ReportedError({
-          parentError: error,
-          userMessage: 'submitted team could not be found',
-        });
-      else throw error;
-    }
-
-    if (Array.isArray(formValues.teams)) {
-      formValues.teams.forEach(teamEntry => {
-        const team = teamEntry as TeamInstance;
-        team.populateUserInfo(this.req.user);
-        if (!team.userIsMember)
-          throw new ReportedError({
-            userMessage: 'user is not member of submitted team',
-          });
-      });
-    }
+    formValues.teams = await resolveReviewTeams(formValues.teams as string[], this.req.user);
   }
 
   async delete_GET(review: ReviewInstance): Promise<void> {
@@ -812,29 +838,118 @@ class ReviewProvider extends AbstractBREADProvider {
         this.renderTemplate('review-deleted', {
           titleKey: 'review deleted',
         });
-        search.deleteReview(review);
-        if (withThing) search.deleteThing(review.thing);
+        void searchOutbox.queueReviewDeletion(review);
+        webHookEvents.emit('reviewDeleted', getReviewChangeEventData(review, this.req.user), {
+          teams: review.teams,
+        });
+        if (withThing) {
+          void searchOutbox.queueThingDeletion(review.thing);
+          webHookEvents.emit('thingDeleted', getThingChangeEventData(review.thing, this.req.user));
+        }
       })
       .catch(this.next);
   }
+}
 
-  // Return data for easy external processing after publication, e.g. via IRC
-  // feeds
-  getWebHookData(review: ReviewInstance, user: HandlerRequest['user']) {
-    return {
-      title: review.title,
-      thingURLs: review.thing.urls,
-      thingLabel: review.thing.label,
-      starRating: review.starRating,
-      html: review.html,
-      text: review.text,
-      createdOn: review.createdOn,
-      author: user.displayName,
-      reviewURL: `${config.qualifiedURL}review/${review.id}`,
-      thingURL: `${config.qualifiedURL}thing/${review.thing.id}`,
-      authorURL: `${config.qualifiedURL}user/${user.urlName}`,
-    };
+/**
+ * Load the teams a review is submitted to, and ensure the author is a member
+ * of each of them.
+ *
+ * @param teamIDs - IDs of the submitted teams
+ * @param user - Author of the review
+ * @returns Team instances, in submission order
+ * @throws ReportedError if a team does not exist or the user is not a member
+ */
+async function resolveReviewTeams(
+  teamIDs: string[] | undefined,
+  user: HandlerRequest['user']
+): Promise<TeamInstance[]> {
+  if (!Array.isArray(teamIDs) || !teamIDs.length) return [];
+
+  let teams: TeamInstance[];
+  try {
+    teams = (await Promise.all(teamIDs.map(teamId => Team.getWithData(teamId)))) as TeamInstance[];
+  } catch (error) {
+    if (
+      error.name == 'DocumentNotFound' ||
+      error.name == 'DocumentNotFoundError' ||
+      error.name == 'RevisionDeletedError'
+    )
+      throw new ReportedError({
+        parentError: error,
+        userMessage: 'submitted team could not be found',
+      });
+    else throw error;
   }
+
+  teams.forEach(team => {
+    team.populateUserInfo(user);
+    if (!team.userIsMember)
+      throw new ReportedError({
+        userMessage: 'user is not member of submitted team',
+      });
+  });
+  return teams;
+}
+
+/**
+ * Apply validated edits in the given language to a new review revision.
+ * Translations in other languages are left as they are.
+ *
+ * @param newRev - Revision created via `review.newRevision()`
+ * @param review - Review being edited, with its thing and files loaded
+ * @param values - Validated values, with teams already resolved
+ * @param language - Language of the submitted title and text
+ * @throws ReportedError if the social image is not associated with the thing
+ */
+function applyReviewEdit(
+  newRev: ReviewInstance,
+  review: ReviewInstance,
+  values: ReviewFormValues,
+  language: string
+): void {
+  Review.validateSocialImage({
+    socialImageID: values.socialImageID,
+    newFileIDs: values.files,
+    fileObjects: review.thing.files as ReviewValidateSocialImageOptions['fileObjects'],
+  });
+
+  const titleTranslations = newRev.title as MultilingualString;
+  const textTranslations = newRev.text as MultilingualString;
+  const htmlTranslations = newRev.html as MultilingualString;
+  const formTitles = values.title ?? {};
+  const formTexts = values.text ?? {};
+  const formHtml = values.html ?? {};
+  titleTranslations[language] = formTitles[language] ?? '';
+  textTranslations[language] = formTexts[language] ?? '';
+  htmlTranslations[language] = formHtml[language] ?? '';
+  newRev.starRating = values.starRating;
+  // After resolveReviewTeams(), teams is always TeamInstance[]
+  newRev.teams = values.teams as TeamInstance[];
+  newRev.thing = review.thing;
+  newRev.socialImageID = values.socialImageID;
+}
+
+/**
+ * Save an edited review, and associate any newly uploaded files with the
+ * review subject.
+ */
+async function saveReviewRevisionAndFiles(newRev: ReviewInstance, files: string[]): Promise<void> {
+  await newRev.saveAll({
+    teams: true,
+    thing: true,
+  });
+
+  if (Array.isArray(files) && typeof newRev.thing == 'object')
+    await newRev.thing.addFilesByIDsAndSave(files, newRev.createdBy);
 }
 
 export default ReviewProvider;
+export type { ReviewFormValues };
+export {
+  apiBodyToReviewFormValues,
+  applyReviewEdit,
+  buildReviewAPISchema,
+  resolveReviewTeams,
+  saveReviewRevisionAndFiles,
+};
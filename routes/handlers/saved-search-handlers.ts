@@ -0,0 +1,272 @@
+import url from 'node:url';
+import config from 'config';
+import escapeHTML from 'escape-html';
+import i18n from 'i18n';
+import isUUID from 'is-uuid';
+import mlString from 'rev-dal/lib/ml-string';
+import { z } from 'zod';
+import languages from '../../locales/languages.ts';
+import Review from '../../models/review.ts';
+import SavedSearch, { type SavedSearchInstance } from '../../models/saved-search.ts';
+import Team from '../../models/team.ts';
+import Thing from '../../models/thing.ts';
+import User from '../../models/user.ts';
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
+import urlUtils from '../../util/url-utils.ts';
+import render from '../helpers/render.ts';
+import { flashZodIssues, formatZodIssueMessage } from '../helpers/zod-flash.ts';
+import { csrfField } from '../helpers/zod-forms.ts';
+import userHandlers from './user-handlers.ts';
+
+const titleKey = 'saved searches';
+
+// Field names match the search page, whose form the search is saved from
+const buildSavedSearchSchema = (req: HandlerRequest) =>
+  z
+    .object({
+      _csrf: csrfField,
+      query: z
+        .string()
+        .trim()
+        .min(1, req.__('need search query'))
+        .max(SavedSearch.options.maxQueryLength, req.__('search query too long')),
+      language: z
+        .string()
+        .refine(value => languages.isValid(value))
+        .optional(),
+      minRating: z.coerce.number().int().min(1).max(5).optional(),
+      team: z
+        .string()
+        .refine(value => isUUID.v4(value))
+        .optional(),
+      sourceTag: z.enum(urlUtils.getTags() as [string, ...string[]]).optional(),
+      'notify-by-email': z
+        .literal('on')
+        .optional()
+        .transform(value => value === 'on'),
+    })
+    .strict();
+
+const getSettingsURL = (user: { urlName: string }) => `/user/${user.urlName}/settings/searches`;
+
+const getLocaleCode = (req: HandlerRequest) =>
+  languages.isValid(req.locale) ? (req.locale as LibReviews.LocaleCode) : 'en';
+
+// Human-readable descriptions of the filters saved with a search
+async function getFilterLabels(req: HandlerRequest, savedSearches: SavedSearchInstance[]) {
+  const localeCode = getLocaleCode(req);
+  const teamIDs = [
+    ...new Set(savedSearches.map(savedSearch => savedSearch.filters?.teamID).filter(Boolean)),
+  ] as string[];
+  const teams = teamIDs.length
+    ? await Team.filterWhere({ id: Team.ops.in(teamIDs as [string, ...string[]]) }).run()
+    : [];
+  const teamNames = new Map(
+    teams.map(team => [team.id, mlString.resolve(localeCode, team.name)?.str ?? team.id])
+  );
+
+  return (savedSearch: SavedSearchInstance) => {
+    const { language, minRating, teamID, sourceTag } = savedSearch.filters ?? {};
+    const labels: string[] = [];
+    if (language) labels.push(languages.getCompositeName(language, localeCode));
+    if (minRating) labels.push(req.__n('minimum star rating', minRating));
+    if (teamID) labels.push(teamNames.get(teamID) ?? teamID);
+    if (sourceTag) labels.push(req.__(`${sourceTag} tag label`));
+    return labels;
+  };
+}
+
+const savedSearchHandlers = {
+  /**
+   * Show the saved searches of the signed-in user.
+   */
+  async getSavedSearches(
+    req: HandlerRequest<{ name: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name, titleKey);
+      if (!user) return;
+
+      const savedSearches = await SavedSearch.getForUser(user.id);
+      const getLabels = await getFilterLabels(req, savedSearches);
+      const settingsURL = getSettingsURL(user);
+      render.template(req, res, 'saved-searches', {
+        titleKey,
+        settingsURL,
+        savedSearches: savedSearches.map(savedSearch => ({
+          id: savedSearch.id,
+          query: savedSearch.query,
+          filterLabels: getLabels(savedSearch),
+          notifyByEmail: savedSearch.notifyByEmail,
+          createdAt: savedSearch.createdAt,
+          searchURL: savedSearch.getSearchURL(),
+          feedURL: `${settingsURL}/${savedSearch.id}/atom`,
+        })),
+        pageErrors: req.flash('pageErrors'),
+        pageMessages: req.flash('pageMessages'),
+      });
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  /**
+   * Save a search submitted from the search page.
+   */
+  async processSavedSearchCreate(
+    req: HandlerRequest<{ name: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name, titleKey);
+      if (!user) return;
+
+      const parseResult = buildSavedSearchSchema(req).safeParse(req.body);
+      if (!parseResult.success) {
+        flashZodIssues(req, parseResult.error.issues, issue => formatZodIssueMessage(req, issue));
+        return res.redirect(getSettingsURL(user));
+      }
+
+      const existing = await SavedSearch.getForUser(user.id);
+      if (existing.length >= SavedSearch.options.maxPerUser) {
+        req.flash(
+          'pageErrors',
+          req.__('too many saved searches', String(SavedSearch.options.maxPerUser))
+        );
+        return res.redirect(getSettingsURL(user));
+      }
+
+      const { query, language, minRating, team, sourceTag } = parseResult.data;
+      await SavedSearch.createForUser(user.id, {
+        query,
+        filters: { language, minRating, teamID: team, sourceTag },
+        lang: getLocaleCode(req),
+        notifyByEmail: parseResult.data['notify-by-email'],
+      });
+      req.flash('pageMessages', req.__('search saved'));
+      res.redirect(getSettingsURL(user));
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  /**
+   * Switch email alerts for a saved search on or off.
+   */
+  async processSavedSearchAlerts(
+    req: HandlerRequest<{ name: string; id: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name, id } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name, titleKey);
+      if (!user) return;
+
+      const savedSearch = await SavedSearch.getOwned(id, user.id);
+      if (!savedSearch) {
+        req.flash('pageErrors', req.__('saved search not found'));
+        return res.redirect(getSettingsURL(user));
+      }
+
+      savedSearch.notifyByEmail = !savedSearch.notifyByEmail;
+      // Alerts only cover results created after they are switched on
+      if (savedSearch.notifyByEmail) savedSearch.lastCheckedAt = new Date();
+      await savedSearch.save();
+      req.flash(
+        'pageMessages',
+        req.__(savedSearch.notifyByEmail ? 'saved search alerts on' : 'saved search alerts off')
+      );
+      res.redirect(getSettingsURL(user));
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  async processSavedSearchDelete(
+    req: HandlerRequest<{ name: string; id: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name, id } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name, titleKey);
+      if (!user) return;
+
+      const savedSearch = await SavedSearch.getOwned(id, user.id);
+      if (!savedSearch) {
+        req.flash('pageErrors', req.__('saved search not found'));
+        return res.redirect(getSettingsURL(user));
+      }
+
+      await SavedSearch.filterWhere({ id: savedSearch.id }).delete();
+      req.flash('pageMessages', req.__('saved search deleted'));
+      res.redirect(getSettingsURL(user));
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  /**
+   * Atom feed of the newest results of a saved search. Feed readers can't sign
+   * in, so the feed is public; its URL contains the unguessable ID of the
+   * saved search, which serves as the key.
+   */
+  async getSavedSearchFeed(
+    req: HandlerRequest<{ name: string; id: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name, id } = req.params;
+    try {
+      const user = await User.findByURLName(name);
+      const savedSearch = await SavedSearch.getOwned(id, user.id);
+      if (!savedSearch) return next();
+
+      const { things, reviews } = await savedSearch.findMatches();
+      const thingIDs = things.hits.map(hit => hit.id);
+      const reviewIDs = reviews.hits.map(hit => hit.id);
+      const [thingItems, feedItems] = await Promise.all([
+        thingIDs.length
+          ? Thing.filterWhere({ id: Thing.ops.in(thingIDs as [string, ...string[]]) })
+              .orderBy('createdOn', 'DESC')
+              .run()
+          : [],
+        reviewIDs.length
+          ? Review.filterWhere({ id: Review.ops.in(reviewIDs as [string, ...string[]]) })
+              .getJoin({ thing: true, creator: true })
+              .orderBy('createdOn', 'DESC')
+              .run()
+          : [],
+      ]);
+
+      let updatedDate: Date | undefined;
+      for (const item of [...thingItems, ...feedItems])
+        if (!updatedDate || (item.createdOn && item.createdOn > updatedDate))
+          updatedDate = item.createdOn;
+
+      i18n.setLocale(req, savedSearch.lang);
+      res.type('application/atom+xml');
+      render.template(req, res, 'saved-search-feed-atom', {
+        titleKey: 'saved search feed title',
+        // Queries are stored as entered
+        titleParam: escapeHTML(savedSearch.query),
+        layout: 'layout-atom',
+        updatedDate: updatedDate ?? savedSearch.createdAt,
+        thingItems,
+        feedItems,
+        selfURL: url.resolve(config.qualifiedURL, `${getSettingsURL(user)}/${savedSearch.id}/atom`),
+        htmlURL: url.resolve(config.qualifiedURL, savedSearch.getSearchURL()),
+      });
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+};
+
+export default savedSearchHandlers;
@@ -8,13 +8,19 @@ import { z } from 'zod';
 import BlogPost from '../../models/blog-post.ts';
 import type { TeamInstance as TeamManifestInstance } from '../../models/manifests/team.ts';
 import type { TeamJoinRequestInstance } from '../../models/manifests/team-join-request.ts';
+import { teamWebHookEvents, teamWebHookOptions } from '../../models/manifests/team-webhook.ts';
 import type { UserView } from '../../models/manifests/user.ts';
 import Team from '../../models/team.ts';
+import TeamWebHook from '../../models/team-webhook.ts';
+import searchOutbox from '../../search/outbox.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
 import debug from '../../util/debug.ts';
 import frontendMessages from '../../util/frontend-messages.ts';
+import urlUtils from '../../util/url-utils.ts';
+import webHookEvents, { getTeamEventData, getTestEventPayload } from '../../util/webhook-events.ts';
 import feeds from '../helpers/feeds.ts';
 import slugs from '../helpers/slugs.ts';
+import structuredData from '../helpers/structured-data.ts';
 import {
   flashZodIssues,
   formatZodIssueMessage,
@@ -81,6 +87,33 @@ const buildTeamSchema = (req: HandlerRequest, language: string, formKey: string)
 
 type TeamFormSchemaOutput = z.infer<ReturnType<typeof buildTeamSchema>>;
 
+const buildWebHookSchema = (req: HandlerRequest) =>
+  z.discriminatedUnion('webhook-action', [
+    z
+      .object({
+        _csrf: zodForms.csrfField,
+        'webhook-action': z.literal('add'),
+        'webhook-url': z
+          .string()
+          .trim()
+          .min(1, req.__('need team webhook url'))
+          .max(teamWebHookOptions.maxURLLength, req.__('invalid team webhook url'))
+          .refine(urlUtils.isPublic, req.__('invalid team webhook url')),
+        'webhook-events': z.preprocess(
+          zodForms.preprocessArrayField,
+          z.array(z.enum(teamWebHookEvents)).min(1, req.__('need team webhook events'))
+        ),
+      })
+      .strict(),
+    z
+      .object({
+        _csrf: zodForms.csrfField,
+        'webhook-action': z.enum(['delete', 'test']),
+        'webhook-id': z.string(),
+      })
+      .strict(),
+  ]);
+
 const toTeamFormValues = (data: TeamFormSchemaOutput): TeamFormValues => ({
   name: data['team-name'],
   motto: data['team-motto'],
@@ -169,6 +202,15 @@ class TeamProvider extends AbstractBREADProvider {
       preFlightChecks: [this.userIsSignedIn],
     };
 
+    // Webhooks for the team's reviews and blog posts
+    this.actions.webHooks = {
+      GET: this.webHooks_GET,
+      POST: this.webHooks_POST,
+      loadData: this.loadData,
+      titleKey: 'team webhooks',
+      preFlightChecks: [this.userIsSignedIn],
+    };
+
     this.messageKeyPrefix = 'team';
   }
 
@@ -354,6 +396,113 @@ class TeamProvider extends AbstractBREADProvider {
     return slugs.resolveAndLoadTeam(this.req, this.res, this.id);
   }
 
+  // List the team's webhooks with a form to add more; for moderators only
+  async webHooks_GET(team: TeamInstance): Promise<void> {
+    team.populateUserInfo(this.req.user);
+    if (!team.userIsModerator) return this.renderPermissionError();
+
+    const pageErrors = this.req.flash('pageErrors');
+    const pageMessages = this.req.flash('pageMessages');
+    const webHooks = await TeamWebHook.getForTeam(team.id);
+    const getEventLabel = (eventName: string) => this.req.__(`team webhook event ${eventName}`);
+
+    this.renderTemplate('team-webhooks', {
+      team,
+      teamURL: `/team/${team.urlID}`,
+      teamName: mlString.resolve(
+        typeof this.req.locale === 'string' ? this.req.locale : 'en',
+        team.name as MultilingualString
+      )?.str,
+      titleKey: this.actions.webHooks.titleKey,
+      webHooks: webHooks.map(webHook => ({
+        id: webHook.id,
+        url: webHook.url,
+        eventLabels: webHook.events.map(getEventLabel),
+        createdAt: webHook.createdAt,
+      })),
+      events: teamWebHookEvents.map(eventName => ({
+        eventName,
+        label: getEventLabel(eventName),
+      })),
+      pageErrors,
+      pageMessages,
+    });
+  }
+
+  // Add, delete or test a webhook, depending on the submitted action
+  async webHooks_POST(team: TeamInstance): Promise<void> {
+    const currentUser = this.req.user;
+    team.populateUserInfo(currentUser);
+    if (!team.userIsModerator) return this.renderPermissionError();
+
+    const webHooksURL = `/team/${team.urlID}/webhooks`;
+    const parseResult = buildWebHookSchema(this.req).safeParse(this.req.body);
+    if (!parseResult.success) {
+      flashZodIssues(this.req, parseResult.error.issues, issue =>
+        formatZodIssueMessage(this.req, issue)
+      );
+      return this.res.redirect(webHooksURL);
+    }
+
+    try {
+      const data = parseResult.data;
+      if (data['webhook-action'] === 'add') {
+        const existing = await TeamWebHook.getForTeam(team.id);
+        if (existing.length >= teamWebHookOptions.maxPerTeam)
+          this.req.flash(
+            'pageErrors',
+            this.req.__('too many team webhooks', String(teamWebHookOptions.maxPerTeam))
+          );
+        else if (existing.some(webHook => webHook.url === data['webhook-url']))
+          this.req.flash('pageErrors', this.req.__('team webhook exists'));
+        else {
+          await TeamWebHook.createForTeam(team.id, currentUser.id, {
+            url: data['webhook-url'],
+            events: data['webhook-events'],
+          });
+          this.req.flash('pageMessages', this.req.__('team webhook added'));
+        }
+        return this.res.redirect(webHooksURL);
+      }
+
+      const webHook = await TeamWebHook.getOwned(data['webhook-id'], team.id);
+      if (!webHook) {
+        this.req.flash('pageErrors', this.req.__('team webhook not found'));
+        return this.res.redirect(webHooksURL);
+      }
+
+      if (data['webhook-action'] === 'delete') {
+        await TeamWebHook.filterWhere({ id: webHook.id }).delete();
+        this.req.flash('pageMessages', this.req.__('team webhook deleted'));
+        return this.res.redirect(webHooksURL);
+      }
+
+      // Test events are sent once and not stored, so the result can be shown
+      // right away
+      const result = await this.req.app.locals.webHooks?.deliver(
+        webHook.url,
+        getTestEventPayload(team, currentUser)
+      );
+      if (result?.ok)
+        this.req.flash(
+          'pageMessages',
+          this.req.__('team webhook test delivered', escapeHTML(webHook.url), String(result.status))
+        );
+      else
+        this.req.flash(
+          'pageErrors',
+          this.req.__(
+            'team webhook test failed',
+            escapeHTML(webHook.url),
+            escapeHTML(result?.error ?? `HTTP status ${result?.status}`)
+          )
+        );
+      this.res.redirect(webHooksURL);
+    } catch (error) {
+      this.next(error);
+    }
+  }
+
   // Show recent reviews on the team entry page
   loadDataWithMostRecentReview(): Promise<TeamInstance> {
     return slugs.resolveAndLoadTeam(this.req, this.res, this.id, {
@@ -483,6 +632,7 @@ class TeamProvider extends AbstractBREADProvider {
         embeddedFeeds,
         paginationURL,
         blogPostsUTCISODate: offsetDate ? offsetDate.toISOString() : undefined,
+        structuredData: structuredData.serialize(structuredData.team(team, this.req.locale)),
         deferPageHeader: true, // Two-column-layout
       });
     });
@@ -626,7 +776,10 @@ class TeamProvider extends AbstractBREADProvider {
           .then(updatedRev => {
             updatedRev
               .save()
-              .then(savedRev => this.res.redirect(`/team/${savedRev.urlID}`))
+              .then(savedRev => {
+                void searchOutbox.queueTeam(savedRev);
+                this.res.redirect(`/team/${savedRev.urlID}`);
+              })
               .catch(this.next);
           })
           // Slug update failed
@@ -707,7 +860,11 @@ class TeamProvider extends AbstractBREADProvider {
             // Save again if slug updated the canonicalSlugName, and save members/moderators
             return team.saveAll();
           })
-          .then(team => this.res.redirect(`/team/${team.urlID}`))
+          .then(team => {
+            void searchOutbox.queueTeam(team);
+            webHookEvents.emit('teamCreated', getTeamEventData(team, currentUser));
+            this.res.redirect(`/team/${team.urlID}`);
+          })
           // Problem saving team or updating slug
           .catch(error => {
             if (error.name === 'DuplicateSlugNameError') {
@@ -740,6 +897,7 @@ class TeamProvider extends AbstractBREADProvider {
         tags: ['delete-via-form'],
       })
       .then(() => {
+        void searchOutbox.queueTeamDeletion(team);
         this.renderTemplate('team-deleted', {
           titleKey: 'team deleted',
         });
@@ -1,16 +1,38 @@
 import escapeHTML from 'escape-html';
 import type { MultilingualRichText } from 'rev-dal/lib/ml-string';
+import { z } from 'zod';
+import ApiToken from '../../models/api-token.ts';
+import { apiTokenOptions, apiTokenScopes } from '../../models/manifests/api-token.ts';
 import type { TeamInstance } from '../../models/manifests/team.ts';
 import type { UserMetaInstance } from '../../models/manifests/user-meta.ts';
 import Review from '../../models/review.ts';
 import User from '../../models/user.ts';
+import searchOutbox from '../../search/outbox.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../../types/http/handlers.ts';
 import frontendMessages from '../../util/frontend-messages.ts';
 import md from '../../util/md.ts';
 import feeds from '../helpers/feeds.ts';
 import render from '../helpers/render.ts';
+import { flashZodIssues, formatZodIssueMessage } from '../helpers/zod-flash.ts';
+import { csrfField, preprocessArrayField } from '../helpers/zod-forms.ts';
 import reviewHandlers from './review-handlers.ts';
 
+const buildAccessTokenSchema = (req: HandlerRequest) =>
+  z
+    .object({
+      _csrf: csrfField,
+      'token-name': z
+        .string()
+        .trim()
+        .min(1, req.__('need token name'))
+        .max(apiTokenOptions.maxNameLength, req.__('token name too long')),
+      'token-scopes': z.preprocess(
+        preprocessArrayField,
+        z.array(z.enum(apiTokenScopes)).min(1, req.__('need token scope'))
+      ),
+    })
+    .strict();
+
 const userHandlers = {
   async processEdit(req: HandlerRequest, res: HandlerResponse, next: HandlerNext) {
     const { name } = req.params;
@@ -59,6 +81,7 @@ const userHandlers = {
         metaRev.bio = bioData;
 
         await metaRev.save();
+        void searchOutbox.queueUser(user);
         req.flash('pageMessages', req.__('edit saved'));
         res.redirect(`/user/${user.urlName}`);
       }
@@ -221,6 +244,123 @@ const userHandlers = {
     };
   },
 
+  /**
+   * Show the personal access tokens of the signed-in user. Tokens can only be
+   * managed by their owner, so other users' pages are off limits even to
+   * moderators.
+   */
+  async getAccessTokens(
+    req: HandlerRequest<{ name: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name);
+      if (user) await userHandlers.sendAccessTokens(req, res, user);
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  async processAccessTokenCreate(
+    req: HandlerRequest<{ name: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name);
+      if (!user) return;
+
+      const parseResult = buildAccessTokenSchema(req).safeParse(req.body);
+      if (!parseResult.success) {
+        flashZodIssues(req, parseResult.error.issues, issue => formatZodIssueMessage(req, issue));
+        return res.redirect(`/user/${user.urlName}/settings/tokens`);
+      }
+
+      const { token, secret } = await ApiToken.issue(
+        user.id,
+        parseResult.data['token-name'],
+        parseResult.data['token-scopes']
+      );
+
+      // The secret is rendered directly rather than flashed, so it never ends
+      // up in the session store.
+      await userHandlers.sendAccessTokens(req, res, user, {
+        newToken: { id: token.id, name: token.name, secret },
+      });
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  async processAccessTokenRevoke(
+    req: HandlerRequest<{ name: string; id: string }>,
+    res: HandlerResponse,
+    next: HandlerNext
+  ) {
+    const { name, id } = req.params;
+    try {
+      const user = await userHandlers.loadOwnSettingsUser(req, res, name);
+      if (!user) return;
+
+      if (await ApiToken.revoke(id, user.id)) req.flash('pageMessages', req.__('token revoked'));
+      else req.flash('pageErrors', req.__('token not found'));
+
+      res.redirect(`/user/${user.urlName}/settings/tokens`);
+    } catch (error) {
+      return userHandlers.getUserNotFoundHandler(req, res, next, name)(error);
+    }
+  },
+
+  /**
+   * Resolve the user whose settings are requested, rendering an error page
+   * unless it is the signed-in user.
+   *
+   * @param titleKey - Title of the settings page, for the error page
+   * @returns The user, or undefined if a response has already been sent
+   */
+  async loadOwnSettingsUser(
+    req: HandlerRequest,
+    res: HandlerResponse,
+    name: string,
+    titleKey = 'access tokens'
+  ) {
+    if (!req.user) {
+      render.signinRequired(req, res, { titleKey });
+      return undefined;
+    }
+
+    const user = await User.findByURLName(name);
+    if (user.id !== req.user.id) {
+      render.permissionError(req, res, { titleKey });
+      return undefined;
+    }
+    return user;
+  },
+
+  async sendAccessTokens(
+    req: HandlerRequest,
+    res: HandlerResponse,
+    user: { id: string; urlName: string },
+    extraVars: Record<string, unknown> = {}
+  ) {
+    const tokens = await ApiToken.getActiveForUser(user.id);
+    render.template(req, res, 'access-tokens', {
+      titleKey: 'access tokens',
+      tokens,
+      scopes: apiTokenScopes.map(scope => ({
+        scope,
+        description: req.__(`token scope ${scope}`),
+      })),
+      settingsURL: `/user/${user.urlName}/settings/tokens`,
+      pageErrors: req.flash('pageErrors'),
+      pageMessages: req.flash('pageMessages'),
+      ...extraVars,
+    });
+  },
+
   sendUserNotFound(req, res, name) {
     res.status(404);
     render.template(req, res, 'no-user', {
@@ -0,0 +1,452 @@
+import { z } from 'zod';
+import languages from '../../locales/languages.ts';
+import { fileValidLicenses } from '../../models/manifests/file.ts';
+import { searchSortOrders } from '../../search.ts';
+import urlUtils from '../../util/url-utils.ts';
+
+/**
+ * Metadata attached to the schemas in this module. Schemas with an `id` become
+ * named components of the OpenAPI document (see `openapi.ts`); the remaining
+ * keys are copied into the generated JSON Schema.
+ */
+export interface ApiSchemaMetadata {
+  id?: string;
+  description?: string;
+  type?: string;
+  format?: string;
+  example?: unknown;
+}
+
+export const apiSchemaRegistry = z.registry<ApiSchemaMetadata>();
+
+const describe = <T extends z.ZodType>(schema: T, metadata: ApiSchemaMetadata): T => {
+  apiSchemaRegistry.add(schema as z.ZodType, metadata);
+  return schema;
+};
+
+export const defaultFeedLimit = 10;
+export const maxFeedLimit = 50;
+
+export const emptyToUndefined = (value: unknown) =>
+  value === undefined || value === null || value === '' ? undefined : value;
+
+// Pagination parameters shared by all review feed routes. `offsetDate` is the
+// cursor returned by the previous page.
+export const feedQuerySchema = z.object({
+  offsetDate: describe(z.preprocess(emptyToUndefined, z.coerce.date().optional()), {
+    description: 'Cursor returned as `offsetDate` by the previous page.',
+    type: 'string',
+    format: 'date-time',
+  }),
+  limit: describe(
+    z.preprocess(
+      emptyToUndefined,
+      z.coerce.number().int().min(1).max(maxFeedLimit).default(defaultFeedLimit)
+    ),
+    { description: 'Number of reviews per page.' }
+  ),
+});
+
+const uuidSchema = describe(z.string(), { format: 'uuid' });
+const dateTimeSchema = describe(z.string(), { format: 'date-time' });
+const urlSchema = describe(z.string(), { format: 'uri' });
+
+// Query parameters of the review subject lookup by URL
+export const thingLookupQuerySchema = z.object({
+  url: describe(z.string(), { description: 'URL of the review subject.', format: 'uri' }),
+  userID: describe(uuidSchema.optional(), {
+    description: 'Include the reviews of the subject by this user as `reviews`.',
+  }),
+});
+
+export const mlStringSchema = describe(z.record(z.string(), z.string()), {
+  id: 'MultilingualString',
+  description: 'Text in one or more languages, keyed by language code.',
+  example: { en: 'Example', de: 'Beispiel' },
+});
+
+export const apiErrorSchema = describe(
+  z.object({
+    message: z.string(),
+    errors: z.array(z.union([z.string(), z.record(z.string(), z.unknown())])),
+  }),
+  {
+    id: 'Error',
+    description:
+      'Returned by all routes when a request fails. `errors` lists the individual problems.',
+  }
+);
+
+export const apiUserSummarySchema = describe(
+  z.object({
+    id: uuidSchema,
+    displayName: z.string(),
+    urlName: z.string().optional(),
+    url: urlSchema.optional(),
+  }),
+  {
+    id: 'UserSummary',
+    description: 'Author of a review as exposed through the API. Never includes private data.',
+  }
+);
+
+export const apiThingSummarySchema = describe(
+  z.object({
+    id: uuidSchema,
+    urlID: z.string(),
+    label: mlStringSchema.optional(),
+    urls: z.array(urlSchema),
+    url: urlSchema,
+    numberOfReviews: z.number().int().optional(),
+  }),
+  { id: 'ThingSummary', description: 'Review subject embedded in review resources.' }
+);
+
+export const apiTeamSummarySchema = describe(
+  z.object({
+    id: uuidSchema,
+    urlID: z.string(),
+    name: mlStringSchema.optional(),
+    url: urlSchema,
+  }),
+  {
+    id: 'TeamSummary',
+    description: 'Team a review was associated with at the time of publication.',
+  }
+);
+
+export const apiReviewSchema = describe(
+  z.object({
+    id: uuidSchema,
+    url: urlSchema,
+    thingID: uuidSchema,
+    title: mlStringSchema.optional(),
+    text: mlStringSchema.optional(),
+    html: mlStringSchema.optional(),
+    starRating: z.number().int().min(1).max(5),
+    originalLanguage: z.string().optional(),
+    createdOn: dateTimeSchema,
+    socialImageID: uuidSchema.nullable(),
+    creator: apiUserSummarySchema.nullable(),
+    thing: apiThingSummarySchema.nullable(),
+    teams: z.array(apiTeamSummarySchema),
+  }),
+  {
+    id: 'Review',
+    description:
+      'A single review. `text` holds the escaped Markdown source and `html` the rendered version.',
+  }
+);
+
+export const apiReviewResultSchema = describe(z.object({ review: apiReviewSchema }), {
+  id: 'ReviewResult',
+});
+
+export const apiReviewFeedSchema = describe(
+  z.object({
+    reviews: z.array(apiReviewSchema),
+    offsetDate: dateTimeSchema.nullable(),
+    next: z.string().nullable(),
+  }),
+  {
+    id: 'ReviewFeed',
+    description:
+      'A page of reviews, newest first. When more reviews are available, `offsetDate` holds ' +
+      'the cursor for the following page and `next` its relative URL; both are `null` otherwise.',
+  }
+);
+
+export const apiUserProfileSchema = describe(
+  z.object({
+    id: uuidSchema,
+    displayName: z.string(),
+    canonicalName: z.string(),
+    registrationDate: dateTimeSchema,
+    isSiteModerator: z.boolean(),
+  }),
+  { id: 'UserProfile', description: 'Public profile of a user.' }
+);
+
+export const apiThingSchema = describe(
+  z.object({
+    id: uuidSchema,
+    label: mlStringSchema.optional(),
+    aliases: z.record(z.string(), z.array(z.string())).optional(),
+    description: mlStringSchema.optional(),
+    originalLanguage: z.string().optional(),
+    canonicalSlugName: z.string().optional(),
+    urlID: z.string(),
+    createdOn: dateTimeSchema,
+    createdBy: uuidSchema,
+    numberOfReviews: z.number().int(),
+    averageStarRating: z.number(),
+    urls: z.array(urlSchema),
+    reviews: z.array(z.record(z.string(), z.unknown())).optional(),
+  }),
+  { id: 'Thing', description: 'A review subject, identified by one or more URLs.' }
+);
+
+export const apiThingLookupSchema = describe(z.object({ thing: apiThingSchema }), {
+  id: 'ThingLookup',
+});
+
+export const maxThingLookupItems = 100;
+
+const lookupQueries = (description: string) =>
+  describe(z.array(z.string().trim().min(1)).default([]), { description });
+
+// Body of a batch lookup of review subjects
+export const thingLookupBodySchema = z
+  .object({
+    urls: lookupQueries('URLs of review subjects.'),
+    ids: lookupQueries('Review subject IDs.'),
+    slugs: lookupQueries('Slug names of review subjects. Old slug names are resolved as well.'),
+  })
+  .strict()
+  .refine(
+    ({ urls, ids, slugs }) => urls.length + ids.length + slugs.length <= maxThingLookupItems,
+    `Cannot look up more than ${maxThingLookupItems} review subjects at once.`
+  );
+
+const apiThingLookupResultSchema = z.object({
+  query: z.string(),
+  thing: apiThingSchema.nullable(),
+  error: describe(z.string().optional(), {
+    description: 'Reason why the query could not be looked up, if it is invalid.',
+  }),
+});
+
+export const apiThingBatchLookupSchema = describe(
+  z.object({
+    urls: z.array(apiThingLookupResultSchema),
+    ids: z.array(apiThingLookupResultSchema),
+    slugs: z.array(apiThingLookupResultSchema),
+  }),
+  {
+    id: 'ThingBatchLookup',
+    description:
+      'One result per query, in the order of the request. `thing` is `null` for ' +
+      'review subjects that do not exist.',
+  }
+);
+
+export const apiThingSuggestionsSchema = describe(
+  z.object({
+    results: z.record(
+      z.string(),
+      z.array(
+        z.looseObject({
+          text: z.string(),
+          urlID: z.string(),
+          urls: z.array(urlSchema),
+          description: mlStringSchema.optional(),
+        })
+      )
+    ),
+  }),
+  {
+    id: 'ThingSuggestions',
+    description: 'Review subjects whose label starts with the given prefix, grouped by field.',
+  }
+);
+
+export const apiActionResultSchema = describe(
+  z.object({
+    message: z.string(),
+    errors: z.array(z.string()),
+  }),
+  { id: 'ActionResult', description: 'Outcome of an action that does not return a resource.' }
+);
+
+export const apiUploadResultSchema = describe(
+  z.object({
+    message: z.string(),
+    uploads: z.array(
+      z.object({
+        originalName: z.string(),
+        uploadedFileName: z.string(),
+        fileID: uuidSchema,
+        description: mlStringSchema.optional(),
+        license: z.string(),
+        creator: mlStringSchema.optional(),
+        source: mlStringSchema.optional(),
+      })
+    ),
+    errors: z.array(z.string()),
+  }),
+  { id: 'UploadResult', description: 'Files that were uploaded and their metadata.' }
+);
+
+// The action handlers read these bodies field by field; the schemas below
+// document the accepted fields.
+export const suppressNoticeBodySchema = z.object({
+  noticeType: describe(z.enum(['language-notice-review', 'language-notice-thing']), {
+    description: 'Notice to hide permanently for the current user.',
+  }),
+});
+
+export const modifyPreferenceBodySchema = z.object({
+  preferenceName: describe(z.enum(['prefersRichTextEditor', 'theme']), {
+    description: 'Preference to change.',
+  }),
+  value: describe(z.string().optional(), {
+    description: 'New value; required by the `set` action only.',
+  }),
+});
+
+export const uploadBodySchema = z.object({
+  files: describe(z.array(describe(z.string(), { format: 'binary' })), {
+    description: 'One or more files. Set `multiple` to upload more than one.',
+  }),
+  multiple: describe(z.boolean().optional(), {
+    description:
+      'Required for more than one file. Each metadata field is then given per file, ' +
+      'suffixed with `-<filename>` (e.g., `license-photo.jpg`).',
+  }),
+  description: z.string(),
+  creator: describe(z.string().optional(), { description: 'Required unless `ownwork` is set.' }),
+  source: describe(z.string().optional(), { description: 'Required unless `ownwork` is set.' }),
+  license: z.enum(fileValidLicenses),
+  language: z.string(),
+  ownwork: z.boolean().optional(),
+});
+
+export const maxSearchPageSize = 50;
+// Elasticsearch's default `index.max_result_window`
+export const maxSearchResultWindow = 10000;
+
+const optionalQueryValue = <T extends z.ZodType>(schema: T, metadata: ApiSchemaMetadata) =>
+  describe(z.preprocess(emptyToUndefined, schema.optional()), metadata);
+
+// Query parameters of the search route
+export const searchQuerySchema = z
+  .object({
+    q: describe(z.string().trim().min(1), {
+      description:
+        'Search terms. Supports `"quoted phrases"`, `-exclusion`, `|` (or) and `*` (prefix). ' +
+        'A URL finds the review subjects with exactly that URL; a domain such as ' +
+        '`openlibrary.org` also finds those with links to it.',
+    }),
+    type: describe(
+      z.preprocess(emptyToUndefined, z.enum(['all', 'things', 'reviews']).default('all')),
+      { description: 'Whether to search review subjects, reviews, or both.' }
+    ),
+    from: describe(z.preprocess(emptyToUndefined, z.coerce.number().int().min(0).default(0)), {
+      description: 'Number of hits to skip.',
+    }),
+    size: describe(
+      z.preprocess(
+        emptyToUndefined,
+        z.coerce.number().int().min(1).max(maxSearchPageSize).default(defaultFeedLimit)
+      ),
+      { description: 'Number of hits per page.' }
+    ),
+    sort: describe(z.preprocess(emptyToUndefined, z.enum(searchSortOrders).default('relevance')), {
+      description:
+        'Order of hits. `date` puts the newest first; `rating` sorts reviews by star rating ' +
+        'and review subjects by the average rating of their matching reviews.',
+    }),
+    minRating: optionalQueryValue(z.coerce.number().int().min(1).max(5), {
+      description: 'Only reviews with at least this many stars.',
+    }),
+    maxRating: optionalQueryValue(z.coerce.number().int().min(1).max(5), {
+      description: 'Only reviews with at most this many stars.',
+    }),
+    language: optionalQueryValue(
+      z.string().refine(value => languages.isValid(value), 'Not a valid language code.'),
+      { description: 'Only reviews and review subjects originally written in this language.' }
+    ),
+    team: optionalQueryValue(z.string(), {
+      description: 'Only reviews associated with this team (ID or canonical slug name).',
+    }),
+    sourceTag: optionalQueryValue(z.enum(urlUtils.getTags() as [string, ...string[]]), {
+      description: 'Only review subjects with a link to this kind of source, e.g., `opendata`.',
+    }),
+    after: optionalQueryValue(z.coerce.date(), {
+      description: 'Only results created at or after this time.',
+      type: 'string',
+      format: 'date-time',
+    }),
+    before: optionalQueryValue(z.coerce.date(), {
+      description: 'Only results created at or before this time.',
+      type: 'string',
+      format: 'date-time',
+    }),
+  })
+  .refine(({ from, size }) => from + size <= maxSearchResultWindow, {
+    message: `Cannot page past the first ${maxSearchResultWindow} results.`,
+    path: ['from'],
+  })
+  .refine(
+    ({ minRating, maxRating }) =>
+      minRating === undefined || maxRating === undefined || minRating <= maxRating,
+    { message: 'Must not be greater than maxRating.', path: ['minRating'] }
+  );
+
+const highlightsSchema = describe(z.record(z.string(), z.array(z.string())), {
+  description:
+    'Matching fragments (HTML) by field. Matches are wrapped in ' +
+    '`<span class="search-highlight">`.',
+});
+
+const facetSchema = z.array(
+  z.object({ value: z.union([z.string(), z.number()]), count: z.number().int() })
+);
+
+export const apiThingSearchHitSchema = describe(
+  z.object({
+    id: uuidSchema,
+    urlID: z.string(),
+    label: mlStringSchema.optional(),
+    description: mlStringSchema.optional(),
+    urls: z.array(urlSchema),
+    score: z.number().nullable(),
+    highlights: highlightsSchema,
+  }),
+  { id: 'ThingSearchHit' }
+);
+
+export const apiReviewSearchHitSchema = describe(
+  z.object({
+    id: uuidSchema,
+    thingID: uuidSchema,
+    title: mlStringSchema.optional(),
+    starRating: z.number().int().min(1).max(5),
+    originalLanguage: z.string().optional(),
+    createdOn: dateTimeSchema,
+    teamIDs: z.array(uuidSchema),
+    thing: z
+      .object({ id: uuidSchema, urlID: z.string(), label: mlStringSchema.optional() })
+      .nullable(),
+    score: z.number().nullable(),
+    highlights: highlightsSchema,
+  }),
+  { id: 'ReviewSearchHit' }
+);
+
+export const apiSearchResultSchema = describe(
+  z.object({
+    query: z.string(),
+    from: z.number().int(),
+    size: z.number().int(),
+    things: z
+      .object({ total: z.number().int(), hits: z.array(apiThingSearchHitSchema) })
+      .nullable(),
+    reviews: z
+      .object({
+        total: z.number().int(),
+        hits: z.array(apiReviewSearchHitSchema),
+        facets: describe(
+          z.object({ starRating: facetSchema, language: facetSchema, team: facetSchema }),
+          { description: 'Number of matching reviews by star rating, language and team ID.' }
+        ),
+      })
+      .nullable(),
+  }),
+  {
+    id: 'SearchResult',
+    description:
+      'One page of matching review subjects and reviews, with the total number of matches. ' +
+      '`things` or `reviews` is `null` if it was not searched; reviews are not searched by URL.',
+  }
+);
@@ -0,0 +1,170 @@
+import config from 'config';
+import type { z } from 'zod';
+import type { ReviewFeedResult, ReviewInstance } from '../../models/manifests/review.ts';
+import type { TeamInstance } from '../../models/manifests/team.ts';
+import type { ThingInstance } from '../../models/manifests/thing.ts';
+import type { UserView } from '../../models/manifests/user.ts';
+import type {
+  apiReviewFeedSchema,
+  apiReviewSchema,
+  apiTeamSummarySchema,
+  apiThingBatchLookupSchema,
+  apiThingSchema,
+  apiThingSummarySchema,
+  apiUserSummarySchema,
+} from './api-schemas.ts';
+
+/** Author of a review as exposed through the API. Never includes private data. */
+export type ApiUserSummary = z.infer<typeof apiUserSummarySchema>;
+
+/** Review subject embedded in review resources. */
+export type ApiThingSummary = z.infer<typeof apiThingSummarySchema>;
+
+/** A review subject with its review metrics, as returned by the lookup routes. */
+export type ApiThing = z.infer<typeof apiThingSchema>;
+
+/** Results of a batch lookup of review subjects, in the order of the queries. */
+export type ApiThingBatchLookup = z.infer<typeof apiThingBatchLookupSchema>;
+
+/** Team a review was associated with at the time of publication. */
+export type ApiTeamSummary = z.infer<typeof apiTeamSummarySchema>;
+
+/**
+ * A single review. `title`, `text` and `html` are multilingual strings keyed
+ * by language code; `text` holds the escaped Markdown source and `html` the
+ * rendered version.
+ */
+export type ApiReview = z.infer<typeof apiReviewSchema>;
+
+/**
+ * A page of reviews in reverse chronological order. When more reviews are
+ * available, `offsetDate` holds the cursor to pass back as `?offsetDate=` and
+ * `next` the relative URL of the following page; both are `null` otherwise.
+ */
+export type ApiReviewFeed = z.infer<typeof apiReviewFeedSchema>;
+
+const toISOString = (date: Date | string | undefined): string =>
+  date instanceof Date ? date.toISOString() : String(date ?? '');
+
+/**
+ * Serialize the public profile fields of a review author.
+ *
+ * @param user - Creator view joined by the review model
+ */
+const userSummary = (user: UserView | undefined): ApiUserSummary | null => {
+  if (!user || typeof user.id !== 'string') return null;
+  return {
+    id: user.id,
+    displayName: user.displayName,
+    urlName: user.urlName,
+    url: user.urlName ? `${config.qualifiedURL}user/${user.urlName}` : undefined,
+  };
+};
+
+/**
+ * Serialize the review subject fields that are useful alongside a review.
+ *
+ * @param thing - Thing joined by the review model
+ */
+const thingSummary = (thing: ThingInstance | undefined): ApiThingSummary | null => {
+  if (!thing || typeof thing.id !== 'string') return null;
+  const urlID = String(thing.urlID ?? thing.id);
+  return {
+    id: thing.id,
+    urlID,
+    label: thing.label,
+    urls: Array.isArray(thing.urls) ? thing.urls : [],
+    url: `${config.qualifiedURL}${urlID}`,
+    numberOfReviews: typeof thing.numberOfReviews === 'number' ? thing.numberOfReviews : undefined,
+  };
+};
+
+/**
+ * Serialize a review subject for the lookup routes. Reviews are included if
+ * the lookup attached them (see `Thing.lookupByURL`).
+ *
+ * @param item - Thing with populated review metrics
+ */
+const thing = (item: ThingInstance): ApiThing => ({
+  id: item.id,
+  label: item.label,
+  aliases: item.aliases,
+  description: item.description,
+  originalLanguage: item.originalLanguage,
+  canonicalSlugName: item.canonicalSlugName,
+  urlID: item.urlID,
+  createdOn: toISOString(item.createdOn),
+  createdBy: item.createdBy,
+  numberOfReviews: item.numberOfReviews,
+  averageStarRating: item.averageStarRating,
+  urls: item.urls,
+  reviews: item.reviews,
+});
+
+/**
+ * Serialize a team reference.
+ *
+ * @param team - Team joined by the review model
+ */
+const teamSummary = (team: TeamInstance): ApiTeamSummary => {
+  const urlID = String(team.urlID ?? team.id);
+  return {
+    id: team.id,
+    urlID,
+    name: team.name,
+    url: `${config.qualifiedURL}team/${urlID}`,
+  };
+};
+
+/**
+ * Convert a review instance (with optional thing, creator and team joins)
+ * into its stable API representation.
+ *
+ * @param item - Review loaded via `Review.getWithData` or `Review.getFeed`
+ */
+const review = (item: ReviewInstance): ApiReview => ({
+  id: item.id,
+  url: `${config.qualifiedURL}review/${item.id}`,
+  thingID: item.thingID,
+  title: item.title,
+  text: item.text,
+  html: item.html,
+  starRating: item.starRating,
+  originalLanguage: item.originalLanguage,
+  createdOn: toISOString(item.createdOn),
+  socialImageID: item.socialImageID ?? null,
+  creator: userSummary(item.creator),
+  thing: thingSummary(item.thing),
+  teams: Array.isArray(item.teams) ? item.teams.map(teamSummary) : [],
+});
+
+/**
+ * Convert a `Review.getFeed` result into a page of API reviews.
+ *
+ * @param result - Feed result including the optional next-page cursor
+ * @param basePath - Path (without query string) used to build the `next` link
+ * @param limit - Page size to carry over into the `next` link
+ */
+const reviewFeed = (result: ReviewFeedResult, basePath: string, limit: number): ApiReviewFeed => {
+  const offsetDate = result.offsetDate ? result.offsetDate.toISOString() : null;
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (offsetDate) query.set('offsetDate', offsetDate);
+
+  return {
+    reviews: result.feedItems.map(review),
+    offsetDate,
+    next: offsetDate ? `${basePath}?${query.toString()}` : null,
+  };
+};
+
+const apiSerializers = {
+  review,
+  reviewFeed,
+  thing,
+  userSummary,
+  thingSummary,
+  teamSummary,
+};
+
+export type ApiSerializersHelper = typeof apiSerializers;
+export default apiSerializers;
@@ -1,28 +1,82 @@
 import type { NextFunction, Request, Response } from 'express';
+import type { ZodIssue } from 'zod';
+import ApiToken, { type ApiTokenScope } from '../../models/api-token.ts';
+import User from '../../models/user.ts';
+import debug from '../../util/debug.ts';
 
 type ErrorPayload = string | string[] | Record<string, unknown>[] | undefined;
 
 /**
- * Set the API flag for API requests and ensure write operations originate
- * from trusted callers. Accepts either XMLHttpRequest or the native app
- * identifier in the X-Requested-With header before allowing mutation.
+ * Extract the secret from an `Authorization: Bearer <token>` header.
+ *
+ * @returns The secret, an empty string for a malformed bearer header, or
+ *  undefined when the request does not use bearer authentication
  */
-const prepareRequest = (req: Request, res: Response, next: NextFunction) => {
+const getBearerSecret = (req: Request): string | undefined => {
+  const authorization = req.get('authorization');
+  if (!authorization) return undefined;
+  const [scheme, secret, ...rest] = authorization.trim().split(/\s+/);
+  if (scheme.toLowerCase() !== 'bearer') return undefined;
+  return secret && !rest.length ? secret : '';
+};
+
+const denyAccess = (res: Response, errors: string[], status: number) => {
+  res.status(status);
+  res.type('json');
+  res.send(JSON.stringify({ message: 'Access denied.', errors }, null, 2));
+};
+
+// POST routes that only read data, because their parameters do not fit into a
+// URL. They are treated like GET requests.
+const readOnlyPostPaths = ['/things/lookup'];
+
+/**
+ * Set the API flag for API requests and authenticate the caller.
+ *
+ * Requests carrying a personal access token (`Authorization: Bearer ...`) are
+ * authenticated as the token's owner, regardless of any session cookie. Since
+ * browsers never attach that header on their own, such requests cannot be
+ * forged and may write without further checks (subject to token scopes, see
+ * `requireScope`).
+ *
+ * Session-authenticated write operations must originate from trusted callers:
+ * we accept either XMLHttpRequest or the native app identifier in the
+ * X-Requested-With header before allowing mutation.
+ */
+const prepareRequest = async (req: Request, res: Response, next: NextFunction) => {
   req.isAPI = true;
 
   const requestedWith = req.get('x-requested-with');
-  const isReadMethod = ['GET', 'HEAD', 'OPTIONS'].includes(req.method);
-
-  if (!isReadMethod && requestedWith !== 'XMLHttpRequest' && requestedWith !== 'app') {
-    const response = {
-      message: 'Access denied.',
-      errors: [
-        'Missing X-Requested-With header. Must be set to "XMLHttpRequest" or "app" to avoid request forgery.',
-      ],
-    };
-    res.status(400);
-    res.type('json');
-    res.send(JSON.stringify(response, null, 2));
+  const isReadMethod =
+    ['GET', 'HEAD', 'OPTIONS'].includes(req.method) ||
+    (req.method === 'POST' && readOnlyPostPaths.includes(req.path));
+  const bearerSecret = getBearerSecret(req);
+
+  try {
+    if (bearerSecret !== undefined) {
+      const token = bearerSecret ? await ApiToken.findBySecret(bearerSecret) : null;
+      const user = token ? await User.getWithTeams(token.userID) : null;
+      if (!token || !user) {
+        res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+        denyAccess(res, ['Invalid or revoked access token.'], 401);
+        return;
+      }
+
+      req.user = user;
+      req.apiToken = token;
+      token.markAsUsed().catch(error => debug.error({ req, error }));
+    } else if (!isReadMethod && requestedWith !== 'XMLHttpRequest' && requestedWith !== 'app') {
+      denyAccess(
+        res,
+        [
+          'Missing X-Requested-With header. Must be set to "XMLHttpRequest" or "app" to avoid request forgery.',
+        ],
+        400
+      );
+      return;
+    }
+  } catch (error) {
+    next(error);
     return;
   }
 
@@ -31,6 +85,20 @@ const prepareRequest = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+/**
+ * Restrict a write route to callers permitted to perform it. Session-based
+ * requests pass through; requests authenticated via access token must have
+ * been granted `scope`.
+ */
+const requireScope =
+  (scope: ApiTokenScope) => (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken && !req.apiToken.hasScope(scope)) {
+      error(req, res, `Access token does not have the "${scope}" scope.`, 403);
+      return;
+    }
+    next();
+  };
+
 const signinRequired = (_req: Request, res: Response) => {
   const response = {
     message: 'Could not perform action.',
@@ -59,10 +127,46 @@ const error = (_req: Request, res: Response, errors: ErrorPayload, status = 400)
   });
 };
 
+/**
+ * Send a pretty-printed JSON body with the given status (default 200), the
+ * format used by the read-only API routes.
+ */
+const send = (res: Response, body: unknown, status = 200) => {
+  res.type('json');
+  res.status(status);
+  res.send(JSON.stringify(body, null, 2));
+};
+
+/**
+ * Format zod validation issues as error messages for API callers.
+ */
+const formatIssues = (issues: ZodIssue[]) =>
+  issues.map(issue =>
+    issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+
+const notFoundErrorNames = [
+  'DocumentNotFound',
+  'DocumentNotFoundError',
+  'RevisionDeletedError',
+  'InvalidUUIDError',
+];
+
+/**
+ * Check whether a model lookup failed because the requested document does not
+ * exist (or no longer exists), as opposed to an unexpected error.
+ */
+const isNotFoundError = (error: unknown) =>
+  error instanceof Error && notFoundErrorNames.includes(error.name);
+
 const api = {
   prepareRequest,
+  requireScope,
   signinRequired,
   error,
+  send,
+  formatIssues,
+  isNotFoundError,
 };
 
 export type ApiHelper = typeof api;
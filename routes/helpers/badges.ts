@@ -0,0 +1,91 @@
+import escapeHTML from 'escape-html';
+
+/**
+ * SVG badges in the style of shields.io, for READMEs and store pages that
+ * want to show how a review subject is rated here.
+ */
+
+export const BADGE_STYLES = ['flat', 'flat-square', 'for-the-badge'] as const;
+export type BadgeStyle = (typeof BADGE_STYLES)[number];
+
+export interface BadgeOptions {
+  label: string;
+  message: string;
+  // Average star rating, used for the color; undefined if there are no reviews
+  rating?: number;
+  style?: BadgeStyle;
+  // Accessible description, e.g. "lib.reviews: 4.5/5 (12 reviews)"
+  title: string;
+}
+
+const labelColor = '#555';
+const noRatingColor = '#9f9f9f';
+// From 1 to 5 stars
+const ratingColors = ['#e05d44', '#fe7d37', '#dfb317', '#a4a61d', '#4c1'];
+
+const styleMetrics: Record<
+  BadgeStyle,
+  { height: number; fontSize: number; charWidth: number; padding: number; radius: number }
+> = {
+  flat: { height: 20, fontSize: 11, charWidth: 6.5, padding: 6, radius: 3 },
+  'flat-square': { height: 20, fontSize: 11, charWidth: 6.5, padding: 6, radius: 0 },
+  'for-the-badge': { height: 28, fontSize: 10, charWidth: 7.5, padding: 12, radius: 0 },
+};
+
+const getColor = (rating?: number) =>
+  rating === undefined
+    ? noRatingColor
+    : ratingColors[Math.min(4, Math.max(0, Math.round(rating) - 1))];
+
+// Text is not measured; this estimate is close enough for short Latin text
+// and errs on the wide side for the rest
+const estimateWidth = (text: string, charWidth: number) =>
+  Math.ceil(
+    [...text].reduce((width, char) => width + (char.charCodeAt(0) > 0x2e80 ? 2 : 1), 0) * charWidth
+  );
+
+/**
+ * Render a badge.
+ *
+ * @param options - Text, rating and style of the badge
+ * @returns SVG document
+ */
+function render({ label, message, rating, style = 'flat', title }: BadgeOptions): string {
+  const metrics = styleMetrics[style];
+  const [labelText, messageText] =
+    style === 'for-the-badge' ? [label.toUpperCase(), message.toUpperCase()] : [label, message];
+  const labelWidth = estimateWidth(labelText, metrics.charWidth) + 2 * metrics.padding;
+  const messageWidth = estimateWidth(messageText, metrics.charWidth) + 2 * metrics.padding;
+  const width = labelWidth + messageWidth;
+  const { height, radius } = metrics;
+  const textY = Math.round(height / 2 + metrics.fontSize / 3);
+  const letterSpacing = style === 'for-the-badge' ? ' letter-spacing="1"' : '';
+  const gradient =
+    style === 'flat'
+      ? '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>'
+      : '';
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${escapeHTML(title)}">`,
+    `<title>${escapeHTML(title)}</title>`,
+    gradient,
+    `<clipPath id="r"><rect width="${width}" height="${height}" rx="${radius}" fill="#fff"/></clipPath>`,
+    '<g clip-path="url(#r)">',
+    `<rect width="${labelWidth}" height="${height}" fill="${labelColor}"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${getColor(rating)}"/>`,
+    gradient ? `<rect width="${width}" height="${height}" fill="url(#s)"/>` : '',
+    '</g>',
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="${metrics.fontSize}"${letterSpacing}>`,
+    `<text x="${labelWidth / 2}" y="${textY}">${escapeHTML(labelText)}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="${textY}"${style === 'for-the-badge' ? ' font-weight="bold"' : ''}>${escapeHTML(messageText)}</text>`,
+    '</g>',
+    '</svg>',
+  ].join('');
+}
+
+const badges = {
+  render,
+};
+
+export type BadgeHelper = typeof badges;
+export default badges;
@@ -0,0 +1,115 @@
+import config from 'config';
+import escapeHTML from 'escape-html';
+import isUUID from 'is-uuid';
+
+/**
+ * oEmbed (https://oembed.com/) for reviews and review subjects. Consumers
+ * find the endpoint through a discovery `<link>` on the review or thing page
+ * and get an iframe that shows the embed view under /embed/.
+ */
+
+export type EmbedType = 'review' | 'thing';
+
+export interface EmbedSize {
+  width: number;
+  height: number;
+}
+
+const defaultSizes: Record<EmbedType, EmbedSize> = {
+  review: { width: 560, height: 420 },
+  thing: { width: 560, height: 200 },
+};
+// Smaller frames would not show anything useful, so they are not offered
+const minimumSize: EmbedSize = { width: 200, height: 100 };
+
+/**
+ * Get the URL of the oEmbed endpoint for a page, for its discovery link.
+ *
+ * @param pagePath - Path of the review or thing page, e.g. `/review/<id>`
+ */
+const getDiscoveryURL = (pagePath: string) =>
+  `${config.qualifiedURL}oembed?format=json&url=${encodeURIComponent(
+    new URL(pagePath.replace(/^\//, ''), config.qualifiedURL).href
+  )}`;
+
+/**
+ * Find out what a URL passed to the oEmbed endpoint refers to.
+ *
+ * @param url - URL of a review or thing page on this site
+ * @returns The kind of page and the review ID or the thing's slug or ID, or
+ *  null if the URL cannot be embedded
+ */
+function parseResourceURL(url: string): { type: EmbedType; id: string } | null {
+  let parsed: URL;
+  let segments: string[];
+  try {
+    parsed = new URL(url);
+    segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (parsed.host !== new URL(config.qualifiedURL).host) return null;
+
+  if (segments.length === 2 && segments[0] === 'review' && isUUID.v4(segments[1]))
+    return { type: 'review', id: segments[1] };
+  // Other single-segment pages are not found when looked up as things
+  if (segments.length === 1) return { type: 'thing', id: segments[0] };
+  return null;
+}
+
+const parseDimension = (value: unknown) => {
+  const number = typeof value === 'string' ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Size of the embed, within the limits the consumer requested.
+ *
+ * @param type - Kind of embed
+ * @param maxWidth - `maxwidth` query parameter
+ * @param maxHeight - `maxheight` query parameter
+ * @returns The size, or null if the embed does not fit the limits
+ */
+function getSize(type: EmbedType, maxWidth?: unknown, maxHeight?: unknown): EmbedSize | null {
+  const { width, height } = defaultSizes[type];
+  const size = {
+    width: Math.min(width, parseDimension(maxWidth) ?? width),
+    height: Math.min(height, parseDimension(maxHeight) ?? height),
+  };
+  if (size.width < minimumSize.width || size.height < minimumSize.height) return null;
+  return size;
+}
+
+/**
+ * The iframe that consumers put on their page.
+ *
+ * @param type - Kind of embed
+ * @param id - ID of the review or thing
+ * @param locale - Language of the embed view
+ * @param size - Size of the frame
+ * @param title - Accessible title of the frame
+ */
+function getIframeHTML(
+  type: EmbedType,
+  id: string,
+  locale: string,
+  size: EmbedSize,
+  title: string
+): string {
+  const src = `${config.qualifiedURL}embed/${type}/${id}?uselang=${encodeURIComponent(locale)}`;
+  return (
+    `<iframe src="${escapeHTML(src)}" width="${size.width}" height="${size.height}" ` +
+    `title="${escapeHTML(title)}" loading="lazy" sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox" ` +
+    'style="border: 0; max-width: 100%;"></iframe>'
+  );
+}
+
+const oEmbed = {
+  getDiscoveryURL,
+  parseResourceURL,
+  getSize,
+  getIframeHTML,
+};
+
+export type OEmbedHelper = typeof oEmbed;
+export default oEmbed;
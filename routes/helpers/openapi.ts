@@ -0,0 +1,588 @@
+import config from 'config';
+import { z } from 'zod';
+import type { ApiTokenScope } from '../../models/manifests/api-token.ts';
+import type { HandlerRequest } from '../../types/http/handlers.ts';
+import { buildReviewAPISchema } from '../handlers/review-provider.ts';
+import {
+  apiSchemaRegistry,
+  feedQuerySchema,
+  maxSearchResultWindow,
+  maxThingLookupItems,
+  modifyPreferenceBodySchema,
+  searchQuerySchema,
+  suppressNoticeBodySchema,
+  thingLookupBodySchema,
+  thingLookupQuerySchema,
+  uploadBodySchema,
+} from './api-schemas.ts';
+
+type JSONSchema = z.core.JSONSchema.JSONSchema;
+
+type HTTPMethod = 'get' | 'post' | 'put' | 'delete';
+
+interface OperationResponse {
+  description: string;
+  // Name of a component schema from `api-schemas.ts`
+  schema?: string;
+}
+
+interface OperationSpec {
+  method: HTTPMethod;
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // Write routes list the token scope they require
+  scope?: ApiTokenScope;
+  pathParameters?: Record<string, string>;
+  query?: z.ZodObject;
+  body?: {
+    contentType: 'application/json' | 'multipart/form-data';
+    schema: z.ZodType;
+    // Descriptions and schema overrides for fields whose zod schema alone
+    // does not tell API callers what to send
+    fields?: Record<string, JSONSchema>;
+  };
+  responses: Record<number, OperationResponse>;
+}
+
+interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JSONSchema;
+}
+
+interface OpenAPIOperation {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JSONSchema }> };
+  security?: Record<string, string[]>[];
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema: JSONSchema }> }
+  >;
+}
+
+const componentURI = (id: string) => `#/components/schemas/${id}`;
+
+const jsonSchemaParams = {
+  io: 'input',
+  unrepresentable: 'any',
+  metadata: apiSchemaRegistry,
+} as const;
+
+/**
+ * Convert a zod schema into a JSON Schema fragment for embedding in the
+ * OpenAPI document.
+ *
+ * Fields wrapped in `z.preprocess()` accept any input, so zod does not list
+ * them as required. For object schemas, we instead derive the required fields
+ * from the issues reported when validating an empty object.
+ */
+const toJSONSchema = (schema: z.ZodType): JSONSchema => {
+  const { $schema: _schemaURI, ...jsonSchema } = z.toJSONSchema(schema, jsonSchemaParams);
+  if (jsonSchema.type !== 'object') return jsonSchema;
+
+  const result = schema.safeParse({});
+  const required = result.success
+    ? []
+    : [
+        ...new Set(
+          result.error.issues.filter(issue => issue.path.length).map(issue => String(issue.path[0]))
+        ),
+      ];
+  return { ...jsonSchema, required };
+};
+
+const getComponentSchemas = () => {
+  const { schemas } = z.toJSONSchema(apiSchemaRegistry, { ...jsonSchemaParams, uri: componentURI });
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema: _schemaURI, $id: _id, ...schema }]) => [
+      id,
+      schema,
+    ])
+  );
+};
+
+const reviewBodyFields: Record<string, JSONSchema> = {
+  url: {
+    description:
+      'URL of the review subject. The subject is created if no subject with this URL exists yet.',
+    format: 'uri',
+  },
+  title: { description: 'Title of the review.' },
+  label: { description: 'Label for the review subject, if it is created by this request.' },
+  text: { description: 'Review text in Markdown.' },
+  starRating: {
+    description: 'Rating from 1 (worst) to 5 (best) stars.',
+    type: 'integer',
+    minimum: 1,
+    maximum: 5,
+  },
+  language: {
+    description:
+      'Language code of title and text. Defaults to `en` for new reviews, and to the ' +
+      'original language of the review for edits.',
+  },
+  teams: { description: 'IDs of teams to associate with the review. You must be a member.' },
+  files: { description: 'IDs of previously uploaded files to attach to the review subject.' },
+  socialImageID: { description: 'ID of an attached image to use when sharing the review.' },
+};
+
+const feedResponses: Record<number, OperationResponse> = {
+  200: { description: 'A page of reviews.', schema: 'ReviewFeed' },
+  400: { description: 'Invalid pagination parameters.', schema: 'Error' },
+};
+
+const reviewWriteErrors: Record<number, OperationResponse> = {
+  400: { description: 'Invalid request body.', schema: 'Error' },
+  401: { description: 'Authentication required.', schema: 'Error' },
+  403: { description: 'Not permitted, or token lacks the scope.', schema: 'Error' },
+};
+
+/**
+ * Every route in `routes/api.ts`, in the order in which they are documented.
+ * Request bodies and query strings reuse the schemas the routes validate with.
+ */
+const getOperations = (req: HandlerRequest): OperationSpec[] => {
+  const reviewSchemaOptions = { requireLanguage: false, renderLocale: req.locale };
+  const { schema: createReviewSchema } = buildReviewAPISchema(req, 'en', {
+    ...reviewSchemaOptions,
+    requireURL: true,
+  });
+  const { schema: updateReviewSchema } = buildReviewAPISchema(req, 'en', {
+    ...reviewSchemaOptions,
+    requireURL: false,
+  });
+
+  return [
+    {
+      method: 'get',
+      path: '/reviews',
+      operationId: 'getReviews',
+      tag: 'Reviews',
+      summary: 'List all reviews, newest first.',
+      query: feedQuerySchema,
+      responses: feedResponses,
+    },
+    {
+      method: 'post',
+      path: '/reviews',
+      operationId: 'createReview',
+      tag: 'Reviews',
+      summary: 'Create a review.',
+      description:
+        'The review subject is identified by `url`. The `Location` header of the response ' +
+        'points to the new review.',
+      scope: 'review:write',
+      body: {
+        contentType: 'application/json',
+        schema: createReviewSchema,
+        fields: reviewBodyFields,
+      },
+      responses: {
+        201: { description: 'The new review.', schema: 'ReviewResult' },
+        ...reviewWriteErrors,
+      },
+    },
+    {
+      method: 'get',
+      path: '/review/{id}',
+      operationId: 'getReview',
+      tag: 'Reviews',
+      summary: 'Get a single review, including its subject, author and teams.',
+      pathParameters: { id: 'Review ID.' },
+      responses: {
+        200: { description: 'The review.', schema: 'ReviewResult' },
+        404: { description: 'Review does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'put',
+      path: '/review/{id}',
+      operationId: 'updateReview',
+      tag: 'Reviews',
+      summary: 'Edit a review.',
+      description:
+        'Replaces the title, text, rating, teams and social image of the review in the given ' +
+        'language. The review subject cannot be changed.',
+      scope: 'review:write',
+      pathParameters: { id: 'Review ID.' },
+      body: {
+        contentType: 'application/json',
+        schema: updateReviewSchema,
+        fields: reviewBodyFields,
+      },
+      responses: {
+        200: { description: 'The updated review.', schema: 'ReviewResult' },
+        ...reviewWriteErrors,
+        404: { description: 'Review does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'delete',
+      path: '/review/{id}',
+      operationId: 'deleteReview',
+      tag: 'Reviews',
+      summary: 'Delete a review. The review subject is kept.',
+      scope: 'review:write',
+      pathParameters: { id: 'Review ID.' },
+      responses: {
+        200: { description: 'Review deleted.', schema: 'ActionResult' },
+        401: reviewWriteErrors[401],
+        403: reviewWriteErrors[403],
+        404: { description: 'Review does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/thing/{id}/reviews',
+      operationId: 'getThingReviews',
+      tag: 'Reviews',
+      summary: 'List the reviews of a review subject, newest first.',
+      pathParameters: { id: 'Review subject ID or canonical slug name.' },
+      query: feedQuerySchema,
+      responses: {
+        ...feedResponses,
+        404: { description: 'Review subject does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/user/{name}/reviews',
+      operationId: 'getUserReviews',
+      tag: 'Reviews',
+      summary: 'List the reviews written by a user, newest first.',
+      pathParameters: { name: 'User name, with spaces replaced by underscores.' },
+      query: feedQuerySchema,
+      responses: {
+        ...feedResponses,
+        404: { description: 'User does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/team/{id}/reviews',
+      operationId: 'getTeamReviews',
+      tag: 'Reviews',
+      summary: 'List the reviews associated with a team, newest first.',
+      pathParameters: { id: 'Team ID or canonical slug name.' },
+      query: feedQuerySchema,
+      responses: {
+        ...feedResponses,
+        404: { description: 'Team does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/thing',
+      operationId: 'lookupThing',
+      tag: 'Review subjects',
+      summary: 'Look up a review subject by URL.',
+      query: thingLookupQuerySchema,
+      responses: {
+        200: { description: 'The review subject.', schema: 'ThingLookup' },
+        400: { description: 'URL is not valid.', schema: 'Error' },
+        404: { description: 'URL not found.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'post',
+      path: '/things/lookup',
+      operationId: 'lookupThings',
+      tag: 'Review subjects',
+      summary: 'Look up many review subjects at once by URL, ID or slug name.',
+      description:
+        `At most ${maxThingLookupItems} queries can be sent per request. This route only ` +
+        'reads data, so it needs neither authentication nor an `X-Requested-With` header.',
+      body: { contentType: 'application/json', schema: thingLookupBodySchema },
+      responses: {
+        200: { description: 'Results for each query.', schema: 'ThingBatchLookup' },
+        400: { description: 'Invalid request body.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/suggest/thing/{prefix}',
+      operationId: 'suggestThing',
+      tag: 'Review subjects',
+      summary: 'Suggest review subjects whose label starts with a prefix.',
+      pathParameters: { prefix: 'Beginning of the label.' },
+      responses: { 200: { description: 'Matching review subjects.', schema: 'ThingSuggestions' } },
+    },
+    {
+      method: 'get',
+      path: '/search',
+      operationId: 'search',
+      tag: 'Search',
+      summary: 'Search review subjects and reviews.',
+      description:
+        'Filters on star rating and team only apply to reviews; review subjects match them ' +
+        `if at least one of their reviews does. Only the first ${maxSearchResultWindow} ` +
+        'results can be paged through.',
+      query: searchQuerySchema,
+      responses: {
+        200: { description: 'Matching review subjects and reviews.', schema: 'SearchResult' },
+        400: { description: 'Invalid query parameters.', schema: 'Error' },
+        404: { description: 'Team does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/user/{name}',
+      operationId: 'getUser',
+      tag: 'Users',
+      summary: 'Get the public profile of a user.',
+      pathParameters: { name: 'User name.' },
+      responses: {
+        200: { description: 'The user.', schema: 'UserProfile' },
+        404: { description: 'User does not exist.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'post',
+      path: '/actions/suppress-notice',
+      operationId: 'suppressNotice',
+      tag: 'Actions',
+      summary: 'Permanently hide a notice for the current user.',
+      scope: 'preferences',
+      body: { contentType: 'application/json', schema: suppressNoticeBodySchema },
+      responses: {
+        200: { description: 'Notice hidden.', schema: 'ActionResult' },
+        400: { description: 'Unknown notice type.', schema: 'Error' },
+        401: reviewWriteErrors[401],
+      },
+    },
+    {
+      method: 'post',
+      path: '/actions/upload',
+      operationId: 'uploadFiles',
+      tag: 'Actions',
+      summary: 'Upload one or more files with their metadata.',
+      scope: 'upload',
+      body: { contentType: 'multipart/form-data', schema: uploadBodySchema },
+      responses: {
+        200: { description: 'Upload successful.', schema: 'UploadResult' },
+        400: { description: 'Invalid files or metadata.', schema: 'Error' },
+        401: reviewWriteErrors[401],
+        403: { description: 'Token lacks the scope.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'post',
+      path: '/actions/{modify}-preference',
+      operationId: 'modifyPreference',
+      tag: 'Actions',
+      summary: 'Change a preference of the current user.',
+      description:
+        'Boolean preferences support the `enable`, `disable` and `toggle` actions, other ' +
+        'preferences the `set` action.',
+      scope: 'preferences',
+      pathParameters: { modify: 'One of `enable`, `disable`, `toggle` or `set`.' },
+      body: { contentType: 'application/json', schema: modifyPreferenceBodySchema },
+      responses: {
+        200: { description: 'Preference changed.', schema: 'ActionResult' },
+        400: { description: 'Unknown preference or action.', schema: 'Error' },
+        401: reviewWriteErrors[401],
+        403: { description: 'Token lacks the scope.', schema: 'Error' },
+      },
+    },
+    {
+      method: 'get',
+      path: '/openapi.json',
+      operationId: 'getOpenAPIDocument',
+      tag: 'Meta',
+      summary: 'Get this document.',
+      responses: { 200: { description: 'OpenAPI 3.1 document.' } },
+    },
+  ];
+};
+
+const getParameters = (operation: OperationSpec): OpenAPIParameter[] => {
+  const pathParameters = Object.entries(operation.pathParameters ?? {}).map(
+    ([name, description]): OpenAPIParameter => ({
+      name,
+      in: 'path',
+      required: true,
+      description,
+      schema: { type: 'string' },
+    })
+  );
+  if (!operation.query) return pathParameters;
+
+  const { properties = {}, required = [] } = toJSONSchema(operation.query);
+  const queryParameters = Object.entries(properties).map(
+    ([name, propertySchema]): OpenAPIParameter => {
+      const { description, ...schema } = propertySchema as JSONSchema;
+      return { name, in: 'query', required: required.includes(name), description, schema };
+    }
+  );
+  return [...pathParameters, ...queryParameters];
+};
+
+const getRequestBody = (
+  body: NonNullable<OperationSpec['body']>
+): OpenAPIOperation['requestBody'] => {
+  const schema = toJSONSchema(body.schema);
+  const properties = { ...schema.properties };
+  for (const [name, fieldSchema] of Object.entries(body.fields ?? {})) {
+    if (!properties[name]) continue;
+    properties[name] = { ...(properties[name] as JSONSchema), ...fieldSchema };
+  }
+  return {
+    required: true,
+    content: { [body.contentType]: { schema: { ...schema, properties } } },
+  };
+};
+
+const getResponses = (responses: OperationSpec['responses']): OpenAPIOperation['responses'] =>
+  Object.fromEntries(
+    Object.entries(responses).map(([status, { description, schema }]) => [
+      status,
+      schema
+        ? {
+            description,
+            content: { 'application/json': { schema: { $ref: componentURI(schema) } } },
+          }
+        : { description },
+    ])
+  );
+
+// Session requests pass any scope check, so only token requests are limited
+const getSecurity = (scope: ApiTokenScope) => [{ accessToken: [scope] }, { session: [] }];
+
+/**
+ * Build the OpenAPI 3.1 description of the JSON API.
+ *
+ * @param req - Request for the document. Used to instantiate the form schemas,
+ *  which reference the request's translations.
+ * @returns OpenAPI document, ready for serialization
+ */
+const buildOpenAPIDocument = (req: HandlerRequest) => {
+  const paths: Record<string, Partial<Record<HTTPMethod, OpenAPIOperation>>> = {};
+  const operations = getOperations(req);
+
+  for (const operation of operations) {
+    const parameters = getParameters(operation);
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = {
+      operationId: operation.operationId,
+      tags: [operation.tag],
+      summary: operation.summary,
+      ...(operation.description ? { description: operation.description } : {}),
+      ...(parameters.length ? { parameters } : {}),
+      ...(operation.body ? { requestBody: getRequestBody(operation.body) } : {}),
+      ...(operation.scope ? { security: getSecurity(operation.scope) } : {}),
+      responses: getResponses(operation.responses),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: `${req.__('site name')} API`,
+      version: '1',
+      description:
+        'Read routes can be used without authentication. Write routes require a personal ' +
+        'access token with the listed scope, or a browser session.',
+    },
+    servers: [{ url: `${config.qualifiedURL}api` }],
+    tags: [...new Set(operations.map(operation => operation.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: getComponentSchemas(),
+      securitySchemes: {
+        accessToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Personal access token, created in the user settings.',
+        },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'libreviews_session',
+          description:
+            'Browser session. Write requests must also send an `X-Requested-With` header ' +
+            'set to `XMLHttpRequest` or `app`.',
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Short, human-readable type of a JSON Schema fragment, e.g. `string (uuid)`
+ * or `TeamSummary[]`.
+ */
+const describeType = (schema: JSONSchema | boolean): string => {
+  if (typeof schema === 'boolean') return 'any';
+  if (schema.$ref) return schema.$ref.split('/').pop() ?? schema.$ref;
+  if (schema.anyOf) return schema.anyOf.map(describeType).join(' | ');
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  if (schema.type === 'array' && schema.items && !Array.isArray(schema.items))
+    return `${describeType(schema.items)}[]`;
+  if (typeof schema.type === 'string')
+    return schema.format ? `${schema.type} (${schema.format})` : schema.type;
+  return schema.format ? `string (${schema.format})` : 'any';
+};
+
+const describeFields = (schema: JSONSchema) =>
+  Object.entries(schema.properties ?? {}).map(([name, fieldSchema]) => ({
+    name,
+    type: describeType(fieldSchema as JSONSchema),
+    required: Boolean(schema.required?.includes(name)),
+    description: (fieldSchema as JSONSchema).description,
+  }));
+
+/**
+ * Flatten an OpenAPI document into the operation and schema lists shown on
+ * the API documentation page.
+ *
+ * @param document - Document created by `buildOpenAPIDocument`
+ */
+const summarizeOpenAPIDocument = (document: OpenAPIDocument) => {
+  const operations = Object.entries(document.paths).flatMap(([path, pathItem]) =>
+    Object.entries(pathItem).map(([method, operation]) => {
+      const [contentType, body] = Object.entries(operation.requestBody?.content ?? {})[0] ?? [];
+      return {
+        id: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary,
+        description: operation.description,
+        scope: operation.security?.[0]?.accessToken?.[0],
+        parameters: (operation.parameters ?? []).map(parameter => ({
+          name: parameter.name,
+          in: parameter.in,
+          type: describeType(parameter.schema),
+          required: parameter.required,
+          description: parameter.description,
+        })),
+        contentType,
+        bodyFields: body ? describeFields(body.schema) : [],
+        responses: Object.entries(operation.responses).map(([status, response]) => ({
+          status,
+          description: response.description,
+          type: response.content ? describeType(response.content['application/json'].schema) : '',
+        })),
+      };
+    })
+  );
+
+  const schemas = Object.entries(document.components.schemas).map(([id, schema]) => ({
+    id,
+    description: schema.description,
+    fields: describeFields(schema),
+  }));
+
+  return { operations, schemas };
+};
+
+export type OpenAPIDocument = ReturnType<typeof buildOpenAPIDocument>;
+export { buildOpenAPIDocument, summarizeOpenAPIDocument };
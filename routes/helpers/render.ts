@@ -108,6 +108,7 @@ const template = (
     : false;
   vars.accountRequestsEnabled = accountRequestsEnabled && emailEnabled && config.requireInviteLinks;
   vars.requireInviteLinks = config.requireInviteLinks;
+  vars.emailEnabled = emailEnabled;
 
   const registerRegex = /^\/register(\/|$)/;
   if (req.query.returnTo) vars.returnTo = String(req.query.returnTo);
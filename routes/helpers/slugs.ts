@@ -78,6 +78,25 @@ const resolveAndLoadTeam = (
     slugLabel: 'team',
   });
 
+const thingModelConfig: ModelConfig<ThingInstance> = {
+  basePath: '/',
+  slugForeignKey: 'thingID',
+  getDocumentModel: async () => Thing,
+  loadSlug: async (slugName: string, _model: DocumentModel<ThingInstance>) => {
+    const ThingSlugModel = ThingSlug;
+    if (!ThingSlugModel || typeof ThingSlugModel.getByName !== 'function') return null;
+    // ThingSlug also returns model instances; reshape to a plain object.
+    const slugRecord = await ThingSlugModel.getByName(slugName);
+    if (!slugRecord || typeof slugRecord !== 'object') {
+      return null;
+    }
+    const { name, ...rest } = slugRecord as Record<string, unknown>;
+    if (typeof name !== 'string') return null;
+    return { ...rest, name };
+  },
+  slugLabel: 'thing',
+};
+
 /**
  * Resolve a review subject ("thing") by slug or ID.
  *
@@ -91,24 +110,23 @@ const resolveAndLoadTeam = (
  *  Options documented on the Thing model's `getWithData`
  */
 const resolveAndLoadThing = (req: Request, res: Response, id: string, loadOptions?: LoadOptions) =>
-  resolveAndLoad<ThingInstance>(req, res, id, loadOptions, {
-    basePath: '/',
-    slugForeignKey: 'thingID',
-    getDocumentModel: async () => Thing,
-    loadSlug: async (slugName: string, _model: DocumentModel<ThingInstance>) => {
-      const ThingSlugModel = ThingSlug;
-      if (!ThingSlugModel || typeof ThingSlugModel.getByName !== 'function') return null;
-      // ThingSlug also returns model instances; reshape to a plain object.
-      const slugRecord = await ThingSlugModel.getByName(slugName);
-      if (!slugRecord || typeof slugRecord !== 'object') {
-        return null;
-      }
-      const { name, ...rest } = slugRecord as Record<string, unknown>;
-      if (typeof name !== 'string') return null;
-      return { ...rest, name };
-    },
-    slugLabel: 'thing',
-  });
+  resolveAndLoad<ThingInstance>(req, res, id, loadOptions, thingModelConfig);
+
+/**
+ * Look up a review subject ("thing") by slug or ID without redirecting, e.g.,
+ * for API requests. Rejects with `DocumentNotFound` when the slug is unknown,
+ * and with the model's errors when the thing cannot be loaded.
+ *
+ * @param id
+ *  Slug or UUID for the thing
+ * @param loadOptions
+ *  Options documented on the Thing model's `getWithData`
+ * @returns
+ *  The thing, and whether `id` is its canonical slug (or its UUID, if it has
+ *  no canonical slug)
+ */
+const findThing = (id: string, loadOptions?: LoadOptions) =>
+  findBySlugOrID<ThingInstance>(id, loadOptions, thingModelConfig);
 
 /**
  * Generic resolver that locates a document by slug or UUID and redirects to a
@@ -132,6 +150,31 @@ const resolveAndLoad = async <T extends DocumentWithSlug>(
   loadOptions: LoadOptions,
   modelConfig: ModelConfig<T>
 ): Promise<T> => {
+  const { document, isCanonical } = await findBySlugOrID(id, loadOptions, modelConfig);
+  if (isCanonical) return document;
+
+  redirectToCanonical(req, res, id, modelConfig.basePath, document.canonicalSlugName ?? undefined);
+  const error = new Error();
+  error.name = 'RedirectedError';
+  throw error;
+};
+
+/**
+ * Locate a document by slug or UUID. A UUID is canonical only for documents
+ * without a canonical slug; a slug only if it is the canonical one.
+ *
+ * @param id
+ *  Slug or UUID to resolve
+ * @param loadOptions
+ *  Model-specific options forwarded to `getWithData`
+ * @param modelConfig
+ *  Configuration describing how to resolve the slug and load the document
+ */
+const findBySlugOrID = async <T extends DocumentWithSlug>(
+  id: string,
+  loadOptions: LoadOptions,
+  modelConfig: ModelConfig<T>
+): Promise<{ document: T; isCanonical: boolean }> => {
   const DocumentModel = modelConfig.getDocumentModel
     ? await modelConfig.getDocumentModel()
     : modelConfig.DocumentModel;
@@ -144,21 +187,9 @@ const resolveAndLoad = async <T extends DocumentWithSlug>(
     return DocumentModel.getWithData(documentId, loadOptions);
   };
 
-  const createRedirectedError = () => {
-    const error = new Error();
-    error.name = 'RedirectedError';
-    return error;
-  };
-
   if (isUUID.v4(id)) {
     const document = await loadDocument(id);
-
-    if (document.canonicalSlugName) {
-      redirectToCanonical(req, res, id, modelConfig.basePath, document.canonicalSlugName);
-      throw createRedirectedError();
-    }
-
-    return document;
+    return { document, isCanonical: !document.canonicalSlugName };
   }
 
   let slug: { name: string; [key: string]: unknown } | null;
@@ -177,11 +208,7 @@ const resolveAndLoad = async <T extends DocumentWithSlug>(
   }
 
   const document = await loadDocument(slug[modelConfig.slugForeignKey] as string | undefined);
-
-  if (document.canonicalSlugName === slug.name) return document;
-
-  redirectToCanonical(req, res, id, modelConfig.basePath, document.canonicalSlugName);
-  throw createRedirectedError();
+  return { document, isCanonical: document.canonicalSlugName === slug.name };
 };
 
 /**
@@ -208,6 +235,7 @@ const redirectToCanonical = (
 const slugs = {
   resolveAndLoadTeam,
   resolveAndLoadThing,
+  findThing,
 };
 
 export type SlugHelper = typeof slugs;
@@ -0,0 +1,170 @@
+import config from 'config';
+import { decodeHTML } from 'entities';
+import mlString, { type MultilingualString } from 'rev-dal/lib/ml-string';
+import stripTags from 'striptags';
+
+import adapters from '../../adapters/adapters.ts';
+import type { ReviewInstance } from '../../models/manifests/review.ts';
+import type { TeamInstance } from '../../models/manifests/team.ts';
+import type { SyncData, ThingInstance } from '../../models/manifests/thing.ts';
+import type { UserView } from '../../models/manifests/user.ts';
+
+type JSONLD = Record<string, unknown>;
+
+const context = 'https://schema.org';
+
+// Stored text is entity-escaped (and rich text is HTML), but JSON-LD consumers
+// expect plain text
+const resolveText = (locale: string, value: unknown) => {
+  const resolved = mlString.resolve(locale, value as MultilingualString | null | undefined);
+  if (!resolved?.str) return undefined;
+  return { text: decodeHTML(stripTags(resolved.str)).trim(), lang: resolved.lang };
+};
+
+const toISOString = (date: unknown) => (date instanceof Date ? date.toISOString() : undefined);
+
+const rating = (value: number) => ({
+  '@type': 'Rating',
+  ratingValue: value,
+  bestRating: 5,
+  worstRating: 1,
+});
+
+const person = (user: Pick<UserView, 'displayName' | 'urlName'> | undefined) =>
+  user?.displayName
+    ? {
+        '@type': 'Person',
+        name: user.displayName,
+        url: `${config.qualifiedURL}user/${user.urlName}`,
+      }
+    : undefined;
+
+/**
+ * schema.org type of a review subject, based on the adapter its metadata was
+ * synced from. Subjects without synced metadata are plain `Thing`s.
+ *
+ * @param thing - Review subject
+ */
+const getThingType = (thing: ThingInstance): string => {
+  const sync = (thing.sync ?? {}) as SyncData;
+  for (const entry of Object.values(sync)) {
+    const adapter = entry?.source ? adapters.getAdapterForSource(entry.source) : undefined;
+    if (adapter) return adapter.getSchemaType();
+  }
+  return 'Thing';
+};
+
+const thingSummary = (thing: ThingInstance, locale: string): JSONLD => {
+  const urls = Array.isArray(thing.urls) ? thing.urls : [];
+  const type = getThingType(thing);
+  const description = resolveText(locale, thing.description);
+  const authors =
+    type === 'Book' && Array.isArray(thing.authors)
+      ? thing.authors
+          .map(author => resolveText(locale, author)?.text)
+          .filter(Boolean)
+          .map(name => ({ '@type': 'Person', name }))
+      : [];
+  return {
+    '@type': type,
+    name: resolveText(locale, thing.label)?.text ?? urls[0],
+    url: `${config.qualifiedURL}${thing.urlID}`,
+    sameAs: urls.length ? urls : undefined,
+    description: description?.text,
+    author: authors.length ? authors : undefined,
+  };
+};
+
+const reviewSummary = (review: ReviewInstance, locale: string): JSONLD => {
+  const title = resolveText(locale, review.title);
+  const body = resolveText(locale, review.html);
+  return {
+    '@type': 'Review',
+    url: `${config.qualifiedURL}review/${review.id}`,
+    name: title?.text,
+    reviewBody: body?.text,
+    inLanguage: body?.lang ?? title?.lang,
+    datePublished: toISOString(review.createdOn),
+    author: person(review.creator),
+    reviewRating: rating(review.starRating),
+  };
+};
+
+/**
+ * Describe a review and its subject, in the request language where
+ * available.
+ *
+ * @param item - Review with its thing and creator joined
+ * @param locale - Request locale
+ */
+const review = (item: ReviewInstance, locale: string): JSONLD => ({
+  '@context': context,
+  ...reviewSummary(item, locale),
+  image: item.socialImage?.name
+    ? `${config.qualifiedURL}static/uploads/${encodeURIComponent(item.socialImage.name)}`
+    : undefined,
+  itemReviewed: item.thing ? thingSummary(item.thing, locale) : undefined,
+});
+
+/**
+ * Describe a review subject with its rating across all reviews and the
+ * reviews shown alongside it.
+ *
+ * @param item - Review subject with populated review metrics
+ * @param locale - Request locale
+ * @param reviews - Reviews of the subject shown on the page
+ */
+const thing = (item: ThingInstance, locale: string, reviews: ReviewInstance[] = []): JSONLD => {
+  const numberOfReviews = typeof item.numberOfReviews === 'number' ? item.numberOfReviews : 0;
+  return {
+    '@context': context,
+    ...thingSummary(item, locale),
+    aggregateRating: numberOfReviews
+      ? {
+          '@type': 'AggregateRating',
+          ratingValue: Number(item.averageStarRating),
+          reviewCount: numberOfReviews,
+          bestRating: 5,
+          worstRating: 1,
+        }
+      : undefined,
+    review: reviews.length
+      ? reviews.map(shownReview => reviewSummary(shownReview, locale))
+      : undefined,
+  };
+};
+
+/**
+ * Describe a team as an organization.
+ *
+ * @param item - Team to describe
+ * @param locale - Request locale
+ */
+const team = (item: TeamInstance, locale: string): JSONLD => ({
+  '@context': context,
+  '@type': 'Organization',
+  name: resolveText(locale, item.name)?.text,
+  url: `${config.qualifiedURL}team/${item.urlID}`,
+  slogan: resolveText(locale, item.motto)?.text,
+  description: resolveText(locale, item.description?.html)?.text,
+  foundingDate: toISOString(item.createdOn),
+});
+
+/**
+ * Serialize JSON-LD for a `<script type="application/ld+json">` element.
+ * Properties without a value are dropped, and `<` is escaped so the data
+ * cannot close the element.
+ *
+ * @param data - JSON-LD object
+ */
+const serialize = (data: JSONLD): string => JSON.stringify(data).replace(/</g, '\\u003c');
+
+const structuredData = {
+  review,
+  thing,
+  team,
+  serialize,
+};
+
+export type StructuredDataHelper = typeof structuredData;
+export default structuredData;
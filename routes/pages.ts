@@ -5,6 +5,7 @@ import { Router } from 'express';
 import languages from '../locales/languages.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
 import { extractHeadings } from './helpers/headings.ts';
+import { buildOpenAPIDocument, summarizeOpenAPIDocument } from './helpers/openapi.ts';
 import render from './helpers/render.ts';
 
 type PagesRouteRequest = HandlerRequest;
@@ -41,6 +42,17 @@ router.get('/faq', (req: PagesRouteRequest, res: PagesRouteResponse, next: Handl
     .catch(next);
 });
 
+// Human-readable version of /api/openapi.json
+router.get('/api-docs', (req: PagesRouteRequest, res: PagesRouteResponse) => {
+  const { operations, schemas } = summarizeOpenAPIDocument(buildOpenAPIDocument(req));
+  render.template(req, res, 'api-docs', {
+    titleKey: 'api documentation',
+    specURL: '/api/openapi.json',
+    operations,
+    schemas,
+  });
+});
+
 // Detects the best available template in the multilingual templates directory
 // for a given locale.
 async function resolveMultilingualTemplate(
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
+import sitemaps, { SITEMAP_TYPES, type SitemapType } from '../util/sitemaps.ts';
+
+type SitemapsRouteRequest<Params extends Record<string, string> = Record<string, string>> =
+  HandlerRequest<Params>;
+type SitemapsRouteResponse = HandlerResponse;
+
+const router = Router();
+
+const isSitemapType = (type: string): type is SitemapType =>
+  (SITEMAP_TYPES as readonly string[]).includes(type);
+
+const sendXML = (res: SitemapsRouteResponse, xml: string) => {
+  res.type('application/xml');
+  res.set('Cache-Control', 'public, max-age=3600');
+  res.send(xml);
+};
+
+router.get(
+  '/sitemap.xml',
+  async (_req: SitemapsRouteRequest, res: SitemapsRouteResponse, next: HandlerNext) => {
+    try {
+      sendXML(res, sitemaps.renderIndex(await sitemaps.getPages()));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/sitemaps/:type/:page.xml',
+  async (
+    req: SitemapsRouteRequest<{ type: string; page: string }>,
+    res: SitemapsRouteResponse,
+    next: HandlerNext
+  ) => {
+    const { type } = req.params;
+    const page = Number(req.params.page);
+    if (!isSitemapType(type) || !Number.isInteger(page) || page < 1)
+      return void res.sendStatus(404);
+    try {
+      const entries = await sitemaps.getEntries(type, page);
+      // The first page of each type is listed in the index even when empty
+      if (!entries.length && page > 1) return void res.sendStatus(404);
+      sendXML(res, sitemaps.renderURLSet(entries));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
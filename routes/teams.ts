@@ -5,6 +5,7 @@ import languages from '../locales/languages.ts';
 import type { TeamInstance } from '../models/manifests/team.ts';
 import TeamJoinRequest from '../models/team-join-request.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
+import webHookEvents, { getTeamJoinRequestEventData } from '../util/webhook-events.ts';
 import getResourceErrorHandler from './handlers/resource-error-handler.ts';
 import TeamProvider from './handlers/team-provider.ts';
 import render from './helpers/render.ts';
@@ -127,6 +128,31 @@ router.post(
   }
 );
 
+// Moderator tool for managing the team's webhooks
+router.get(
+  '/team/:id/webhooks',
+  (req: TeamRouteRequest<{ id: string }>, res: TeamRouteResponse, next: HandlerNext) => {
+    let teamProvider = new TeamProvider(req, res, next, {
+      action: 'webHooks',
+      method: 'GET',
+      id: req.params.id,
+    });
+    teamProvider.execute();
+  }
+);
+
+router.post(
+  '/team/:id/webhooks',
+  (req: TeamRouteRequest<{ id: string }>, res: TeamRouteResponse, next: HandlerNext) => {
+    let teamProvider = new TeamProvider(req, res, next, {
+      action: 'webHooks',
+      method: 'POST',
+      id: req.params.id,
+    });
+    teamProvider.execute();
+  }
+);
+
 // Process join requests, form is on team page itself
 router.post(
   '/team/:id/join',
@@ -170,6 +196,10 @@ router.post(
             existingRequest
               .save()
               .then(() => {
+                webHookEvents.emit(
+                  'teamJoinRequested',
+                  getTeamJoinRequestEventData(existingRequest, loadedTeam, currentUser)
+                );
                 res.redirect(`/team/${id}`);
               })
               .catch(next);
@@ -184,6 +214,10 @@ router.post(
             teamJoinRequest
               .save()
               .then(() => {
+                webHookEvents.emit(
+                  'teamJoinRequested',
+                  getTeamJoinRequestEventData(teamJoinRequest, loadedTeam, currentUser)
+                );
                 res.redirect(`/team/${id}`);
               })
               .catch(next); // Problem saving join request
@@ -2,6 +2,7 @@ import * as url from 'node:url';
 import config from 'config';
 import escapeHTML from 'escape-html';
 import { Router } from 'express';
+import i18n from 'i18n';
 import type { MultilingualString } from 'rev-dal/lib/ml-string';
 import { z } from 'zod';
 import languages from '../locales/languages.ts';
@@ -13,15 +14,19 @@ import {
 import { type ThingInstance } from '../models/manifests/thing.ts';
 import Review from '../models/review.ts';
 import Thing from '../models/thing.ts';
-import search from '../search.ts';
+import searchOutbox from '../search/outbox.ts';
 import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
 import getMessages from '../util/get-messages.ts';
 import urlUtils from '../util/url-utils.ts';
+import webHookEvents, { getThingChangeEventData } from '../util/webhook-events.ts';
 import getResourceErrorHandler from './handlers/resource-error-handler.ts';
 import signinRequiredRoute from './handlers/signin-required-route.ts';
+import badges, { BADGE_STYLES } from './helpers/badges.ts';
 import feeds from './helpers/feeds.ts';
+import oEmbed from './helpers/oembed.ts';
 import render from './helpers/render.ts';
 import slugs from './helpers/slugs.ts';
+import structuredData from './helpers/structured-data.ts';
 import {
   flashZodIssues,
   formatZodIssueMessage,
@@ -265,6 +270,48 @@ router.get(
   }
 );
 
+const badgeQuerySchema = z.object({
+  style: z.enum(BADGE_STYLES).catch('flat'),
+  lang: z
+    .string()
+    .refine(lang => languages.isValid(lang))
+    .catch('en'),
+});
+
+// Badges are embedded in READMEs and store pages, which fetch them on every
+// view, so they may be cached for an hour. They are in the site's default
+// language unless `lang` selects another, so that cached copies do not depend
+// on the language of whoever requested them first.
+router.get(
+  '/:id/badge.svg',
+  (req: ThingRouteRequest<{ id: string }>, res: ThingRouteResponse, next: HandlerNext) => {
+    const { id } = req.params;
+    const { style, lang } = badgeQuerySchema.parse(req.query);
+    slugs
+      .resolveAndLoadThing(req, res, id)
+      .then(thing => {
+        i18n.setLocale(req, lang);
+
+        const reviewCount = typeof thing.numberOfReviews === 'number' ? thing.numberOfReviews : 0;
+        const rating = reviewCount ? Number(thing.averageStarRating) : undefined;
+        const label = req.__('site name');
+        const message =
+          rating === undefined
+            ? req.__('review count zero')
+            : req.__(
+                'badge rating',
+                rating.toFixed(1),
+                req.__n('one or multiple reviews', reviewCount)
+              );
+
+        res.type('image/svg+xml');
+        res.set('Cache-Control', 'public, max-age=3600');
+        res.send(badges.render({ label, message, rating, style, title: `${label}: ${message}` }));
+      })
+      .catch(getResourceErrorHandler(req, res, next, 'thing', id));
+  }
+);
+
 router.get(
   '/:id/delete',
   (req: ThingRouteRequest<{ id: string }>, res: ThingRouteResponse, next: HandlerNext) => {
@@ -324,7 +371,9 @@ router.post(
         thing
           .deleteAllRevisions(req.user)
           .then(() => {
-            search.deleteThing(thing);
+            void searchOutbox.queueThingDeletion(thing);
+            if (req.user)
+              webHookEvents.emit('thingDeleted', getThingChangeEventData(thing, req.user));
             render.template(req, res, 'thing-deleted', {
               thing,
               titleKey,
@@ -508,7 +557,9 @@ function processTextFieldUpdate(
             updatedRev
               .save()
               .then(() => {
-                search.indexThing(updatedRev);
+                void searchOutbox.queueThing(updatedRev);
+                if (req.user)
+                  webHookEvents.emit('thingEdited', getThingChangeEventData(updatedRev, req.user));
                 res.redirect(`/${id}`);
               })
               .catch(handleSaveError);
@@ -613,6 +664,14 @@ function sendThing(
         : undefined,
       taggedURLs,
       activeSourceIDs: thing.getSourceIDsOfActiveSyncs(),
+      oEmbedURL: oEmbed.getDiscoveryURL(`/${thing.urlID}`),
+      oEmbedTitleKey: 'embed thing',
+      structuredData: structuredData.serialize(
+        structuredData.thing(thing, req.locale, [
+          ...resolvedOptions.userReviews,
+          ...(resolvedOptions.otherReviews?.feedItems ?? []),
+        ])
+      ),
       scripts: ['upload'],
     },
     {
@@ -739,6 +798,8 @@ function processThingURLsUpdate(paramsObj: ThingURLsFormParams) {
         revision
           .updateActiveSyncs(userID)
           .then(() => {
+            if (req.user)
+              webHookEvents.emit('thingEdited', getThingChangeEventData(revision, req.user));
             req.flash('pageMessages', req.__('links updated'));
             sendThingURLsForm({ req, res, titleKey, thing: revision });
           })
@@ -23,6 +23,7 @@ import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http
 import { generateToken, invalidCsrfTokenError, validateRequest } from '../util/csrf.ts';
 import debug from '../util/debug.ts';
 import ReportedError from '../util/reported-error.ts';
+import webHookEvents, { getFileEventData } from '../util/webhook-events.ts';
 import getResourceErrorHandler from './handlers/resource-error-handler.ts';
 import render from './helpers/render.ts';
 import slugs from './helpers/slugs.ts';
@@ -671,7 +672,13 @@ function processUploadForm(
   // problem, move the upload to its final location, update its metadata and
   // mark it as finished.
   getFiles(parsedUploadIDs)
-    .then(files => processUploads(files, parseResult.data.uploads, req.app.locals.paths.uploadsDir))
+    .then(async files => {
+      await processUploads(files, parseResult.data.uploads, req.app.locals.paths.uploadsDir);
+      const { user } = req;
+      if (user)
+        for (const file of files)
+          webHookEvents.emit('fileUploaded', getFileEventData(file, user, thing));
+    })
     .then(() => redirectBack({ message: ['upload completed'] }))
     .catch(async error => {
       req.flashError?.(error);
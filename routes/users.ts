@@ -1,5 +1,6 @@
 import { Router } from 'express';
 
+import savedSearchHandlers from './handlers/saved-search-handlers.ts';
 import userHandlers from './handlers/user-handlers.ts';
 
 const router = Router();
@@ -16,4 +17,20 @@ router.get('/:name/edit/bio', userHandlers.getUserHandler({ editBio: true }));
 
 router.post('/:name/edit/bio', userHandlers.processEdit);
 
+router.get('/:name/settings/tokens', userHandlers.getAccessTokens);
+
+router.post('/:name/settings/tokens', userHandlers.processAccessTokenCreate);
+
+router.post('/:name/settings/tokens/:id/revoke', userHandlers.processAccessTokenRevoke);
+
+router.get('/:name/settings/searches', savedSearchHandlers.getSavedSearches);
+
+router.post('/:name/settings/searches', savedSearchHandlers.processSavedSearchCreate);
+
+router.post('/:name/settings/searches/:id/alerts', savedSearchHandlers.processSavedSearchAlerts);
+
+router.post('/:name/settings/searches/:id/delete', savedSearchHandlers.processSavedSearchDelete);
+
+router.get('/:name/settings/searches/:id/atom', savedSearchHandlers.getSavedSearchFeed);
+
 export default router;
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import isUUID from 'is-uuid';
+import { z } from 'zod';
+
+import type { HandlerNext, HandlerRequest, HandlerResponse } from '../types/http/handlers.ts';
+import webmentions from '../util/webmentions.ts';
+import signinRequiredRoute from './handlers/signin-required-route.ts';
+import render from './helpers/render.ts';
+
+type WebmentionsRouteRequest<Params extends Record<string, string> = Record<string, string>> =
+  HandlerRequest<Params>;
+type WebmentionsRouteResponse = HandlerResponse;
+
+// Other sites post to the endpoint without a CSRF token, so it is mounted
+// before CSRF protection; the moderation controls come after it
+const endpointRouter = Router();
+const moderationRouter = Router();
+
+const endpointSchema = z.object({
+  source: z.string().trim().min(1),
+  target: z.string().trim().min(1),
+});
+
+endpointRouter.post(
+  '/webmention',
+  (req: WebmentionsRouteRequest, res: WebmentionsRouteResponse) => {
+    if (!webmentions.isEnabled()) return void res.sendStatus(404);
+    const parseResult = endpointSchema.safeParse(req.body ?? {});
+    if (!parseResult.success)
+      return void res.status(400).type('text').send('Source and target are required.');
+
+    const { source, target } = parseResult.data;
+    const problem = webmentions.receive(source, target);
+    if (problem) return void res.status(400).type('text').send(problem);
+    res.status(202).type('text').send('Accepted for verification.');
+  }
+);
+
+moderationRouter.post(
+  '/review/:id/webmentions/:mentionID',
+  signinRequiredRoute(
+    'review',
+    async (
+      req: WebmentionsRouteRequest<{ id: string; mentionID: string }>,
+      res: WebmentionsRouteResponse,
+      next: HandlerNext
+    ) => {
+      if (!req.user?.isSiteModerator) {
+        return render.permissionError(req, res, {
+          titleKey: 'review',
+          detailsKey: 'must be site moderator',
+        });
+      }
+
+      const { id, mentionID } = req.params;
+      const reviewURL = `/review/${id}#webmentions`;
+      const action = req.body.action === 'show' ? 'show' : 'hide';
+      if (!isUUID.v4(id) || !isUUID.v4(mentionID)) {
+        req.flash('pageErrors', req.__('webmention not found'));
+        return res.redirect(reviewURL);
+      }
+
+      try {
+        const found = await webmentions.setHidden(mentionID, id, action === 'hide');
+        if (!found) req.flash('pageErrors', req.__('webmention not found'));
+        else
+          req.flash(
+            'pageMessages',
+            req.__(action === 'hide' ? 'webmention hidden' : 'webmention shown')
+          );
+        res.redirect(reviewURL);
+      } catch (error) {
+        next(error);
+      }
+    }
+  )
+);
+
+export { endpointRouter, moderationRouter };
@@ -0,0 +1,268 @@
+import type { SearchResponse } from 'elasticsearch';
+import type { BlogPostInstance } from '../models/manifests/blog-post.ts';
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { TeamInstance } from '../models/manifests/team.ts';
+import type { ThingInstance } from '../models/manifests/thing.ts';
+import type { UserInstance } from '../models/manifests/user.ts';
+import urlUtils from '../util/url-utils.ts';
+
+type LocaleCode = LibReviews.LocaleCode;
+
+/**
+ * ElasticSearch suggest response structure for thing completion queries.
+ */
+export type SuggestThingResponse = {
+  suggest: {
+    [key: `labels-${string}`]: Array<{
+      options: Array<{
+        _source: {
+          urlID: string;
+          urls: unknown;
+          description: unknown;
+        };
+        _index: string;
+        [key: string]: unknown;
+      }>;
+    }>;
+  };
+};
+
+/**
+ * ElasticSearch search response for things (review subjects).
+ */
+export type SearchThingsResponse = SearchResponse<{
+  urlID: string;
+  label: unknown;
+  description?: unknown;
+  type: 'thing';
+  [key: string]: unknown;
+}>;
+
+/**
+ * ElasticSearch search response for reviews with inner_hits (parent things).
+ */
+export type SearchReviewsResponse = {
+  hits: {
+    total: number | { value: number; relation: string };
+    hits: Array<{
+      _id: string;
+      _source: {
+        urlID: string;
+        label: unknown;
+        type: 'thing';
+        [key: string]: unknown;
+      };
+      inner_hits: {
+        review: {
+          hits: {
+            total: { value: number };
+            hits: Array<{
+              _id: string;
+              _source: {
+                title: unknown;
+                starRating: number;
+                [key: string]: unknown;
+              };
+              highlight?: Record<string, string[]>;
+            }>;
+          };
+        };
+      };
+    }>;
+  };
+};
+
+/**
+ * Filters for paged searches. Rating and team filters apply to reviews; thing
+ * searches return the things with at least one matching review instead.
+ */
+export interface SearchFilters {
+  minRating?: number;
+  maxRating?: number;
+  // Original language of the review or thing
+  language?: string;
+  teamID?: string;
+  // One of the tags from `urlUtils.getTags()`, e.g., `opendata`
+  sourceTag?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export const searchSortOrders = ['relevance', 'date', 'rating'] as const;
+
+/**
+ * Order of search hits. `date` puts the newest first. `rating` sorts reviews
+ * by star rating and things by the average rating of their (matching) reviews.
+ */
+export type SearchSortOrder = (typeof searchSortOrders)[number];
+
+export interface SearchPageOptions {
+  // Language whose fallbacks are searched
+  lang?: LocaleCode;
+  from?: number;
+  size?: number;
+  sort?: SearchSortOrder;
+  filters?: SearchFilters;
+}
+
+/**
+ * Highlighted fragments (HTML-escaped, with matches wrapped in a
+ * `search-highlight` span), keyed by field name without language suffix.
+ */
+export type SearchHighlights = Record<string, string[]>;
+
+export interface ThingSearchHit {
+  id: string;
+  urlID: string;
+  label?: Record<string, string>;
+  description?: Record<string, string>;
+  urls: string[];
+  score: number | null;
+  highlights: SearchHighlights;
+}
+
+export interface ReviewSearchHit {
+  id: string;
+  thingID: string;
+  title?: Record<string, string>;
+  starRating: number;
+  originalLanguage?: string;
+  createdOn: string;
+  teamIDs: string[];
+  thing: { id: string; urlID: string; label?: Record<string, string> } | null;
+  score: number | null;
+  highlights: SearchHighlights;
+}
+
+export interface TeamSearchHit {
+  id: string;
+  urlID: string;
+  name?: Record<string, string>;
+  motto?: Record<string, string>;
+  score: number | null;
+  highlights: SearchHighlights;
+}
+
+export interface UserSearchHit {
+  id: string;
+  displayName: string;
+  urlName: string;
+  score: number | null;
+  highlights: SearchHighlights;
+}
+
+export interface BlogPostSearchHit {
+  id: string;
+  teamID: string;
+  title?: Record<string, string>;
+  originalLanguage?: string;
+  createdOn: string;
+  score: number | null;
+  highlights: SearchHighlights;
+}
+
+export interface SearchFacetBucket {
+  value: string | number;
+  count: number;
+}
+
+export interface ReviewSearchFacets {
+  starRating: SearchFacetBucket[];
+  language: SearchFacetBucket[];
+  team: SearchFacetBucket[];
+}
+
+export interface SearchPage<THit> {
+  total: number;
+  hits: THit[];
+}
+
+export type ReviewSearchPage = SearchPage<ReviewSearchHit> & { facets: ReviewSearchFacets };
+
+export const defaultSearchPageSize = 10;
+
+/**
+ * Factor by which the text match score of a review subject is multiplied, so
+ * that among similar matches, things with more and better reviews come first.
+ * Things without reviews keep their score; 40 five-star reviews boost it
+ * about 2.6 times. Backends that rank in the database reproduce this formula.
+ *
+ * @param numberOfReviews - Number of (current) reviews of the thing
+ * @param averageStarRating - Their average star rating, 0 without reviews
+ */
+export function getReviewMetricsBoost(numberOfReviews = 0, averageStarRating = 0): number {
+  return 1 + Math.log10(1 + numberOfReviews) * ((averageStarRating + 5) / 10);
+}
+
+/**
+ * A search query that is a link rather than words. A full URL matches review
+ * subjects with that exact URL; a domain matches those with a URL on that
+ * host or one of its subdomains, in addition to text matches.
+ */
+export type URLSearchQuery = { url: string; urls: string[] } | { domain: string };
+
+// Host names with at least one dot and a top-level domain of letters
+const domainRegex = /^(?:www\.)?((?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+[a-z]{2,})\.?$/i;
+
+/**
+ * Recognize search queries that consist of a URL or a bare domain name.
+ *
+ * @param query - Query as entered by the user
+ * @returns The URL (with the normalized form under which it may have been
+ *  saved) or the lowercase domain without `www.`, or null for other queries
+ */
+export function parseURLQuery(query: string): URLSearchQuery | null {
+  const input = query.trim();
+  if (urlUtils.validate(input)) {
+    return { url: input, urls: [...new Set([input, urlUtils.normalize(input)])] };
+  }
+  const match = domainRegex.exec(input);
+  return match ? { domain: match[1].toLowerCase() } : null;
+}
+
+export const searchBackendNames = ['elasticsearch', 'postgres'] as const;
+
+export type SearchBackendName = (typeof searchBackendNames)[number];
+
+/**
+ * Operations every search backend implements. The result shapes of
+ * `searchThings`, `searchReviews` and `suggestThing` follow Elasticsearch's
+ * responses, which the other backends reproduce.
+ */
+export interface SearchBackend {
+  searchThings(query: string, lang?: LocaleCode): Promise<SearchThingsResponse>;
+  searchReviews(query: string, lang?: LocaleCode): Promise<SearchReviewsResponse>;
+  // Things, when sorted by relevance, and suggestions are ranked with
+  // getReviewMetricsBoost. Things are also found by URL or domain (see
+  // parseURLQuery).
+  findThings(query: string, options?: SearchPageOptions): Promise<SearchPage<ThingSearchHit>>;
+  findReviews(query: string, options?: SearchPageOptions): Promise<ReviewSearchPage>;
+  suggestThing(prefix?: string, lang?: LocaleCode): Promise<SuggestThingResponse>;
+  // Teams, users and blog posts have no ratings; sorting by rating falls back
+  // to relevance for them.
+  // Teams by name, motto or description. Of the filters, only `language` applies.
+  findTeams(query: string, options?: SearchPageOptions): Promise<SearchPage<TeamSearchHit>>;
+  // Users by display name or bio. Filters don't apply; `date` sorts by
+  // registration date.
+  findUsers(query: string, options?: SearchPageOptions): Promise<SearchPage<UserSearchHit>>;
+  // Team blog posts by title or text. Of the filters, `language`, `teamID` and
+  // the date range apply.
+  findBlogPosts(query: string, options?: SearchPageOptions): Promise<SearchPage<BlogPostSearchHit>>;
+  // Index updates; backends that query the database directly ignore them.
+  // They reject on failure, so application code should go through the outbox
+  // in search/outbox.ts, which retries them.
+  indexThing(thing: ThingInstance): Promise<unknown>;
+  indexReview(review: ReviewInstance): Promise<unknown>;
+  deleteThing(thing: { id: string }): Promise<unknown>;
+  deleteReview(review: { id: string }): Promise<unknown>;
+  indexTeam(team: TeamInstance): Promise<unknown>;
+  // The user's bio is indexed if `user.meta` is joined
+  indexUser(user: UserInstance): Promise<unknown>;
+  indexBlogPost(post: BlogPostInstance): Promise<unknown>;
+  deleteTeam(team: { id: string }): Promise<unknown>;
+  deleteUser(user: { id: string }): Promise<unknown>;
+  deleteBlogPost(post: { id: string }): Promise<unknown>;
+  createIndices(): Promise<void>;
+  deleteIndex(): Promise<unknown>;
+  close(): void;
+}
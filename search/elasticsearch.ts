@@ -0,0 +1,1301 @@
+import config from 'config';
+import type {
+  ConfigOptions,
+  DeleteDocumentParams,
+  IndexDocumentParams,
+  IndicesUpdateAliasesParamsAction,
+  SearchParams,
+  SearchResponse,
+} from 'elasticsearch';
+import elasticsearch from 'elasticsearch';
+import mlString from 'rev-dal/lib/ml-string';
+import languages from '../locales/languages.ts';
+import type { BlogPostInstance } from '../models/manifests/blog-post.ts';
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { TeamInstance } from '../models/manifests/team.ts';
+import type { ThingInstance } from '../models/manifests/thing.ts';
+import type { UserInstance } from '../models/manifests/user.ts';
+import debug from '../util/debug.ts';
+import urlUtils from '../util/url-utils.ts';
+import {
+  type BlogPostSearchHit,
+  defaultSearchPageSize,
+  getReviewMetricsBoost,
+  parseURLQuery,
+  type ReviewSearchHit,
+  type ReviewSearchPage,
+  type SearchFacetBucket,
+  type SearchFilters,
+  type SearchHighlights,
+  type SearchPage,
+  type SearchPageOptions,
+  type SearchReviewsResponse,
+  type SearchSortOrder,
+  type SearchThingsResponse,
+  type SuggestThingResponse,
+  type TeamSearchHit,
+  type ThingSearchHit,
+  type UserSearchHit,
+} from './backend.ts';
+
+type LocaleCode = LibReviews.LocaleCode;
+
+type ElasticClient = elasticsearch.Client;
+
+/**
+ * Type for ElasticSearch hit objects with inner_hits and highlights.
+ */
+type ESHitWithInnerHighlights = {
+  inner_hits?: {
+    [type: string]: {
+      hits: {
+        hits: Array<{
+          highlight?: Record<string, string[]>;
+          [key: string]: unknown;
+        }>;
+      };
+    };
+  };
+  [key: string]: unknown;
+};
+
+/**
+ * ElasticSearch completion (autocomplete) field mapping.
+ */
+type ESCompletionMapping = {
+  type: 'completion';
+  analyzer: string;
+  max_input_length: number;
+};
+
+/**
+ * ElasticSearch text field mapping for multilingual content.
+ * Supports optional stemmed (processed) and completion (autocomplete) sub-fields.
+ */
+type ESTextFieldMapping = {
+  type: 'text';
+  index_options: 'offsets';
+  fields?: {
+    processed?: {
+      type: 'text';
+      analyzer: string;
+      index_options: 'offsets';
+    };
+    completion?: ESCompletionMapping;
+  };
+};
+
+type ESHit = {
+  _id: string;
+  _score: number | null;
+  _source: Record<string, unknown>;
+  highlight?: Record<string, string[]>;
+  inner_hits?: Record<string, { hits: { hits: ESHit[] } }>;
+};
+
+type ESPagedResponse = {
+  hits: { total: number | { value: number }; hits: ESHit[] };
+  aggregations?: Record<string, { buckets: Array<{ key: string | number; doc_count: number }> }>;
+};
+
+const getTotal = (total: number | { value: number }) =>
+  typeof total === 'number' ? total : total.value;
+
+// Merge the highlights of the stemmed and unstemmed fields of all languages
+const normalizeHighlights = (highlight: Record<string, string[]> = {}): SearchHighlights => {
+  const highlights: SearchHighlights = {};
+  for (const [key, fragments] of Object.entries(highlight)) {
+    const field = key.split('.')[0];
+    highlights[field] ??= [];
+    for (const fragment of fragments)
+      if (!highlights[field].includes(fragment)) highlights[field].push(fragment);
+  }
+  return highlights;
+};
+
+const toBuckets = (aggregation?: {
+  buckets: Array<{ key: string | number; doc_count: number }>;
+}): SearchFacetBucket[] =>
+  (aggregation?.buckets ?? []).map(bucket => ({ value: bucket.key, count: bucket.doc_count }));
+
+// Clauses for the filters that apply to the review or thing documents themselves
+const getDocumentFilters = ({ language, createdAfter, createdBefore }: SearchFilters) => {
+  const filters: Array<Record<string, unknown>> = [];
+  if (language) filters.push({ term: { originalLanguage: language } });
+  if (createdAfter || createdBefore)
+    filters.push({
+      range: {
+        createdOn: {
+          ...(createdAfter ? { gte: createdAfter.toISOString() } : {}),
+          ...(createdBefore ? { lte: createdBefore.toISOString() } : {}),
+        },
+      },
+    });
+  return filters;
+};
+
+const getReviewOnlyFilters = ({ minRating, maxRating, teamID }: SearchFilters) => {
+  const filters: Array<Record<string, unknown>> = [];
+  if (minRating !== undefined || maxRating !== undefined)
+    filters.push({
+      range: {
+        starRating: {
+          ...(minRating !== undefined ? { gte: minRating } : {}),
+          ...(maxRating !== undefined ? { lte: maxRating } : {}),
+        },
+      },
+    });
+  if (teamID) filters.push({ term: { teams: teamID } });
+  return filters;
+};
+
+/**
+ * A versioned index as reported by {@link elasticsearchBackend.listIndexVersions}.
+ */
+export interface SearchIndexVersion {
+  name: string;
+  version: number;
+  documents: number;
+  createdOn: Date;
+  // Whether the alias currently points to this index
+  isCurrent: boolean;
+}
+
+// All reads and writes go through this alias. Documents live in versioned
+// indices (libreviews_v1, libreviews_v2, ...), so a new index can be built
+// next to the current one and swapped in atomically.
+const indexAlias = 'libreviews';
+
+// Completion suggestions can't be rescored in the query, so more candidates
+// are requested than returned and ranked by review metrics afterwards.
+const suggestionsPerLanguage = 5;
+const suggestionCandidatesPerLanguage = 20;
+
+// Same formula as getReviewMetricsBoost; things indexed before the metrics
+// were added have no values and keep their score.
+const reviewMetricsBoostScript = `
+  double reviews = doc.containsKey('numberOfReviews') && doc['numberOfReviews'].size() > 0
+    ? doc['numberOfReviews'].value : 0;
+  double rating = doc.containsKey('averageStarRating') && doc['averageStarRating'].size() > 0
+    ? doc['averageStarRating'].value : 0;
+  return 1 + Math.log10(1 + reviews) * ((rating + 5) / 10);
+`;
+
+// Query for things matching the search text in the given fields. URLs match
+// exactly; domains match the host part of URLs as well as the text.
+const getThingMatchQuery = (query: string, fields: string[]) => {
+  const textQuery = { simple_query_string: { fields, query, default_operator: 'and' } };
+  const urlQuery = parseURLQuery(query);
+  if (!urlQuery) return textQuery;
+  if ('url' in urlQuery) return { terms: { 'urls.raw': urlQuery.urls } };
+  return {
+    bool: {
+      // The simple analyzer splits the domain into words, so as a phrase, it
+      // matches the host name and its subdomains
+      should: [textQuery, { match_phrase: { 'urls.simple': urlQuery.domain } }],
+      minimum_should_match: 1,
+    },
+  };
+};
+
+// Multiply the scores of a query for things by their review metrics boost
+const withReviewMetricsBoost = (query: Record<string, unknown>) => ({
+  function_score: {
+    query,
+    script_score: { script: { source: reviewMetricsBoostScript } },
+    boost_mode: 'multiply',
+  },
+});
+
+function getIndexName(version: number): string {
+  return `${indexAlias}_v${version}`;
+}
+
+function getIndexVersion(name: string): number | null {
+  const match = new RegExp(`^${indexAlias}_v(\\d+)$`).exec(name);
+  return match ? Number(match[1]) : null;
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return (error as { status?: number } | null)?.status === 404;
+}
+
+let client: ElasticClient | null = null;
+
+function createClient(): ElasticClient {
+  const options: ConfigOptions = {
+    host: `${config.search.host}:${config.search.port}`,
+    log: config.search.log,
+  };
+  return new elasticsearch.Client(options);
+}
+
+function getClient(): ElasticClient {
+  if (!client) client = createClient();
+  return client;
+}
+
+function deleteDocument(id: string): Promise<unknown> {
+  // Note: The @types/elasticsearch package requires 'type', but ES 7+ doesn't use it.
+  const params = { index: indexAlias, id } as DeleteDocumentParams;
+  return getClient()
+    .delete(params)
+    .catch(error => {
+      // Already gone, e.g. because the deletion was retried
+      if (!isNotFoundError(error)) throw error;
+    });
+}
+
+/**
+ * Query documents of a type without parent-child relations (teams, users and
+ * blog posts), highlighting matches in the given fields.
+ */
+async function findDocuments(
+  type: string,
+  query: string,
+  fieldOptions: Array<{ fields: string[]; highlight: { fields: Record<string, unknown> } }>,
+  {
+    from,
+    size,
+    sort,
+    filter,
+  }: { from: number; size: number; sort: SearchSortOrder; filter: Array<Record<string, unknown>> }
+): Promise<ESPagedResponse> {
+  return (await getClient().search({
+    index: indexAlias,
+    body: {
+      from,
+      size,
+      track_total_hits: true,
+      query: {
+        bool: {
+          must: [
+            { term: { type } },
+            {
+              simple_query_string: {
+                fields: fieldOptions.flatMap(options => options.fields),
+                query,
+                default_operator: 'and',
+              },
+            },
+          ],
+          filter,
+        },
+      },
+      ...(sort === 'date' ? { sort: [{ createdOn: 'desc' }, '_score'] } : {}),
+      highlight: {
+        pre_tags: ['<span class="search-highlight">'],
+        post_tags: ['</span>'],
+        encoder: 'html',
+        fields: Object.assign({}, ...fieldOptions.map(options => options.highlight.fields)),
+      },
+    },
+  })) as unknown as ESPagedResponse;
+}
+
+// All supported stemmers as of ElasticSearch 5.2.0
+const analyzers: Record<string, string> = {
+  ar: 'arabic',
+  hy: 'armenian',
+  eu: 'basque',
+  bn: 'bengali',
+  pt: 'brazilian',
+  bg: 'bulgarian',
+  ca: 'catalan',
+  zh: 'cjk',
+  'zh-Hant': 'cjk',
+  cs: 'czech',
+  da: 'danish',
+  nl: 'dutch',
+  en: 'english',
+  et: 'estonian',
+  fi: 'finnish',
+  fr: 'french',
+  gl: 'galician',
+  de: 'german',
+  el: 'greek',
+  hi: 'hindi',
+  hu: 'hungarian',
+  id: 'indonesian',
+  ga: 'irish',
+  it: 'italian',
+  lv: 'latvian',
+  lt: 'lithuanian',
+  no: 'norwegian',
+  fa: 'persian',
+  'pt-PT': 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  ckb: 'sorani',
+  es: 'spanish',
+  sv: 'swedish',
+  tr: 'turkish',
+  th: 'thai',
+};
+
+const elasticsearchBackend = {
+  // For testing queries
+  _raw<TResponse = unknown>(params: SearchParams): Promise<SearchResponse<TResponse>> {
+    return getClient().search<TResponse>(params);
+  },
+
+  // Find things by their label or description, ranked by review metrics as
+  // well; performs language fallback
+  searchThings(query: string, lang: LocaleCode = 'en'): Promise<SearchThingsResponse> {
+    const options = elasticsearchBackend.getSearchOptions('label', lang);
+    const descriptionOptions = elasticsearchBackend.getSearchOptions('description', lang);
+    const subtitleOptions = elasticsearchBackend.getSearchOptions('subtitle', lang);
+    const authorsOptions = elasticsearchBackend.getSearchOptions('authors', lang);
+
+    // Combine all search fields
+    options.fields = options.fields
+      .concat(descriptionOptions.fields)
+      .concat(subtitleOptions.fields)
+      .concat(authorsOptions.fields);
+
+    // Combine all highlight fields
+    Object.assign(
+      options.highlight.fields,
+      descriptionOptions.highlight.fields,
+      subtitleOptions.highlight.fields,
+      authorsOptions.highlight.fields
+    );
+
+    return getClient().search({
+      index: indexAlias,
+      body: {
+        query: withReviewMetricsBoost({
+          bool: {
+            must: [
+              {
+                match: {
+                  type: 'thing',
+                },
+              },
+              {
+                simple_query_string: {
+                  fields: options.fields,
+                  query,
+                  default_operator: 'and',
+                },
+              },
+            ],
+          },
+        }),
+        highlight: options.highlight,
+      },
+    });
+  },
+
+  // Find reviews by their text or title; performs language fallback and includes
+  // the thing via parent-child join. The review is returned as an inner hit.
+  searchReviews(query: string, lang: LocaleCode = 'en'): Promise<SearchReviewsResponse> {
+    // Add text fields
+    const options = elasticsearchBackend.getSearchOptions('text', lang);
+
+    // Add title fields
+    const titleOptions = elasticsearchBackend.getSearchOptions('title', lang);
+    options.fields = options.fields.concat(titleOptions.fields);
+
+    Object.assign(options.highlight.fields, titleOptions.highlight.fields);
+    // Note: The client's SearchResponse type uses generic 'inner_hits: any', but we know
+    // the actual structure from the has_child query. Cast to our specific type.
+    return getClient().search({
+      index: indexAlias,
+      body: {
+        query: {
+          has_child: {
+            type: 'review',
+            query: {
+              simple_query_string: {
+                fields: options.fields,
+                query,
+                default_operator: 'and',
+              },
+            },
+            inner_hits: {
+              highlight: options.highlight,
+            },
+          },
+        },
+      },
+    }) as unknown as Promise<SearchReviewsResponse>;
+  },
+
+  /**
+   * Find things by label, description, subtitle or authors, one page at a
+   * time. Unlike `searchThings`, results are normalized and filterable.
+   *
+   * @param query - Query in simple query string syntax
+   * @param options - Search language, paging and filters
+   * @returns One page of hits and the total number of matches
+   */
+  async findThings(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<ThingSearchHit>> {
+    const fieldOptions = ['label', 'description', 'subtitle', 'authors'].map(field =>
+      elasticsearchBackend.getSearchOptions(field, lang)
+    );
+    const reviewFilters = getReviewOnlyFilters(filters);
+    const matchQuery = getThingMatchQuery(
+      query,
+      fieldOptions.flatMap(options => options.fields)
+    );
+
+    // When sorting by rating, the text query only filters, and the score is
+    // the average star rating of the matching reviews (0 without reviews).
+    // Otherwise, relevance takes the review metrics into account.
+    const byRating = sort === 'rating';
+    const boolQuery = {
+      bool: {
+        must: [{ term: { type: 'thing' } }, ...(byRating ? [] : [matchQuery])],
+        filter: [
+          ...(byRating ? [matchQuery] : []),
+          ...getDocumentFilters(filters),
+          ...(filters.sourceTag ? [{ term: { sourceTags: filters.sourceTag } }] : []),
+          ...(reviewFilters.length
+            ? [{ has_child: { type: 'review', query: { bool: { filter: reviewFilters } } } }]
+            : []),
+        ],
+        should: byRating
+          ? [
+              {
+                has_child: {
+                  type: 'review',
+                  score_mode: 'avg',
+                  query: {
+                    function_score: {
+                      query: { bool: { filter: reviewFilters } },
+                      field_value_factor: { field: 'starRating' },
+                      boost_mode: 'replace',
+                    },
+                  },
+                },
+              },
+            ]
+          : [],
+      },
+    };
+    const response = (await getClient().search({
+      index: indexAlias,
+      body: {
+        from,
+        size,
+        track_total_hits: true,
+        query: sort === 'relevance' ? withReviewMetricsBoost(boolQuery) : boolQuery,
+        ...(sort === 'date' ? { sort: [{ createdOn: 'desc' }, '_score'] } : {}),
+        highlight: {
+          ...fieldOptions[0].highlight,
+          encoder: 'html',
+          fields: Object.assign({}, ...fieldOptions.map(options => options.highlight.fields)),
+        },
+      },
+    })) as unknown as ESPagedResponse;
+
+    return {
+      total: getTotal(response.hits.total),
+      hits: response.hits.hits.map(hit => ({
+        id: hit._id,
+        urlID: String(hit._source.urlID ?? hit._id),
+        label: hit._source.label as ThingSearchHit['label'],
+        description: hit._source.description as ThingSearchHit['description'],
+        urls: Array.isArray(hit._source.urls) ? (hit._source.urls as string[]) : [],
+        score: hit._score,
+        highlights: normalizeHighlights(hit.highlight),
+      })),
+    };
+  },
+
+  /**
+   * Find reviews by title or text, one page at a time, with facet counts for
+   * the matching reviews. Each hit includes the label of the review subject.
+   *
+   * @param query - Query in simple query string syntax
+   * @param options - Search language, paging and filters
+   * @returns One page of hits, the total number of matches, and facets
+   */
+  async findReviews(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<ReviewSearchPage> {
+    const options = elasticsearchBackend.getSearchOptions('text', lang);
+    const titleOptions = elasticsearchBackend.getSearchOptions('title', lang);
+
+    const response = (await getClient().search({
+      index: indexAlias,
+      body: {
+        from,
+        size,
+        track_total_hits: true,
+        query: {
+          bool: {
+            must: [
+              { term: { type: 'review' } },
+              {
+                simple_query_string: {
+                  fields: [...options.fields, ...titleOptions.fields],
+                  query,
+                  default_operator: 'and',
+                },
+              },
+              {
+                has_parent: {
+                  parent_type: 'thing',
+                  query: filters.sourceTag
+                    ? { term: { sourceTags: filters.sourceTag } }
+                    : { match_all: {} },
+                  inner_hits: { _source: ['label', 'urlID'] },
+                },
+              },
+            ],
+            filter: [...getDocumentFilters(filters), ...getReviewOnlyFilters(filters)],
+          },
+        },
+        ...(sort === 'relevance'
+          ? {}
+          : {
+              sort:
+                sort === 'rating'
+                  ? [{ starRating: 'desc' }, { createdOn: 'desc' }]
+                  : [{ createdOn: 'desc' }, '_score'],
+            }),
+        highlight: {
+          ...options.highlight,
+          encoder: 'html',
+          fields: { ...options.highlight.fields, ...titleOptions.highlight.fields },
+        },
+        aggs: {
+          starRating: { terms: { field: 'starRating', size: 5 } },
+          language: { terms: { field: 'originalLanguage', size: 50 } },
+          team: { terms: { field: 'teams', size: 20 } },
+        },
+      },
+    })) as unknown as ESPagedResponse;
+
+    return {
+      total: getTotal(response.hits.total),
+      hits: response.hits.hits.map(hit => {
+        const [parent] = hit.inner_hits?.thing?.hits.hits ?? [];
+        return {
+          id: hit._id,
+          thingID: parent?._id ?? String((hit._source.joined as { parent?: string })?.parent),
+          title: hit._source.title as ReviewSearchHit['title'],
+          starRating: Number(hit._source.starRating),
+          originalLanguage: hit._source.originalLanguage as string | undefined,
+          createdOn: String(hit._source.createdOn),
+          teamIDs: Array.isArray(hit._source.teams) ? (hit._source.teams as string[]) : [],
+          thing: parent
+            ? {
+                id: parent._id,
+                urlID: String(parent._source.urlID ?? parent._id),
+                label: parent._source.label as ReviewSearchHit['title'],
+              }
+            : null,
+          score: hit._score,
+          highlights: normalizeHighlights(hit.highlight),
+        };
+      }),
+      facets: {
+        starRating: toBuckets(response.aggregations?.starRating),
+        language: toBuckets(response.aggregations?.language),
+        team: toBuckets(response.aggregations?.team),
+      },
+    };
+  },
+
+  /**
+   * Find teams by name, motto or description, one page at a time.
+   *
+   * @param query - Query in simple query string syntax
+   * @param options - Search language, paging and the language filter
+   * @returns One page of hits and the total number of matches
+   */
+  async findTeams(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<TeamSearchHit>> {
+    const fieldOptions = ['name', 'motto', 'description'].map(field =>
+      elasticsearchBackend.getSearchOptions(field, lang)
+    );
+    const response = await findDocuments('team', query, fieldOptions, {
+      from,
+      size,
+      sort,
+      filter: getDocumentFilters({ language: filters.language }),
+    });
+    return {
+      total: getTotal(response.hits.total),
+      hits: response.hits.hits.map(hit => ({
+        id: hit._id,
+        urlID: String(hit._source.urlID ?? hit._id),
+        name: hit._source.name as TeamSearchHit['name'],
+        motto: hit._source.motto as TeamSearchHit['motto'],
+        score: hit._score,
+        highlights: normalizeHighlights(hit.highlight),
+      })),
+    };
+  },
+
+  /**
+   * Find users by display name or bio, one page at a time.
+   *
+   * @param query - Query in simple query string syntax
+   * @param options - Search language and paging
+   * @returns One page of hits and the total number of matches
+   */
+  async findUsers(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<UserSearchHit>> {
+    const fieldOptions = [
+      { fields: ['displayName'], highlight: { fields: { displayName: {} } } },
+      elasticsearchBackend.getSearchOptions('bio', lang),
+    ];
+    const response = await findDocuments('user', query, fieldOptions, {
+      from,
+      size,
+      sort,
+      filter: [],
+    });
+    return {
+      total: getTotal(response.hits.total),
+      hits: response.hits.hits.map(hit => ({
+        id: hit._id,
+        displayName: String(hit._source.displayName),
+        urlName: String(hit._source.urlName),
+        score: hit._score,
+        highlights: normalizeHighlights(hit.highlight),
+      })),
+    };
+  },
+
+  /**
+   * Find team blog posts by title or text, one page at a time.
+   *
+   * @param query - Query in simple query string syntax
+   * @param options - Search language, paging, and language, team and date filters
+   * @returns One page of hits and the total number of matches
+   */
+  async findBlogPosts(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<BlogPostSearchHit>> {
+    const fieldOptions = ['title', 'text'].map(field =>
+      elasticsearchBackend.getSearchOptions(field, lang)
+    );
+    const response = await findDocuments('blogPost', query, fieldOptions, {
+      from,
+      size,
+      sort,
+      filter: [
+        ...getDocumentFilters(filters),
+        ...(filters.teamID ? [{ term: { teamID: filters.teamID } }] : []),
+      ],
+    });
+    return {
+      total: getTotal(response.hits.total),
+      hits: response.hits.hits.map(hit => ({
+        id: hit._id,
+        teamID: String(hit._source.teamID),
+        title: hit._source.title as BlogPostSearchHit['title'],
+        originalLanguage: hit._source.originalLanguage as string | undefined,
+        createdOn: String(hit._source.createdOn),
+        score: hit._score,
+        highlights: normalizeHighlights(hit.highlight),
+      })),
+    };
+  },
+
+  // We may be getting highlights from both the processed (stememd) index
+  // and the unprocessed one. This function filters the dupes from inner hits.
+  filterDuplicateInnerHighlights(
+    hits: ESHitWithInnerHighlights[],
+    type: string
+  ): ESHitWithInnerHighlights[] {
+    for (const hit of hits) {
+      if (hit.inner_hits && hit.inner_hits[type] && hit.inner_hits[type].hits) {
+        for (const innerHit of hit.inner_hits[type].hits.hits) {
+          if (innerHit.highlight) {
+            const seenHighlights: string[] = [];
+            for (const key of Object.keys(innerHit.highlight)) {
+              innerHit.highlight[key] = innerHit.highlight[key].filter((highlight: string) => {
+                if (seenHighlights.indexOf(highlight) === -1) {
+                  seenHighlights.push(highlight);
+                  return true;
+                }
+                return false;
+              });
+            }
+          }
+        }
+      }
+    }
+    return hits;
+  },
+
+  // Generate language fallback and highlight options.
+  getSearchOptions(fieldPrefix: string, lang: LocaleCode) {
+    const langs = languages.getSearchFallbacks(lang);
+
+    // Searches both stemmed and non-stemmed version
+    const fields = langs.map(currentLang => `${fieldPrefix}.${currentLang}*`);
+
+    // Add search highlighters
+    const highlight = {
+      pre_tags: ['<span class="search-highlight">'],
+      post_tags: ['</span>'],
+      fields: {} as Record<string, Record<string, unknown>>,
+    };
+    for (const currentLang of langs) highlight.fields[`${fieldPrefix}.${currentLang}*`] = {};
+
+    return {
+      fields,
+      highlight,
+    };
+  },
+
+  // Get search suggestions based on entered characters for review subjects
+  // (things).
+  async suggestThing(prefix = '', lang: LocaleCode = 'en'): Promise<SuggestThingResponse> {
+    // We'll query all fallbacks back to English, and return all results
+    const langs = languages.getSearchFallbacks(lang);
+
+    const query: SearchParams = {
+      index: indexAlias,
+      body: {
+        suggest: {},
+      },
+    };
+
+    const suggest = (query.body?.suggest ?? {}) as Record<string, unknown>;
+
+    for (const currentLanguage of langs) {
+      suggest[`labels-${currentLanguage}`] = {
+        prefix,
+        completion: {
+          field: `label.${currentLanguage}.completion`,
+          size: suggestionCandidatesPerLanguage,
+        },
+      };
+    }
+
+    query.body = { ...query.body, suggest };
+
+    // Note: The _suggest endpoint was removed in Elasticsearch 6.0. Modern ES uses the
+    // _search endpoint with a suggest body. The client's SearchResponse type doesn't match
+    // the actual response structure (which has 'suggest' instead of 'hits'), hence the cast.
+    const response = (await getClient().search(query)) as unknown as SuggestThingResponse;
+
+    // Sorting is stable, so equally reviewed things stay in completion order
+    for (const entries of Object.values(response.suggest ?? {})) {
+      for (const entry of entries) {
+        const boosts = new Map(
+          entry.options.map(option => {
+            const source = option._source as {
+              numberOfReviews?: number;
+              averageStarRating?: number;
+            };
+            return [
+              option,
+              getReviewMetricsBoost(source.numberOfReviews, source.averageStarRating),
+            ];
+          })
+        );
+        entry.options = entry.options
+          .sort((a, b) => (boosts.get(b) ?? 1) - (boosts.get(a) ?? 1))
+          .slice(0, suggestionsPerLanguage);
+      }
+    }
+    return response;
+  },
+
+  // Index a new review. Returns a promise that rejects if the update failed, so
+  // callers can retry (see search/outbox.ts). Writes go to the alias
+  // unless a specific index version is given (used when rebuilding the index).
+  indexReview(review: ReviewInstance, index = indexAlias): Promise<unknown> {
+    // Skip indexing if this is an old or deleted revision
+    if (review._oldRevOf || review._revDeleted) {
+      debug.util(`Skipping indexing of review ${review.id} - old or deleted revision`);
+      return Promise.resolve();
+    }
+
+    // Note: The @types/elasticsearch package has outdated types that require
+    // a 'type' parameter, but modern ES 7+ doesn't use (or accept) this parameter.
+    // We use 'as unknown as' to bypass the incorrect type requirement.
+    const params = {
+      index,
+      id: review.id,
+      routing: review.thingID,
+      body: {
+        createdOn: review.createdOn,
+        title: mlString.stripHTML(review.title),
+        text: mlString.stripHTML(review.html),
+        starRating: review.starRating,
+        originalLanguage: review.originalLanguage,
+        teams: Array.isArray(review.teams) ? review.teams.map(team => team.id) : [],
+        type: 'review',
+        joined: {
+          name: 'review',
+          parent: review.thingID,
+        },
+      },
+    } as unknown as IndexDocumentParams<Record<string, unknown>>;
+
+    return getClient().index(params);
+  },
+
+  // Index a new review subject (thing), including its current review metrics
+  // for ranking. Rejects on failure, too. As with reviews, an index version
+  // other than the alias may be given.
+  async indexThing(thing: ThingInstance, index = indexAlias): Promise<unknown> {
+    // Skip indexing if this is an old or deleted revision
+    if (thing._oldRevOf || thing._revDeleted) {
+      debug.util(`Skipping indexing of thing ${thing.id} - old or deleted revision`);
+      return;
+    }
+
+    if (typeof thing.populateReviewMetrics === 'function') await thing.populateReviewMetrics();
+
+    // Extract multilingual content from PostgreSQL JSONB structure
+    // Access via virtual getters that map to metadata JSONB structure
+    const description = thing.description;
+    const subtitle = thing.subtitle;
+    const authors = thing.authors;
+
+    // Note: The @types/elasticsearch package has outdated types that require
+    // a 'type' parameter, but modern ES 7+ doesn't use (or accept) this parameter.
+    // We use 'as unknown as' to bypass the incorrect type requirement.
+    const params = {
+      index,
+      id: thing.id,
+      body: {
+        createdOn: thing.createdOn,
+        label: mlString.stripHTML(thing.label),
+        aliases: mlString.stripHTMLFromArrayValues(thing.aliases),
+        description: mlString.stripHTML(description),
+        subtitle: mlString.stripHTML(subtitle),
+        authors: authors ? mlString.stripHTMLFromArray(authors) : authors,
+        joined: 'thing',
+        type: 'thing',
+        urls: thing.urls,
+        urlID: thing.urlID,
+        originalLanguage: thing.originalLanguage,
+        sourceTags: Object.keys(urlUtils.getURLsByTag(thing.urls ?? [])),
+        numberOfReviews: thing.numberOfReviews ?? 0,
+        averageStarRating: thing.averageStarRating ?? 0,
+      },
+    } as unknown as IndexDocumentParams<Record<string, unknown>>;
+
+    return getClient().index(params);
+  },
+
+  deleteThing(thing: { id: string }): Promise<unknown> {
+    return deleteDocument(thing.id);
+  },
+
+  deleteReview(review: { id: string }): Promise<unknown> {
+    return deleteDocument(review.id);
+  },
+
+  // Index a team. Rejects on failure; an index version may be given as above.
+  indexTeam(team: TeamInstance, index = indexAlias): Promise<unknown> {
+    if (team._oldRevOf || team._revDeleted) {
+      debug.util(`Skipping indexing of team ${team.id} - old or deleted revision`);
+      return Promise.resolve();
+    }
+
+    const params = {
+      index,
+      id: team.id,
+      body: {
+        createdOn: team.createdOn,
+        name: mlString.stripHTML(team.name),
+        motto: mlString.stripHTML(team.motto),
+        description: mlString.stripHTML(team.description?.html),
+        urlID: team.urlID,
+        originalLanguage: team.originalLanguage,
+        type: 'team',
+      },
+    } as unknown as IndexDocumentParams<Record<string, unknown>>;
+
+    return getClient().index(params);
+  },
+
+  // Index a user, including the bio if `user.meta` is joined. Rejects on failure.
+  indexUser(user: UserInstance, index = indexAlias): Promise<unknown> {
+    const params = {
+      index,
+      id: user.id,
+      body: {
+        createdOn: user.registrationDate,
+        displayName: user.displayName,
+        urlName: user.urlName,
+        bio: user.meta ? mlString.stripHTML(user.meta.bio?.html) : {},
+        type: 'user',
+      },
+    } as unknown as IndexDocumentParams<Record<string, unknown>>;
+
+    return getClient().index(params);
+  },
+
+  // Index a team blog post. Rejects on failure.
+  indexBlogPost(post: BlogPostInstance, index = indexAlias): Promise<unknown> {
+    if (post._oldRevOf || post._revDeleted) {
+      debug.util(`Skipping indexing of blog post ${post.id} - old or deleted revision`);
+      return Promise.resolve();
+    }
+
+    const params = {
+      index,
+      id: post.id,
+      body: {
+        createdOn: post.createdOn,
+        title: mlString.stripHTML(post.title),
+        text: mlString.stripHTML(post.html),
+        teamID: post.teamID,
+        originalLanguage: post.originalLanguage,
+        type: 'blogPost',
+      },
+    } as unknown as IndexDocumentParams<Record<string, unknown>>;
+
+    return getClient().index(params);
+  },
+
+  deleteTeam(team: { id: string }): Promise<unknown> {
+    return deleteDocument(team.id);
+  },
+
+  deleteUser(user: { id: string }): Promise<unknown> {
+    return deleteDocument(user.id);
+  },
+
+  deleteBlogPost(post: { id: string }): Promise<unknown> {
+    return deleteDocument(post.id);
+  },
+
+  // Settings and mappings shared by all versions of the index
+  getIndexDefinition(): Record<string, unknown> {
+    return {
+      settings: {
+        analysis: {
+          tokenizer: {
+            whitespace: {
+              type: 'whitespace',
+            },
+          },
+          analyzer: {
+            label: {
+              type: 'custom',
+              tokenizer: 'whitespace',
+              filter: ['trim', 'lowercase'],
+            },
+          },
+        },
+      },
+      mappings: {
+        properties: {
+          createdOn: {
+            type: 'date',
+          },
+          joined: {
+            type: 'join',
+            relations: {
+              thing: 'review',
+            },
+          },
+          text: elasticsearchBackend.getMultilingualTextProperties(),
+          title: elasticsearchBackend.getMultilingualTextProperties(),
+          urls: elasticsearchBackend.getURLProperties(),
+          label: elasticsearchBackend.getMultilingualTextProperties(true),
+          aliases: elasticsearchBackend.getMultilingualTextProperties(true),
+          description: elasticsearchBackend.getMultilingualTextProperties(),
+          subtitle: elasticsearchBackend.getMultilingualTextProperties(),
+          authors: elasticsearchBackend.getMultilingualTextProperties(),
+          type: {
+            type: 'keyword',
+          },
+          starRating: {
+            type: 'integer',
+          },
+          originalLanguage: {
+            type: 'keyword',
+          },
+          teams: {
+            type: 'keyword',
+          },
+          sourceTags: {
+            type: 'keyword',
+          },
+          numberOfReviews: {
+            type: 'integer',
+          },
+          averageStarRating: {
+            type: 'float',
+          },
+          name: elasticsearchBackend.getMultilingualTextProperties(),
+          motto: elasticsearchBackend.getMultilingualTextProperties(),
+          bio: elasticsearchBackend.getMultilingualTextProperties(),
+          displayName: {
+            type: 'text',
+            index_options: 'offsets',
+          },
+          teamID: {
+            type: 'keyword',
+          },
+        },
+      },
+    };
+  },
+
+  // Create the initial index version for holding reviews and review subjects
+  // (things) and point the alias at it. If the alias (or an unversioned index
+  // from an older installation) already exists, does nothing. Logs all errors.
+  async createIndices(): Promise<void> {
+    try {
+      if (await getClient().indices.exists({ index: indexAlias })) return;
+      const index = await elasticsearchBackend.createIndexVersion();
+      await elasticsearchBackend.switchAlias(index);
+    } catch (error) {
+      debug.error({ error });
+    }
+  },
+
+  /**
+   * Create an empty index for the next version number without pointing the
+   * alias at it, so it can be filled while searches keep using the current one.
+   *
+   * @returns name of the new index
+   */
+  async createIndexVersion(): Promise<string> {
+    const versions = await elasticsearchBackend.listIndexVersions();
+    const latest = versions.length ? versions[versions.length - 1].version : 0;
+    const index = getIndexName(latest + 1);
+    await getClient().indices.create({
+      index,
+      body: elasticsearchBackend.getIndexDefinition(),
+    });
+    return index;
+  },
+
+  /**
+   * List all versioned indices, oldest first.
+   */
+  async listIndexVersions(): Promise<SearchIndexVersion[]> {
+    const [rows, aliasedIndices] = await Promise.all([
+      getClient().cat.indices({
+        index: `${indexAlias}_v*`,
+        format: 'json',
+        h: 'index,docs.count,creation.date',
+      }) as Promise<Array<Record<string, string>>>,
+      elasticsearchBackend.getAliasedIndices(),
+    ]);
+    const versions: SearchIndexVersion[] = [];
+    for (const row of rows) {
+      const version = getIndexVersion(row.index);
+      if (version === null) continue;
+      versions.push({
+        name: row.index,
+        version,
+        documents: Number(row['docs.count']) || 0,
+        createdOn: new Date(Number(row['creation.date'])),
+        isCurrent: aliasedIndices.includes(row.index),
+      });
+    }
+    return versions.sort((a, b) => a.version - b.version);
+  },
+
+  // Names of the indices the alias currently points to (normally exactly one)
+  async getAliasedIndices(): Promise<string[]> {
+    try {
+      const response = (await getClient().indices.getAlias({ name: indexAlias })) as Record<
+        string,
+        unknown
+      >;
+      return Object.keys(response);
+    } catch (error) {
+      if (isNotFoundError(error)) return [];
+      throw error;
+    }
+  },
+
+  /**
+   * Point the alias at the given index in a single atomic update. An
+   * unversioned index from an older installation, which occupies the alias
+   * name, is removed in the same update.
+   */
+  async switchAlias(index: string): Promise<void> {
+    const aliasedIndices = await elasticsearchBackend.getAliasedIndices();
+    const actions: IndicesUpdateAliasesParamsAction[] = aliasedIndices
+      .filter(name => name !== index)
+      .map(name => ({ remove: { index: name, alias: indexAlias } }));
+    if (!aliasedIndices.length && (await getClient().indices.exists({ index: indexAlias })))
+      actions.push({ remove_index: { index: indexAlias } });
+    actions.push({ add: { index, alias: indexAlias } });
+    await getClient().indices.updateAliases({ body: { actions } });
+  },
+
+  /**
+   * Delete the index versions the alias does not point to, except for the
+   * most recent previous ones. Versions newer than the current one, e.g. left
+   * behind by a failed reindex, are always deleted, so don't prune while a
+   * reindex is in progress.
+   *
+   * @param keep - number of previous versions to retain for rolling back
+   * @returns names of the deleted indices
+   */
+  async pruneIndexVersions(keep = 1): Promise<string[]> {
+    const versions = await elasticsearchBackend.listIndexVersions();
+    const current = versions.filter(version => version.isCurrent);
+    if (!current.length) return [];
+    const oldest = Math.min(...current.map(version => version.version));
+    const previous = versions.filter(version => version.version < oldest);
+    const retained = new Set(previous.slice(Math.max(previous.length - keep, 0)));
+    const obsolete = versions
+      .filter(version => !version.isCurrent && !retained.has(version))
+      .map(version => version.name);
+    if (obsolete.length) await getClient().indices.delete({ index: obsolete });
+    return obsolete;
+  },
+
+  /**
+   * Delete the search index the alias points to (use with caution; typically
+   * controlled via env flag). Other index versions are kept.
+   */
+  async deleteIndex(): Promise<unknown> {
+    try {
+      const aliasedIndices = await elasticsearchBackend.getAliasedIndices();
+      return await getClient().indices.delete({
+        index: aliasedIndices.length ? aliasedIndices : indexAlias,
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) return;
+      debug.error({ error });
+    }
+  },
+
+  // Generate the mappings (ElasticSearch schemas) for indexing URLs. We index
+  // each URL three times to enable multiple search strategies
+  getURLProperties() {
+    return {
+      // https://www.wikidata.org/wiki/Q27940587 -> https,www.wikidata.org,wiki,q27940587
+      type: 'text',
+      fields: {
+        raw: {
+          type: 'keyword', // https://www.wikidata.org/wiki/Q27940587 -> https://www.wikidata.org/wiki/Q27940587
+        },
+        simple: {
+          type: 'text',
+          analyzer: 'simple', // https,www,wikidata,org,wiki,q
+        },
+      },
+    };
+  },
+
+  // Generate the mappings (ElasticSearch schemas) for indexing multilingual
+  // strings
+  getMultilingualTextProperties(completionMapping = false) {
+    const obj: { properties: Record<string, ESTextFieldMapping> } = {
+      properties: {},
+    };
+
+    const validLangs = languages.getValidLanguagesAndUndetermined();
+
+    // We add all analyzers for all languages ElasticSearch has stemming support
+    // for to the index, even if they're not yet supported by lib.reviews, so
+    // we don't have to keep updating the index. Languages without analyzers
+    // will be processed by the 'standard' analyzer (no stemming)
+    for (const lang of Object.keys(analyzers)) {
+      // Splice from language array so we can process remaining languages differently
+      const langPos = validLangs.indexOf(lang as LocaleCode | 'und');
+      if (langPos !== -1) validLangs.splice(langPos, 1);
+
+      obj.properties[lang] = {
+        type: 'text',
+        index_options: 'offsets', // for sentence-based highlighting
+        fields: {
+          // The 'processed' property of the text field contains the stemmed
+          // version (run through appropriate language analyzer) so we can
+          // run searches against both the full text and the stemmed version,
+          // as appropriate
+          processed: {
+            type: 'text',
+            analyzer: analyzers[lang],
+            index_options: 'offsets', // for sentence-based highlighting
+          },
+        },
+      };
+      if (completionMapping)
+        obj.properties[lang].fields.completion = elasticsearchBackend.getCompletionMapping();
+    }
+
+    // Add remaining languages so we can do completion & offsets for those
+    // as well.
+    for (const lang of validLangs) {
+      obj.properties[lang] = {
+        type: 'text',
+        index_options: 'offsets', // for sentence-based highlighting
+      };
+      if (completionMapping)
+        obj.properties[lang].fields = {
+          completion: elasticsearchBackend.getCompletionMapping(),
+        };
+    }
+
+    return obj;
+  },
+
+  // Return mapping for label autocompletion
+  getCompletionMapping(): ESCompletionMapping {
+    return {
+      type: 'completion',
+      analyzer: 'label',
+      max_input_length: 256, // default is 50, our labels are 256
+    };
+  },
+
+  /**
+   * Use the given client instead of one for the configured server, e.g. a
+   * stand-in for tests. Pass null to go back to the configured server.
+   */
+  setClient(newClient: ElasticClient | null): void {
+    client = newClient;
+  },
+
+  close(): void {
+    if (client && typeof (client as { close?: () => void }).close === 'function') client.close();
+    client = null;
+  },
+};
+
+export { elasticsearchBackend };
+export default elasticsearchBackend;
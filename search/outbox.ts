@@ -0,0 +1,352 @@
+import { getDAL } from '../bootstrap/dal.ts';
+import { referenceBlogPost } from '../models/manifests/blog-post.ts';
+import { referenceReview } from '../models/manifests/review.ts';
+import { referenceTeam } from '../models/manifests/team.ts';
+import { referenceThing } from '../models/manifests/thing.ts';
+import { referenceUser } from '../models/manifests/user.ts';
+import search from '../search.ts';
+import debug from '../util/debug.ts';
+
+export type OutboxDocumentType = 'thing' | 'review' | 'team' | 'user' | 'blogPost';
+export type OutboxOperation = 'index' | 'delete';
+export type OutboxStatus = 'pending' | 'failed';
+
+/**
+ * A queued search index update, as stored in the `search_index_outbox` table.
+ */
+export interface OutboxItem {
+  id: string;
+  documentType: OutboxDocumentType;
+  documentID: string;
+  operation: OutboxOperation;
+  status: OutboxStatus;
+  version: number;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  nextAttemptAt: Date;
+}
+
+export interface OutboxRunResult {
+  processed: number;
+  failed: number;
+}
+
+type OutboxRow = {
+  id: string;
+  document_type: OutboxDocumentType;
+  document_id: string;
+  operation: OutboxOperation;
+  status: OutboxStatus;
+  version: number;
+  attempts: number;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  next_attempt_at: Date;
+};
+
+// Items that failed this many times are marked as failed and only retried
+// when replayed, e.g. via maintenance/search-outbox.ts
+const MAX_ATTEMPTS = 10;
+// Delay after the first failure; doubles with every further attempt
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// How long a worker may hold an item before others consider it abandoned
+const LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Model handles avoid an import cycle, since the models queue updates themselves
+const Thing = referenceThing();
+const Review = referenceReview();
+const Team = referenceTeam();
+const User = referenceUser();
+const BlogPost = referenceBlogPost();
+
+let workerTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<OutboxRunResult> | null = null;
+
+async function runQuery<TRow>(sql: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+function toItem(row: OutboxRow): OutboxItem {
+  return {
+    id: row.id,
+    documentType: row.document_type,
+    documentID: row.document_id,
+    operation: row.operation,
+    status: row.status,
+    version: row.version,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    nextAttemptAt: row.next_attempt_at,
+  };
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Send one item to the search backend. Index operations load the current
+ * revision at this point, so an item that waited for a retry never writes
+ * stale data; if the document has been deleted in the meantime, it is removed
+ * from the index instead.
+ */
+async function applyItem(item: OutboxItem): Promise<unknown> {
+  const { documentType, documentID: id, operation } = item;
+  const load = operation === 'index';
+  switch (documentType) {
+    case 'thing': {
+      const thing = load ? await Thing.filterWhere({ id }).first() : null;
+      return thing ? search.indexThing(thing) : search.deleteThing({ id });
+    }
+    case 'review': {
+      const review = load
+        ? await Review.filterWhere({ id }).getJoin({ teams: true }).first()
+        : null;
+      return review ? search.indexReview(review) : search.deleteReview({ id });
+    }
+    case 'team': {
+      const team = load ? await Team.filterWhere({ id }).first() : null;
+      return team ? search.indexTeam(team) : search.deleteTeam({ id });
+    }
+    case 'user': {
+      const user = load ? await User.filterWhere({ id }).getJoin({ meta: true }).first() : null;
+      return user ? search.indexUser(user) : search.deleteUser({ id });
+    }
+    case 'blogPost': {
+      const post = load ? await BlogPost.filterWhere({ id }).first() : null;
+      return post ? search.indexBlogPost(post) : search.deleteBlogPost({ id });
+    }
+  }
+}
+
+// Claim due items by pushing them past the lease, so concurrent workers
+// (e.g. in multiple processes) skip them
+async function claimDueItems(batchSize: number): Promise<OutboxItem[]> {
+  const rows = await runQuery<OutboxRow>(
+    `UPDATE search_index_outbox
+      SET next_attempt_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id IN (
+        SELECT id FROM search_index_outbox
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+    [batchSize, LEASE_MS]
+  );
+  return rows.map(toItem);
+}
+
+async function recordFailure(item: OutboxItem, error: unknown): Promise<void> {
+  const attempts = item.attempts + 1;
+  const message = error instanceof Error ? error.message : String(error);
+  // If the document was queued again meanwhile, the newer entry takes precedence
+  await runQuery(
+    `UPDATE search_index_outbox
+      SET attempts = $3, last_error = $4, updated_at = NOW(),
+        status = $5, next_attempt_at = NOW() + $6 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND version = $2`,
+    [
+      item.id,
+      item.version,
+      attempts,
+      message,
+      attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      getRetryDelay(attempts),
+    ]
+  );
+}
+
+async function processBatch(batchSize: number): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { processed: 0, failed: 0 };
+  const items = await claimDueItems(batchSize);
+  for (const item of items) {
+    try {
+      await applyItem(item);
+      await runQuery('DELETE FROM search_index_outbox WHERE id = $1 AND version = $2', [
+        item.id,
+        item.version,
+      ]);
+      result.processed++;
+    } catch (error) {
+      debug.error(
+        `Search index update for ${item.documentType} ${item.documentID} failed ` +
+          `(attempt ${item.attempts + 1} of ${MAX_ATTEMPTS}).`
+      );
+      debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+      await recordFailure(item, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+const searchOutbox = {
+  /**
+   * Queue a search index update for a document. A document has at most one
+   * queued update; queueing it again replaces the operation and resets its
+   * retry state. Returns a promise; logs errors.
+   *
+   * @param documentType - Kind of document
+   * @param documentID - ID of the document (not of a specific revision)
+   * @param operation - Whether to index or delete the document
+   */
+  async enqueue(
+    documentType: OutboxDocumentType,
+    documentID: string,
+    operation: OutboxOperation
+  ): Promise<void> {
+    try {
+      await runQuery(
+        `INSERT INTO search_index_outbox (document_type, document_id, operation)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (document_type, document_id) DO UPDATE
+          SET operation = EXCLUDED.operation, status = 'pending',
+            version = search_index_outbox.version + 1, attempts = 0, last_error = NULL,
+            updated_at = NOW(), next_attempt_at = NOW()`,
+        [documentType, documentID, operation]
+      );
+    } catch (error) {
+      debug.error(`Could not queue search index update for ${documentType} ${documentID}:`);
+      debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+      return;
+    }
+    // Don't wait for the next poll if this process runs the worker
+    if (workerTimer) void searchOutbox.processDue();
+  },
+
+  queueThing(thing: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('thing', thing.id, 'index');
+  },
+
+  // The review subject is updated as well, since its review metrics change
+  async queueReview(review: { id: string; thingID?: string }): Promise<void> {
+    await searchOutbox.enqueue('review', review.id, 'index');
+    if (review.thingID) await searchOutbox.queueThing({ id: review.thingID });
+  },
+
+  queueTeam(team: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('team', team.id, 'index');
+  },
+
+  queueUser(user: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('user', user.id, 'index');
+  },
+
+  queueBlogPost(post: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('blogPost', post.id, 'index');
+  },
+
+  queueThingDeletion(thing: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('thing', thing.id, 'delete');
+  },
+
+  async queueReviewDeletion(review: { id: string; thingID?: string }): Promise<void> {
+    await searchOutbox.enqueue('review', review.id, 'delete');
+    if (review.thingID) await searchOutbox.queueThing({ id: review.thingID });
+  },
+
+  queueTeamDeletion(team: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('team', team.id, 'delete');
+  },
+
+  queueUserDeletion(user: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('user', user.id, 'delete');
+  },
+
+  queueBlogPostDeletion(post: { id: string }): Promise<void> {
+    return searchOutbox.enqueue('blogPost', post.id, 'delete');
+  },
+
+  /**
+   * Process all items that are due, in batches. Failed items are rescheduled
+   * with exponential backoff. Only one run is active per process at a time;
+   * calls made during a run return its result.
+   *
+   * @param batchSize - Number of items claimed at once
+   * @returns Number of items processed successfully and of failed attempts
+   */
+  processDue(batchSize = DEFAULT_BATCH_SIZE): Promise<OutboxRunResult> {
+    if (currentRun) return currentRun;
+    currentRun = (async () => {
+      const total: OutboxRunResult = { processed: 0, failed: 0 };
+      try {
+        for (;;) {
+          const result = await processBatch(batchSize);
+          total.processed += result.processed;
+          total.failed += result.failed;
+          if (result.processed + result.failed < batchSize) break;
+        }
+      } catch (error) {
+        debug.error('Problem processing the search index outbox:');
+        debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+      } finally {
+        currentRun = null;
+      }
+      return total;
+    })();
+    return currentRun;
+  },
+
+  /**
+   * Poll the outbox in the background. Does nothing if already started.
+   *
+   * @param intervalMs - Time between polls
+   */
+  startWorker(intervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (workerTimer) return;
+    workerTimer = setInterval(() => void searchOutbox.processDue(), intervalMs);
+    workerTimer.unref();
+    void searchOutbox.processDue();
+  },
+
+  stopWorker(): void {
+    if (workerTimer) clearInterval(workerTimer);
+    workerTimer = null;
+  },
+
+  /**
+   * List queued items, oldest first.
+   *
+   * @param status - Only list items with this status
+   */
+  async list(status?: OutboxStatus): Promise<OutboxItem[]> {
+    const rows = await runQuery<OutboxRow>(
+      `SELECT * FROM search_index_outbox
+        WHERE $1::text IS NULL OR status = $1
+        ORDER BY created_at`,
+      [status ?? null]
+    );
+    return rows.map(toItem);
+  },
+
+  /**
+   * Make failed items due again with a fresh set of attempts.
+   *
+   * @param ids - Items to replay; all failed items if omitted
+   * @returns Number of items replayed
+   */
+  async replayFailed(ids?: string[]): Promise<number> {
+    const rows = await runQuery<{ id: string }>(
+      `UPDATE search_index_outbox
+        SET status = 'pending', attempts = 0, updated_at = NOW(), next_attempt_at = NOW()
+        WHERE status = 'failed' AND ($1::uuid[] IS NULL OR id = ANY($1))
+        RETURNING id`,
+      [ids ?? null]
+    );
+    return rows.length;
+  },
+};
+
+export { searchOutbox };
+export default searchOutbox;
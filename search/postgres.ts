@@ -0,0 +1,779 @@
+import escapeHTML from 'escape-html';
+import { getDAL } from '../bootstrap/dal.ts';
+import languages from '../locales/languages.ts';
+import urlUtils from '../util/url-utils.ts';
+import {
+  type BlogPostSearchHit,
+  defaultSearchPageSize,
+  parseURLQuery,
+  type ReviewSearchHit,
+  type ReviewSearchPage,
+  type SearchBackend,
+  type SearchFacetBucket,
+  type SearchFilters,
+  type SearchHighlights,
+  type SearchPage,
+  type SearchPageOptions,
+  type SearchReviewsResponse,
+  type SearchThingsResponse,
+  type SuggestThingResponse,
+  type TeamSearchHit,
+  type ThingSearchHit,
+  type UserSearchHit,
+} from './backend.ts';
+
+type LocaleCode = LibReviews.LocaleCode;
+type MLText = Record<string, string>;
+
+/**
+ * Collects positional query parameters; `add` returns the placeholder.
+ */
+class QueryParameters {
+  values: unknown[] = [];
+
+  add(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+}
+
+// ts_headline wraps matches and separates fragments with these control
+// characters, so the text can be HTML-escaped before they are turned into tags
+const highlightStart = '\u0002';
+const highlightStop = '\u0003';
+const fragmentDelimiter = '\u0004';
+const headlineOptions =
+  `StartSel="${highlightStart}", StopSel="${highlightStop}", ` +
+  `FragmentDelimiter="${fragmentDelimiter}", MaxFragments=3, MinWords=8, MaxWords=25`;
+
+// Number of completions per language, as with ElasticSearch's completion suggester
+const suggestionsPerLanguage = 5;
+
+// Reviews considered when grouping review matches by review subject in
+// `searchReviews`, and the limits of ElasticSearch's has_child query we mimic
+const groupedReviewLimit = 100;
+const groupedThingLimit = 10;
+const innerHitLimit = 3;
+
+const isCurrent = (alias: string) =>
+  `${alias}._old_rev_of IS NULL AND ${alias}._rev_deleted IS NOT TRUE`;
+
+// SQL expression for the lowercase host name of the column `url`
+const urlHost = "lower(substring(url FROM '^[a-z]+://([^/:?#]+)'))";
+
+// Join the number and average star rating of the current reviews of a thing
+// as `m`, for ranking by review metrics
+const joinReviewMetrics = (alias: string) =>
+  `LEFT JOIN LATERAL (
+    SELECT count(*) AS review_count, coalesce(avg(r.star_rating), 0) AS average_rating
+    FROM reviews r WHERE r.thing_id = ${alias}.id AND ${isCurrent('r')}
+  ) m ON true`;
+
+// Same formula as getReviewMetricsBoost, using the columns joined above
+const reviewMetricsBoost = '(1 + log(1 + m.review_count) * (m.average_rating + 5) / 10)';
+
+// SQL expression for the value of a multilingual JSONB column in the first
+// available language from the array parameter `langs`
+const resolveMLText = (column: string, langs: string) =>
+  `(SELECT ml.value FROM jsonb_each_text(coalesce(${column}, '{}'::jsonb)) AS ml ` +
+  `WHERE ml.key = ANY(${langs}::text[]) ORDER BY array_position(${langs}::text[], ml.key) LIMIT 1)`;
+
+const getURLID = (row: { id: string; canonical_slug_name: string | null }) =>
+  row.canonical_slug_name ? encodeURIComponent(row.canonical_slug_name) : row.id;
+
+const getLexemes = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Translate the simple query string syntax we offer with ElasticSearch (see
+ * the "search help" message) into a `to_tsquery` expression: terms are
+ * combined with AND, `|` means OR, a leading `-` excludes a term or phrase,
+ * a trailing `*` matches prefixes, and quotation marks match phrases.
+ *
+ * @param query - Query as entered by the user
+ * @returns Query for `to_tsquery`, or null if the query contains no words
+ */
+export function toTSQuery(query: string): string | null {
+  const alternatives: string[][] = [[]];
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(\|)|(-?)([^\s"|]+)/g)) {
+    const [, phraseExclusion, phrase, or, termExclusion, term] = match;
+    if (or) {
+      alternatives.push([]);
+      continue;
+    }
+    const isPhrase = phrase !== undefined;
+    const lexemes = getLexemes(isPhrase ? phrase : term);
+    if (!lexemes.length) continue;
+
+    const isPrefix = !isPhrase && term.endsWith('*');
+    let expression = lexemes
+      .map((lexeme, index) =>
+        isPrefix && index === lexemes.length - 1 ? `'${lexeme}':*` : `'${lexeme}'`
+      )
+      .join(' <-> ');
+    if (lexemes.length > 1) expression = `(${expression})`;
+    if (phraseExclusion || termExclusion) expression = `!${expression}`;
+    alternatives[alternatives.length - 1].push(expression);
+  }
+
+  const clauses = alternatives.filter(clause => clause.length);
+  if (!clauses.length) return null;
+  if (clauses.length === 1) return clauses[0].join(' & ');
+  return clauses.map(clause => `(${clause.join(' & ')})`).join(' | ');
+}
+
+/**
+ * Convert a ts_headline result into HTML fragments in the format of
+ * ElasticSearch highlights. Fragments without a match are dropped, since
+ * ts_headline returns the beginning of the text if nothing matched.
+ */
+const toHighlightFragments = (headline: string | null): string[] =>
+  (headline ?? '')
+    .split(fragmentDelimiter)
+    .filter(fragment => fragment.includes(highlightStart))
+    .map(fragment =>
+      escapeHTML(fragment.trim())
+        .replaceAll(highlightStart, '<span class="search-highlight">')
+        .replaceAll(highlightStop, '</span>')
+    );
+
+const getHighlights = (headlines: Record<string, string | null>): SearchHighlights => {
+  const highlights: SearchHighlights = {};
+  for (const [field, headline] of Object.entries(headlines)) {
+    const fragments = toHighlightFragments(headline);
+    if (fragments.length) highlights[field] = fragments;
+  }
+  return highlights;
+};
+
+// Conditions on the review subjects' own data
+const getThingConditions = (
+  { language, sourceTag, createdAfter, createdBefore }: SearchFilters,
+  params: QueryParameters,
+  alias = 't'
+) => {
+  const conditions = [isCurrent(alias)];
+  if (language) conditions.push(`${alias}.original_language = ${params.add(language)}`);
+  if (createdAfter) conditions.push(`${alias}.created_on >= ${params.add(createdAfter)}`);
+  if (createdBefore) conditions.push(`${alias}.created_on <= ${params.add(createdBefore)}`);
+  if (sourceTag)
+    conditions.push(
+      `EXISTS (SELECT 1 FROM unnest(${alias}.urls) AS url ` +
+        `WHERE ${urlHost} ~ ANY(${params.add(urlUtils.getHostPatterns(sourceTag))}::text[]))`
+    );
+  return conditions;
+};
+
+// Conditions on the reviews' own data (not their review subjects)
+const getReviewConditions = (
+  { minRating, maxRating, language, teamID, createdAfter, createdBefore }: SearchFilters,
+  params: QueryParameters,
+  alias = 'r'
+) => {
+  const conditions = [isCurrent(alias)];
+  if (minRating !== undefined) conditions.push(`${alias}.star_rating >= ${params.add(minRating)}`);
+  if (maxRating !== undefined) conditions.push(`${alias}.star_rating <= ${params.add(maxRating)}`);
+  if (language) conditions.push(`${alias}.original_language = ${params.add(language)}`);
+  if (createdAfter) conditions.push(`${alias}.created_on >= ${params.add(createdAfter)}`);
+  if (createdBefore) conditions.push(`${alias}.created_on <= ${params.add(createdBefore)}`);
+  if (teamID)
+    conditions.push(
+      `EXISTS (SELECT 1 FROM review_teams rt WHERE rt.review_id = ${alias}.id ` +
+        `AND rt.team_id = ${params.add(teamID)})`
+    );
+  return conditions;
+};
+
+async function runQuery<TRow>(sql: string, values: unknown[]): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+// Run the count query (with the parameters of the WHERE clause) and the page
+// query (with all parameters) side by side
+async function getPageRows<TRow>(
+  countSQL: string,
+  whereValues: unknown[],
+  pageSQL: string,
+  values: unknown[]
+): Promise<{ total: number; rows: TRow[] }> {
+  const [[{ total }], rows] = await Promise.all([
+    runQuery<{ total: string }>(countSQL, whereValues),
+    runQuery<TRow>(pageSQL, values),
+  ]);
+  return { total: Number(total), rows };
+}
+
+const toScore = (score: number | null) => (score === null ? null : Number(score));
+
+const emptyReviewPage = (): ReviewSearchPage => ({
+  total: 0,
+  hits: [],
+  facets: { starRating: [], language: [], team: [] },
+});
+
+type ThingRow = {
+  id: string;
+  canonical_slug_name: string | null;
+  label: MLText | null;
+  description: MLText | null;
+  urls: string[] | null;
+  score: number | null;
+  label_headline: string | null;
+  description_headline: string | null;
+};
+
+type ReviewRow = {
+  id: string;
+  thing_id: string;
+  title: MLText | null;
+  star_rating: number;
+  original_language: string | null;
+  created_on: Date;
+  team_ids: string[];
+  canonical_slug_name: string | null;
+  thing_label: MLText | null;
+  score: number | null;
+  title_headline: string | null;
+  text_headline: string | null;
+};
+
+type TeamRow = {
+  id: string;
+  canonical_slug_name: string | null;
+  name: MLText | null;
+  motto: MLText | null;
+  score: number | null;
+  name_headline: string | null;
+  motto_headline: string | null;
+  description_headline: string | null;
+};
+
+type UserRow = {
+  id: string;
+  display_name: string;
+  score: number | null;
+  display_name_headline: string | null;
+  bio_headline: string | null;
+};
+
+type BlogPostRow = {
+  id: string;
+  team_id: string;
+  title: MLText | null;
+  original_language: string | null;
+  created_on: Date;
+  score: number | null;
+  title_headline: string | null;
+  text_headline: string | null;
+};
+
+type FacetRow = {
+  facet: keyof ReviewSearchPage['facets'] | 'total';
+  value: string;
+  count: string;
+};
+
+/**
+ * Search backend using PostgreSQL full-text search over the `search_vector`
+ * columns of the things, reviews, teams, users, user_metas and blog_posts
+ * tables (see migrations 006 and 008). The vectors
+ * are generated from the multilingual JSONB columns without stemming, so
+ * there is nothing to index, and all index maintenance methods do nothing.
+ */
+const postgresBackend: SearchBackend = {
+  async searchThings(query: string, lang: LocaleCode = 'en'): Promise<SearchThingsResponse> {
+    const { total, hits } = await postgresBackend.findThings(query, { lang });
+    return {
+      took: 0,
+      timed_out: false,
+      _shards: { total: 1, successful: 1, failed: 0, skipped: 0 },
+      hits: {
+        total: { value: total, relation: 'eq' },
+        max_score: hits[0]?.score ?? null,
+        hits: hits.map(hit => ({
+          _index: 'libreviews',
+          _id: hit.id,
+          _score: hit.score,
+          _source: {
+            urlID: hit.urlID,
+            label: hit.label,
+            description: hit.description,
+            urls: hit.urls,
+            type: 'thing',
+          },
+          highlight: hit.highlights,
+        })),
+      },
+    } as unknown as SearchThingsResponse;
+  },
+
+  // Groups the best review matches by review subject, like the has_child query
+  // of the ElasticSearch backend
+  async searchReviews(query: string, lang: LocaleCode = 'en'): Promise<SearchReviewsResponse> {
+    const { hits } = await postgresBackend.findReviews(query, { lang, size: groupedReviewLimit });
+    const groups = new Map<string, ReviewSearchHit[]>();
+    for (const hit of hits) {
+      if (!hit.thing) continue;
+      if (!groups.has(hit.thingID) && groups.size === groupedThingLimit) continue;
+      groups.set(hit.thingID, [...(groups.get(hit.thingID) ?? []), hit]);
+    }
+
+    return {
+      hits: {
+        total: { value: groups.size, relation: 'eq' },
+        hits: [...groups.values()].map(reviewHits => {
+          const { thing } = reviewHits[0];
+          return {
+            _id: thing?.id ?? reviewHits[0].thingID,
+            _source: { urlID: thing?.urlID ?? '', label: thing?.label, type: 'thing' },
+            inner_hits: {
+              review: {
+                hits: {
+                  total: { value: reviewHits.length },
+                  hits: reviewHits.slice(0, innerHitLimit).map(hit => ({
+                    _id: hit.id,
+                    _source: { title: hit.title, starRating: hit.starRating },
+                    highlight: hit.highlights,
+                  })),
+                },
+              },
+            },
+          };
+        }),
+      },
+    };
+  },
+
+  async findThings(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<ThingSearchHit>> {
+    const tsQuery = toTSQuery(query);
+    if (!tsQuery) return { total: 0, hits: [] };
+
+    const params = new QueryParameters();
+    const queryParam = params.add(tsQuery);
+    const textMatch = `t.search_vector @@ to_tsquery('simple', ${queryParam})`;
+    // URLs match exactly; domains match the host of URLs as well as the text
+    const urlQuery = parseURLQuery(query);
+    let match = textMatch;
+    if (urlQuery && 'url' in urlQuery) match = `t.urls && ${params.add(urlQuery.urls)}::text[]`;
+    else if (urlQuery && 'domain' in urlQuery) {
+      const domain = params.add(urlQuery.domain);
+      match =
+        `(${textMatch} OR EXISTS (SELECT 1 FROM unnest(t.urls) AS url ` +
+        `WHERE ${urlHost} = ${domain} OR ${urlHost} LIKE '%.' || ${domain}))`;
+    }
+    const conditions = [match, ...getThingConditions(filters, params)];
+    // Only review subjects with matching reviews when filtering by review data
+    const reviewFilters = {
+      minRating: filters.minRating,
+      maxRating: filters.maxRating,
+      teamID: filters.teamID,
+    };
+    const reviewConditions = getReviewConditions(reviewFilters, params);
+    if (reviewConditions.length > 1)
+      conditions.push(
+        `EXISTS (SELECT 1 FROM reviews r WHERE r.thing_id = t.id AND ${reviewConditions.join(' AND ')})`
+      );
+    const whereSQL = conditions.join(' AND ');
+    const whereValues = [...params.values];
+
+    const langs = params.add(languages.getSearchFallbacks(lang));
+    const headline = params.add(headlineOptions);
+    const orderSQL = {
+      relevance: 'score DESC, t.created_on DESC',
+      date: 't.created_on DESC',
+      rating:
+        '(SELECT avg(r.star_rating) FROM reviews r WHERE r.thing_id = t.id AND ' +
+        `${reviewConditions.join(' AND ')}) DESC NULLS LAST, score DESC`,
+    }[sort];
+
+    // Relevance takes the review metrics into account, as with ElasticSearch
+    const byRelevance = sort === 'relevance';
+    const pageSQL = `
+      SELECT t.id, t.canonical_slug_name, t.label, t.metadata->'description' AS description, t.urls,
+        ts_rank(t.search_vector, to_tsquery('simple', ${queryParam}))
+          ${byRelevance ? `* ${reviewMetricsBoost}` : ''} AS score,
+        ts_headline('simple', ${resolveMLText('t.label', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS label_headline,
+        ts_headline('simple', ${resolveMLText("t.metadata->'description'", langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS description_headline
+      FROM things t ${byRelevance ? joinReviewMetrics('t') : ''}
+      WHERE ${whereSQL}
+      ORDER BY ${orderSQL}
+      LIMIT ${params.add(size)} OFFSET ${params.add(from)}`;
+
+    const [[{ total }], rows] = await Promise.all([
+      runQuery<{ total: string }>(
+        `SELECT count(*) AS total FROM things t WHERE ${whereSQL}`,
+        whereValues
+      ),
+      runQuery<ThingRow>(pageSQL, params.values),
+    ]);
+
+    return {
+      total: Number(total),
+      hits: rows.map(row => ({
+        id: row.id,
+        urlID: getURLID(row),
+        label: row.label ?? undefined,
+        description: row.description ?? undefined,
+        urls: row.urls ?? [],
+        score: row.score === null ? null : Number(row.score),
+        highlights: getHighlights({
+          label: row.label_headline,
+          description: row.description_headline,
+        }),
+      })),
+    };
+  },
+
+  async findReviews(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<ReviewSearchPage> {
+    const tsQuery = toTSQuery(query);
+    if (!tsQuery) return emptyReviewPage();
+
+    const params = new QueryParameters();
+    const queryParam = params.add(tsQuery);
+    const conditions = [
+      `r.search_vector @@ to_tsquery('simple', ${queryParam})`,
+      ...getReviewConditions(filters, params),
+      // Only the source tag applies to the review subject
+      ...getThingConditions({ sourceTag: filters.sourceTag }, params),
+    ];
+    const fromSQL = 'reviews r JOIN things t ON t.id = r.thing_id';
+    const whereSQL = conditions.join(' AND ');
+    const whereValues = [...params.values];
+
+    const langs = params.add(languages.getSearchFallbacks(lang));
+    const headline = params.add(headlineOptions);
+    const orderSQL = {
+      relevance: 'score DESC, r.created_on DESC',
+      date: 'r.created_on DESC',
+      rating: 'r.star_rating DESC, r.created_on DESC',
+    }[sort];
+
+    const pageSQL = `
+      SELECT r.id, r.thing_id, r.title, r.star_rating, r.original_language, r.created_on,
+        ARRAY(SELECT rt.team_id FROM review_teams rt WHERE rt.review_id = r.id) AS team_ids,
+        t.canonical_slug_name, t.label AS thing_label,
+        ts_rank(r.search_vector, to_tsquery('simple', ${queryParam})) AS score,
+        ts_headline('simple', ${resolveMLText('r.title', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS title_headline,
+        ts_headline('simple', ${resolveMLText('r.text', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS text_headline
+      FROM ${fromSQL}
+      WHERE ${whereSQL}
+      ORDER BY ${orderSQL}
+      LIMIT ${params.add(size)} OFFSET ${params.add(from)}`;
+
+    // Facet counts over all matches, most frequent values first
+    const facetSQL = `
+      SELECT 'total' AS facet, '' AS value, count(*) AS count FROM ${fromSQL} WHERE ${whereSQL}
+      UNION ALL
+      SELECT 'starRating', r.star_rating::text, count(*) FROM ${fromSQL} WHERE ${whereSQL}
+        GROUP BY r.star_rating
+      UNION ALL
+      SELECT 'language', r.original_language, count(*) FROM ${fromSQL} WHERE ${whereSQL}
+        AND r.original_language IS NOT NULL GROUP BY r.original_language
+      UNION ALL
+      SELECT 'team', rt.team_id::text, count(*)
+        FROM ${fromSQL} JOIN review_teams rt ON rt.review_id = r.id WHERE ${whereSQL}
+        GROUP BY rt.team_id`;
+
+    const [facetRows, rows] = await Promise.all([
+      runQuery<FacetRow>(facetSQL, whereValues),
+      runQuery<ReviewRow>(pageSQL, params.values),
+    ]);
+
+    const page = emptyReviewPage();
+    for (const { facet, value, count } of facetRows) {
+      if (facet === 'total') {
+        page.total = Number(count);
+        continue;
+      }
+      const bucket: SearchFacetBucket = {
+        value: facet === 'starRating' ? Number(value) : value,
+        count: Number(count),
+      };
+      page.facets[facet].push(bucket);
+    }
+    for (const buckets of Object.values(page.facets)) buckets.sort((a, b) => b.count - a.count);
+
+    page.hits = rows.map(row => ({
+      id: row.id,
+      thingID: row.thing_id,
+      title: row.title ?? undefined,
+      starRating: row.star_rating,
+      originalLanguage: row.original_language ?? undefined,
+      createdOn: new Date(row.created_on).toISOString(),
+      teamIDs: row.team_ids,
+      thing: {
+        id: row.thing_id,
+        urlID: getURLID({ id: row.thing_id, canonical_slug_name: row.canonical_slug_name }),
+        label: row.thing_label ?? undefined,
+      },
+      score: row.score === null ? null : Number(row.score),
+      highlights: getHighlights({ title: row.title_headline, text: row.text_headline }),
+    }));
+    return page;
+  },
+
+  async findTeams(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<TeamSearchHit>> {
+    const tsQuery = toTSQuery(query);
+    if (!tsQuery) return { total: 0, hits: [] };
+
+    const params = new QueryParameters();
+    const queryParam = params.add(tsQuery);
+    const conditions = [`tm.search_vector @@ to_tsquery('simple', ${queryParam})`, isCurrent('tm')];
+    if (filters.language) conditions.push(`tm.original_language = ${params.add(filters.language)}`);
+    const whereSQL = conditions.join(' AND ');
+    const whereValues = [...params.values];
+
+    const langs = params.add(languages.getSearchFallbacks(lang));
+    const headline = params.add(headlineOptions);
+    const pageSQL = `
+      SELECT tm.id, tm.canonical_slug_name, tm.name, tm.motto,
+        ts_rank(tm.search_vector, to_tsquery('simple', ${queryParam})) AS score,
+        ts_headline('simple', ${resolveMLText('tm.name', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS name_headline,
+        ts_headline('simple', ${resolveMLText('tm.motto', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS motto_headline,
+        ts_headline('simple', ${resolveMLText("tm.description->'text'", langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS description_headline
+      FROM teams tm
+      WHERE ${whereSQL}
+      ORDER BY ${sort === 'date' ? 'tm.created_on DESC' : 'score DESC, tm.created_on DESC'}
+      LIMIT ${params.add(size)} OFFSET ${params.add(from)}`;
+
+    const { total, rows } = await getPageRows<TeamRow>(
+      `SELECT count(*) AS total FROM teams tm WHERE ${whereSQL}`,
+      whereValues,
+      pageSQL,
+      params.values
+    );
+    return {
+      total,
+      hits: rows.map(row => ({
+        id: row.id,
+        urlID: getURLID(row),
+        name: row.name ?? undefined,
+        motto: row.motto ?? undefined,
+        score: toScore(row.score),
+        highlights: getHighlights({
+          name: row.name_headline,
+          motto: row.motto_headline,
+          description: row.description_headline,
+        }),
+      })),
+    };
+  },
+
+  async findUsers(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<UserSearchHit>> {
+    const tsQuery = toTSQuery(query);
+    if (!tsQuery) return { total: 0, hits: [] };
+
+    const params = new QueryParameters();
+    const queryParam = params.add(tsQuery);
+    const vectorSQL = "(u.search_vector || coalesce(m.search_vector, ''::tsvector))";
+    const fromSQL = `users u LEFT JOIN user_metas m ON m.id = u.user_meta_id AND ${isCurrent('m')}`;
+    const whereSQL = `${vectorSQL} @@ to_tsquery('simple', ${queryParam})`;
+    const whereValues = [...params.values];
+
+    const langs = params.add(languages.getSearchFallbacks(lang));
+    const headline = params.add(headlineOptions);
+    const pageSQL = `
+      SELECT u.id, u.display_name,
+        ts_rank(${vectorSQL}, to_tsquery('simple', ${queryParam})) AS score,
+        ts_headline('simple', u.display_name,
+          to_tsquery('simple', ${queryParam}), ${headline}) AS display_name_headline,
+        ts_headline('simple', ${resolveMLText("m.bio->'text'", langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS bio_headline
+      FROM ${fromSQL}
+      WHERE ${whereSQL}
+      ORDER BY ${sort === 'date' ? 'u.registration_date DESC' : 'score DESC, u.display_name'}
+      LIMIT ${params.add(size)} OFFSET ${params.add(from)}`;
+
+    const { total, rows } = await getPageRows<UserRow>(
+      `SELECT count(*) AS total FROM ${fromSQL} WHERE ${whereSQL}`,
+      whereValues,
+      pageSQL,
+      params.values
+    );
+    return {
+      total,
+      hits: rows.map(row => ({
+        id: row.id,
+        displayName: row.display_name,
+        urlName: encodeURIComponent(row.display_name.replace(/ /g, '_')),
+        score: toScore(row.score),
+        highlights: getHighlights({
+          displayName: row.display_name_headline,
+          bio: row.bio_headline,
+        }),
+      })),
+    };
+  },
+
+  async findBlogPosts(
+    query: string,
+    {
+      lang = 'en',
+      from = 0,
+      size = defaultSearchPageSize,
+      sort = 'relevance',
+      filters = {},
+    }: SearchPageOptions = {}
+  ): Promise<SearchPage<BlogPostSearchHit>> {
+    const tsQuery = toTSQuery(query);
+    if (!tsQuery) return { total: 0, hits: [] };
+
+    const params = new QueryParameters();
+    const queryParam = params.add(tsQuery);
+    const { language, teamID, createdAfter, createdBefore } = filters;
+    const conditions = [`p.search_vector @@ to_tsquery('simple', ${queryParam})`, isCurrent('p')];
+    if (language) conditions.push(`p.original_language = ${params.add(language)}`);
+    if (teamID) conditions.push(`p.team_id = ${params.add(teamID)}`);
+    if (createdAfter) conditions.push(`p.created_on >= ${params.add(createdAfter)}`);
+    if (createdBefore) conditions.push(`p.created_on <= ${params.add(createdBefore)}`);
+    const whereSQL = conditions.join(' AND ');
+    const whereValues = [...params.values];
+
+    const langs = params.add(languages.getSearchFallbacks(lang));
+    const headline = params.add(headlineOptions);
+    const pageSQL = `
+      SELECT p.id, p.team_id, p.title, p.original_language, p.created_on,
+        ts_rank(p.search_vector, to_tsquery('simple', ${queryParam})) AS score,
+        ts_headline('simple', ${resolveMLText('p.title', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS title_headline,
+        ts_headline('simple', ${resolveMLText('p.text', langs)},
+          to_tsquery('simple', ${queryParam}), ${headline}) AS text_headline
+      FROM blog_posts p
+      WHERE ${whereSQL}
+      ORDER BY ${sort === 'date' ? 'p.created_on DESC' : 'score DESC, p.created_on DESC'}
+      LIMIT ${params.add(size)} OFFSET ${params.add(from)}`;
+
+    const { total, rows } = await getPageRows<BlogPostRow>(
+      `SELECT count(*) AS total FROM blog_posts p WHERE ${whereSQL}`,
+      whereValues,
+      pageSQL,
+      params.values
+    );
+    return {
+      total,
+      hits: rows.map(row => ({
+        id: row.id,
+        teamID: row.team_id,
+        title: row.title ?? undefined,
+        originalLanguage: row.original_language ?? undefined,
+        createdOn: new Date(row.created_on).toISOString(),
+        score: toScore(row.score),
+        highlights: getHighlights({ title: row.title_headline, text: row.text_headline }),
+      })),
+    };
+  },
+
+  // Labels in each fallback language that start with the prefix, best reviewed
+  // and then shortest first
+  async suggestThing(prefix = '', lang: LocaleCode = 'en'): Promise<SuggestThingResponse> {
+    const langs = languages.getSearchFallbacks(lang);
+    const suggest: SuggestThingResponse['suggest'] = {};
+    for (const currentLanguage of langs) suggest[`labels-${currentLanguage}`] = [{ options: [] }];
+    if (!prefix) return { suggest };
+
+    const params = new QueryParameters();
+    const pattern = `${prefix.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+    const rows = await runQuery<{
+      id: string;
+      lang: string;
+      text: string;
+      canonical_slug_name: string | null;
+      urls: string[] | null;
+      description: MLText | null;
+    }>(
+      `SELECT id, lang, text, canonical_slug_name, urls, description FROM (
+        SELECT t.id, ml.key AS lang, ml.value AS text, t.canonical_slug_name, t.urls,
+          t.metadata->'description' AS description,
+          row_number() OVER (
+            PARTITION BY ml.key ORDER BY ${reviewMetricsBoost} DESC, length(ml.value), ml.value
+          ) AS position
+        FROM things t
+          CROSS JOIN jsonb_each_text(coalesce(t.label, '{}'::jsonb)) AS ml
+          ${joinReviewMetrics('t')}
+        WHERE ${isCurrent('t')} AND ml.key = ANY(${params.add(langs)}::text[])
+          AND lower(ml.value) LIKE ${params.add(pattern)}
+      ) AS suggestions
+      WHERE position <= ${params.add(suggestionsPerLanguage)}
+      ORDER BY position`,
+      params.values
+    );
+
+    for (const row of rows)
+      suggest[`labels-${row.lang}`][0].options.push({
+        text: row.text,
+        _id: row.id,
+        _index: 'libreviews',
+        _source: {
+          urlID: getURLID(row),
+          urls: row.urls ?? [],
+          description: row.description,
+        },
+      });
+    return { suggest };
+  },
+
+  indexThing: () => Promise.resolve(),
+  indexReview: () => Promise.resolve(),
+  deleteThing: () => Promise.resolve(),
+  deleteReview: () => Promise.resolve(),
+  indexTeam: () => Promise.resolve(),
+  indexUser: () => Promise.resolve(),
+  indexBlogPost: () => Promise.resolve(),
+  deleteTeam: () => Promise.resolve(),
+  deleteUser: () => Promise.resolve(),
+  deleteBlogPost: () => Promise.resolve(),
+  createIndices: () => Promise.resolve(),
+  deleteIndex: () => Promise.resolve(),
+  close() {
+    // Queries use the shared DAL connection pool, which is closed elsewhere
+  },
+};
+
+export { postgresBackend };
+export default postgresBackend;
@@ -109,6 +109,40 @@ test.serial('resolveAndLoadThing throws DocumentNotFound for unknown slug', asyn
   });
 });
 
+test.serial('findThing resolves non-canonical slugs without redirecting', async t => {
+  const { actor: creator } = await dalFixture.createTestUser('Finder Creator');
+
+  const thingRev = await Thing.createFirstRevision(creator, { tags: ['create'] });
+  thingRev.urls = [`https://example.com/find-${randomUUID()}`];
+  thingRev.label = { en: 'Find Test Thing' };
+  thingRev.createdOn = new Date();
+  thingRev.createdBy = creator.id;
+  thingRev.canonicalSlugName = 'find-canonical';
+  const thing = await thingRev.save();
+
+  const dal = Thing.dal;
+  const slugTable = dal.schemaNamespace ? `${dal.schemaNamespace}thing_slugs` : 'thing_slugs';
+  for (const name of ['find-canonical', 'find-legacy'])
+    await dal.query(
+      `INSERT INTO ${slugTable} (slug, name, base_name, qualifier_part, thing_id, created_on, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [name, name, name, null, thing.id, new Date(), creator.id]
+    );
+
+  const canonical = await slugs.findThing('find-canonical');
+  t.is(canonical.document.id, thing.id);
+  t.true(canonical.isCanonical);
+
+  const legacy = await slugs.findThing('find-legacy');
+  t.is(legacy.document.id, thing.id);
+  t.false(legacy.isCanonical);
+
+  const byID = await slugs.findThing(thing.id);
+  t.false(byID.isCanonical, 'UUID is not canonical for a thing with a slug');
+
+  await t.throwsAsync(() => slugs.findThing('find-missing'), { name: 'DocumentNotFound' });
+});
+
 test.after.always(async () => {
   await dalFixture.cleanup();
 });
@@ -22,6 +22,12 @@ const routeTests = [
   { path: '/feed', status: 200, regex: /Latest reviews/ },
   { path: '/terms', status: 200, regex: /Terms of use/ },
   { path: '/static/downloads', status: 200, regex: /Downloads/ },
+  { path: '/actions/search', status: 200, regex: /Search tips/ },
+  {
+    path: '/actions/search?query=apples&sort=rating&minRating=9&page=2',
+    status: 200,
+    regex: /value="rating" selected/,
+  },
   { path: '/review/+not+a+review+', status: 404, regex: /Review address invalid/ },
   { path: '/team/+not+a+team+', status: 404, regex: /Team not found/ },
   { path: '/+not+a+thing+', status: 404, regex: /Thing not found/ },
@@ -560,6 +560,56 @@ test.serial('We can create a review with team associations', async t => {
   t.pass();
 });
 
+test.serial('Review and thing pages describe ratings as JSON-LD', async t => {
+  const agent = supertest.agent(app);
+  const username = `StructuredData-${Date.now()}`;
+  await registerTestUser(agent, {
+    username,
+    password: 'password123',
+  });
+
+  const newReviewResponse = await agent.get('/new/review').expect(200);
+  const reviewPostResponse = await agent
+    .post('/new/review')
+    .type('form')
+    .send({
+      _csrf: extractCSRF(newReviewResponse.text),
+      'review-url': 'https://example.com/structured-data',
+      'review-label': 'Structured </script> Data',
+      'review-title': 'Machine-readable at last',
+      'review-text': 'Search engines can read this rating.',
+      'review-rating': '4',
+      'review-language': 'en',
+      'review-action': 'publish',
+    })
+    .expect(302);
+
+  const getJSONLD = (html: string) => {
+    const match = html.match(/<script type="application\/ld\+json">(.*?)<\/script>/);
+    return match ? JSON.parse(match[1]) : null;
+  };
+
+  const thingResponse = await agent.get(reviewPostResponse.headers.location).expect(200);
+  const thingData = getJSONLD(thingResponse.text);
+  if (!thingData) return t.fail('Thing page has no JSON-LD');
+  t.is(thingData['@type'], 'Thing');
+  t.is(thingData.name, 'Structured </script> Data');
+  t.deepEqual(thingData.sameAs, ['https://example.com/structured-data']);
+  t.is(thingData.aggregateRating.ratingValue, 4);
+  t.is(thingData.aggregateRating.reviewCount, 1);
+  t.is(thingData.review[0].reviewRating.ratingValue, 4);
+  t.is(thingData.review[0].author.name, username);
+
+  const reviewResponse = await agent.get(new URL(thingData.review[0].url).pathname).expect(200);
+  const reviewData = getJSONLD(reviewResponse.text);
+  if (!reviewData) return t.fail('Review page has no JSON-LD');
+  t.is(reviewData['@type'], 'Review');
+  t.is(reviewData.name, 'Machine-readable at last');
+  t.is(reviewData.reviewBody, 'Search engines can read this rating.');
+  t.is(reviewData.inLanguage, 'en');
+  t.is(reviewData.itemReviewed.name, 'Structured </script> Data');
+});
+
 test.after.always(async () => {
   unmockSearch();
   const { resetAppForTesting } = await loadAppModule();
@@ -1,6 +1,16 @@
 import test from 'ava';
 import http from 'http';
-import WebHookDispatcher from '../util/webhooks.ts';
+import webHookEvents, {
+  getAccountRequestEventData,
+  getThingMergeEventData,
+  type WebHookThing,
+} from '../util/webhook-events.ts';
+import WebHookDispatcher, {
+  signWebHookPayload,
+  verifyWebHookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../util/webhooks.ts';
 
 function createServer(handler) {
   const server = http.createServer(handler);
@@ -94,3 +104,236 @@ test('network errors surface as delivery failures', async t => {
   t.false(result.deliveries[0].ok);
   t.truthy(result.deliveries[0].error);
 });
+
+test('user-registered endpoints are requested with the public fetch', async t => {
+  const requests = [];
+  const record = via => async url => {
+    requests.push({ url, via });
+    return new Response(null, {
+      status: 302,
+      headers: { Location: 'http://169.254.169.254/latest/meta-data/' },
+    });
+  };
+  const dispatcher = new WebHookDispatcher(
+    { newReview: ['http://127.0.0.1:9/reviews'] },
+    { fetch: record('fetch'), publicFetch: record('publicFetch'), logger: () => {} }
+  );
+
+  const redirected = await dispatcher.deliver('https://example.com/hook', { foo: 'bar' });
+  t.false(redirected.ok);
+  t.is(redirected.status, 302);
+  t.truthy(redirected.error);
+
+  // Configured endpoints are trusted
+  await dispatcher.deliver('http://127.0.0.1:9/reviews', { foo: 'bar' });
+  t.deepEqual(requests, [
+    { url: 'https://example.com/hook', via: 'publicFetch' },
+    { url: 'http://127.0.0.1:9/reviews', via: 'fetch' },
+  ]);
+});
+
+test('user-registered endpoints cannot reach private networks', async t => {
+  const { server, listen, close } = createServer((_req, res) => res.end());
+  const port = await listen();
+  t.teardown(close);
+  let requests = 0;
+  server.on('request', () => requests++);
+
+  const dispatcher = new WebHookDispatcher({}, { logger: () => {} });
+  for (const host of ['127.0.0.1', '[::ffff:7f00:1]', '[::127.0.0.1]', 'localhost']) {
+    const result = await dispatcher.deliver(`http://${host}:${port}/hook`, { foo: 'bar' });
+    t.false(result.ok, host);
+    t.is(result.error, 'URL points to a private network.', host);
+  }
+  t.is(requests, 0);
+});
+
+test('deliveries are stored and their attempts recorded', async t => {
+  const stored = [];
+  const attempts = [];
+  const store = {
+    async create(eventName, urls, payload, headers) {
+      stored.push({ eventName, urls, payload, headers });
+      return urls.map((_url, index) => `delivery-${index}`);
+    },
+    async recordAttempt(id, result) {
+      attempts.push({ id, ok: result.ok, status: result.status });
+    },
+  };
+  const dispatcher = new WebHookDispatcher(
+    { newReview: ['http://127.0.0.1:9/a', 'http://127.0.0.1:9/b'] },
+    { timeoutMs: 50, store }
+  );
+
+  const result = await dispatcher.trigger('newReview', { foo: 'bar' }, { 'X-Test': '1' });
+
+  t.deepEqual(stored, [
+    {
+      eventName: 'newReview',
+      urls: ['http://127.0.0.1:9/a', 'http://127.0.0.1:9/b'],
+      payload: { foo: 'bar' },
+      headers: { 'X-Test': '1' },
+    },
+  ]);
+  t.deepEqual(
+    result.deliveries.map(delivery => delivery.id),
+    ['delivery-0', 'delivery-1']
+  );
+  t.deepEqual(
+    attempts.map(attempt => [attempt.id, attempt.ok]),
+    [
+      ['delivery-0', false],
+      ['delivery-1', false],
+    ]
+  );
+});
+
+test('delivery is attempted once if the store is unavailable', async t => {
+  const store = {
+    async create() {
+      throw new Error('Database unavailable');
+    },
+    async recordAttempt() {
+      t.fail('no attempt should be recorded without a stored delivery');
+    },
+  };
+  const dispatcher = new WebHookDispatcher(
+    { newReview: ['http://127.0.0.1:9/reviews'] },
+    { timeoutMs: 50, store, logger: () => {} }
+  );
+
+  const result = await dispatcher.trigger('newReview', { foo: 'bar' });
+
+  t.is(result.deliveries.length, 1);
+  t.is(result.deliveries[0].id, undefined);
+  t.false(result.deliveries[0].ok);
+});
+
+test('payloads to endpoints with a secret are signed', async t => {
+  const requests = [];
+  const { listen, close } = createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString() });
+      res.statusCode = 204;
+      res.end();
+    });
+  });
+
+  const port = await listen();
+  t.teardown(() => close());
+
+  const dispatcher = new WebHookDispatcher({
+    newReview: [
+      { url: `http://127.0.0.1:${port}/signed`, secret: 'shared secret' },
+      `http://127.0.0.1:${port}/unsigned`,
+    ],
+  });
+  await dispatcher.trigger('newReview', { foo: 'bar' });
+
+  t.is(requests.length, 2);
+  const signed = requests.find(request => request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]);
+  const unsigned = requests.find(request => request !== signed);
+  t.truthy(signed);
+  t.is(unsigned.headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()], undefined);
+  t.true(
+    verifyWebHookSignature({
+      body: signed.body,
+      signature: signed.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()],
+      timestamp: signed.headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()],
+      secret: 'shared secret',
+    })
+  );
+});
+
+test('forged, altered and stale requests fail verification', t => {
+  const body = JSON.stringify({ foo: 'bar' });
+  const now = Date.now();
+  const timestamp = Math.floor(now / 1000);
+  const headers = signWebHookPayload(body, 'shared secret', timestamp);
+  const check = {
+    body,
+    signature: headers[WEBHOOK_SIGNATURE_HEADER],
+    timestamp: headers[WEBHOOK_TIMESTAMP_HEADER],
+    secret: 'shared secret',
+    now,
+  };
+
+  t.true(verifyWebHookSignature(check));
+  t.false(verifyWebHookSignature({ ...check, secret: 'guessed secret' }));
+  t.false(verifyWebHookSignature({ ...check, body: JSON.stringify({ foo: 'baz' }) }));
+  t.false(verifyWebHookSignature({ ...check, timestamp: String(timestamp + 1) }));
+  t.false(verifyWebHookSignature({ ...check, signature: undefined }));
+  t.false(verifyWebHookSignature({ ...check, now: now + 10 * 60 * 1000 }), 'too old');
+  t.true(verifyWebHookSignature({ ...check, now: now + 10 * 60 * 1000, toleranceSeconds: 900 }));
+});
+
+test.serial('catalogue events are sent with their ID and data', async t => {
+  const sent = [];
+  const fetch = async (url, options) => {
+    sent.push({ url, body: JSON.parse(options.body) });
+    return new Response(null, { status: 204 });
+  };
+  webHookEvents.setDispatcher(
+    new WebHookDispatcher(
+      { accountRequestSubmitted: ['http://127.0.0.1:9/moderation'] },
+      { fetch, logger: () => {} }
+    )
+  );
+  t.teardown(() => webHookEvents.setDispatcher(null));
+
+  const accountRequest = {
+    id: 'a8d2b3d5-3f1c-4e55-9a37-0b5d2f0e8f11',
+    plannedReviews: 'Coffee grinders',
+    languages: 'English',
+    aboutLinks: 'https://example.com/about',
+    email: 'requester@example.com',
+    ipAddress: '192.0.2.1',
+    language: 'en',
+    createdAt: new Date(),
+  };
+  // Has fields the payload must leave out
+  const data = getAccountRequestEventData(accountRequest);
+  t.false('email' in data);
+  t.false('ipAddress' in data);
+
+  webHookEvents.emit('accountRequestSubmitted', data);
+  // Not configured, so nothing is sent
+  webHookEvents.emit('thingCreated', {
+    label: { en: 'Grinder' },
+    urls: ['https://example.com/grinder'],
+    createdOn: new Date(),
+    thingURL: 'https://example.com/thing/1',
+  });
+  await new Promise(resolve => setImmediate(resolve));
+
+  t.is(sent.length, 1);
+  t.is(sent[0].url, 'http://127.0.0.1:9/moderation');
+  t.is(sent[0].body.event, 'account-request-submitted');
+  t.is(sent[0].body.data.plannedReviews, 'Coffee grinders');
+  t.regex(sent[0].body.data.manageURL, /actions\/manage-requests$/);
+});
+
+test('thing merge events describe both things', t => {
+  const duplicate = {
+    id: 'c3b1e0f2-7d4a-4c52-8f0e-2b6f1d9a4e21',
+    label: { en: 'Grinder (duplicate)' },
+    urls: ['https://example.com/grinder-2'],
+    createdOn: new Date(),
+  } satisfies WebHookThing;
+  const original = {
+    id: 'f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b',
+    label: { en: 'Grinder' },
+    urls: ['https://example.com/grinder'],
+    createdOn: new Date(),
+  } satisfies WebHookThing;
+  const data = getThingMergeEventData(duplicate, original, {
+    displayName: 'Merger',
+    urlName: 'Merger',
+  });
+  t.regex(data.thingURL, /thing\/c3b1e0f2-7d4a-4c52-8f0e-2b6f1d9a4e21$/);
+  t.deepEqual(data.mergedInto.label, { en: 'Grinder' });
+  t.regex(data.mergedInto.thingURL, /thing\/f1a2b3c4-5d6e-4f70-8a9b-0c1d2e3f4a5b$/);
+  t.is(data.user, 'Merger');
+});
@@ -15,7 +15,7 @@ const __dirname = path.dirname(__filename);
 const projectRoot = path.join(__dirname, '..');
 const uploadsDir = path.join(projectRoot, 'static/uploads');
 
-mockSearch();
+const searchMock = mockSearch();
 
 const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
   schemaNamespace: 'api_routes',
@@ -193,6 +193,399 @@ test.serial('GET /api/suggest/thing/:prefix handles whitespace prefix', async t
   t.pass();
 });
 
+// ============================================================================
+// GET /api/search - Search With Filters and Paging
+// ============================================================================
+
+test.serial('GET /api/search passes filters and paging to the search backend', async t => {
+  searchMock.searchQueries.length = 0;
+  const response = await supertest(app)
+    .get('/api/search')
+    .query({
+      q: 'vegetables',
+      from: 10,
+      size: 5,
+      minRating: 3,
+      language: 'de',
+      after: '2024-01-01T00:00:00.000Z',
+    })
+    .expect(200)
+    .expect('Content-Type', /json/);
+
+  t.like(response.body, { query: 'vegetables', from: 10, size: 5 });
+  t.deepEqual(response.body.things, { total: 0, hits: [] });
+  t.is(response.body.reviews.total, 0);
+  t.deepEqual(response.body.reviews.facets, { starRating: [], language: [], team: [] });
+
+  const reviewQuery = searchMock.searchQueries.find(query => query.type === 'findReviews');
+  t.truthy(reviewQuery);
+  if (reviewQuery?.type !== 'findReviews') return;
+  t.is(reviewQuery.query, 'vegetables');
+  t.like(reviewQuery.options, { from: 10, size: 5 });
+  t.like(reviewQuery.options.filters, { minRating: 3, language: 'de' });
+  t.is(reviewQuery.options.filters?.createdAfter?.toISOString(), '2024-01-01T00:00:00.000Z');
+
+  const thingsOnly = await supertest(app)
+    .get('/api/search')
+    .query({ q: 'vegetables', type: 'things' })
+    .expect(200);
+  t.is(thingsOnly.body.reviews, null);
+
+  searchMock.searchQueries.length = 0;
+  const byURL = await supertest(app)
+    .get('/api/search')
+    .query({ q: 'https://openlibrary.org/works/OL1W' })
+    .expect(200);
+  t.is(byURL.body.reviews, null);
+  t.deepEqual(
+    searchMock.searchQueries.map(query => query.type),
+    ['findThings']
+  );
+});
+
+test.serial('GET /api/search validates query parameters', async t => {
+  const response = await supertest(app)
+    .get('/api/search')
+    .query({ q: '', size: 500, minRating: 5, maxRating: 2, language: 'xx' })
+    .expect(400)
+    .expect('Content-Type', /json/);
+  t.is(response.body.message, 'Could not perform search.');
+  t.true(response.body.errors.length >= 3);
+
+  const pastWindow = await supertest(app)
+    .get('/api/search')
+    .query({ q: 'test', from: 9999, size: 10 })
+    .expect(400);
+  t.regex(pastWindow.body.errors[0], /first 10000 results/);
+
+  await supertest(app).get('/api/search').query({ q: 'test', team: 'no-such-team' }).expect(404);
+});
+
+// ============================================================================
+// GET /api/reviews, /api/review/:id and per-resource review feeds
+// ============================================================================
+
+const createReviewedThing = async (username: string, url: string, starRating = 4) => {
+  const agent = supertest.agent(app);
+  await registerTestUser(agent, { username, password: 'password123' });
+  const user = await User.findByURLName(username.replace(/ /g, '_'));
+  const userActor = { id: user.id, is_super_user: user.isSuperUser, is_trusted: user.isTrusted };
+
+  const thingRev = await Thing.createFirstRevision(userActor, { tags: ['create'] });
+  thingRev.urls = [url];
+  thingRev.label = { en: 'Feed Product' };
+  thingRev.createdBy = user.id;
+  thingRev.createdOn = new Date();
+  const thing = await thingRev.save();
+
+  const reviewRev = await Review.createFirstRevision(userActor, { tags: ['create'] });
+  reviewRev.thingID = thing.id;
+  reviewRev.title = { en: 'Feed review' };
+  reviewRev.text = { en: 'Text of a feed review' };
+  reviewRev.html = { en: '<p>Text of a feed review</p>' };
+  reviewRev.starRating = starRating;
+  reviewRev.createdBy = user.id;
+  reviewRev.createdOn = new Date();
+  reviewRev.originalLanguage = 'en';
+  const review = await reviewRev.save();
+
+  return { user, thing, review };
+};
+
+test.serial('GET /api/review/:id returns the review in API format', async t => {
+  const { user, thing, review } = await createReviewedThing(
+    `ReviewReader-${Date.now()}`,
+    'https://example.com/api-single-review'
+  );
+
+  const response = await supertest(app)
+    .get(`/api/review/${review.id}`)
+    .expect(200)
+    .expect('Content-Type', /json/);
+
+  const body = response.body.review;
+  t.is(body.id, review.id);
+  t.is(body.thingID, thing.id);
+  t.deepEqual(body.title, { en: 'Feed review' });
+  t.is(body.starRating, 4);
+  t.is(body.originalLanguage, 'en');
+  t.is(body.creator.id, user.id);
+  t.is(body.creator.email, undefined, 'Creator email must not be exposed');
+  t.is(body.thing.id, thing.id);
+  t.deepEqual(body.thing.urls, ['https://example.com/api-single-review']);
+  t.deepEqual(body.teams, []);
+  t.true(body.url.endsWith(`review/${review.id}`));
+});
+
+test.serial('GET /api/review/:id returns 404 for unknown or malformed IDs', async t => {
+  const unknown = await supertest(app)
+    .get('/api/review/4bd6e0bb-4a8e-4a1d-8a5f-0d8a7c0f3a11')
+    .expect(404)
+    .expect('Content-Type', /json/);
+  t.true(unknown.body.errors.includes('Review does not exist.'));
+
+  await supertest(app).get('/api/review/not-a-uuid').expect(404);
+  t.pass();
+});
+
+test.serial('GET /api/reviews paginates with offsetDate cursor', async t => {
+  await createReviewedThing(`FeedUserA-${Date.now()}`, 'https://example.com/api-feed-a');
+  await createReviewedThing(`FeedUserB-${Date.now()}`, 'https://example.com/api-feed-b');
+
+  const firstPage = await supertest(app)
+    .get('/api/reviews?limit=1')
+    .expect(200)
+    .expect('Content-Type', /json/);
+
+  t.is(firstPage.body.reviews.length, 1);
+  t.truthy(firstPage.body.offsetDate);
+  t.true(firstPage.body.next.startsWith('/api/reviews?'));
+
+  const secondPage = await supertest(app).get(firstPage.body.next).expect(200);
+  t.true(secondPage.body.reviews.length >= 1);
+  t.not(secondPage.body.reviews[0].id, firstPage.body.reviews[0].id);
+});
+
+test.serial('GET /api/reviews rejects invalid pagination parameters', async t => {
+  const response = await supertest(app)
+    .get('/api/reviews?limit=500&offsetDate=yesterday')
+    .expect(400)
+    .expect('Content-Type', /json/);
+
+  t.is(response.body.message, 'Could not retrieve reviews.');
+  t.is(response.body.errors.length, 2);
+});
+
+test.serial('GET /api/thing/:id/reviews and /api/user/:name/reviews filter the feed', async t => {
+  const username = `FilterUser-${Date.now()}`;
+  const { thing, review } = await createReviewedThing(
+    username,
+    'https://example.com/api-filtered-feed',
+    2
+  );
+  await createReviewedThing(`OtherUser-${Date.now()}`, 'https://example.com/api-other-feed');
+
+  const thingFeed = await supertest(app).get(`/api/thing/${thing.id}/reviews`).expect(200);
+  t.deepEqual(
+    thingFeed.body.reviews.map(item => item.id),
+    [review.id]
+  );
+  t.is(thingFeed.body.next, null);
+
+  const userFeed = await supertest(app).get(`/api/user/${username}/reviews`).expect(200);
+  t.deepEqual(
+    userFeed.body.reviews.map(item => item.id),
+    [review.id]
+  );
+});
+
+test.serial('Review feed routes return 404 for unknown things, users and teams', async t => {
+  await supertest(app).get('/api/thing/no-such-thing-slug/reviews').expect(404);
+  await supertest(app).get('/api/user/NoSuchFeedUser12345/reviews').expect(404);
+  await supertest(app).get('/api/team/no-such-team-slug/reviews').expect(404);
+  t.pass();
+});
+
+// ============================================================================
+// POST /api/things/lookup - Batch Thing Lookup
+// ============================================================================
+
+test.serial('POST /api/things/lookup resolves URLs and IDs with review metrics', async t => {
+  const url = 'https://example.com/api-batch-lookup';
+  const { thing } = await createReviewedThing(`BatchLookup-${Date.now()}`, url, 3);
+  const missingID = '00000000-0000-4000-8000-000000000000';
+
+  // No X-Requested-With header or session needed for this read-only route
+  const response = await supertest(app)
+    .post('/api/things/lookup')
+    .send({
+      urls: [url, 'https://example.com/api-batch-missing', 'not a url', url],
+      ids: [thing.id, missingID, 'not-a-uuid'],
+      slugs: ['no-such-slug'],
+    })
+    .expect(200)
+    .expect('Content-Type', /json/);
+
+  const { urls, ids, slugs } = response.body;
+  t.is(urls.length, 4);
+  t.is(urls[0].query, url);
+  t.is(urls[0].thing.id, thing.id);
+  t.is(urls[0].thing.numberOfReviews, 1);
+  t.is(urls[0].thing.averageStarRating, 3);
+  t.is(urls[1].thing, null);
+  t.falsy(urls[1].error);
+  t.is(urls[2].error, 'URL is not valid.');
+  t.deepEqual(urls[3], urls[0], 'duplicate queries get the same result');
+
+  t.is(ids[0].thing.id, thing.id);
+  t.is(ids[1].thing, null);
+  t.is(ids[2].error, 'ID is not a valid UUID.');
+  t.deepEqual(slugs, [{ query: 'no-such-slug', thing: null }]);
+});
+
+test.serial('POST /api/things/lookup validates the request body', async t => {
+  const tooMany = Array.from({ length: 101 }, (_, index) => `https://example.com/${index}`);
+  const response = await supertest(app)
+    .post('/api/things/lookup')
+    .send({ urls: tooMany })
+    .expect(400)
+    .expect('Content-Type', /json/);
+  t.is(response.body.message, 'Could not look up review subjects.');
+  t.regex(response.body.errors[0], /more than 100/);
+
+  const unknownField = await supertest(app)
+    .post('/api/things/lookup')
+    .send({ names: ['foo'] })
+    .expect(400);
+  t.true(unknownField.body.errors.length > 0);
+});
+
+// ============================================================================
+// POST /api/reviews, PUT /api/review/:id, DELETE /api/review/:id
+// ============================================================================
+
+const signedInAgent = async (username: string) => {
+  const agent = supertest.agent(app);
+  await registerTestUser(agent, { username, password: 'password123' });
+  return agent;
+};
+
+const reviewBody = (url: string) => ({
+  url,
+  title: 'Written via the API',
+  text: 'This review was submitted as *JSON*.',
+  starRating: 4,
+  language: 'en',
+});
+
+test.serial('POST /api/reviews creates a review and its review subject', async t => {
+  const agent = await signedInAgent(`APIReviewer-${Date.now()}`);
+  const url = `https://example.com/api-created-review-${Date.now()}`;
+
+  const response = await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send({ ...reviewBody(url), label: 'API Product' })
+    .expect(201)
+    .expect('Content-Type', /json/);
+
+  const { review } = response.body;
+  t.true(isUUID.v4(review.id));
+  t.is(response.headers.location, `/api/review/${review.id}`);
+  t.deepEqual(review.title, { en: 'Written via the API' });
+  t.regex(review.html.en, /<em>JSON<\/em>/);
+  t.is(review.starRating, 4);
+  t.deepEqual(review.thing.urls, [url]);
+  t.deepEqual(review.thing.label, { en: 'API Product' });
+
+  const stored = await Review.getWithData(review.id);
+  t.is(stored.createdBy, review.creator.id);
+});
+
+test.serial('POST /api/reviews reports validation errors in the API error format', async t => {
+  const agent = await signedInAgent(`APIInvalidReviewer-${Date.now()}`);
+
+  const response = await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send({ url: 'not a url', starRating: 9, unexpected: true })
+    .expect(400)
+    .expect('Content-Type', /json/);
+
+  t.is(response.body.message, 'Could not perform action.');
+  t.true(response.body.errors.length >= 4, 'reports url, title, text, rating and unknown key');
+});
+
+test.serial('POST /api/reviews rejects a second review of the same subject', async t => {
+  const agent = await signedInAgent(`APIRepeatReviewer-${Date.now()}`);
+  const url = `https://example.com/api-repeat-review-${Date.now()}`;
+
+  await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(reviewBody(url))
+    .expect(201);
+  const response = await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(reviewBody(url))
+    .expect(400);
+
+  t.is(response.body.errors.length, 1);
+});
+
+test.serial('POST /api/reviews requires authentication', async t => {
+  await supertest(app)
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(reviewBody('https://example.com/api-anonymous-review'))
+    .expect(401);
+  t.pass();
+});
+
+test.serial('PUT /api/review/:id edits a review; only the author may edit', async t => {
+  const agent = await signedInAgent(`APIEditor-${Date.now()}`);
+  const created = await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(reviewBody(`https://example.com/api-edited-review-${Date.now()}`))
+    .expect(201);
+  const { id } = created.body.review;
+
+  const { url: _url, ...editBody } = reviewBody('');
+  const response = await agent
+    .put(`/api/review/${id}`)
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send({ ...editBody, title: 'Edited via the API', starRating: 2 })
+    .expect(200);
+  t.deepEqual(response.body.review.title, { en: 'Edited via the API' });
+  t.is(response.body.review.starRating, 2);
+
+  const urlChange = await agent
+    .put(`/api/review/${id}`)
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send({ ...editBody, url: 'https://example.com/elsewhere' })
+    .expect(400);
+  t.regex(urlChange.body.errors[0], /cannot be changed/);
+
+  const otherAgent = await signedInAgent(`APINotTheAuthor-${Date.now()}`);
+  await otherAgent
+    .put(`/api/review/${id}`)
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(editBody)
+    .expect(403);
+
+  await agent
+    .put('/api/review/4bd6e0bb-4a8e-4a1d-8a5f-0d8a7c0f3a11')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(editBody)
+    .expect(404);
+});
+
+test.serial('DELETE /api/review/:id deletes a review', async t => {
+  const agent = await signedInAgent(`APIDeleter-${Date.now()}`);
+  const created = await agent
+    .post('/api/reviews')
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .send(reviewBody(`https://example.com/api-deleted-review-${Date.now()}`))
+    .expect(201);
+  const { id } = created.body.review;
+
+  const otherAgent = await signedInAgent(`APINotTheDeleter-${Date.now()}`);
+  await otherAgent
+    .delete(`/api/review/${id}`)
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .expect(403);
+
+  const response = await agent
+    .delete(`/api/review/${id}`)
+    .set('X-Requested-With', 'XMLHttpRequest')
+    .expect(200);
+  t.is(response.body.message, 'Review deleted.');
+
+  await supertest(app).get(`/api/review/${id}`).expect(404);
+});
+
 // ============================================================================
 // POST /api/actions/modify-preference - User Preference Management
 // ============================================================================
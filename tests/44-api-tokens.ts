@@ -0,0 +1,169 @@
+import test from 'ava';
+import supertest from 'supertest';
+import { extractCSRF, registerTestUser } from './helpers/integration-helpers.ts';
+import { mockSearch, unmockSearch } from './helpers/mock-search.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const loadAppModule = () => import('../app.ts');
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'api_tokens',
+  cleanupTables: ['api_tokens', 'users'],
+});
+
+let ApiToken: any;
+let User: any;
+let app: any;
+
+test.before(async () => {
+  await bootstrapPromise;
+  mockSearch();
+
+  const models = await dalFixture.initializeModels([
+    { key: 'api_tokens', alias: 'ApiToken' },
+    { key: 'users', alias: 'User' },
+  ]);
+  ApiToken = models.ApiToken;
+  User = models.User;
+
+  const { default: getApp, resetAppForTesting } = await loadAppModule();
+  if (typeof resetAppForTesting === 'function') await resetAppForTesting();
+  app = await getApp();
+});
+
+test.after.always(unmockSearch);
+
+const createUser = (name: string) => dalFixture.createTestUser(name);
+
+// Register through the web UI, then create a token through the settings page
+const createTokenViaSettings = async (username: string, scopes: string[]) => {
+  const agent = supertest.agent(app);
+  await registerTestUser(agent, { username });
+  const urlName = username.replace(/ /g, '_');
+
+  const pageResponse = await agent.get(`/user/${urlName}/settings/tokens`).expect(200);
+  const csrf = extractCSRF(pageResponse.text);
+  if (!csrf) throw new Error('Could not obtain CSRF token from token settings page.');
+
+  const createResponse = await agent
+    .post(`/user/${urlName}/settings/tokens`)
+    .type('form')
+    .send({ _csrf: csrf, 'token-name': 'Test script', 'token-scopes': scopes })
+    .expect(200);
+
+  const match = createResponse.text.match(/id="access-token-secret">([^<]+)</);
+  if (!match) throw new Error('Newly created token secret was not shown.');
+  return { agent, urlName, secret: match[1] };
+};
+
+test.serial('ApiToken.issue stores only a hash of the secret', async t => {
+  const user = await createUser('Token Owner');
+  const { token, secret } = await ApiToken.issue(user.id, 'CLI', ['review:write', 'upload']);
+
+  t.true(secret.startsWith(ApiToken.options.secretPrefix));
+  t.is(token.tokenPrefix, secret.slice(0, ApiToken.options.displayPrefixLength));
+
+  const [stored] = await ApiToken.filterWhere({ id: token.id })
+    .includeSensitive(['tokenHash'])
+    .run();
+  t.not(stored.tokenHash, secret);
+  t.is(stored.tokenHash, ApiToken.hashSecret(secret));
+  t.deepEqual(stored.scopes, ['review:write', 'upload']);
+});
+
+test.serial('ApiToken.findBySecret ignores unknown and revoked tokens', async t => {
+  const user = await createUser('Revoking User');
+  const other = await createUser('Other User');
+  const { token, secret } = await ApiToken.issue(user.id, 'Phone', ['preferences']);
+
+  const found = await ApiToken.findBySecret(secret);
+  t.is(found?.id, token.id);
+  t.true(found.hasScope('preferences'));
+  t.false(found.hasScope('upload'));
+
+  t.is(await ApiToken.findBySecret(`${secret}x`), null);
+  t.is(await ApiToken.findBySecret('not-a-token'), null);
+
+  t.false(await ApiToken.revoke(token.id, other.id), 'only the owner can revoke a token');
+  t.true(await ApiToken.revoke(token.id, user.id));
+  t.is(await ApiToken.findBySecret(secret), null);
+  t.deepEqual(await ApiToken.getActiveForUser(user.id), []);
+});
+
+test.serial('Token-authenticated API writes need no session or X-Requested-With', async t => {
+  const username = `TokenWriter-${Date.now()}`;
+  const { urlName, secret } = await createTokenViaSettings(username, ['preferences']);
+
+  const response = await supertest(app)
+    .post('/api/actions/suppress-notice')
+    .set('Authorization', `Bearer ${secret}`)
+    .send({ noticeType: 'language-notice-review' })
+    .expect(200)
+    .expect('Content-Type', /json/);
+
+  t.deepEqual(response.body.errors, []);
+  const cookies = [response.headers['set-cookie'] ?? []].flat().join('\n');
+  t.notRegex(cookies, /libreviews_session/, 'token requests should not start a session');
+
+  const user = await User.findByURLName(urlName);
+  t.true(user.suppressedNotices.includes('language-notice-review'));
+
+  const [token] = await ApiToken.getActiveForUser(user.id);
+  t.is(token.name, 'Test script');
+});
+
+test.serial('API writes are rejected when the token lacks the required scope', async t => {
+  const { secret } = await createTokenViaSettings(`ScopedUser-${Date.now()}`, ['upload']);
+
+  const response = await supertest(app)
+    .post('/api/actions/enable-preference')
+    .set('Authorization', `Bearer ${secret}`)
+    .send({ preferenceName: 'prefersRichTextEditor' })
+    .expect(403)
+    .expect('Content-Type', /json/);
+
+  t.is(response.body.message, 'Could not perform action.');
+  t.regex(response.body.errors[0], /preferences/);
+});
+
+test.serial('Unknown and revoked tokens are rejected on read and write routes', async t => {
+  const { agent, urlName, secret } = await createTokenViaSettings(`RevokeUser-${Date.now()}`, [
+    'preferences',
+  ]);
+
+  const invalid = await supertest(app)
+    .get('/api/reviews')
+    .set('Authorization', 'Bearer lrpat_invalid')
+    .expect(401);
+  t.is(invalid.body.message, 'Access denied.');
+  t.regex(invalid.headers['www-authenticate'], /invalid_token/);
+
+  const user = await User.findByURLName(urlName);
+  const [token] = await ApiToken.getActiveForUser(user.id);
+  const pageResponse = await agent.get(`/user/${urlName}/settings/tokens`).expect(200);
+  await agent
+    .post(`/user/${urlName}/settings/tokens/${token.id}/revoke`)
+    .type('form')
+    .send({ _csrf: extractCSRF(pageResponse.text) })
+    .expect(302);
+
+  await supertest(app)
+    .post('/api/actions/suppress-notice')
+    .set('Authorization', `Bearer ${secret}`)
+    .send({ noticeType: 'language-notice-review' })
+    .expect(401);
+  t.pass();
+});
+
+test.serial('Token settings pages are only available to their owner', async t => {
+  const { urlName } = await createTokenViaSettings(`PrivateUser-${Date.now()}`, ['upload']);
+
+  const otherAgent = supertest.agent(app);
+  await registerTestUser(otherAgent, { username: `Snooper-${Date.now()}` });
+  const response = await otherAgent.get(`/user/${urlName}/settings/tokens`).expect(403);
+  t.notRegex(response.text, /Test script/);
+
+  const signedOut = await supertest(app).get(`/user/${urlName}/settings/tokens`).expect(200);
+  t.notRegex(signedOut.text, /Test script/);
+  t.notRegex(signedOut.text, /access-token-form/);
+});
@@ -0,0 +1,108 @@
+import test from 'ava';
+import supertest from 'supertest';
+import { mockSearch, unmockSearch } from './helpers/mock-search.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const loadAppModule = () => import('../app.ts');
+
+const { bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'openapi',
+});
+
+let app: any;
+let document: any;
+
+test.before(async () => {
+  await bootstrapPromise;
+  mockSearch();
+
+  const { default: getApp, resetAppForTesting } = await loadAppModule();
+  if (typeof resetAppForTesting === 'function') await resetAppForTesting();
+  app = await getApp();
+
+  const response = await supertest(app)
+    .get('/api/openapi.json')
+    .expect(200)
+    .expect('Content-Type', /json/);
+  document = response.body;
+});
+
+test.after.always(unmockSearch);
+
+test('OpenAPI document describes every route of the API router', async t => {
+  const { default: apiRouter } = await import('../routes/api.ts');
+  t.is(document.openapi, '3.1.0');
+
+  const routes = apiRouter.stack
+    .filter((layer: any) => layer.route)
+    .flatMap((layer: any) =>
+      Object.keys(layer.route.methods).map(method => ({
+        method,
+        path: String(layer.route.path).replace(/:(\w+)/g, '{$1}'),
+      }))
+    );
+  t.true(routes.length > 10);
+
+  for (const { method, path } of routes)
+    t.truthy(document.paths[path]?.[method], `${method.toUpperCase()} ${path} is documented`);
+});
+
+test('Review request bodies use the JSON field names and list required fields', t => {
+  const createBody = document.paths['/reviews'].post.requestBody.content['application/json'].schema;
+  t.deepEqual(Object.keys(createBody.properties).sort(), [
+    'files',
+    'label',
+    'language',
+    'socialImageID',
+    'starRating',
+    'teams',
+    'text',
+    'title',
+    'url',
+  ]);
+  t.deepEqual([...createBody.required].sort(), ['starRating', 'text', 'title', 'url']);
+  t.is(createBody.properties.starRating.type, 'integer');
+  t.false(createBody.additionalProperties);
+
+  const updateBody =
+    document.paths['/review/{id}'].put.requestBody.content['application/json'].schema;
+  t.false(updateBody.required.includes('url'));
+  t.deepEqual(document.paths['/review/{id}'].put.security[0], { accessToken: ['review:write'] });
+});
+
+test('Response schemas are published as components', t => {
+  const { schemas } = document.components;
+  t.is(
+    document.paths['/reviews'].get.responses['200'].content['application/json'].schema.$ref,
+    '#/components/schemas/ReviewFeed'
+  );
+  t.is(schemas.ReviewFeed.properties.reviews.items.$ref, '#/components/schemas/Review');
+  t.deepEqual(Object.keys(schemas.Review.properties).sort(), [
+    'createdOn',
+    'creator',
+    'html',
+    'id',
+    'originalLanguage',
+    'socialImageID',
+    'starRating',
+    'teams',
+    'text',
+    'thing',
+    'thingID',
+    'title',
+    'url',
+  ]);
+
+  const limit = document.paths['/reviews'].get.parameters.find(
+    (parameter: any) => parameter.name === 'limit'
+  );
+  t.is(limit.in, 'query');
+  t.is(limit.schema.maximum, 50);
+});
+
+test('API documentation page lists the operations', async t => {
+  const response = await supertest(app).get('/api-docs').expect(200);
+  t.regex(response.text, /id="createReview"/);
+  t.regex(response.text, /POST \/api\/reviews/);
+  t.regex(response.text, /id="schema-Review"/);
+});
@@ -0,0 +1,231 @@
+import test from 'ava';
+import { randomUUID } from 'crypto';
+import { getReviewMetricsBoost, parseURLQuery } from '../search/backend.ts';
+import postgresBackend, { toTSQuery } from '../search/postgres.ts';
+import { ensureUserExists } from './helpers/dal-helpers-ava.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'postgres_search',
+  cleanupTables: ['review_teams', 'reviews', 'blog_posts', 'teams', 'things', 'users'],
+});
+
+let userID: string;
+let thingID: string;
+let reviewID: string;
+let teamID: string;
+let postID: string;
+
+test.before(async () => {
+  await bootstrapPromise;
+  await dalFixture.initializeModels([
+    { key: 'things', alias: 'Thing' },
+    { key: 'reviews', alias: 'Review' },
+    { key: 'teams', alias: 'Team' },
+    { key: 'blog_posts', alias: 'BlogPost' },
+  ]);
+  const { Thing, Review, Team, BlogPost } = dalFixture;
+
+  userID = randomUUID();
+  const user = { id: userID, is_super_user: false, is_trusted: true };
+  await ensureUserExists(dalFixture, userID, 'Search User');
+
+  const thing = await Thing.createFirstRevision(user, { tags: ['create'] });
+  thing.urls = ['https://www.wikidata.org/wiki/Q89', 'https://example.com/apples'];
+  thing.label = { en: 'Crunchy Apples', de: 'Knackige Äpfel' };
+  thing.metadata = { description: { en: 'Fruit from the orchard & the farm' } };
+  thing.originalLanguage = 'en';
+  thing.createdOn = new Date();
+  thing.createdBy = userID;
+  await thing.save();
+  thingID = thing.id;
+
+  const review = await Review.createFirstRevision(user, { tags: ['create'] });
+  review.thingID = thing.id;
+  review.title = { en: 'Sweet and sour' };
+  review.text = { en: 'These apples are wonderfully crunchy, with a sour finish.' };
+  review.html = { en: '<p>These apples are wonderfully crunchy, with a sour finish.</p>' };
+  review.starRating = 4;
+  review.originalLanguage = 'en';
+  review.createdOn = new Date();
+  review.createdBy = userID;
+  await review.save();
+  reviewID = review.id;
+
+  const team = await Team.createFirstRevision(user, { tags: ['create'] });
+  team.name = { en: 'Orchard Keepers' };
+  team.motto = { en: 'An apple a day' };
+  team.originalLanguage = 'en';
+  team.createdOn = new Date();
+  team.createdBy = userID;
+  await team.save();
+  teamID = team.id;
+
+  const post = await BlogPost.createFirstRevision(user, { tags: ['create'] });
+  post.teamID = team.id;
+  post.title = { en: 'Harvest report' };
+  post.text = { en: 'The pears were late this year.' };
+  post.html = { en: '<p>The pears were late this year.</p>' };
+  post.originalLanguage = 'en';
+  post.createdOn = new Date();
+  post.createdBy = userID;
+  await post.save();
+  postID = post.id;
+});
+
+test('toTSQuery translates the simple query string syntax', t => {
+  t.is(toTSQuery('apples oranges'), "'apples' & 'oranges'");
+  t.is(toTSQuery('apples -oranges'), "'apples' & !'oranges'");
+  t.is(toTSQuery('"sour finish" | liz*'), "(('sour' <-> 'finish')) | ('liz':*)");
+  t.is(toTSQuery("it's"), "('it' <-> 's')");
+  t.is(toTSQuery(' -- '), null);
+});
+
+test.serial('findThings matches labels and highlights HTML-escaped fragments', async t => {
+  const page = await postgresBackend.findThings('orchard', { lang: 'en' });
+  t.is(page.total, 1);
+  t.is(page.hits[0].id, thingID);
+  t.deepEqual(page.hits[0].label, { en: 'Crunchy Apples', de: 'Knackige Äpfel' });
+  t.regex(
+    page.hits[0].highlights.description[0],
+    /<span class="search-highlight">orchard<\/span> &amp; the farm/
+  );
+
+  const german = await postgresBackend.findThings('knack*', { lang: 'de' });
+  t.is(german.total, 1);
+
+  const withSource = await postgresBackend.findThings('apples', {
+    filters: { sourceTag: 'databases' },
+  });
+  t.is(withSource.total, 1);
+  const withOtherSource = await postgresBackend.findThings('apples', {
+    filters: { sourceTag: 'shops' },
+  });
+  t.is(withOtherSource.total, 0);
+
+  const tooGood = await postgresBackend.findThings('apples', { filters: { minRating: 5 } });
+  t.is(tooGood.total, 0);
+});
+
+test.serial('findReviews returns filtered review hits with facets', async t => {
+  const page = await postgresBackend.findReviews('crunchy sour', { sort: 'rating' });
+  t.is(page.total, 1);
+  t.like(page.hits[0], { id: reviewID, thingID, starRating: 4, originalLanguage: 'en' });
+  t.is(page.hits[0].thing?.id, thingID);
+  t.regex(page.hits[0].highlights.text[0], /<span class="search-highlight">crunchy<\/span>/);
+  t.deepEqual(page.facets.starRating, [{ value: 4, count: 1 }]);
+  t.deepEqual(page.facets.language, [{ value: 'en', count: 1 }]);
+
+  const filtered = await postgresBackend.findReviews('crunchy', {
+    filters: { maxRating: 3, language: 'en' },
+  });
+  t.is(filtered.total, 0);
+  t.deepEqual(filtered.hits, []);
+});
+
+test('parseURLQuery recognizes URLs and domains', t => {
+  t.deepEqual(parseURLQuery(' https://openlibrary.org/works/OL1W '), {
+    url: 'https://openlibrary.org/works/OL1W',
+    urls: ['https://openlibrary.org/works/OL1W'],
+  });
+  t.deepEqual(parseURLQuery('www.OpenLibrary.org'), { domain: 'openlibrary.org' });
+  t.is(parseURLQuery('open library'), null);
+  t.is(parseURLQuery('openlibrary'), null);
+});
+
+test.serial('findThings matches URLs exactly and domains by host', async t => {
+  const exact = await postgresBackend.findThings('https://example.com/apples');
+  t.deepEqual(
+    exact.hits.map(hit => hit.id),
+    [thingID]
+  );
+  t.is((await postgresBackend.findThings('https://example.com/apple')).total, 0);
+
+  const domain = await postgresBackend.findThings('wikidata.org');
+  t.deepEqual(
+    domain.hits.map(hit => hit.id),
+    [thingID]
+  );
+  t.is((await postgresBackend.findThings('data.org')).total, 0);
+});
+
+test('getReviewMetricsBoost only boosts reviewed things', t => {
+  t.is(getReviewMetricsBoost(0, 0), 1);
+  t.true(getReviewMetricsBoost(40, 5) > getReviewMetricsBoost(40, 1));
+  t.true(getReviewMetricsBoost(40, 1) > getReviewMetricsBoost(1, 5));
+});
+
+test.serial('well-reviewed things rank first in searches and suggestions', async t => {
+  const { Thing, Review } = dalFixture;
+  const user = { id: userID, is_super_user: false, is_trusted: true };
+  const createThing = async (label: string) => {
+    const thing = await Thing.createFirstRevision(user, { tags: ['create'] });
+    thing.urls = [`https://example.com/${randomUUID()}`];
+    thing.label = { en: label };
+    thing.createdOn = new Date();
+    thing.createdBy = userID;
+    await thing.save();
+    return thing;
+  };
+  const unreviewed = await createThing('Gizmo One');
+  const reviewed = await createThing('Gizmo Basic');
+  const review = await Review.createFirstRevision(user, { tags: ['create'] });
+  review.thingID = reviewed.id;
+  review.title = { en: 'Works well' };
+  review.text = { en: 'No complaints.' };
+  review.html = { en: '<p>No complaints.</p>' };
+  review.starRating = 5;
+  review.originalLanguage = 'en';
+  review.createdOn = new Date();
+  review.createdBy = userID;
+  await review.save();
+
+  const page = await postgresBackend.findThings('gizmo');
+  t.deepEqual(
+    page.hits.map(hit => hit.id),
+    [reviewed.id, unreviewed.id]
+  );
+
+  const suggestions = await postgresBackend.suggestThing('giz', 'en');
+  t.deepEqual(
+    suggestions.suggest['labels-en'][0].options.map(option => option._id),
+    [reviewed.id, unreviewed.id]
+  );
+});
+
+test.serial('findTeams and findBlogPosts match names, mottos and post text', async t => {
+  const teams = await postgresBackend.findTeams('apple');
+  t.is(teams.total, 1);
+  t.like(teams.hits[0], { id: teamID, urlID: teamID });
+  t.regex(teams.hits[0].highlights.motto[0], /<span class="search-highlight">apple<\/span>/);
+
+  const posts = await postgresBackend.findBlogPosts('pears');
+  t.is(posts.total, 1);
+  t.like(posts.hits[0], { id: postID, teamID, originalLanguage: 'en' });
+
+  const otherTeam = await postgresBackend.findBlogPosts('pears', {
+    filters: { teamID: randomUUID() },
+  });
+  t.is(otherTeam.total, 0);
+});
+
+test.serial(
+  'searchThings, searchReviews and suggestThing keep the ElasticSearch shapes',
+  async t => {
+    const things = await postgresBackend.searchThings('apples', 'en');
+    t.is(things.hits.hits[0]._id, thingID);
+
+    const reviews = await postgresBackend.searchReviews('sour', 'en');
+    t.is(reviews.hits.hits[0]._id, thingID);
+    t.is(reviews.hits.hits[0].inner_hits.review.hits.hits[0]._id, reviewID);
+
+    const suggestions = await postgresBackend.suggestThing('crun', 'en');
+    const [{ options }] = suggestions.suggest['labels-en'];
+    t.is(options.length, 1);
+    t.is(options[0]._source.urlID, thingID);
+    t.deepEqual(
+      suggestions.suggest['labels-en'],
+      (await postgresBackend.suggestThing('CRUN')).suggest['labels-en']
+    );
+  }
+);
@@ -0,0 +1,93 @@
+import test from 'ava';
+import { randomUUID } from 'crypto';
+import searchOutbox from '../search/outbox.ts';
+import search from '../search.ts';
+import { ensureUserExists } from './helpers/dal-helpers-ava.ts';
+import { mockSearch, unmockSearch } from './helpers/mock-search.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'search_outbox',
+  cleanupTables: ['search_index_outbox', 'things', 'users'],
+});
+
+let captured: ReturnType<typeof mockSearch>;
+let thingID: string;
+
+test.before(async () => {
+  await bootstrapPromise;
+  captured = mockSearch();
+  await dalFixture.initializeModels([{ key: 'things', alias: 'Thing' }]);
+
+  const userID = randomUUID();
+  const user = { id: userID, is_super_user: false, is_trusted: true };
+  await ensureUserExists(dalFixture, userID, 'Outbox User');
+
+  const thing = await dalFixture.Thing.createFirstRevision(user, { tags: ['create'] });
+  thing.urls = ['https://example.com/outbox'];
+  thing.label = { en: 'Queued thing' };
+  thing.createdOn = new Date();
+  thing.createdBy = userID;
+  await thing.save();
+  thingID = thing.id;
+});
+
+test.after.always(unmockSearch);
+
+test.serial('queued updates are sent to the search backend and removed', async t => {
+  captured.indexedItems.length = 0;
+  await searchOutbox.queueThing({ id: thingID });
+  // Queueing again replaces the pending update instead of adding another one
+  await searchOutbox.queueThing({ id: thingID });
+  t.is((await searchOutbox.list()).length, 1);
+
+  const result = await searchOutbox.processDue();
+  t.deepEqual(result, { processed: 1, failed: 0 });
+  t.is(captured.indexedItems.length, 1);
+  t.is(captured.indexedItems[0].data.id, thingID);
+  t.deepEqual(await searchOutbox.list(), []);
+});
+
+test.serial('failed updates are retried later and can be replayed', async t => {
+  const originalIndexThing = search.indexThing;
+  search.indexThing = async () => {
+    throw new Error('Search backend unavailable');
+  };
+  try {
+    await searchOutbox.queueThing({ id: thingID });
+    t.deepEqual(await searchOutbox.processDue(), { processed: 0, failed: 1 });
+
+    const [item] = await searchOutbox.list('pending');
+    t.is(item.attempts, 1);
+    t.is(item.lastError, 'Search backend unavailable');
+    t.true(item.nextAttemptAt.getTime() > Date.now());
+    // Not due yet, so nothing happens
+    t.deepEqual(await searchOutbox.processDue(), { processed: 0, failed: 0 });
+
+    await dalFixture.query(
+      `UPDATE ${dalFixture.getTableName('search_index_outbox')} SET status = 'failed' WHERE id = $1`,
+      [item.id]
+    );
+    t.is(await searchOutbox.replayFailed(), 1);
+  } finally {
+    search.indexThing = originalIndexThing;
+  }
+
+  t.deepEqual(await searchOutbox.processDue(), { processed: 1, failed: 0 });
+  t.deepEqual(await searchOutbox.list(), []);
+});
+
+test.serial('delete operations remove the document from the index', async t => {
+  const deleted: string[] = [];
+  const originalDeleteThing = search.deleteThing;
+  search.deleteThing = async thing => {
+    deleted.push(thing.id);
+  };
+  try {
+    await searchOutbox.queueThingDeletion({ id: thingID });
+    t.deepEqual(await searchOutbox.processDue(), { processed: 1, failed: 0 });
+    t.deepEqual(deleted, [thingID]);
+  } finally {
+    search.deleteThing = originalDeleteThing;
+  }
+});
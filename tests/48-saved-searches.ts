@@ -0,0 +1,155 @@
+import test from 'ava';
+import supertest from 'supertest';
+import { extractCSRF, registerTestUser } from './helpers/integration-helpers.ts';
+import { type MockSearchCapture, mockSearch, unmockSearch } from './helpers/mock-search.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const loadAppModule = () => import('../app.ts');
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'saved_searches',
+  cleanupTables: ['saved_searches', 'users'],
+});
+
+let SavedSearch: any;
+let User: any;
+let app: any;
+let searchMock: MockSearchCapture;
+
+test.before(async () => {
+  await bootstrapPromise;
+  searchMock = mockSearch();
+
+  const models = await dalFixture.initializeModels([
+    { key: 'saved_searches', alias: 'SavedSearch' },
+    { key: 'users', alias: 'User' },
+  ]);
+  SavedSearch = models.SavedSearch;
+  User = models.User;
+
+  const { default: getApp, resetAppForTesting } = await loadAppModule();
+  if (typeof resetAppForTesting === 'function') await resetAppForTesting();
+  app = await getApp();
+});
+
+test.after.always(unmockSearch);
+
+const createUser = (name: string) => dalFixture.createTestUser(name);
+
+const getURLName = async (id: string) => (await User.filterWhere({ id }).first()).urlName;
+
+test.serial('SavedSearch.getOwned only returns searches of the given user', async t => {
+  const user = await createUser('Searcher');
+  const other = await createUser('Other Searcher');
+  const savedSearch = await SavedSearch.createForUser(user.id, {
+    query: 'espresso',
+    filters: { language: 'de', minRating: 4, teamID: undefined },
+    lang: 'en',
+    notifyByEmail: true,
+  });
+
+  t.deepEqual(savedSearch.filters, { language: 'de', minRating: 4 });
+  t.is((await SavedSearch.getOwned(savedSearch.id, user.id))?.id, savedSearch.id);
+  t.is(await SavedSearch.getOwned(savedSearch.id, other.id), null);
+  t.is(await SavedSearch.getOwned('not-a-uuid', user.id), null);
+  t.is(
+    savedSearch.getSearchURL(),
+    '/actions/search?query=espresso&sort=date&minRating=4&language=de'
+  );
+});
+
+test.serial('checkForNewMatches searches the period since the last check', async t => {
+  const user = await createUser('Alert Recipient');
+  const savedSearch = await SavedSearch.createForUser(user.id, {
+    query: 'grinder',
+    filters: { sourceTag: 'shops' },
+    lang: 'en',
+    notifyByEmail: true,
+  });
+  const lastCheckedAt = savedSearch.lastCheckedAt;
+  const until = new Date(lastCheckedAt.getTime() + 60 * 1000);
+
+  searchMock.searchQueries.length = 0;
+  const check = await savedSearch.checkForNewMatches(until);
+  t.deepEqual(check.until, until);
+
+  const reviewQuery = searchMock.searchQueries.find(query => query.type === 'findReviews');
+  if (!reviewQuery || !('options' in reviewQuery)) return t.fail('reviews were not searched');
+  t.is(reviewQuery.query, 'grinder');
+  t.is(reviewQuery.options.sort, 'date');
+  t.is(reviewQuery.options.filters?.sourceTag, 'shops');
+  t.deepEqual(reviewQuery.options.filters?.createdAfter, lastCheckedAt);
+  t.deepEqual(reviewQuery.options.filters?.createdBefore, new Date(until.getTime() - 1));
+
+  // Not marked as checked until the results have been handled
+  const [unchanged] = await SavedSearch.filterWhere({ id: savedSearch.id }).run();
+  t.deepEqual(unchanged.lastCheckedAt, lastCheckedAt);
+
+  await savedSearch.markChecked(check.until);
+  const [stored] = await SavedSearch.filterWhere({ id: savedSearch.id }).run();
+  t.deepEqual(stored.lastCheckedAt, until);
+
+  // Checking the same period again doesn't search at all
+  searchMock.searchQueries.length = 0;
+  const { reviews } = await stored.checkForNewMatches(until);
+  t.is(reviews.total, 0);
+  t.is(searchMock.searchQueries.length, 0);
+});
+
+test.serial('Searches can be saved from the search page and deleted', async t => {
+  const agent = supertest.agent(app);
+  const username = `SavingUser-${Date.now()}`;
+  await registerTestUser(agent, { username });
+  const urlName = username.replace(/ /g, '_');
+
+  const searchPage = await agent.get('/actions/search?query=kettle&minRating=3').expect(200);
+  t.regex(searchPage.text, new RegExp(`action="/user/${urlName}/settings/searches"`));
+  const csrf = extractCSRF(searchPage.text);
+  if (!csrf) return t.fail('Could not obtain CSRF token from search page.');
+
+  await agent
+    .post(`/user/${urlName}/settings/searches`)
+    .type('form')
+    .send({ _csrf: csrf, query: 'kettle', minRating: '3' })
+    .expect(302)
+    .expect('Location', `/user/${urlName}/settings/searches`);
+
+  const user = await User.findByURLName(urlName);
+  const [savedSearch] = await SavedSearch.getForUser(user.id);
+  t.is(savedSearch.query, 'kettle');
+  t.deepEqual(savedSearch.filters, { minRating: 3 });
+  t.false(savedSearch.notifyByEmail);
+
+  const settingsPage = await agent.get(`/user/${urlName}/settings/searches`).expect(200);
+  t.regex(settingsPage.text, /kettle/);
+  t.regex(settingsPage.text, new RegExp(`${savedSearch.id}/atom`));
+
+  await agent
+    .post(`/user/${urlName}/settings/searches/${savedSearch.id}/delete`)
+    .type('form')
+    .send({ _csrf: extractCSRF(settingsPage.text) })
+    .expect(302);
+  t.deepEqual(await SavedSearch.getForUser(user.id), []);
+});
+
+test.serial('Saved search feeds are Atom documents', async t => {
+  const user = await createUser('Feed Reader');
+  const savedSearch = await SavedSearch.createForUser(user.id, {
+    query: 'tea <pot>',
+    filters: {},
+    lang: 'en',
+    notifyByEmail: false,
+  });
+
+  const response = await supertest(app)
+    .get(`/user/${await getURLName(user.id)}/settings/searches/${savedSearch.id}/atom`)
+    .expect(200)
+    .expect('Content-Type', /application\/atom\+xml/);
+  t.regex(response.text, /<feed xmlns="http:\/\/www.w3.org\/2005\/Atom">/);
+  t.notRegex(response.text, /<pot>/, 'the query is escaped');
+
+  const other = await createUser('Feed Guesser');
+  await supertest(app)
+    .get(`/user/${await getURLName(other.id)}/settings/searches/${savedSearch.id}/atom`)
+    .expect(404);
+});
@@ -0,0 +1,102 @@
+import test from 'ava';
+import http from 'http';
+import webhookDeliveries from '../util/webhook-deliveries.ts';
+import WebHookDispatcher from '../util/webhooks.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'webhook_deliveries',
+  cleanupTables: ['webhook_delivery_attempts', 'webhook_deliveries'],
+});
+
+// Endpoint that fails until told otherwise
+let endpointStatus = 500;
+const received: unknown[] = [];
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    received.push(JSON.parse(Buffer.concat(chunks).toString()));
+    res.statusCode = endpointStatus;
+    res.end();
+  });
+});
+
+let dispatcher: WebHookDispatcher;
+
+test.before(async () => {
+  await bootstrapPromise;
+  const port = await new Promise<number>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      if (address && typeof address === 'object') resolve(address.port);
+      else reject(new Error('Server did not expose an address with a port.'));
+    });
+  });
+  dispatcher = new WebHookDispatcher(
+    { newReview: [`http://127.0.0.1:${port}/reviews`] },
+    { store: webhookDeliveries, logger: () => {} }
+  );
+});
+
+test.after.always(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const makeDue = (id: string) =>
+  dalFixture.query(
+    `UPDATE ${dalFixture.getTableName('webhook_deliveries')} SET next_attempt_at = NOW() WHERE id = $1`,
+    [id]
+  );
+
+test.serial('failed deliveries are logged and retried with backoff', async t => {
+  endpointStatus = 500;
+  received.length = 0;
+  const result = await dispatcher.trigger('newReview', { event: 'new-review', data: { n: 1 } });
+  const { id } = result.deliveries[0];
+  if (!id) return t.fail('delivery was not stored');
+
+  const [delivery] = await webhookDeliveries.list('pending');
+  t.is(delivery.id, id);
+  t.is(delivery.attempts, 1);
+  t.is(delivery.lastStatusCode, 500);
+  t.deepEqual(delivery.payload, { event: 'new-review', data: { n: 1 } });
+  t.true(delivery.nextAttemptAt.getTime() > Date.now());
+  // Not due yet, so nothing happens
+  t.deepEqual(await webhookDeliveries.processDue(dispatcher), { delivered: 0, failed: 0 });
+
+  endpointStatus = 204;
+  await makeDue(id);
+  t.deepEqual(await webhookDeliveries.processDue(dispatcher), { delivered: 1, failed: 0 });
+  t.is(received.length, 2);
+
+  const [delivered] = await webhookDeliveries.list('delivered');
+  t.is(delivered.id, id);
+  t.truthy(delivered.deliveredAt);
+  const attempts = (await webhookDeliveries.getAttempts([id])).get(id) ?? [];
+  t.deepEqual(
+    attempts.map(attempt => [attempt.ok, attempt.statusCode]),
+    [
+      [false, 500],
+      [true, 204],
+    ]
+  );
+});
+
+test.serial('deliveries can be replayed', async t => {
+  endpointStatus = 204;
+  received.length = 0;
+  const result = await dispatcher.trigger('newReview', { event: 'new-review', data: { n: 2 } });
+  const { id } = result.deliveries[0];
+  if (!id) return t.fail('delivery was not stored');
+  t.is(received.length, 1);
+
+  t.is(await webhookDeliveries.replay([id]), 1);
+  const [pending] = await webhookDeliveries.list('pending');
+  t.is(pending.id, id);
+  t.is(pending.attempts, 0);
+
+  t.deepEqual(await webhookDeliveries.processDue(dispatcher), { delivered: 1, failed: 0 });
+  t.is(received.length, 2);
+  t.deepEqual(received[1], { event: 'new-review', data: { n: 2 } });
+  // Without IDs, only failed deliveries are replayed
+  t.is(await webhookDeliveries.replay(), 0);
+});
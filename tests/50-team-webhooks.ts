@@ -0,0 +1,77 @@
+import test from 'ava';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'team_webhooks',
+  cleanupTables: ['team_webhooks', 'team_slugs', 'teams', 'users'],
+});
+
+let Team: any;
+let TeamWebHook: any;
+
+test.before(async () => {
+  await bootstrapPromise;
+  const models = await dalFixture.initializeModels([
+    { key: 'teams', alias: 'Team' },
+    { key: 'team_webhooks', alias: 'TeamWebHook' },
+  ]);
+  Team = models.Team;
+  TeamWebHook = models.TeamWebHook;
+});
+
+const createTeam = async (name: string, userID: string) => {
+  const actor = { id: userID, is_super_user: false, is_trusted: true };
+  const team = await Team.createFirstRevision(actor, { tags: ['create'] });
+  team.name = { en: name };
+  team.createdBy = userID;
+  team.createdOn = new Date();
+  team.originalLanguage = 'en';
+  team.confersPermissions = {};
+  return team.save();
+};
+
+test.serial('TeamWebHook.getURLsForEvent only returns endpoints of the given teams', async t => {
+  const user = await dalFixture.createTestUser('Webhook Moderator');
+  const team = await createTeam('Webhook Team', user.id);
+  const otherTeam = await createTeam('Other Webhook Team', user.id);
+
+  await TeamWebHook.createForTeam(team.id, user.id, {
+    url: 'https://example.com/reviews',
+    events: ['newReview', 'reviewEdited'],
+  });
+  await TeamWebHook.createForTeam(team.id, user.id, {
+    url: 'https://example.com/blog',
+    events: ['blogPostPublished'],
+  });
+  await TeamWebHook.createForTeam(otherTeam.id, user.id, {
+    url: 'https://example.org/reviews',
+    events: ['newReview'],
+  });
+
+  t.deepEqual(await TeamWebHook.getURLsForEvent([team.id], 'newReview'), [
+    'https://example.com/reviews',
+  ]);
+  t.deepEqual(await TeamWebHook.getURLsForEvent([team.id], 'blogPostPublished'), [
+    'https://example.com/blog',
+  ]);
+  t.deepEqual(await TeamWebHook.getURLsForEvent([team.id], 'reviewDeleted'), []);
+  t.deepEqual((await TeamWebHook.getURLsForEvent([team.id, otherTeam.id], 'newReview')).sort(), [
+    'https://example.com/reviews',
+    'https://example.org/reviews',
+  ]);
+  t.deepEqual(await TeamWebHook.getURLsForEvent([], 'newReview'), []);
+});
+
+test.serial('TeamWebHook.getOwned ignores webhooks of other teams', async t => {
+  const user = await dalFixture.createTestUser('Webhook Owner');
+  const team = await createTeam('Owning Team', user.id);
+  const otherTeam = await createTeam('Unrelated Team', user.id);
+  const webHook = await TeamWebHook.createForTeam(team.id, user.id, {
+    url: 'https://example.com/owned',
+    events: ['reviewDeleted'],
+  });
+
+  t.is((await TeamWebHook.getOwned(webHook.id, team.id))?.url, 'https://example.com/owned');
+  t.is(await TeamWebHook.getOwned(webHook.id, otherTeam.id), null);
+  t.is(await TeamWebHook.getOwned('not-a-uuid', team.id), null);
+});
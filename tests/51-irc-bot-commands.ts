@@ -0,0 +1,115 @@
+import test from 'ava';
+import {
+  createIRCCommandHandler,
+  createNickRateLimiter,
+  parseIRCCommand,
+} from '../tools/irc-bot-commands.ts';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+function createHandler(responses: Record<string, Response>, rateLimit = 5) {
+  const requested: string[] = [];
+  const fetch = async (url: URL | RequestInfo) => {
+    const path = String(url).replace('https://lib.reviews/api/', '');
+    requested.push(path);
+    return responses[path] ?? jsonResponse({}, 500);
+  };
+  const answer = createIRCCommandHandler({
+    apiURL: 'https://lib.reviews/api/',
+    siteURL: 'https://lib.reviews/',
+    rateLimit,
+    fetch: fetch as typeof globalThis.fetch,
+  });
+  return { answer, requested };
+}
+
+test('commands are parsed from channel messages', t => {
+  t.is(parseIRCCommand('what about https://example.com?'), null);
+  t.deepEqual(parseIRCCommand('!lr https://example.com/'), {
+    command: 'thing',
+    url: 'https://example.com/',
+  });
+  t.deepEqual(parseIRCCommand('!lr search  the  hobbit '), {
+    command: 'search',
+    terms: 'the hobbit',
+  });
+  t.deepEqual(parseIRCCommand('!lr user Jane Doe'), { command: 'user', name: 'Jane Doe' });
+  t.deepEqual(parseIRCCommand('!lr'), { command: 'help' });
+  t.deepEqual(parseIRCCommand('!lr search'), { command: 'help' });
+  t.deepEqual(parseIRCCommand('!lr example.com'), { command: 'help' });
+});
+
+test('rate limits apply per nick within the window', t => {
+  const isAllowed = createNickRateLimiter(2, 1000);
+  t.true(isAllowed('alice', 0));
+  t.true(isAllowed('Alice', 10));
+  t.false(isAllowed('alice', 20));
+  t.true(isAllowed('bob', 20));
+  t.true(isAllowed('alice', 1001));
+});
+
+test('!lr <url> reports the rating and review count', async t => {
+  const { answer, requested } = createHandler({
+    'thing?url=https%3A%2F%2Fexample.com%2F': jsonResponse({
+      thing: {
+        label: { en: 'Example &amp; Co' },
+        urlID: 'example',
+        averageStarRating: 4.25,
+        numberOfReviews: 2,
+      },
+    }),
+    'thing?url=https%3A%2F%2Fexample.org%2F': jsonResponse({ errors: ['URL not found.'] }, 404),
+  });
+  t.is(
+    await answer('alice', '!lr https://example.com/'),
+    'Example & Co: 4.3/5 stars from 2 reviews - https://lib.reviews/example'
+  );
+  t.is(
+    await answer('alice', '!lr https://example.org/'),
+    'Nobody has reviewed https://example.org/ yet.'
+  );
+  t.is(requested.length, 2);
+});
+
+test('!lr search lists the top matches once each', async t => {
+  const { answer } = createHandler({
+    'suggest/thing/hob': jsonResponse({
+      results: {
+        'labels-en': [
+          { text: 'The Hobbit', urlID: 'the-hobbit' },
+          { text: 'Hobbies', urlID: 'hobbies' },
+        ],
+        'labels-de': [{ text: 'Der Hobbit', urlID: 'the-hobbit' }],
+      },
+    }),
+  });
+  t.is(
+    await answer('alice', '!lr search hob'),
+    'Top matches for "hob": The Hobbit (https://lib.reviews/the-hobbit), Hobbies (https://lib.reviews/hobbies)'
+  );
+});
+
+test('!lr user summarizes the profile', async t => {
+  const { answer } = createHandler({
+    'user/Jane%20Doe': jsonResponse({
+      displayName: 'Jane Doe',
+      registrationDate: '2020-05-01T12:00:00.000Z',
+      isSiteModerator: true,
+    }),
+  });
+  t.is(
+    await answer('alice', '!lr user Jane Doe'),
+    'Jane Doe (member since 2020-05-01, site moderator) - https://lib.reviews/user/Jane_Doe'
+  );
+});
+
+test('commands beyond the rate limit are ignored', async t => {
+  const { answer, requested } = createHandler({}, 1);
+  t.truthy(await answer('alice', '!lr'));
+  t.is(await answer('alice', '!lr user Jane'), null);
+  t.is(requested.length, 0);
+});
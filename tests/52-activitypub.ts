@@ -0,0 +1,137 @@
+import { generateKeyPairSync } from 'node:crypto';
+import test from 'ava';
+import config from 'config';
+import { activityPub } from '../util/activitypub.ts';
+import {
+  getDigest,
+  parseSignatureHeader,
+  signRequest,
+  verifyRequestSignature,
+} from '../util/http-signatures.ts';
+import publicFetch from '../util/public-fetch.ts';
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+const inboxURL = 'https://lib.reviews/ap/user/c5d2a8f0-3b1c-4c6e-9a8f-0e6f1d2b3c4d/inbox';
+const body = JSON.stringify({ type: 'Follow', actor: 'https://example.social/users/jane' });
+
+function signInboxRequest(date = new Date(), keyID = 'https://example.social/users/jane#main-key') {
+  const headers = signRequest({
+    keyID,
+    privateKey,
+    method: 'POST',
+    url: inboxURL,
+    body,
+    date,
+  });
+  const allHeaders: Record<string, string> = { ...headers, host: 'lib.reviews' };
+  return {
+    headers,
+    options: {
+      method: 'POST',
+      path: new URL(inboxURL).pathname,
+      getHeader: (name: string) => allHeaders[name],
+      body: Buffer.from(body),
+      publicKey,
+    },
+  };
+}
+
+test('signed requests carry date, digest and signature headers', t => {
+  const { headers } = signInboxRequest();
+  t.is(headers.digest, getDigest(body));
+  const parsed = parseSignatureHeader(headers.signature);
+  t.truthy(parsed);
+  t.is(parsed?.keyID, 'https://example.social/users/jane#main-key');
+  t.is(parsed?.algorithm, 'rsa-sha256');
+  t.deepEqual(parsed?.headers, ['(request-target)', 'host', 'date', 'digest']);
+});
+
+test('signatures over the request are verified', t => {
+  const { options } = signInboxRequest();
+  t.true(verifyRequestSignature(options));
+});
+
+test('signatures are rejected if the body, path or key do not match', t => {
+  const { options } = signInboxRequest();
+  t.false(verifyRequestSignature({ ...options, body: Buffer.from(`${body} `) }));
+  t.false(verifyRequestSignature({ ...options, path: '/ap/team/other/inbox' }));
+
+  const otherKey = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  t.false(verifyRequestSignature({ ...options, publicKey: otherKey.publicKey }));
+});
+
+test('signatures with a stale date are rejected', t => {
+  const { options } = signInboxRequest(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  t.false(verifyRequestSignature(options));
+});
+
+test('requests without a signature header are rejected', t => {
+  const { options } = signInboxRequest();
+  t.false(
+    verifyRequestSignature({
+      ...options,
+      getHeader: name => (name === 'signature' ? undefined : options.getHeader(name)),
+    })
+  );
+  t.is(parseSignatureHeader('keyId="incomplete"'), null);
+});
+
+test.serial('signers with keys on private addresses are not fetched', async t => {
+  const fetch = publicFetch.fetch;
+  let requests = 0;
+  publicFetch.fetch = async () => {
+    requests++;
+    return new Response(null, { status: 404 });
+  };
+  t.teardown(() => {
+    publicFetch.fetch = fetch;
+  });
+
+  for (const host of ['[::ffff:127.0.0.1]', '[::ffff:7f00:1]', '10.0.0.1']) {
+    const { options } = signInboxRequest(new Date(), `https://${host}/users/jane#main-key`);
+    const accepted = await activityPub.receive(
+      'user',
+      'c5d2a8f0-3b1c-4c6e-9a8f-0e6f1d2b3c4d',
+      options,
+      {
+        type: 'Follow',
+        actor: `https://${host}/users/jane`,
+      }
+    );
+    t.false(accepted, host);
+  }
+  t.is(requests, 0);
+});
+
+test('WebFinger resources resolve to users and teams on this site', t => {
+  const host = new URL(config.qualifiedURL).host;
+  t.deepEqual(activityPub.parseWebFingerResource(`acct:Jane_Doe@${host}`), {
+    type: 'user',
+    name: 'Jane_Doe',
+  });
+  t.deepEqual(activityPub.parseWebFingerResource(`acct:team.reviewers@${host}`), {
+    type: 'team',
+    name: 'reviewers',
+  });
+  t.is(activityPub.parseWebFingerResource('acct:Jane_Doe@example.social'), null);
+  t.is(activityPub.parseWebFingerResource('Jane_Doe'), null);
+});
+
+test('WebFinger documents link to the actor and the profile page', t => {
+  const id = 'c5d2a8f0-3b1c-4c6e-9a8f-0e6f1d2b3c4d';
+  const document = activityPub.getWebFinger('team', id, 'reviewers');
+  t.is(document.subject, `acct:team.reviewers@${new URL(config.qualifiedURL).host}`);
+  t.deepEqual(
+    document.links.map(link => link.href),
+    [`${config.qualifiedURL}ap/team/${id}`, `${config.qualifiedURL}team/reviewers`]
+  );
+});
@@ -0,0 +1,96 @@
+import { randomUUID } from 'node:crypto';
+import test from 'ava';
+import config from 'config';
+import publicFetch from '../util/public-fetch.ts';
+import webmentions from '../util/webmentions.ts';
+
+const pageURL = 'https://example.com/blog/post';
+
+test('endpoints are discovered in the Link header first', t => {
+  t.is(
+    webmentions.findEndpoint({
+      url: pageURL,
+      linkHeader:
+        '<https://example.com/style.css>; rel="stylesheet", </mentions?via=header>; rel="webmention"',
+      html: '<link rel="webmention" href="/mentions?via=html">',
+    }),
+    'https://example.com/mentions?via=header'
+  );
+});
+
+test('endpoints are discovered in link and a elements', t => {
+  t.is(
+    webmentions.findEndpoint({
+      url: pageURL,
+      linkHeader: null,
+      html: '<head><link rel="me webmention" href="endpoint"></head>',
+    }),
+    'https://example.com/blog/endpoint'
+  );
+  t.is(
+    webmentions.findEndpoint({
+      url: pageURL,
+      linkHeader: null,
+      html: "<p><a href='' rel=webmention>Send a mention</a></p>",
+    }),
+    pageURL,
+    'an empty endpoint is the page itself'
+  );
+  t.is(
+    webmentions.findEndpoint({
+      url: pageURL,
+      linkHeader: null,
+      html: '<a href="/about">About</a>',
+    }),
+    null
+  );
+});
+
+test('sources must link to the target', t => {
+  const target = `${config.qualifiedURL}review/${randomUUID()}`;
+  t.true(
+    webmentions.linksTo(
+      { url: pageURL, html: `<p>Read <a class="u-in-reply-to" href="${target}">this</a></p>` },
+      target
+    )
+  );
+  t.false(webmentions.linksTo({ url: pageURL, html: `<p>${target}</p>` }, target));
+});
+
+test('only reviews on this site are targets', t => {
+  const reviewID = randomUUID();
+  t.is(webmentions.getTargetReviewID(`${config.qualifiedURL}review/${reviewID}`), reviewID);
+  t.is(webmentions.getTargetReviewID(`${config.qualifiedURL}review/${reviewID}/`), reviewID);
+  t.is(webmentions.getTargetReviewID(`${config.qualifiedURL}review/not-an-id`), null);
+  t.is(webmentions.getTargetReviewID(`${config.qualifiedURL}user/${reviewID}`), null);
+  t.is(webmentions.getTargetReviewID(`https://example.com/review/${reviewID}`), null);
+});
+
+test('mentions from private hosts are rejected without fetching them', t => {
+  const target = `${config.qualifiedURL}review/${randomUUID()}`;
+  t.truthy(webmentions.receive('http://127.0.0.1/post', target));
+  t.truthy(webmentions.receive(pageURL, 'https://example.com/review/1'));
+  t.truthy(webmentions.receive(target, target));
+});
+
+test.serial('mentions from private IPv6 forms of IPv4 hosts are rejected', t => {
+  const fetch = publicFetch.fetch;
+  let requests = 0;
+  publicFetch.fetch = async () => {
+    requests++;
+    return new Response(null, { status: 404 });
+  };
+  t.teardown(() => {
+    publicFetch.fetch = fetch;
+  });
+
+  const target = `${config.qualifiedURL}review/${randomUUID()}`;
+  for (const source of [
+    'http://[::ffff:7f00:1]/post',
+    'http://[::ffff:127.0.0.1]/post',
+    'http://[::ffff:a00:1]/post',
+    'http://[::127.0.0.1]/post',
+  ])
+    t.is(webmentions.receive(source, target), 'Source must be a public http(s) URL.', source);
+  t.is(requests, 0);
+});
@@ -0,0 +1,49 @@
+import { randomUUID } from 'node:crypto';
+import test from 'ava';
+import config from 'config';
+import oEmbed from '../routes/helpers/oembed.ts';
+
+test('review and thing pages on this site can be embedded', t => {
+  const reviewID = randomUUID();
+  t.deepEqual(oEmbed.parseResourceURL(`${config.qualifiedURL}review/${reviewID}`), {
+    type: 'review',
+    id: reviewID,
+  });
+  t.deepEqual(oEmbed.parseResourceURL(`${config.qualifiedURL}Caf%C3%A9_Central?lang=de`), {
+    type: 'thing',
+    id: 'Café_Central',
+  });
+  t.is(oEmbed.parseResourceURL(`${config.qualifiedURL}review/${reviewID}/edit`), null);
+  t.is(oEmbed.parseResourceURL(`${config.qualifiedURL}review/not-an-id`), null);
+  t.is(oEmbed.parseResourceURL(`https://example.com/review/${reviewID}`), null);
+  t.is(oEmbed.parseResourceURL('not a URL'), null);
+});
+
+test('embed sizes respect the requested maximum', t => {
+  t.deepEqual(oEmbed.getSize('review'), { width: 560, height: 420 });
+  t.deepEqual(oEmbed.getSize('review', '400', '300'), { width: 400, height: 300 });
+  t.deepEqual(oEmbed.getSize('thing', '1000', 'tall'), { width: 560, height: 200 });
+  t.is(oEmbed.getSize('review', '150'), null, 'embeds that cannot fit are not offered');
+});
+
+test('iframes load the embed view in the request language', t => {
+  const id = randomUUID();
+  const html = oEmbed.getIframeHTML(
+    'review',
+    id,
+    'de',
+    { width: 400, height: 300 },
+    'A "great" read'
+  );
+  t.true(html.includes(`src="${config.qualifiedURL}embed/review/${id}?uselang=de"`));
+  t.true(html.includes('width="400" height="300"'));
+  t.true(html.includes('title="A &quot;great&quot; read"'));
+});
+
+test('discovery links point to the JSON endpoint', t => {
+  const id = randomUUID();
+  t.is(
+    oEmbed.getDiscoveryURL(`/review/${id}`),
+    `${config.qualifiedURL}oembed?format=json&url=${encodeURIComponent(`${config.qualifiedURL}review/${id}`)}`
+  );
+});
@@ -0,0 +1,38 @@
+import test from 'ava';
+import badges from '../routes/helpers/badges.ts';
+
+const options = {
+  label: 'lib.reviews',
+  message: '4.5/5 (12 reviews)',
+  rating: 4.5,
+  title: 'lib.reviews: 4.5/5 (12 reviews)',
+};
+
+test('badges show the label and message with an accessible title', t => {
+  const svg = badges.render(options);
+  t.true(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"'));
+  t.true(svg.includes('<title>lib.reviews: 4.5/5 (12 reviews)</title>'));
+  t.true(svg.includes('>lib.reviews</text>'));
+  t.true(svg.includes('>4.5/5 (12 reviews)</text>'));
+});
+
+test('badge colors follow the rating', t => {
+  t.true(badges.render(options).includes('fill="#4c1"'));
+  t.true(badges.render({ ...options, rating: 1.2 }).includes('fill="#e05d44"'));
+  t.true(badges.render({ ...options, rating: undefined }).includes('fill="#9f9f9f"'));
+});
+
+test('badge styles change the shape and text', t => {
+  t.true(badges.render(options).includes('rx="3"'));
+  t.true(badges.render({ ...options, style: 'flat-square' }).includes('rx="0"'));
+  const large = badges.render({ ...options, style: 'for-the-badge' });
+  t.true(large.includes('height="28"'));
+  t.true(large.includes('>4.5/5 (12 REVIEWS)</text>'));
+});
+
+test('badge text is escaped', t => {
+  const svg = badges.render({ ...options, message: '<script>', title: 'a & b' });
+  t.false(svg.includes('<script>'));
+  t.true(svg.includes('&lt;script&gt;'));
+  t.true(svg.includes('a &amp; b'));
+});
@@ -0,0 +1,40 @@
+import { randomUUID } from 'node:crypto';
+import test from 'ava';
+import config from 'config';
+import sitemaps from '../util/sitemaps.ts';
+
+test('the sitemap index links each child sitemap with its last change', t => {
+  const xml = sitemaps.renderIndex([
+    { type: 'things', page: 1, lastmod: new Date('2025-01-02T03:04:05Z') },
+    { type: 'users', page: 2, lastmod: null },
+  ]);
+  t.true(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+  t.true(
+    xml.includes(
+      `<sitemap><loc>${config.qualifiedURL}sitemaps/things/1.xml</loc><lastmod>2025-01-02T03:04:05.000Z</lastmod></sitemap>`
+    )
+  );
+  t.true(xml.includes(`<sitemap><loc>${config.qualifiedURL}sitemaps/users/2.xml</loc></sitemap>`));
+});
+
+test('multilingual entries list their language versions', t => {
+  const id = randomUUID();
+  const xml = sitemaps.renderURLSet([
+    { path: `review/${id}`, lastmod: null, languages: ['de', 'en'] },
+    { path: 'Caf%C3%A9_Central', lastmod: null, languages: ['en'] },
+  ]);
+  const loc = `${config.qualifiedURL}review/${id}`;
+  t.true(xml.includes(`<loc>${loc}</loc>`));
+  t.true(xml.includes(`<xhtml:link rel="alternate" hreflang="de" href="${loc}?uselang=de"/>`));
+  t.true(xml.includes(`<xhtml:link rel="alternate" hreflang="x-default" href="${loc}"/>`));
+  t.true(
+    xml.includes(`<url><loc>${config.qualifiedURL}Caf%C3%A9_Central</loc></url>`),
+    'single-language entries have no alternates'
+  );
+});
+
+test('sitemap URLs are escaped', t => {
+  const xml = sitemaps.renderURLSet([{ path: 'a?b=1&c=2', lastmod: null, languages: [] }]);
+  t.true(xml.includes('a?b=1&amp;c=2'));
+  t.false(xml.includes('&c=2'));
+});
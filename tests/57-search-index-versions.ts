@@ -0,0 +1,123 @@
+import test from 'ava';
+import elasticsearchBackend from '../search/elasticsearch.ts';
+
+type SearchClient = Parameters<typeof elasticsearchBackend.setClient>[0];
+type AliasAction =
+  | { add: { index: string; alias: string } }
+  | { remove: { index: string; alias: string } }
+  | { remove_index: { index: string } };
+
+const alias = 'libreviews';
+
+/**
+ * Stand-in for the ElasticSearch client, with just the index and alias
+ * operations that index versioning uses.
+ */
+function createSearchClient() {
+  const indices = new Map<string, number>();
+  const aliased = new Set<string>();
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+  const client = {
+    cat: {
+      indices: async ({ index }: { index: string }) => {
+        const prefix = index.replace(/\*$/, '');
+        return [...indices]
+          .filter(([name]) => name.startsWith(prefix))
+          .map(([name, created]) => ({
+            index: name,
+            'docs.count': '0',
+            'creation.date': String(created),
+          }));
+      },
+    },
+    indices: {
+      exists: async ({ index }: { index: string }) =>
+        indices.has(index) || (index === alias && aliased.size > 0),
+      create: async ({ index }: { index: string }) => {
+        indices.set(index, Date.now());
+      },
+      getAlias: async ({ name }: { name: string }) => {
+        if (name !== alias || !aliased.size) throw notFound();
+        return Object.fromEntries([...aliased].map(index => [index, { aliases: { [alias]: {} } }]));
+      },
+      updateAliases: async ({ body }: { body: { actions: AliasAction[] } }) => {
+        for (const action of body.actions) {
+          if ('add' in action) aliased.add(action.add.index);
+          else if ('remove' in action) aliased.delete(action.remove.index);
+          else indices.delete(action.remove_index.index);
+        }
+      },
+      delete: async ({ index }: { index: string | string[] }) => {
+        for (const name of Array.isArray(index) ? index : [index]) {
+          indices.delete(name);
+          aliased.delete(name);
+        }
+      },
+    },
+  };
+  return { client: client as unknown as SearchClient, indices, aliased };
+}
+
+const setup = (t: { teardown: (fn: () => void) => void }) => {
+  const searchClient = createSearchClient();
+  elasticsearchBackend.setClient(searchClient.client);
+  t.teardown(() => elasticsearchBackend.setClient(null));
+  return searchClient;
+};
+
+test.serial('the initial index version is created behind the alias', async t => {
+  const { indices, aliased } = setup(t);
+  await elasticsearchBackend.createIndices();
+  t.deepEqual([...indices.keys()], ['libreviews_v1']);
+  t.deepEqual([...aliased], ['libreviews_v1']);
+
+  // Nothing happens once the alias exists
+  await elasticsearchBackend.createIndices();
+  t.is(indices.size, 1);
+});
+
+test.serial('a reindex builds the next version and then swaps the alias', async t => {
+  const { aliased } = setup(t);
+  await elasticsearchBackend.createIndices();
+
+  const index = await elasticsearchBackend.createIndexVersion();
+  t.is(index, 'libreviews_v2');
+  // Searches keep using the old version while the new one is filled
+  t.deepEqual(await elasticsearchBackend.getAliasedIndices(), ['libreviews_v1']);
+
+  await elasticsearchBackend.switchAlias(index);
+  t.deepEqual([...aliased], ['libreviews_v2']);
+});
+
+test.serial('index versions are listed oldest first with the current one marked', async t => {
+  setup(t);
+  await elasticsearchBackend.createIndices();
+  await elasticsearchBackend.switchAlias(await elasticsearchBackend.createIndexVersion());
+  await elasticsearchBackend.createIndexVersion();
+
+  const versions = await elasticsearchBackend.listIndexVersions();
+  t.deepEqual(
+    versions.map(({ name, version, isCurrent }) => ({ name, version, isCurrent })),
+    [
+      { name: 'libreviews_v1', version: 1, isCurrent: false },
+      { name: 'libreviews_v2', version: 2, isCurrent: true },
+      { name: 'libreviews_v3', version: 3, isCurrent: false },
+    ]
+  );
+});
+
+test.serial('pruning deletes every version not behind the alias except the kept ones', async t => {
+  const { indices } = setup(t);
+  await elasticsearchBackend.createIndices();
+  for (let version = 2; version <= 3; version++)
+    await elasticsearchBackend.switchAlias(await elasticsearchBackend.createIndexVersion());
+  // Left behind by a reindex that failed before swapping the alias
+  await elasticsearchBackend.createIndexVersion();
+
+  t.deepEqual(await elasticsearchBackend.pruneIndexVersions(1), ['libreviews_v1', 'libreviews_v4']);
+  t.deepEqual([...indices.keys()], ['libreviews_v2', 'libreviews_v3']);
+
+  t.deepEqual(await elasticsearchBackend.pruneIndexVersions(0), ['libreviews_v2']);
+  t.deepEqual([...indices.keys()], ['libreviews_v3']);
+  t.deepEqual(await elasticsearchBackend.pruneIndexVersions(0), []);
+});
@@ -0,0 +1,83 @@
+import http from 'node:http';
+import test from 'ava';
+import publicFetch from '../util/public-fetch.ts';
+import urlUtils from '../util/url-utils.ts';
+
+const privateURLs = [
+  'http://127.0.0.1/',
+  'http://10.0.0.1/',
+  'http://169.254.169.254/latest/meta-data/',
+  'http://[::1]/',
+  'http://[::]/',
+  'http://[fd00::1]/',
+  'http://[fe80::1]/',
+  // IPv4-mapped, also written with hex groups
+  'http://[::ffff:127.0.0.1]/',
+  'http://[::ffff:7f00:1]/',
+  'http://[::ffff:10.0.0.1]/',
+  'http://[::ffff:a00:1]/',
+  'http://[0:0:0:0:0:ffff:a9fe:a9fe]/',
+  // IPv4-compatible
+  'http://[::127.0.0.1]/',
+  'http://[::7f00:1]/',
+  'http://[::a00:1]/',
+  // NAT64
+  'http://[64:ff9b::7f00:1]/',
+  'http://localhost/',
+  'http://api.localhost/',
+  'file:///etc/passwd',
+];
+
+test('private addresses are rejected in all their forms', t => {
+  for (const url of privateURLs) t.false(urlUtils.isPublic(url), url);
+});
+
+test('public addresses and host names are accepted', t => {
+  for (const url of [
+    'https://example.com/hook',
+    'http://93.184.216.34/',
+    'http://[2606:2800:220:1:248:1893:25c8:1946]/',
+    'http://[::ffff:5db8:d822]/',
+    'http://[64:ff9b::5db8:d822]/',
+  ])
+    t.true(urlUtils.isPublic(url), url);
+});
+
+test('host names are rejected if any of their addresses is private', async t => {
+  const lookup = async (hostname: string) =>
+    hostname === 'public.example'
+      ? [{ address: '93.184.216.34', family: 4 }]
+      : [
+          { address: '93.184.216.34', family: 4 },
+          { address: '::ffff:7f00:1', family: 6 },
+        ];
+  t.deepEqual(await publicFetch.resolve('https://public.example/', lookup), {
+    address: '93.184.216.34',
+    family: 4,
+  });
+  t.is(await publicFetch.resolve('https://rebound.example/', lookup), null);
+  t.is(
+    await publicFetch.resolve('https://unknown.example/', async () => {
+      throw new Error('ENOTFOUND');
+    }),
+    null
+  );
+});
+
+test('private URLs are not requested', async t => {
+  let requests = 0;
+  const server = http.createServer((_req, res) => {
+    requests++;
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.teardown(() => new Promise<void>(resolve => server.close(() => resolve())));
+  const address = server.address();
+  const port = address && typeof address === 'object' ? address.port : 0;
+
+  for (const host of ['127.0.0.1', '[::ffff:7f00:1]', '[::ffff:127.0.0.1]', '[::127.0.0.1]'])
+    await t.throwsAsync(publicFetch.fetch(`http://${host}:${port}/`), {
+      message: 'URL points to a private network.',
+    });
+  t.is(requests, 0);
+});
@@ -0,0 +1,67 @@
+import test from 'ava';
+import { randomUUID } from 'crypto';
+import supertest from 'supertest';
+import { mockSearch, unmockSearch } from './helpers/mock-search.ts';
+import { setupPostgresTest } from './helpers/setup-postgres-test.ts';
+
+const loadAppModule = () => import('../app.ts');
+
+mockSearch();
+
+const { dalFixture, bootstrapPromise } = setupPostgresTest(test, {
+  schemaNamespace: 'badge_route',
+  cleanupTables: ['things', 'users'],
+});
+
+let Thing;
+let app;
+
+test.before(async () => {
+  await bootstrapPromise;
+
+  const models = await dalFixture.initializeModels([
+    { key: 'things', alias: 'Thing' },
+    { key: 'users', alias: 'User' },
+  ]);
+  Thing = models.Thing;
+
+  const { default: getApp, resetAppForTesting } = await loadAppModule();
+  if (typeof resetAppForTesting === 'function') await resetAppForTesting();
+  app = await getApp();
+});
+
+test.after.always(unmockSearch);
+
+async function createThing(): Promise<string> {
+  const { actor: creator } = await dalFixture.createTestUser('Badge Creator');
+  const thingRev = await Thing.createFirstRevision(creator, { tags: ['create'] });
+  thingRev.urls = [`https://example.com/${randomUUID()}`];
+  thingRev.label = { en: 'Badge Thing' };
+  thingRev.originalLanguage = 'en';
+  thingRev.createdOn = new Date();
+  thingRev.createdBy = creator.id;
+  const saved = await thingRev.save();
+  return saved.id;
+}
+
+test('badges are cacheable and in the default language unless one is requested', async t => {
+  const thingID = await createThing();
+  const agent = supertest(app);
+
+  const response = await agent
+    .get(`/${thingID}/badge.svg`)
+    .set('Accept-Language', 'de')
+    .expect(200)
+    .expect('Content-Type', /image\/svg\+xml/);
+  t.is(response.headers['cache-control'], 'public, max-age=3600');
+  const svg = response.body.toString();
+  t.true(svg.includes('no reviews'), 'Accept-Language does not change the badge');
+  t.false(svg.includes('keine Rezensionen'));
+
+  const german = await agent.get(`/${thingID}/badge.svg?lang=de`).expect(200);
+  t.is(german.headers['cache-control'], 'public, max-age=3600');
+  t.true(german.body.toString().includes('keine Rezensionen'));
+
+  const invalid = await agent.get(`/${thingID}/badge.svg?lang=xx`).expect(200);
+  t.true(invalid.body.toString().includes('no reviews'));
+});
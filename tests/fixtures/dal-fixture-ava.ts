@@ -16,6 +16,7 @@ type UserModel = typeof import('../../models/user.ts').default;
 type FileModel = typeof import('../../models/file.ts').default;
 type TeamSlugModel = typeof import('../../models/team-slug.ts').default;
 type TeamJoinRequestModel = typeof import('../../models/team-join-request.ts').default;
+type BlogPostModel = typeof import('../../models/blog-post.ts').default;
 
 type KnownModels = {
   Thing: ThingModel;
@@ -26,6 +27,7 @@ type KnownModels = {
   Team: TeamModel;
   TeamSlug: TeamSlugModel;
   TeamJoinRequest: TeamJoinRequestModel;
+  BlogPost: BlogPostModel;
 };
 
 type KnownModelAlias = keyof KnownModels;
@@ -39,6 +41,7 @@ const KNOWN_MODEL_BASE_NAMES: Record<KnownModelAlias, string> = {
   Team: 'teams',
   TeamSlug: 'team_slugs',
   TeamJoinRequest: 'team_join_requests',
+  BlogPost: 'blog_posts',
 };
 
 type TableDefinition = {
@@ -537,6 +540,10 @@ class DALFixtureAVA {
     return this.requireKnownModel('TeamJoinRequest');
   }
 
+  get BlogPost(): BlogPostModel {
+    return this.requireKnownModel('BlogPost');
+  }
+
   getThingModel(): ThingModel {
     return this.Thing;
   }
@@ -569,6 +576,10 @@ class DALFixtureAVA {
     return this.TeamJoinRequest;
   }
 
+  getBlogPostModel(): BlogPostModel {
+    return this.BlogPost;
+  }
+
   /**
    * Execute a raw query
    * @param {string} sql - SQL query
@@ -1,8 +1,14 @@
-import type { SearchParams, SearchResponse } from 'elasticsearch';
 import type {
+  BlogPostSearchHit,
+  ReviewSearchPage,
+  SearchPage,
+  SearchPageOptions,
   SearchReviewsResponse,
   SearchThingsResponse,
   SuggestThingResponse,
+  TeamSearchHit,
+  ThingSearchHit,
+  UserSearchHit,
 } from '../../search.ts';
 
 type LocaleCode = LibReviews.LocaleCode;
@@ -61,8 +67,12 @@ export function isReviewItem(
 export type MockSearchQuery =
   | { type: 'searchThings'; query: string; lang: LocaleCode }
   | { type: 'searchReviews'; query: string; lang: LocaleCode }
-  | { type: 'suggestThing'; prefix: string; lang: LocaleCode }
-  | { type: 'rawSearch'; params: SearchParams };
+  | { type: 'findThings'; query: string; options: SearchPageOptions }
+  | { type: 'findReviews'; query: string; options: SearchPageOptions }
+  | { type: 'findTeams'; query: string; options: SearchPageOptions }
+  | { type: 'findUsers'; query: string; options: SearchPageOptions }
+  | { type: 'findBlogPosts'; query: string; options: SearchPageOptions }
+  | { type: 'suggestThing'; prefix: string; lang: LocaleCode };
 
 export type MockSearchResponse<TDocument = Record<string, unknown>> = {
   took: number;
@@ -120,10 +130,6 @@ export function mockSearch<TDocument = Record<string, unknown>>(
   };
 
   const mock: Partial<SearchModule> = {
-    _raw: async <TResponse = unknown>(params: SearchParams): Promise<SearchResponse<TResponse>> => {
-      captured.searchQueries.push({ type: 'rawSearch', params });
-      return captured.mockSearchResponse as unknown as SearchResponse<TResponse>;
-    },
     indexThing: async (thing: RevisionAwareRecord) => {
       if (
         thing._oldRevOf ||
@@ -156,6 +162,30 @@ export function mockSearch<TDocument = Record<string, unknown>>(
       captured.searchQueries.push({ type: 'searchReviews', query, lang });
       return captured.mockSearchResponse as unknown as SearchReviewsResponse;
     },
+    findThings: async (query: string, options: SearchPageOptions = {}) => {
+      captured.searchQueries.push({ type: 'findThings', query, options });
+      return { total: 0, hits: [] } as SearchPage<ThingSearchHit>;
+    },
+    findReviews: async (query: string, options: SearchPageOptions = {}) => {
+      captured.searchQueries.push({ type: 'findReviews', query, options });
+      return {
+        total: 0,
+        hits: [],
+        facets: { starRating: [], language: [], team: [] },
+      } as ReviewSearchPage;
+    },
+    findTeams: async (query: string, options: SearchPageOptions = {}) => {
+      captured.searchQueries.push({ type: 'findTeams', query, options });
+      return { total: 0, hits: [] } as SearchPage<TeamSearchHit>;
+    },
+    findUsers: async (query: string, options: SearchPageOptions = {}) => {
+      captured.searchQueries.push({ type: 'findUsers', query, options });
+      return { total: 0, hits: [] } as SearchPage<UserSearchHit>;
+    },
+    findBlogPosts: async (query: string, options: SearchPageOptions = {}) => {
+      captured.searchQueries.push({ type: 'findBlogPosts', query, options });
+      return { total: 0, hits: [] } as SearchPage<BlogPostSearchHit>;
+    },
     suggestThing: async (prefix = '', lang: LocaleCode = 'en') => {
       captured.searchQueries.push({ type: 'suggestThing', prefix, lang });
       return captured.mockSearchResponse as unknown as SuggestThingResponse;
@@ -163,16 +193,25 @@ export function mockSearch<TDocument = Record<string, unknown>>(
     createIndices: async () => {},
     deleteThing: async () => {},
     deleteReview: async () => {},
+    indexTeam: async () => {},
+    indexUser: async () => {},
+    indexBlogPost: async () => {},
+    deleteTeam: async () => {},
+    deleteUser: async () => {},
+    deleteBlogPost: async () => {},
     close: () => {},
   };
 
-  Object.assign(searchModule as Record<string, unknown>, mock as Record<string, unknown>);
+  Object.assign(
+    searchModule as unknown as Record<string, unknown>,
+    mock as Record<string, unknown>
+  );
 
   return captured;
 }
 
 export function unmockSearch(): void {
   for (const [key, value] of originalSearchEntries) {
-    (searchModule as Record<string, unknown>)[key] = value;
+    (searchModule as unknown as Record<string, unknown>)[key] = value;
   }
 }
@@ -0,0 +1,206 @@
+/**
+ * Commands the IRC bot in tools/irc-bot.ts answers in its channels:
+ *
+ * - `!lr <url>` - label, average rating and review count of a review subject
+ * - `!lr search <terms>` - top review subjects whose label starts with the terms
+ * - `!lr user <name>` - profile summary of a user
+ *
+ * Answers are looked up through the public API, so the bot needs no database
+ * access.
+ */
+
+import { decodeHTML } from 'entities';
+import type { MultilingualString } from 'rev-dal/lib/ml-string';
+
+export const COMMAND_PREFIX = '!lr';
+
+const usage = `Usage: ${COMMAND_PREFIX} <url> | ${COMMAND_PREFIX} search <terms> | ${COMMAND_PREFIX} user <name>`;
+const maxSearchResults = 3;
+const requestTimeoutMs = 10_000;
+
+export type IRCCommand =
+  | { command: 'help' }
+  | { command: 'thing'; url: string }
+  | { command: 'search'; terms: string }
+  | { command: 'user'; name: string };
+
+export interface IRCCommandOptions {
+  // Base URL of the API, e.g. https://lib.reviews/api/
+  apiURL: string;
+  // Base URL of the site, used to link to results
+  siteURL: string;
+  // Commands each nick may send per window; further ones are ignored
+  rateLimit?: number;
+  rateLimitWindowMs?: number;
+  fetch?: typeof fetch;
+}
+
+interface ThingLookupResponse {
+  thing?: {
+    label?: MultilingualString;
+    urlID?: string;
+    averageStarRating?: number;
+    numberOfReviews?: number;
+  };
+}
+
+interface SuggestResponse {
+  results?: Record<string, Array<{ text?: string; urlID?: string }>>;
+}
+
+interface UserResponse {
+  displayName?: string;
+  registrationDate?: string;
+  isSiteModerator?: boolean;
+}
+
+/**
+ * Parse a channel message into a command.
+ *
+ * @param text - Message as sent
+ * @returns The command, or null if the message is not addressed to the bot
+ */
+export function parseIRCCommand(text: string): IRCCommand | null {
+  const [prefix, ...args] = text.trim().split(/\s+/);
+  if (prefix !== COMMAND_PREFIX) return null;
+
+  const [first, ...rest] = args;
+  const remainder = rest.join(' ');
+  if (!first || first === 'help') return { command: 'help' };
+  if (first === 'search' && remainder) return { command: 'search', terms: remainder };
+  if (first === 'user' && remainder) return { command: 'user', name: remainder };
+  if (/^https?:\/\//i.test(first)) return { command: 'thing', url: first };
+  return { command: 'help' };
+}
+
+/**
+ * Track commands per nick in a sliding window.
+ *
+ * @param limit - Commands allowed per window
+ * @param windowMs - Length of the window
+ * @returns Function that records a command and reports whether it is allowed
+ */
+export function createNickRateLimiter(limit: number, windowMs: number) {
+  const commandTimes = new Map<string, number[]>();
+  return (nick: string, now = Date.now()): boolean => {
+    for (const [key, times] of commandTimes) {
+      const recent = times.filter(time => time > now - windowMs);
+      if (recent.length) commandTimes.set(key, recent);
+      else commandTimes.delete(key);
+    }
+    const key = nick.toLowerCase();
+    const times = commandTimes.get(key) ?? [];
+    if (times.length >= limit) return false;
+    times.push(now);
+    commandTimes.set(key, times);
+    return true;
+  };
+}
+
+// Quickly resolve multilingual string to English or first non-English language
+export function resolveLabel(label: MultilingualString | undefined): string | undefined {
+  if (!label) return undefined;
+
+  const langs = Object.keys(label);
+  if (langs.length === 0) return undefined;
+
+  const resolved = label.en ?? label[langs[0]];
+  return resolved ? decodeHTML(resolved) : undefined;
+}
+
+const pluralize = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+/**
+ * Create a handler that answers commands.
+ *
+ * @param options - API location and rate limits
+ * @returns Function that takes the nick and message and resolves to the
+ *  answer, or null if there is nothing to say
+ */
+export function createIRCCommandHandler(options: IRCCommandOptions) {
+  const {
+    apiURL,
+    siteURL,
+    rateLimit = 5,
+    rateLimitWindowMs = 60 * 1000,
+    fetch: fetchImpl = fetch,
+  } = options;
+  const isAllowed = createNickRateLimiter(rateLimit, rateLimitWindowMs);
+
+  async function getJSON<T>(path: string): Promise<{ status: number; body: T | null }> {
+    const response = await fetchImpl(new URL(path, apiURL), {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(requestTimeoutMs),
+    });
+    const body = response.ok || response.status === 404 ? ((await response.json()) as T) : null;
+    return { status: response.status, body };
+  }
+
+  async function lookupThing(url: string): Promise<string> {
+    const { status, body } = await getJSON<ThingLookupResponse>(
+      `thing?url=${encodeURIComponent(url)}`
+    );
+    if (status === 404) return `Nobody has reviewed ${url} yet.`;
+    if (status === 400) return `${url} is not a valid URL.`;
+    const thing = body?.thing;
+    if (!thing) return `Could not look up ${url}.`;
+
+    const label = resolveLabel(thing.label) ?? url;
+    const reviewCount = thing.numberOfReviews ?? 0;
+    const rating = reviewCount
+      ? `${(thing.averageStarRating ?? 0).toFixed(1)}/5 stars from ${pluralize(reviewCount, 'review', 'reviews')}`
+      : 'no reviews yet';
+    return `${label}: ${rating} - ${new URL(thing.urlID ?? '', siteURL)}`;
+  }
+
+  async function searchThings(terms: string): Promise<string> {
+    const { body } = await getJSON<SuggestResponse>(`suggest/thing/${encodeURIComponent(terms)}`);
+    // Suggestions are grouped by language, and a subject may match in several
+    const matches = new Map<string, string>();
+    for (const options of Object.values(body?.results ?? {}))
+      for (const option of options)
+        if (option.urlID && option.text && !matches.has(option.urlID))
+          matches.set(option.urlID, decodeHTML(option.text));
+
+    if (!matches.size) return `No review subjects match "${terms}".`;
+    const top = [...matches]
+      .slice(0, maxSearchResults)
+      .map(([urlID, label]) => `${label} (${new URL(urlID, siteURL)})`);
+    return `Top matches for "${terms}": ${top.join(', ')}`;
+  }
+
+  async function describeUser(name: string): Promise<string> {
+    const { status, body } = await getJSON<UserResponse>(`user/${encodeURIComponent(name)}`);
+    if (status === 404 || !body?.displayName) return `There is no user called ${name}.`;
+
+    const details = [];
+    if (body.registrationDate)
+      details.push(`member since ${new Date(body.registrationDate).toISOString().slice(0, 10)}`);
+    if (body.isSiteModerator) details.push('site moderator');
+    const urlName = encodeURIComponent(body.displayName.replace(/ /g, '_'));
+    const summary = details.length ? ` (${details.join(', ')})` : '';
+    return `${body.displayName}${summary} - ${new URL(`user/${urlName}`, siteURL)}`;
+  }
+
+  return async (nick: string, text: string): Promise<string | null> => {
+    const command = parseIRCCommand(text);
+    if (!command || !isAllowed(nick)) return null;
+
+    try {
+      switch (command.command) {
+        case 'thing':
+          return await lookupThing(command.url);
+        case 'search':
+          return await searchThings(command.terms);
+        case 'user':
+          return await describeUser(command.name);
+        default:
+          return usage;
+      }
+    } catch (error) {
+      console.error('Problem answering IRC command:', error);
+      return 'Sorry, lib.reviews could not be reached.';
+    }
+  };
+}
@@ -1,8 +1,10 @@
 /**
  * Simple IRC bot / webapp that listens to lib.reviews new review
- * webhook events at /post and echoes them to IRC.
+ * webhook events at /reviews and echoes them to IRC. It also answers
+ * lookup commands in its channels (see tools/irc-bot-commands.ts).
  *
- * No auth for now; webapp listens only on loopback interface.
+ * If irc.webhookSecret is set, only signed requests are accepted (see
+ * util/webhooks.ts). Without it, the webapp may only listen on loopback.
  */
 
 import path from 'node:path';
@@ -14,11 +16,16 @@ process.env.NODE_CONFIG_DIR = path.join(moduleDir, '../config');
 import bodyParser from 'body-parser';
 import type { IRCConfig } from 'config';
 import config from 'config';
-import { decodeHTML } from 'entities';
 import type { Request, Response } from 'express';
 import express from 'express';
 import irc from 'irc-upd';
 import type { MultilingualString } from 'rev-dal/lib/ml-string';
+import {
+  verifyWebHookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../util/webhooks.ts';
+import { COMMAND_PREFIX, createIRCCommandHandler, resolveLabel } from './irc-bot-commands.ts';
 
 interface ReviewWebhookPayload {
   thingURLs?: string[];
@@ -32,10 +39,44 @@ interface ReviewWebhookBody {
 }
 
 const ircConfig: IRCConfig = config.get<IRCConfig>('irc');
+const appHost = ircConfig.appHost ?? '127.0.0.1';
+const loopbackHosts = ['127.0.0.1', '::1', 'localhost'];
+
+if (!ircConfig.webhookSecret && !loopbackHosts.includes(appHost)) {
+  console.error(`Refusing to listen on ${appHost} without irc.webhookSecret.`);
+  process.exit(1);
+}
+
+// Signatures accepted recently, with their expiry, to reject requests that are
+// replayed before their timestamp gets too old
+const signatureToleranceMs = 5 * 60 * 1000;
+const seenSignatures = new Map<string, number>();
+
+type SignedRequest = Request & { rawBody?: Buffer };
 const bot = new irc.Client(ircConfig.server, ircConfig.options.userName, ircConfig.options);
 
 const app = express();
 
+const answerCommand = createIRCCommandHandler({
+  apiURL: ircConfig.apiURL ?? new URL('api/', config.qualifiedURL).href,
+  siteURL: config.qualifiedURL,
+  rateLimit: ircConfig.commandRateLimit,
+  rateLimitWindowMs:
+    ircConfig.commandRateLimitWindowSeconds === undefined
+      ? undefined
+      : ircConfig.commandRateLimitWindowSeconds * 1000,
+});
+
+// Answer in the channel the command was sent to, or privately if it was sent
+// to the bot directly
+bot.on('message', (nick: string, to: string, text: string) => {
+  if (!text.startsWith(COMMAND_PREFIX) || nick === bot.nick) return;
+  const replyTo = to === bot.nick ? nick : to;
+  void answerCommand(nick, text).then(answer => {
+    if (answer) bot.say(replyTo, answer);
+  });
+});
+
 bot.once('names', () => {
   // Every thirty seconds, check that the bot is operating under its canonical
   // nickname, and attempt to regain it if not. (NickServ's "regain" command
@@ -47,21 +88,49 @@ bot.once('names', () => {
   }, 30 * 1000);
 });
 
-app.use(bodyParser.json());
+app.use(
+  bodyParser.json({
+    // Signatures are computed over the body as sent
+    verify: (req, _res, buf) => {
+      (req as SignedRequest).rawBody = buf;
+    },
+  })
+);
+
+function isAuthentic(req: SignedRequest): boolean {
+  if (!ircConfig.webhookSecret) return true;
+
+  const signature = req.get(WEBHOOK_SIGNATURE_HEADER);
+  const valid = verifyWebHookSignature({
+    body: req.rawBody ?? '',
+    signature,
+    timestamp: req.get(WEBHOOK_TIMESTAMP_HEADER),
+    secret: ircConfig.webhookSecret,
+    toleranceSeconds: signatureToleranceMs / 1000,
+  });
+  if (!valid || !signature) return false;
+
+  const now = Date.now();
+  for (const [seen, expiresAt] of seenSignatures) if (expiresAt < now) seenSignatures.delete(seen);
+  if (seenSignatures.has(signature)) return false;
+  // A request stays fresh for the tolerance in either direction
+  seenSignatures.set(signature, now + 2 * signatureToleranceMs);
+  return true;
+}
 
 app.post(
   '/reviews',
   (req: Request<Record<string, never>, unknown, ReviewWebhookBody>, res: Response) => {
+    if (!isAuthentic(req as SignedRequest)) {
+      res.sendStatus(401);
+      return;
+    }
+
     const { data } = req.body;
 
     const url = Array.isArray(data.thingURLs) && data.thingURLs[0] ? data.thingURLs[0] : undefined;
 
-    let resolvedLabel = resolveLabel(data.thingLabel);
-    if (resolvedLabel) {
-      resolvedLabel = decodeHTML(resolvedLabel);
-    }
-
-    const subject = resolvedLabel ?? url ?? 'unknown subject';
+    const subject = resolveLabel(data.thingLabel) ?? url ?? 'unknown subject';
     const message = `New review of ${subject} by ${data.author} at ${data.reviewURL}`;
 
     ircConfig.options.channels.forEach(channel => {
@@ -72,16 +141,6 @@ app.post(
   }
 );
 
-app.listen(ircConfig.appPort, '127.0.0.1', () => {
-  console.log(`Listening on port ${ircConfig.appPort}`);
+app.listen(ircConfig.appPort, appHost, () => {
+  console.log(`Listening on ${appHost}, port ${ircConfig.appPort}`);
 });
-
-// Quickly resolve multilingual string to English or first non-English language
-function resolveLabel(label: MultilingualString | undefined): string | undefined {
-  if (!label) return undefined;
-
-  const langs = Object.keys(label);
-  if (langs.length === 0) return undefined;
-
-  return label.en ?? label[langs[0]];
-}
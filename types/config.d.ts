@@ -51,20 +51,32 @@ declare module 'config' {
   }
 
   /**
-   * ElasticSearch endpoint configuration used when the backend talks to the
-   * search process (see `search.ts`).
+   * Search backend selection and the ElasticSearch endpoint configuration
+   * used when the backend talks to the search process (see `search.ts`).
    */
   interface SearchConfig {
+    // 'elasticsearch' (default) or 'postgres'
+    backend?: 'elasticsearch' | 'postgres';
     port: number;
     host: string;
     log: string;
   }
 
   /**
-   * Mapping of webhook identifiers to callback URLs. The dispatcher reads this
-   * structure before notifying third-party services (see `util/webhooks.ts`).
+   * A webhook callback URL with a secret shared with the receiver. Payloads
+   * sent to it are signed with HMAC-SHA256 (see `util/webhooks.ts`).
    */
-  type WebHookTargets = Record<string, string[]>;
+  interface WebHookEndpointConfig {
+    url: string;
+    secret?: string;
+  }
+
+  /**
+   * Mapping of webhook event names to callback URLs. The dispatcher reads this
+   * structure before notifying third-party services (see `util/webhooks.ts`);
+   * the events are listed in `util/webhook-events.ts`.
+   */
+  type WebHookTargets = Record<string, Array<string | WebHookEndpointConfig>>;
 
   /**
    * Options forwarded to the `irc-upd` client when the webhook bridge connects
@@ -86,6 +98,17 @@ declare module 'config' {
    */
   interface IRCConfig {
     appPort: number;
+    // Interface the webhook receiver listens on; defaults to loopback
+    appHost?: string;
+    // Secret of the bot's endpoint in `webHooks`. Required unless the
+    // receiver only listens on loopback.
+    webhookSecret?: string;
+    // Base URL of the API the bot looks up `!lr` commands with; defaults to
+    // the `api/` path under `qualifiedURL`
+    apiURL?: string;
+    // Commands each nick may send per window before the bot ignores them
+    commandRateLimit?: number;
+    commandRateLimitWindowSeconds?: number;
     botName: string;
     options: IRCConnectionOptions;
     server: string;
@@ -139,6 +162,9 @@ declare module 'config' {
     adapterTimeout: number;
     search: SearchConfig;
     webHooks: WebHookTargets;
+    // Federation of users and teams, see util/activitypub.ts
+    activityPub?: { enabled: boolean };
+    webmentions?: { enabled: boolean };
     irc: IRCConfig;
     defaultLocale?: LibReviews.LocaleCode;
     [key: string]: unknown;
@@ -173,6 +199,7 @@ declare module 'config' {
     PostgresConfig,
     QuestionCaptchaConfig,
     SearchConfig,
+    WebHookEndpointConfig,
     WebHookTargets,
     ConfigModule,
   };
@@ -18,6 +18,8 @@ declare global {
         new: LibReviews.LocaleCodeWithUndetermined;
       };
       isAPI?: boolean;
+      /** Personal access token the request was authenticated with, if any. */
+      apiToken?: import('../models/manifests/api-token.ts').ApiTokenInstance;
       flash(key: string, value?: string | string[]): string[];
       flashHas?(key: string): boolean;
       flashError?(error: unknown): void;
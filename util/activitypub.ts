@@ -0,0 +1,571 @@
+import { generateKeyPair, randomUUID } from 'node:crypto';
+import { promisify } from 'node:util';
+import config from 'config';
+import escapeHTML from 'escape-html';
+import mlString, { type MultilingualString } from 'rev-dal/lib/ml-string';
+
+import { getDAL } from '../bootstrap/dal.ts';
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { TeamInstance } from '../models/manifests/team.ts';
+import type { UserInstance } from '../models/manifests/user.ts';
+import debug from './debug.ts';
+import { parseSignatureHeader, signRequest, verifyRequestSignature } from './http-signatures.ts';
+import publicFetch from './public-fetch.ts';
+import urlUtils from './url-utils.ts';
+
+/**
+ * ActivityPub federation for users and teams. Users are `Person` actors that
+ * publish their new reviews as `Create` activities; teams are `Group` actors
+ * that `Announce` the reviews associated with them, which is how fediverse
+ * servers expect groups to share posts by their members. Remote actors can
+ * follow both, and activities are delivered to their inboxes with HTTP
+ * signatures (see util/http-signatures.ts).
+ */
+
+export type ActorType = 'user' | 'team';
+
+export type Activity = Record<string, unknown> & { id?: string; type?: string; actor?: unknown };
+
+/** The parts of a remote actor document needed to verify and reach it. */
+export interface RemoteActor {
+  id: string;
+  inbox: string;
+  sharedInbox?: string;
+  publicKeyPem?: string;
+}
+
+export interface InboxRequest {
+  method: string;
+  path: string;
+  getHeader: (name: string) => string | undefined;
+  body: Buffer;
+}
+
+export const ACTIVITY_CONTENT_TYPE = 'application/activity+json';
+// Media types that ActivityPub servers send and accept for actors and activities
+export const ACTIVITY_CONTENT_TYPES = [
+  ACTIVITY_CONTENT_TYPE,
+  'application/ld+json; profile="https://www.w3.org/ns/activitystreams"',
+  'application/ld+json',
+];
+const ACTIVITY_CONTEXT = ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'];
+const PUBLIC_COLLECTION = 'https://www.w3.org/ns/activitystreams#Public';
+const REQUEST_TIMEOUT_MS = 10_000;
+const OUTBOX_SIZE = 20;
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+async function runQuery<TRow>(sql: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+const isEnabled = () =>
+  config.has('activityPub.enabled') ? Boolean(config.get<boolean>('activityPub.enabled')) : false;
+
+const getActorID = (type: ActorType, id: string) => `${config.qualifiedURL}ap/${type}/${id}`;
+const getKeyID = (actorID: string) => `${actorID}#main-key`;
+const getNoteID = (reviewID: string) => `${config.qualifiedURL}ap/review/${reviewID}`;
+const getHost = () => new URL(config.qualifiedURL).host;
+
+/**
+ * WebFinger account name of an actor. User names cannot contain dots, so
+ * teams are prefixed with `team.` to keep the names apart.
+ */
+const getAccountName = (type: ActorType, urlID: string) =>
+  type === 'team' ? `team.${decodeURIComponent(urlID)}` : decodeURIComponent(urlID);
+
+const resolveHTML = (value: unknown, lang = 'en') =>
+  mlString.resolve(lang, value as MultilingualString | null | undefined)?.str;
+
+/**
+ * Get the key pair an actor signs its activities with, creating it on first
+ * use.
+ *
+ * @param ownerID - ID of the user or team
+ */
+async function getKeyPair(ownerID: string): Promise<{ publicKey: string; privateKey: string }> {
+  const select = () =>
+    runQuery<{ public_key: string; private_key: string }>(
+      'SELECT public_key, private_key FROM activitypub_keys WHERE owner_id = $1',
+      [ownerID]
+    );
+  let [row] = await select();
+  if (!row) {
+    const { publicKey, privateKey } = await generateKeyPairAsync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    // If another request created a key in the meantime, that one is kept
+    await runQuery(
+      `INSERT INTO activitypub_keys (owner_id, public_key, private_key) VALUES ($1, $2, $3)
+        ON CONFLICT (owner_id) DO NOTHING`,
+      [ownerID, publicKey, privateKey]
+    );
+    [row] = await select();
+  }
+  return { publicKey: row.public_key, privateKey: row.private_key };
+}
+
+function getActorLinks(type: ActorType, id: string, publicKey: string) {
+  const actorID = getActorID(type, id);
+  return {
+    id: actorID,
+    inbox: `${actorID}/inbox`,
+    outbox: `${actorID}/outbox`,
+    followers: `${actorID}/followers`,
+    publicKey: { id: getKeyID(actorID), owner: actorID, publicKeyPem: publicKey },
+  };
+}
+
+/**
+ * Describe a user as a `Person` actor.
+ *
+ * @param user - User, with their bio joined if they have one
+ */
+async function getUserActor(user: UserInstance): Promise<Activity> {
+  const { publicKey } = await getKeyPair(user.id);
+  const urlName = user.urlName ?? encodeURIComponent(user.displayName.replace(/ /g, '_'));
+  const bioLanguage = user.meta?.originalLanguage ?? 'en';
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    type: 'Person',
+    ...getActorLinks('user', user.id, publicKey),
+    preferredUsername: getAccountName('user', urlName),
+    name: user.displayName,
+    summary: resolveHTML(user.meta?.bio?.html, bioLanguage),
+    url: `${config.qualifiedURL}user/${urlName}`,
+    published: user.registrationDate?.toISOString(),
+    manuallyApprovesFollowers: false,
+  };
+}
+
+/**
+ * Describe a team as a `Group` actor.
+ *
+ * @param team - Team to describe
+ */
+async function getTeamActor(team: TeamInstance): Promise<Activity> {
+  const { publicKey } = await getKeyPair(team.id);
+  const lang = team.originalLanguage ?? 'en';
+  const motto = resolveHTML(team.motto, lang);
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    type: 'Group',
+    ...getActorLinks('team', team.id, publicKey),
+    preferredUsername: getAccountName('team', team.urlID),
+    name: resolveHTML(team.name, lang),
+    summary: motto ? `<p>${motto}</p>` : undefined,
+    url: `${config.qualifiedURL}team/${team.urlID}`,
+    published: team.createdOn?.toISOString(),
+    manuallyApprovesFollowers: false,
+  };
+}
+
+/**
+ * Get the WebFinger document of an actor.
+ *
+ * @param type - Kind of actor
+ * @param id - ID of the user or team
+ * @param urlID - Name of the user or team as used in URLs
+ */
+function getWebFinger(type: ActorType, id: string, urlID: string) {
+  const actorID = getActorID(type, id);
+  const profileURL = `${config.qualifiedURL}${type}/${urlID}`;
+  return {
+    subject: `acct:${getAccountName(type, urlID)}@${getHost()}`,
+    aliases: [actorID, profileURL],
+    links: [
+      { rel: 'self', type: ACTIVITY_CONTENT_TYPE, href: actorID },
+      { rel: 'http://webfinger.net/rel/profile-page', type: 'text/html', href: profileURL },
+    ],
+  };
+}
+
+/**
+ * Parse a WebFinger resource that refers to an account on this site.
+ *
+ * @param resource - e.g. `acct:Jane_Doe@lib.reviews` or `acct:team.reviewers@lib.reviews`
+ * @returns The kind of actor and the user's URL name or the team's slug or
+ *  ID, or null
+ */
+function parseWebFingerResource(resource: string): { type: ActorType; name: string } | null {
+  const match = resource.match(/^(?:acct:)?@?([^@\s]+)@([^@\s]+)$/i);
+  if (!match || match[2].toLowerCase() !== getHost().toLowerCase()) return null;
+  const name = match[1];
+  if (name.startsWith('team.')) return { type: 'team', name: name.slice('team.'.length) };
+  return { type: 'user', name };
+}
+
+const stars = (rating: number) => '★'.repeat(rating) + '☆'.repeat(Math.max(0, 5 - rating));
+
+/**
+ * Describe a review as a `Note`, with the title, rating and a link to the
+ * review subject above the text, in each language the review is written in.
+ *
+ * @param review - Review with its thing joined
+ */
+function getReviewNote(review: ReviewInstance): Activity {
+  const actorID = getActorID('user', review.createdBy);
+  const { thing } = review;
+  const contentMap: Record<string, string> = {};
+  for (const lang of Object.keys(review.html ?? {})) {
+    const title = resolveHTML(review.title, lang);
+    let subject = '';
+    if (thing) {
+      const label =
+        resolveHTML(thing.label, lang) ?? escapeHTML(urlUtils.prettify(thing.urls?.[0] ?? ''));
+      subject = ` <a href="${config.qualifiedURL}${thing.urlID}">${label}</a>`;
+    }
+    contentMap[lang] =
+      (title ? `<p><strong>${title}</strong></p>` : '') +
+      `<p>${stars(review.starRating)}${subject}</p>${review.html[lang]}`;
+  }
+  const originalLanguage = review.originalLanguage ?? 'en';
+  return {
+    id: getNoteID(review.id),
+    type: 'Note',
+    attributedTo: actorID,
+    content: mlString.resolve(originalLanguage, contentMap)?.str ?? '',
+    contentMap,
+    url: `${config.qualifiedURL}review/${review.id}`,
+    published: review.createdOn?.toISOString(),
+    to: [PUBLIC_COLLECTION],
+    cc: [`${actorID}/followers`],
+  };
+}
+
+/**
+ * The activity that publishes a review in its author's outbox.
+ *
+ * @param review - Review with its thing joined
+ */
+function getCreateActivity(review: ReviewInstance): Activity {
+  const note = getReviewNote(review);
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    id: `${note.id}/activity`,
+    type: 'Create',
+    actor: note.attributedTo,
+    published: note.published,
+    to: note.to,
+    cc: note.cc,
+    object: note,
+  };
+}
+
+/**
+ * The activity that shares a review in the outbox of a team it is associated
+ * with.
+ *
+ * @param teamID - Team that shares the review
+ * @param review - Review to share
+ */
+function getAnnounceActivity(teamID: string, review: ReviewInstance): Activity {
+  const actorID = getActorID('team', teamID);
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    id: `${actorID}/announce/${review.id}`,
+    type: 'Announce',
+    actor: actorID,
+    published: review.createdOn?.toISOString(),
+    to: [PUBLIC_COLLECTION],
+    cc: [`${actorID}/followers`, getActorID('user', review.createdBy)],
+    object: getNoteID(review.id),
+  };
+}
+
+/**
+ * Get a page of an actor's outbox.
+ *
+ * @param type - Kind of actor
+ * @param id - ID of the user or team
+ * @param reviews - Most recent reviews of the user, or associated with the team
+ */
+function getOutbox(type: ActorType, id: string, reviews: ReviewInstance[]): Activity {
+  const actorID = getActorID(type, id);
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    id: `${actorID}/outbox`,
+    type: 'OrderedCollection',
+    orderedItems: reviews
+      .slice(0, OUTBOX_SIZE)
+      .map(review =>
+        type === 'team' ? getAnnounceActivity(id, review) : getCreateActivity(review)
+      ),
+  };
+}
+
+/**
+ * Get an actor's followers collection. Only the number of followers is
+ * shown.
+ *
+ * @param type - Kind of actor
+ * @param id - ID of the user or team
+ */
+async function getFollowersCollection(type: ActorType, id: string): Promise<Activity> {
+  const [{ count }] = await runQuery<{ count: string }>(
+    'SELECT COUNT(*) AS count FROM activitypub_followers WHERE owner_id = $1',
+    [id]
+  );
+  return {
+    '@context': ACTIVITY_CONTEXT,
+    id: `${getActorID(type, id)}/followers`,
+    type: 'OrderedCollection',
+    totalItems: Number(count),
+  };
+}
+
+// Whether a URL is served over HTTPS from the given host
+const isOnHost = (value: string, host: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && url.host === host;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fetch a remote actor. Actors must be served over HTTPS from public hosts,
+ * since any server can make us fetch them, so they are requested with
+ * util/public-fetch.ts. Redirects are not followed, as they could lead to
+ * another host. The inboxes we deliver to must be on the
+ * actor's own host.
+ *
+ * @param actorURL - ID of the actor, or of its key
+ * @returns The actor, or null if it could not be fetched or is invalid
+ */
+async function fetchRemoteActor(actorURL: string): Promise<RemoteActor | null> {
+  const url = actorURL.replace(/#.*$/, '');
+  if (!url.startsWith('https://') || !urlUtils.isPublic(url)) return null;
+  try {
+    const response = await publicFetch.fetch(url, {
+      headers: { Accept: ACTIVITY_CONTENT_TYPE },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    const actor = (await response.json()) as {
+      id?: unknown;
+      inbox?: unknown;
+      endpoints?: { sharedInbox?: unknown };
+      publicKey?: { publicKeyPem?: unknown };
+    };
+    if (typeof actor.id !== 'string' || typeof actor.inbox !== 'string') return null;
+    // An actor may only be served from its own server
+    const { host } = new URL(url);
+    if (!isOnHost(actor.id, host) || !isOnHost(actor.inbox, host)) return null;
+    const sharedInbox = actor.endpoints?.sharedInbox;
+    const publicKeyPem = actor.publicKey?.publicKeyPem;
+    return {
+      id: actor.id,
+      inbox: actor.inbox,
+      sharedInbox:
+        typeof sharedInbox === 'string' && isOnHost(sharedInbox, host) ? sharedInbox : undefined,
+      publicKeyPem: typeof publicKeyPem === 'string' ? publicKeyPem : undefined,
+    };
+  } catch (error) {
+    debug.activitypub(`Could not fetch actor ${url}: ${String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Check the signature of an inbox request and that the signer sent the
+ * activity.
+ *
+ * @param request - Incoming request
+ * @param activity - Parsed body
+ * @returns The sender, or null if the request is not authentic
+ */
+async function verifyInboxRequest(
+  request: InboxRequest,
+  activity: Activity
+): Promise<RemoteActor | null> {
+  const signature = parseSignatureHeader(request.getHeader('signature'));
+  if (!signature) return null;
+  const actor = await fetchRemoteActor(signature.keyID);
+  if (!actor?.publicKeyPem || actor.id !== activity.actor) return null;
+  const valid = verifyRequestSignature({ ...request, publicKey: actor.publicKeyPem });
+  return valid ? actor : null;
+}
+
+/**
+ * Sign and send an activity to remote inboxes. Failures are logged, not
+ * retried.
+ *
+ * @param type - Kind of actor that sends the activity
+ * @param id - ID of the user or team
+ * @param inboxes - Inbox URLs
+ * @param activity - Activity to send
+ */
+async function deliver(
+  type: ActorType,
+  id: string,
+  inboxes: string[],
+  activity: Activity
+): Promise<void> {
+  if (!inboxes.length) return;
+  const { privateKey } = await getKeyPair(id);
+  const keyID = getKeyID(getActorID(type, id));
+  const body = JSON.stringify(activity);
+  for (const inbox of inboxes) {
+    if (!inbox.startsWith('https://') || !urlUtils.isPublic(inbox)) continue;
+    try {
+      const headers = signRequest({ keyID, privateKey, method: 'POST', url: inbox, body });
+      const response = await publicFetch.fetch(inbox, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': ACTIVITY_CONTENT_TYPE },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok)
+        debug.activitypub(`Delivery of ${activity.type} to ${inbox} failed: ${response.status}`);
+    } catch (error) {
+      debug.activitypub(`Delivery of ${activity.type} to ${inbox} failed: ${String(error)}`);
+    }
+  }
+}
+
+/**
+ * Get the inboxes of an actor's followers. Followers on the same server
+ * usually share an inbox, which then receives each activity once.
+ *
+ * @param id - ID of the user or team
+ */
+async function getFollowerInboxes(id: string): Promise<string[]> {
+  const rows = await runQuery<{ inbox: string }>(
+    `SELECT DISTINCT COALESCE(shared_inbox, inbox) AS inbox FROM activitypub_followers
+      WHERE owner_id = $1`,
+    [id]
+  );
+  return rows.map(row => row.inbox);
+}
+
+/**
+ * Store a follower and confirm their `Follow` activity.
+ *
+ * @param type - Kind of actor that is followed
+ * @param id - ID of the user or team
+ * @param follower - Remote actor that follows
+ * @param follow - The `Follow` activity
+ */
+async function acceptFollow(
+  type: ActorType,
+  id: string,
+  follower: RemoteActor,
+  follow: Activity
+): Promise<void> {
+  await runQuery(
+    `INSERT INTO activitypub_followers (owner_id, owner_type, follower_id, inbox, shared_inbox)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (owner_id, follower_id)
+      DO UPDATE SET inbox = EXCLUDED.inbox, shared_inbox = EXCLUDED.shared_inbox`,
+    [id, type, follower.id, follower.inbox, follower.sharedInbox ?? null]
+  );
+  // Sent in the background, since the follower's server may wait for the
+  // response to its Follow first
+  const actorID = getActorID(type, id);
+  void deliver(type, id, [follower.inbox], {
+    '@context': ACTIVITY_CONTEXT,
+    id: `${actorID}#accepts/${randomUUID()}`,
+    type: 'Accept',
+    actor: actorID,
+    object: follow,
+  }).catch(error => {
+    debug.error('Problem accepting ActivityPub follow:');
+    debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+  });
+}
+
+/**
+ * Remove a follower.
+ *
+ * @param id - ID of the user or team
+ * @param followerID - ID of the remote actor
+ */
+async function removeFollower(id: string, followerID: string): Promise<void> {
+  await runQuery('DELETE FROM activitypub_followers WHERE owner_id = $1 AND follower_id = $2', [
+    id,
+    followerID,
+  ]);
+}
+
+/**
+ * Handle an activity sent to an actor's inbox. `Follow` and the `Undo` of a
+ * `Follow` are processed; other activities are ignored.
+ *
+ * @param type - Kind of actor the inbox belongs to
+ * @param id - ID of the user or team
+ * @param request - Incoming request, whose signature is verified
+ * @param activity - Parsed body
+ * @returns Whether the request was authentic
+ */
+async function receive(
+  type: ActorType,
+  id: string,
+  request: InboxRequest,
+  activity: Activity
+): Promise<boolean> {
+  const sender = await verifyInboxRequest(request, activity);
+  if (!sender) return false;
+
+  const actorID = getActorID(type, id);
+  const object = activity.object as Activity | string | undefined;
+  if (activity.type === 'Follow' && object === actorID)
+    await acceptFollow(type, id, sender, activity);
+  else if (
+    activity.type === 'Undo' &&
+    typeof object === 'object' &&
+    object?.type === 'Follow' &&
+    object.object === actorID
+  )
+    await removeFollower(id, sender.id);
+  return true;
+}
+
+/**
+ * Send a new review to the followers of its author and of the teams it is
+ * associated with. Does nothing if federation is disabled, and never rejects.
+ *
+ * @param review - New review with its thing and teams joined
+ */
+async function publishReview(review: ReviewInstance): Promise<void> {
+  if (!isEnabled()) return;
+  try {
+    await deliver(
+      'user',
+      review.createdBy,
+      await getFollowerInboxes(review.createdBy),
+      getCreateActivity(review)
+    );
+    for (const team of review.teams ?? [])
+      await deliver(
+        'team',
+        team.id,
+        await getFollowerInboxes(team.id),
+        getAnnounceActivity(team.id, review)
+      );
+  } catch (error) {
+    debug.error('Problem publishing review to ActivityPub followers:');
+    debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+  }
+}
+
+const activityPub = {
+  isEnabled,
+  getActorID,
+  getUserActor,
+  getTeamActor,
+  getWebFinger,
+  parseWebFingerResource,
+  getReviewNote,
+  getOutbox,
+  getFollowersCollection,
+  receive,
+  publishReview,
+};
+
+export { activityPub };
+export default activityPub;
@@ -42,6 +42,8 @@ export interface DebugLoggerMap {
   tests: Debugger;
   adapters: Debugger;
   webhooks: Debugger;
+  activitypub: Debugger;
+  webmentions: Debugger;
   errorLog: Debugger;
   /** Logs either a raw string or a structured error payload. */
   error: DebugErrorFunction;
@@ -133,6 +135,8 @@ const debug: DebugLoggerMap = {
   tests: debugModule('libreviews:tests'),
   adapters: debugModule('libreviews:adapters'),
   webhooks: debugModule('libreviews:webhooks'),
+  activitypub: debugModule('libreviews:activitypub'),
+  webmentions: debugModule('libreviews:webmentions'),
   errorLog: debugModule('libreviews:error'), // for property access, use debug.error for logging
 
   error(
@@ -237,6 +237,45 @@ export async function sendAccountRequestRejection(
   }
 }
 
+/**
+ * Tell a user about new results for one of their saved searches.
+ *
+ * @param to - Email address of the user
+ * @param alert - Query, links to the new results and to manage saved searches
+ * @param language - Language code for email localization (defaults to 'en')
+ */
+export async function sendSavedSearchAlert(
+  to: string,
+  alert: {
+    query: string;
+    results: Array<{ title: string; url: string }>;
+    moreResults: number;
+    searchURL: string;
+    manageURL: string;
+  },
+  language: string = 'en'
+): Promise<void> {
+  if (!ensureEmailEnabled('Saved search alert')) return;
+
+  const client = getMailgunClientOrLog('Saved search alert');
+  if (!client) return;
+
+  try {
+    const subject = getEmailSubject('saved search alert subject', language);
+    const { text, html } = await loadEmailTemplate('saved-search-alert', language, alert);
+
+    await client.messages.create(config.get('email.mailgun.domain') as string, {
+      from: config.get('email.mailgun.from') as string,
+      to: [to],
+      subject,
+      text,
+      html,
+    });
+  } catch (error) {
+    debug.error(`Failed to send saved search alert: ${formatMailgunError(error)}`);
+  }
+}
+
 /**
  * Truncate text to a maximum length, adding ellipsis if needed.
  *
@@ -263,7 +302,7 @@ function getEmailSubject(subjectKey: string, language: string): string {
 async function loadEmailTemplate(
   templateName: string,
   language: string,
-  vars: Record<string, string | number>
+  vars: Record<string, unknown>
 ): Promise<{ text: string; html: string }> {
   const lang = normalizeLanguage(language);
 
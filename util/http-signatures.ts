@@ -0,0 +1,164 @@
+import { createHash, sign, verify } from 'node:crypto';
+
+import type { HeadersRecord } from './webhooks.ts';
+
+/**
+ * HTTP message signatures as used by ActivityPub servers
+ * (draft-cavage-http-signatures, `rsa-sha256`). Requests are signed over the
+ * request target, host and date, and over a SHA-256 digest of the body if
+ * there is one.
+ */
+
+export interface ParsedSignature {
+  keyID: string;
+  algorithm?: string;
+  headers: string[];
+  signature: string;
+}
+
+export interface SignRequestOptions {
+  // URL of the public key, e.g. `https://lib.reviews/ap/user/<id>#main-key`
+  keyID: string;
+  privateKey: string;
+  method: string;
+  url: string;
+  body?: string;
+  date?: Date;
+}
+
+export interface VerifyRequestOptions {
+  method: string;
+  // Path and query string the request was sent to
+  path: string;
+  // Function that returns a request header by (lower-case) name
+  getHeader: (name: string) => string | undefined;
+  body?: Buffer | string;
+  publicKey: string;
+  toleranceSeconds?: number;
+  now?: number;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 12 * 60 * 60;
+
+/**
+ * Compute the value of a `Digest` header for a body.
+ *
+ * @param body - Request body as sent
+ */
+export function getDigest(body: Buffer | string): string {
+  return `SHA-256=${createHash('sha256').update(body).digest('base64')}`;
+}
+
+const getSigningString = (
+  headerNames: string[],
+  method: string,
+  path: string,
+  getHeader: (name: string) => string | undefined
+) =>
+  headerNames
+    .map(name =>
+      name === '(request-target)'
+        ? `(request-target): ${method.toLowerCase()} ${path}`
+        : `${name}: ${getHeader(name) ?? ''}`
+    )
+    .join('\n');
+
+/**
+ * Sign a request. The `Host` header is part of the signature but not
+ * returned, since the HTTP client sets it from the URL.
+ *
+ * @param options - Key, request and body to sign
+ * @returns Headers to send with the request
+ */
+export function signRequest({
+  keyID,
+  privateKey,
+  method,
+  url,
+  body,
+  date = new Date(),
+}: SignRequestOptions): HeadersRecord {
+  const target = new URL(url);
+  const headers: HeadersRecord = { date: date.toUTCString() };
+  const headerNames = ['(request-target)', 'host', 'date'];
+  if (body !== undefined) {
+    headers.digest = getDigest(body);
+    headerNames.push('digest');
+  }
+  const signingString = getSigningString(
+    headerNames,
+    method,
+    `${target.pathname}${target.search}`,
+    name => (name === 'host' ? target.host : headers[name])
+  );
+  const signature = sign('sha256', Buffer.from(signingString), privateKey).toString('base64');
+  headers.signature = [
+    `keyId="${keyID}"`,
+    'algorithm="rsa-sha256"',
+    `headers="${headerNames.join(' ')}"`,
+    `signature="${signature}"`,
+  ].join(',');
+  return headers;
+}
+
+/**
+ * Parse a `Signature` header.
+ *
+ * @param header - Header value
+ * @returns The signature parameters, or null if the header is malformed
+ */
+export function parseSignatureHeader(header: string | undefined): ParsedSignature | null {
+  if (!header) return null;
+  const params: Record<string, string> = {};
+  for (const match of header.matchAll(/(\w+)="([^"]*)"/g)) params[match[1]] = match[2];
+  if (!params.keyId || !params.signature) return null;
+  return {
+    keyID: params.keyId,
+    algorithm: params.algorithm,
+    // Without a list, only the date is signed
+    headers: (params.headers ?? 'date').toLowerCase().split(/\s+/),
+    signature: params.signature,
+  };
+}
+
+/**
+ * Verify the signature of an incoming request. The request target, host and
+ * date must be signed, as well as the digest if there is a body, and the date
+ * must be recent.
+ *
+ * @param options - Request and the public key of the signer
+ * @returns Whether the request is authentic
+ */
+export function verifyRequestSignature({
+  method,
+  path,
+  getHeader,
+  body,
+  publicKey,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+  now = Date.now(),
+}: VerifyRequestOptions): boolean {
+  const parsed = parseSignatureHeader(getHeader('signature'));
+  if (!parsed) return false;
+  if (parsed.algorithm && !['rsa-sha256', 'hs2019'].includes(parsed.algorithm)) return false;
+
+  const required = ['(request-target)', 'host', 'date'];
+  if (body?.length) required.push('digest');
+  if (!required.every(name => parsed.headers.includes(name))) return false;
+
+  const date = Date.parse(getHeader('date') ?? '');
+  if (Number.isNaN(date) || Math.abs(now - date) > toleranceSeconds * 1000) return false;
+  if (body?.length && getHeader('digest') !== getDigest(body)) return false;
+
+  const signingString = getSigningString(parsed.headers, method, path, getHeader);
+  try {
+    return verify(
+      'sha256',
+      Buffer.from(signingString),
+      publicKey,
+      Buffer.from(parsed.signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
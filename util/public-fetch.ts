@@ -0,0 +1,113 @@
+import dns, { type LookupAddress } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { Readable } from 'node:stream';
+
+import urlUtils from './url-utils.ts';
+
+/**
+ * Requests to URLs that users supply, such as team webhooks, ActivityPub
+ * actors and Webmention sources. A URL may only be requested if its host
+ * resolves to public addresses only (see `urlUtils.isPublicAddress`), and the
+ * connection is made to the address that was checked, so the name cannot
+ * resolve to a private address by the time of the request (DNS rebinding).
+ * Redirects are never followed; callers must check each location again.
+ */
+
+type Lookup = (hostname: string, options: { all: true }) => Promise<LookupAddress[]>;
+
+export interface PublicRequestInit {
+  method?: string;
+  headers?: HeadersInit;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+// Responses to these must not have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Resolve the host of a URL and check that it is public.
+ *
+ * @param inputURL - HTTP(S) URL
+ * @param lookup - DNS lookup, for testing
+ * @returns address to connect to, or null if the URL is not public or its
+ *  host has any private address
+ */
+async function resolve(
+  inputURL: string,
+  lookup: Lookup = dns.promises.lookup
+): Promise<LookupAddress | null> {
+  if (!urlUtils.isPublic(inputURL)) return null;
+  const host = new URL(inputURL).hostname.replace(/^\[|\]$/g, '');
+  const ipVersion = isIP(host);
+  if (ipVersion) return { address: host, family: ipVersion };
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return null;
+  }
+  if (!addresses.length || !addresses.every(({ address }) => urlUtils.isPublicAddress(address)))
+    return null;
+  return addresses[0];
+}
+
+/**
+ * Make a request to a user-supplied URL, connected to the address checked by
+ * {@link resolve}. Redirects are returned as they are.
+ *
+ * @param inputURL - HTTP(S) URL
+ * @param init - Request options, a subset of those of `fetch`
+ * @throws if the URL is not public, or on network errors
+ */
+async function fetchPublic(inputURL: string, init: PublicRequestInit = {}): Promise<Response> {
+  const resolved = await publicFetch.resolve(inputURL);
+  if (!resolved) throw new Error('URL points to a private network.');
+
+  const url = new URL(inputURL);
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [resolved]);
+    else callback(null, resolved.address, resolved.family);
+  };
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+  if (init.body !== undefined) headers['content-length'] = String(Buffer.byteLength(init.body));
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  const response = await new Promise<http.IncomingMessage>((resolveResponse, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method, headers, lookup: pinnedLookup, signal: init.signal },
+      resolveResponse
+    );
+    request.on('error', reject);
+    request.end(init.body);
+  });
+
+  const responseHeaders = new Headers();
+  for (const [name, value] of Object.entries(response.headers)) {
+    for (const item of Array.isArray(value) ? value : [value])
+      if (item !== undefined) responseHeaders.append(name, item);
+  }
+  const status = response.statusCode ?? 0;
+  const hasBody = method !== 'HEAD' && !NULL_BODY_STATUSES.has(status);
+  if (!hasBody) response.resume();
+  return new Response(hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null, {
+    status,
+    statusText: response.statusMessage,
+    headers: responseHeaders,
+  });
+}
+
+const publicFetch = {
+  resolve,
+  fetch: fetchPublic,
+};
+
+export { publicFetch };
+export default publicFetch;
@@ -0,0 +1,185 @@
+import config from 'config';
+import escapeHTML from 'escape-html';
+
+import { getDAL } from '../bootstrap/dal.ts';
+
+/**
+ * XML sitemaps (https://www.sitemaps.org/protocol.html) for search engines.
+ * `/sitemap.xml` is an index of paginated child sitemaps, one series per
+ * kind of content. Pages in several languages list an `hreflang` alternate
+ * per language, which selects the interface language with `?uselang=`.
+ */
+
+export const SITEMAP_TYPES = ['things', 'reviews', 'teams', 'users', 'posts'] as const;
+export type SitemapType = (typeof SITEMAP_TYPES)[number];
+
+export interface SitemapEntry {
+  // Path relative to qualifiedURL, already URL-encoded
+  path: string;
+  lastmod: Date | null;
+  languages: string[];
+}
+
+export interface SitemapPage {
+  type: SitemapType;
+  page: number;
+  lastmod: Date | null;
+}
+
+// Well below the protocol limit of 50,000 URLs, to keep child sitemaps small
+const PAGE_SIZE = 10_000;
+
+type EntryRow = {
+  id: string;
+  slug: string | null;
+  team_slug: string | null;
+  team_id: string | null;
+  lastmod: Date | null;
+  languages: string[] | null;
+};
+
+const current = (alias: string) => `${alias}._old_rev_of IS NULL AND ${alias}._rev_deleted = false`;
+
+const languagesOf = (column: string) =>
+  `ARRAY(SELECT jsonb_object_keys(COALESCE(${column}, '{}'::jsonb)) ORDER BY 1)`;
+
+// One query per type; all return the columns of EntryRow, ordered by ID
+const entryQueries: Record<SitemapType, string> = {
+  things: `SELECT t.id, t.canonical_slug_name AS slug, t._rev_date AS lastmod,
+      ${languagesOf('t.label')} AS languages
+    FROM things t WHERE ${current('t')}`,
+  reviews: `SELECT r.id, r._rev_date AS lastmod, ${languagesOf('r.html')} AS languages
+    FROM reviews r WHERE ${current('r')}`,
+  teams: `SELECT t.id, t.canonical_slug_name AS slug, t._rev_date AS lastmod,
+      ${languagesOf('t.name')} AS languages
+    FROM teams t WHERE ${current('t')}`,
+  users: `SELECT u.id, u.display_name AS slug,
+      GREATEST(u.registration_date, m._rev_date) AS lastmod,
+      ${languagesOf("m.bio->'text'")} AS languages
+    FROM users u LEFT JOIN user_metas m ON m.id = u.user_meta_id AND ${current('m')}`,
+  posts: `SELECT b.id, t.id AS team_id, t.canonical_slug_name AS team_slug,
+      b._rev_date AS lastmod, ${languagesOf('b.html')} AS languages
+    FROM blog_posts b JOIN teams t ON t.id = b.team_id AND ${current('t')}
+    WHERE ${current('b')}`,
+};
+
+const getPath = (type: SitemapType, row: EntryRow) => {
+  switch (type) {
+    case 'things':
+      return row.slug ? encodeURIComponent(row.slug) : row.id;
+    case 'reviews':
+      return `review/${row.id}`;
+    case 'teams':
+      return `team/${row.slug ? encodeURIComponent(row.slug) : row.id}`;
+    case 'users':
+      return `user/${encodeURIComponent(String(row.slug).replace(/ /g, '_'))}`;
+    case 'posts':
+      return `team/${row.team_slug ? encodeURIComponent(row.team_slug) : row.team_id}/post/${row.id}`;
+  }
+};
+
+async function runQuery<TRow>(sql: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+/**
+ * List the child sitemaps, with the most recent change to their entries.
+ * Every type has at least one page, which may be empty.
+ */
+async function getPages(): Promise<SitemapPage[]> {
+  const pages: SitemapPage[] = [];
+  for (const type of SITEMAP_TYPES) {
+    const rows = await runQuery<{ page: string; lastmod: Date | null }>(
+      `SELECT page, MAX(lastmod) AS lastmod FROM (
+        SELECT (ROW_NUMBER() OVER (ORDER BY id) - 1) / $1 AS page, lastmod
+        FROM (${entryQueries[type]}) entries
+      ) numbered GROUP BY page ORDER BY page`,
+      [PAGE_SIZE]
+    );
+    if (!rows.length) pages.push({ type, page: 1, lastmod: null });
+    for (const row of rows) pages.push({ type, page: Number(row.page) + 1, lastmod: row.lastmod });
+  }
+  return pages;
+}
+
+/**
+ * Get the entries of one child sitemap.
+ *
+ * @param type - Kind of content
+ * @param page - Page number, starting at 1
+ */
+async function getEntries(type: SitemapType, page: number): Promise<SitemapEntry[]> {
+  const rows = await runQuery<EntryRow>(
+    `SELECT * FROM (${entryQueries[type]}) entries ORDER BY id LIMIT $1 OFFSET $2`,
+    [PAGE_SIZE, (page - 1) * PAGE_SIZE]
+  );
+  return rows.map(row => ({
+    path: getPath(type, row),
+    lastmod: row.lastmod,
+    languages: row.languages ?? [],
+  }));
+}
+
+const getSitemapURL = ({ type, page }: Pick<SitemapPage, 'type' | 'page'>) =>
+  `${config.qualifiedURL}sitemaps/${type}/${page}.xml`;
+
+const lastmodElement = (date: Date | null) =>
+  date ? `<lastmod>${date.toISOString()}</lastmod>` : '';
+
+/**
+ * Render the sitemap index.
+ *
+ * @param pages - Child sitemaps
+ */
+function renderIndex(pages: SitemapPage[]): string {
+  const sitemaps = pages.map(
+    page =>
+      `<sitemap><loc>${escapeHTML(getSitemapURL(page))}</loc>${lastmodElement(page.lastmod)}</sitemap>`
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+  ].join('\n');
+}
+
+/**
+ * Render a child sitemap. Entries in more than one language link to each
+ * language version, and to the page without a language as the default.
+ *
+ * @param entries - Pages to list
+ */
+function renderURLSet(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const loc = `${config.qualifiedURL}${entry.path}`;
+    const alternates =
+      entry.languages.length > 1
+        ? [
+            ...entry.languages.map(
+              lang =>
+                `<xhtml:link rel="alternate" hreflang="${escapeHTML(lang)}" href="${escapeHTML(`${loc}?uselang=${encodeURIComponent(lang)}`)}"/>`
+            ),
+            `<xhtml:link rel="alternate" hreflang="x-default" href="${escapeHTML(loc)}"/>`,
+          ].join('')
+        : '';
+    return `<url><loc>${escapeHTML(loc)}</loc>${lastmodElement(entry.lastmod)}${alternates}</url>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+  ].join('\n');
+}
+
+const sitemaps = {
+  getPages,
+  getEntries,
+  renderIndex,
+  renderURLSet,
+};
+
+export { sitemaps };
+export default sitemaps;
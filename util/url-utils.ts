@@ -1,3 +1,4 @@
+import { isIP } from 'node:net';
 import { parse as parseUrl, type UrlWithStringQuery } from 'node:url';
 
 /** Normalization function referenced by the rule table below. */
@@ -42,6 +43,65 @@ function hostWithOptionalWww(hostname: string): RegExp {
 const urlRegex =
   /^(https?|ftp):\/\/(((([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(%[\da-f]{2})|[!$&'()*+,;=]|:)*@)?(((\d|[1-9]\d|1\d\d|2[0-4]\d|25[0-5])\.(\d|[1-9]\d|1\d\d|2[0-4]\d|25[0-5])\.(\d|[1-9]\d|1\d\d|2[0-4]\d|25[0-5])\.(\d|[1-9]\d|1\d\d|2[0-4]\d|25[0-5]))|((([a-z]|\d|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(([a-z]|\d|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])*([a-z]|\d|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])))\.)+(([a-z]|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(([a-z]|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])*([a-z]|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])))\.?)(:\d*)?)(\/((([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(%[\da-f]{2})|[!$&'()*+,;=]|:|@)+(\/(([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(%[\da-f]{2})|[!$&'()*+,;=]|:|@)*)*)?)?(\?((([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(%[\da-f]{2})|[!$&'()*+,;=]|:|@)|[\uE000-\uF8FF]|\/|\?)*)?(#((([a-z]|\d|-|\.|_|~|[\u00A0-\uD7FF\uF900-\uFDCF\uFDF0-\uFFEF])|(%[\da-f]{2})|[!$&'()*+,;=]|:|@)|\/|\?)*)*$/i;
 
+const privateIPv4Ranges: Array<[number, number]> = [
+  // [network, prefix length]: "this" network, private, shared, loopback,
+  // link-local, private, private, and multicast and reserved
+  [0x00000000, 8],
+  [0x0a000000, 8],
+  [0x64400000, 10],
+  [0x7f000000, 8],
+  [0xa9fe0000, 16],
+  [0xac100000, 12],
+  [0xc0a80000, 16],
+  [0xe0000000, 3],
+];
+
+function isPrivateIPv4Value(value: number): boolean {
+  return privateIPv4Ranges.some(
+    ([network, prefix]) => Math.floor(value / 2 ** (32 - prefix)) === network / 2 ** (32 - prefix)
+  );
+}
+
+function isPrivateIPv4(address: string): boolean {
+  return isPrivateIPv4Value(
+    address.split('.').reduce((sum, octet) => sum * 256 + Number(octet), 0)
+  );
+}
+
+// The eight 16-bit groups of a valid IPv6 address
+function getIPv6Groups(address: string): number[] {
+  let normalized = address.toLowerCase().replace(/%.*$/, '');
+  // A trailing IPv4 address stands for the last two groups
+  const ipv4 = normalized.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b, c, d] = ipv4.slice(1).map(Number);
+    normalized = `${normalized.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = normalized.split('::');
+  const parse = (part?: string) =>
+    part ? part.split(':').map(group => Number.parseInt(group, 16)) : [];
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...zeros, ...tailGroups];
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = getIPv6Groups(address);
+  const embeddedIPv4 = groups[6] * 0x10000 + groups[7];
+  // Unspecified (::), loopback (::1) and IPv4-compatible (::a.b.c.d)
+  if (groups.slice(0, 6).every(group => group === 0))
+    return embeddedIPv4 <= 1 || isPrivateIPv4Value(embeddedIPv4);
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach
+  // the IPv4 address
+  const isMapped = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const isNAT64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(g => !g);
+  if (isMapped || isNAT64) return isPrivateIPv4Value(embeddedIPv4);
+  // Unique local (fc00::/7), link-local and site-local (fe80::/9), multicast
+  // (ff00::/8)
+  return (groups[0] & 0xfe00) === 0xfc00 || groups[0] >= 0xfe80;
+}
+
 const rules: URLRule[] = [
   {
     host: hostWithOptionalWww('amazon.com'),
@@ -203,6 +263,19 @@ const urlUtils = {
     return outputURL;
   },
 
+  /** Returns all tags that recognized URLs can be grouped by, sorted by name. */
+  getTags(): string[] {
+    return [...new Set(rules.flatMap(rule => rule.tags ?? []))].sort();
+  },
+
+  /**
+   * Returns the hostname patterns of the rules with a given tag, as regular
+   * expression sources that PostgreSQL can evaluate as well.
+   */
+  getHostPatterns(tag: string): string[] {
+    return rules.filter(rule => rule.tags?.includes(tag)).map(rule => rule.host.source);
+  },
+
   /** Groups incoming URLs by the associated rule tags. */
   getURLsByTag(
     inputURLs: string[] = [],
@@ -242,6 +315,40 @@ const urlUtils = {
     return rv;
   },
 
+  /**
+   * Checks that an HTTP(S) URL does not point to the server itself or its
+   * local network, for URLs that users supply and the server requests, such
+   * as team webhooks. IP addresses are checked in all their forms, but host
+   * names are not resolved here; requests to such URLs must be made with
+   * util/public-fetch.ts, which checks the addresses the name resolves to.
+   */
+  isPublic(inputURL: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(inputURL);
+    } catch {
+      return false;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (host === 'localhost' || host.endsWith('.localhost')) return false;
+    return !isIP(host) || urlUtils.isPublicAddress(host);
+  },
+
+  /**
+   * Checks that an IP address is not one of the server itself or its local
+   * network. IPv6 addresses that embed an IPv4 address are checked by it.
+   *
+   * @param address - IPv4 or IPv6 address
+   * @returns false if the address is private or not an IP address
+   */
+  isPublicAddress(address: string): boolean {
+    const ipVersion = isIP(address);
+    if (ipVersion === 4) return !isPrivateIPv4(address);
+    if (ipVersion === 6) return !isPrivateIPv6(address);
+    return false;
+  },
+
   /**
    * Produces a compact representation of the URL, removing protocol and
    * trailing slash noise for display purposes.
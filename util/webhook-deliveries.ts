@@ -0,0 +1,326 @@
+import { getDAL } from '../bootstrap/dal.ts';
+import debug from './debug.ts';
+import type WebHookDispatcher from './webhooks.ts';
+import type { HeadersRecord, WebHookDeliveryResult } from './webhooks.ts';
+
+export type WebHookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * A webhook event for one endpoint, as stored in the `webhook_deliveries`
+ * table.
+ */
+export interface WebHookDelivery {
+  id: string;
+  event: string;
+  url: string;
+  payload: unknown;
+  headers: HeadersRecord;
+  status: WebHookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  nextAttemptAt: Date;
+  deliveredAt: Date | null;
+}
+
+/** One logged attempt to deliver a webhook. */
+export interface WebHookDeliveryAttempt {
+  id: string;
+  deliveryID: string;
+  attemptedAt: Date;
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface WebHookRunResult {
+  delivered: number;
+  failed: number;
+}
+
+type DeliveryRow = {
+  id: string;
+  event: string;
+  url: string;
+  payload: unknown;
+  headers: HeadersRecord;
+  status: WebHookDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  next_attempt_at: Date;
+  delivered_at: Date | null;
+};
+
+type AttemptRow = {
+  id: string;
+  delivery_id: string;
+  attempted_at: Date;
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+};
+
+// Deliveries that failed this many times are marked as failed and only
+// retried when replayed, e.g. from /actions/webhook-deliveries. With the
+// delays below, that is after about a day of failures.
+const MAX_ATTEMPTS = 15;
+// Delay after the first failure; doubles with every further attempt
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// How long a worker may hold a delivery before others consider it abandoned
+const LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+const DEFAULT_LIST_LIMIT = 100;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<WebHookRunResult> | null = null;
+
+async function runQuery<TRow>(sql: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+function toDelivery(row: DeliveryRow): WebHookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    url: row.url,
+    payload: row.payload,
+    headers: row.headers,
+    status: row.status,
+    attempts: row.attempts,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    nextAttemptAt: row.next_attempt_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+function toAttempt(row: AttemptRow): WebHookDeliveryAttempt {
+  return {
+    id: row.id,
+    deliveryID: row.delivery_id,
+    attemptedAt: row.attempted_at,
+    ok: row.ok,
+    statusCode: row.status_code,
+    error: row.error,
+  };
+}
+
+// Claim due deliveries by pushing them past the lease, so concurrent workers
+// (e.g. in multiple processes) skip them
+async function claimDueDeliveries(batchSize: number): Promise<WebHookDelivery[]> {
+  const rows = await runQuery<DeliveryRow>(
+    `UPDATE webhook_deliveries
+      SET next_attempt_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+    [batchSize, LEASE_MS]
+  );
+  return rows.map(toDelivery);
+}
+
+async function processBatch(
+  dispatcher: WebHookDispatcher,
+  batchSize: number
+): Promise<WebHookRunResult> {
+  const result: WebHookRunResult = { delivered: 0, failed: 0 };
+  const deliveries = await claimDueDeliveries(batchSize);
+  for (const delivery of deliveries) {
+    const attempt = await dispatcher.deliver(delivery.url, delivery.payload, delivery.headers);
+    await webhookDeliveries.recordAttempt(delivery.id, attempt);
+    if (attempt.ok) result.delivered++;
+    else result.failed++;
+  }
+  return result;
+}
+
+const webhookDeliveries = {
+  /**
+   * Store a delivery of an event for each endpoint. The deliveries are leased
+   * to the caller, which is expected to attempt them right away; if it never
+   * records an attempt, the worker picks them up once the lease expires.
+   *
+   * @param eventName - Webhook event, e.g. `newReview`
+   * @param urls - Endpoints configured for the event
+   * @param payload - Payload to send as JSON
+   * @param headers - Extra HTTP headers
+   * @returns IDs of the deliveries, in the order of the URLs
+   */
+  async create(
+    eventName: string,
+    urls: string[],
+    payload: unknown,
+    headers: HeadersRecord = {}
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    for (const url of urls) {
+      const [row] = await runQuery<{ id: string }>(
+        `INSERT INTO webhook_deliveries (event, url, payload, headers, next_attempt_at)
+          VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 millisecond')
+          RETURNING id`,
+        [eventName, url, JSON.stringify(payload), JSON.stringify(headers), LEASE_MS]
+      );
+      ids.push(row.id);
+    }
+    return ids;
+  },
+
+  /**
+   * Log an attempt. Failed deliveries are rescheduled with exponential
+   * backoff, or marked as failed once they are out of attempts.
+   *
+   * @param id - Delivery the attempt was made for
+   * @param result - Outcome of the attempt
+   */
+  async recordAttempt(id: string, result: WebHookDeliveryResult): Promise<void> {
+    const statusCode = result.status ?? null;
+    const error = result.ok ? null : (result.error ?? `HTTP status ${result.status}`);
+    await runQuery(
+      `WITH attempt AS (
+        INSERT INTO webhook_delivery_attempts (delivery_id, ok, status_code, error)
+          VALUES ($1, $2, $3, $4)
+      )
+      UPDATE webhook_deliveries
+        SET attempts = attempts + 1, last_status_code = $3, last_error = $4,
+          updated_at = NOW(),
+          status = CASE WHEN $2 THEN 'delivered'
+            WHEN attempts + 1 >= $5 THEN 'failed' ELSE 'pending' END,
+          delivered_at = CASE WHEN $2 THEN NOW() ELSE NULL END,
+          next_attempt_at = NOW() +
+            LEAST($6::float8 * 2 ^ attempts, $7::float8) * INTERVAL '1 millisecond'
+        WHERE id = $1`,
+      [id, result.ok, statusCode, error, MAX_ATTEMPTS, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS]
+    );
+  },
+
+  /**
+   * Attempt all deliveries that are due, in batches. Only one run is active
+   * per process at a time; calls made during a run return its result.
+   *
+   * @param dispatcher - Dispatcher that sends the requests
+   * @param batchSize - Number of deliveries claimed at once
+   * @returns Number of successful and failed attempts
+   */
+  processDue(
+    dispatcher: WebHookDispatcher,
+    batchSize = DEFAULT_BATCH_SIZE
+  ): Promise<WebHookRunResult> {
+    if (currentRun) return currentRun;
+    currentRun = (async () => {
+      const total: WebHookRunResult = { delivered: 0, failed: 0 };
+      try {
+        for (;;) {
+          const result = await processBatch(dispatcher, batchSize);
+          total.delivered += result.delivered;
+          total.failed += result.failed;
+          if (result.delivered + result.failed < batchSize) break;
+        }
+      } catch (error) {
+        debug.error('Problem processing webhook deliveries:');
+        debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+      } finally {
+        currentRun = null;
+      }
+      return total;
+    })();
+    return currentRun;
+  },
+
+  /**
+   * Retry due deliveries in the background. Does nothing if already started.
+   *
+   * @param dispatcher - Dispatcher that sends the requests
+   * @param intervalMs - Time between polls
+   */
+  startWorker(dispatcher: WebHookDispatcher, intervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (workerTimer) return;
+    workerTimer = setInterval(() => void webhookDeliveries.processDue(dispatcher), intervalMs);
+    workerTimer.unref();
+    void webhookDeliveries.processDue(dispatcher);
+  },
+
+  stopWorker(): void {
+    if (workerTimer) clearInterval(workerTimer);
+    workerTimer = null;
+  },
+
+  /**
+   * List deliveries, newest first.
+   *
+   * @param status - Only list deliveries with this status
+   * @param limit - Maximum number of deliveries
+   */
+  async list(
+    status?: WebHookDeliveryStatus,
+    limit = DEFAULT_LIST_LIMIT
+  ): Promise<WebHookDelivery[]> {
+    const rows = await runQuery<DeliveryRow>(
+      `SELECT * FROM webhook_deliveries
+        WHERE $1::text IS NULL OR status = $1
+        ORDER BY created_at DESC
+        LIMIT $2`,
+      [status ?? null, limit]
+    );
+    return rows.map(toDelivery);
+  },
+
+  /**
+   * Get the logged attempts of deliveries, oldest first.
+   *
+   * @param ids - Deliveries to get the attempts of
+   * @returns Attempts by delivery ID
+   */
+  async getAttempts(ids: string[]): Promise<Map<string, WebHookDeliveryAttempt[]>> {
+    const attemptsByDelivery = new Map<string, WebHookDeliveryAttempt[]>();
+    if (!ids.length) return attemptsByDelivery;
+    const rows = await runQuery<AttemptRow>(
+      `SELECT * FROM webhook_delivery_attempts
+        WHERE delivery_id = ANY($1::uuid[])
+        ORDER BY attempted_at`,
+      [ids]
+    );
+    for (const attempt of rows.map(toAttempt)) {
+      const attempts = attemptsByDelivery.get(attempt.deliveryID) ?? [];
+      attempts.push(attempt);
+      attemptsByDelivery.set(attempt.deliveryID, attempts);
+    }
+    return attemptsByDelivery;
+  },
+
+  /**
+   * Make deliveries due again with a fresh set of attempts. Delivered ones
+   * can be replayed as well, e.g. if the receiver lost them.
+   *
+   * @param ids - Deliveries to replay; all failed deliveries if omitted
+   * @returns Number of deliveries replayed
+   */
+  async replay(ids?: string[]): Promise<number> {
+    const rows = await runQuery<{ id: string }>(
+      `UPDATE webhook_deliveries
+        SET status = 'pending', attempts = 0, updated_at = NOW(), next_attempt_at = NOW(),
+          delivered_at = NULL
+        WHERE ($1::uuid[] IS NULL AND status = 'failed') OR id = ANY($1)
+        RETURNING id`,
+      [ids ?? null]
+    );
+    return rows.length;
+  },
+};
+
+export { webhookDeliveries };
+export default webhookDeliveries;
@@ -0,0 +1,445 @@
+import config from 'config';
+import type { MultilingualString } from 'rev-dal/lib/ml-string';
+import type { AccountRequestInstance } from '../models/manifests/account-request.ts';
+import type { BlogPostInstance } from '../models/manifests/blog-post.ts';
+import type { FileInstance } from '../models/manifests/file.ts';
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import type { TeamInstance } from '../models/manifests/team.ts';
+import type { TeamJoinRequestInstance } from '../models/manifests/team-join-request.ts';
+import { isTeamWebHookEvent, referenceTeamWebHook } from '../models/manifests/team-webhook.ts';
+import type { ThingInstance } from '../models/manifests/thing.ts';
+import type { UserView } from '../models/manifests/user.ts';
+import debug from './debug.ts';
+import type WebHookDispatcher from './webhooks.ts';
+
+const TeamWebHook = referenceTeamWebHook();
+
+/** The parts of a user that are included in webhook payloads. */
+export type WebHookUser = Pick<UserView, 'displayName' | 'urlName'>;
+
+/** The parts of a review subject that are included in webhook payloads. */
+export type WebHookThing = Pick<ThingInstance, 'id' | 'label' | 'urls' | 'createdOn'>;
+
+/** The parts of an account request that are included in webhook payloads. */
+export type WebHookAccountRequest = Pick<
+  AccountRequestInstance,
+  'id' | 'plannedReviews' | 'languages' | 'aboutLinks' | 'language' | 'createdAt'
+>;
+
+/**
+ * A review, for easy external processing after publication, e.g. via IRC
+ * feeds. Multilingual fields are objects keyed by language code.
+ */
+export interface ReviewEventData {
+  title: MultilingualString | undefined;
+  thingURLs: string[] | undefined;
+  thingLabel: MultilingualString | undefined;
+  starRating: number | undefined;
+  html: MultilingualString | undefined;
+  text: MultilingualString | undefined;
+  createdOn: Date | undefined;
+  /** Display name of the review's author */
+  author: string | undefined;
+  reviewURL: string;
+  thingURL: string;
+  authorURL: string | undefined;
+}
+
+/** A change made by a user other than (or in addition to) the author. */
+export interface UserActionData {
+  /** Display name of the user who made the change */
+  user: string;
+  userURL: string;
+}
+
+export type ReviewChangeEventData = ReviewEventData & UserActionData;
+
+/** A review subject. Things are created along with their first review. */
+export interface ThingEventData {
+  label: MultilingualString | undefined;
+  /** Web addresses of the thing; the first one is the primary address */
+  urls: string[] | undefined;
+  createdOn: Date | undefined;
+  thingURL: string;
+}
+
+export type ThingChangeEventData = ThingEventData & UserActionData;
+
+/**
+ * A duplicate review subject merged into another one, which keeps its
+ * reviews. Reserved for merging review subjects, which is not implemented
+ * yet: nothing emits this event so far.
+ */
+export interface ThingMergeEventData extends ThingChangeEventData {
+  /** The thing the duplicate was merged into */
+  mergedInto: ThingEventData;
+}
+
+/** A completed upload, e.g. an image of a review subject. */
+export interface FileEventData {
+  name: string | undefined;
+  mimeType: string | undefined;
+  license: string | undefined;
+  description: MultilingualString | undefined;
+  /** Creator and source are only set if the file isn't the uploader's own work */
+  creator: MultilingualString | undefined;
+  source: MultilingualString | undefined;
+  uploadedOn: Date | undefined;
+  fileURL: string;
+  /** Review subject the file was uploaded for, if any */
+  thingURL: string | undefined;
+  user: string;
+  userURL: string;
+}
+
+export interface TeamEventData {
+  name: MultilingualString | undefined;
+  motto: MultilingualString | undefined;
+  /** Whether moderators must approve new members */
+  modApprovalToJoin: boolean | undefined;
+  createdOn: Date | undefined;
+  teamURL: string;
+  user: string;
+  userURL: string;
+}
+
+/** A request to join a team whose moderators approve new members. */
+export interface TeamJoinRequestEventData {
+  teamName: MultilingualString | undefined;
+  /** Message to the moderators, as escaped HTML */
+  requestMessage: string | undefined;
+  requestDate: Date | undefined;
+  teamURL: string;
+  manageURL: string;
+  user: string;
+  userURL: string;
+}
+
+export interface BlogPostEventData {
+  title: MultilingualString | undefined;
+  html: MultilingualString | undefined;
+  text: MultilingualString | undefined;
+  createdOn: Date | undefined;
+  teamName: MultilingualString | undefined;
+  author: string;
+  postURL: string;
+  teamURL: string;
+  authorURL: string;
+}
+
+/**
+ * A request for an account. The email and IP addresses of the requester are
+ * left out; moderators can see them on the management page.
+ */
+export interface AccountRequestEventData {
+  id: string;
+  plannedReviews: string;
+  languages: string;
+  aboutLinks: string;
+  /** Interface language the request was made in */
+  language: string | undefined;
+  createdAt: Date | undefined;
+  manageURL: string;
+}
+
+/**
+ * All webhook events, keyed by the name used in the `webHooks` configuration,
+ * with the data sent for them. Payloads are sent as `{ event, data }`, where
+ * `event` is the ID in {@link webHookEventIDs}.
+ */
+export interface WebHookEventCatalogue {
+  newReview: ReviewEventData;
+  reviewEdited: ReviewChangeEventData;
+  reviewDeleted: ReviewChangeEventData;
+  thingCreated: ThingEventData;
+  thingEdited: ThingChangeEventData;
+  thingMerged: ThingMergeEventData;
+  thingDeleted: ThingChangeEventData;
+  fileUploaded: FileEventData;
+  teamCreated: TeamEventData;
+  teamJoinRequested: TeamJoinRequestEventData;
+  blogPostPublished: BlogPostEventData;
+  accountRequestSubmitted: AccountRequestEventData;
+}
+
+export type WebHookEventName = keyof WebHookEventCatalogue;
+
+export interface WebHookEventPayload<E extends WebHookEventName = WebHookEventName> {
+  event: (typeof webHookEventIDs)[E];
+  data: WebHookEventCatalogue[E];
+}
+
+/** IDs sent as the `event` of each payload. */
+export const webHookEventIDs = {
+  newReview: 'new-review',
+  reviewEdited: 'review-edited',
+  reviewDeleted: 'review-deleted',
+  thingCreated: 'thing-created',
+  thingEdited: 'thing-edited',
+  thingMerged: 'thing-merged',
+  thingDeleted: 'thing-deleted',
+  fileUploaded: 'file-uploaded',
+  teamCreated: 'team-created',
+  teamJoinRequested: 'team-join-requested',
+  blogPostPublished: 'blog-post-published',
+  accountRequestSubmitted: 'account-request-submitted',
+} as const satisfies Record<WebHookEventName, string>;
+
+const qualify = (path: string) => `${config.qualifiedURL}${path}`;
+
+const getUserURL = (user: WebHookUser) => qualify(`user/${user.urlName}`);
+
+const getUserActionData = (user: WebHookUser): UserActionData => ({
+  user: user.displayName,
+  userURL: getUserURL(user),
+});
+
+/**
+ * @param review - Review with its subject
+ * @param author - Author of the review; defaults to the review's creator
+ */
+export function getReviewEventData(
+  review: ReviewInstance,
+  author: WebHookUser | undefined = review.creator
+): ReviewEventData {
+  return {
+    title: review.title,
+    thingURLs: review.thing?.urls,
+    thingLabel: review.thing?.label,
+    starRating: review.starRating,
+    html: review.html,
+    text: review.text,
+    createdOn: review.createdOn,
+    author: author?.displayName,
+    reviewURL: qualify(`review/${review.id}`),
+    thingURL: qualify(`thing/${review.thingID ?? review.thing?.id}`),
+    authorURL: author ? getUserURL(author) : undefined,
+  };
+}
+
+/**
+ * @param review - Review with its subject
+ * @param user - User who edited or deleted the review
+ * @param author - Author of the review; defaults to the review's creator
+ */
+export function getReviewChangeEventData(
+  review: ReviewInstance,
+  user: WebHookUser,
+  author: WebHookUser | undefined = review.creator
+): ReviewChangeEventData {
+  return { ...getReviewEventData(review, author), ...getUserActionData(user) };
+}
+
+export function getThingEventData(thing: WebHookThing): ThingEventData {
+  return {
+    label: thing.label,
+    urls: thing.urls,
+    createdOn: thing.createdOn,
+    thingURL: qualify(`thing/${thing.id}`),
+  };
+}
+
+/**
+ * @param thing - Edited or deleted thing
+ * @param user - User who made the change
+ */
+export function getThingChangeEventData(
+  thing: WebHookThing,
+  user: WebHookUser
+): ThingChangeEventData {
+  return { ...getThingEventData(thing), ...getUserActionData(user) };
+}
+
+/**
+ * @param thing - Duplicate that was merged
+ * @param mergedInto - Thing it was merged into
+ * @param user - User who merged them
+ */
+export function getThingMergeEventData(
+  thing: WebHookThing,
+  mergedInto: WebHookThing,
+  user: WebHookUser
+): ThingMergeEventData {
+  return { ...getThingChangeEventData(thing, user), mergedInto: getThingEventData(mergedInto) };
+}
+
+/**
+ * @param file - Completed upload
+ * @param user - Uploader
+ * @param thing - Review subject the file was uploaded for, if any
+ */
+export function getFileEventData(
+  file: FileInstance,
+  user: WebHookUser,
+  thing?: ThingInstance
+): FileEventData {
+  return {
+    name: file.name,
+    mimeType: file.mimeType,
+    license: file.license,
+    description: file.description,
+    creator: file.creator,
+    source: file.source,
+    uploadedOn: file.uploadedOn,
+    fileURL: qualify(`static/uploads/${encodeURIComponent(file.name ?? '')}`),
+    thingURL: thing ? qualify(`thing/${thing.id}`) : undefined,
+    ...getUserActionData(user),
+  };
+}
+
+/**
+ * @param team - New team
+ * @param user - Founder of the team
+ */
+export function getTeamEventData(team: TeamInstance, user: WebHookUser): TeamEventData {
+  return {
+    name: team.name,
+    motto: team.motto,
+    modApprovalToJoin: team.modApprovalToJoin,
+    createdOn: team.createdOn,
+    teamURL: qualify(`team/${team.urlID}`),
+    ...getUserActionData(user),
+  };
+}
+
+/**
+ * @param joinRequest - Pending join request
+ * @param team - Team the user wants to join
+ * @param user - User who wants to join
+ */
+export function getTeamJoinRequestEventData(
+  joinRequest: TeamJoinRequestInstance,
+  team: TeamInstance,
+  user: WebHookUser
+): TeamJoinRequestEventData {
+  return {
+    teamName: team.name,
+    requestMessage: joinRequest.requestMessage,
+    requestDate: joinRequest.requestDate,
+    teamURL: qualify(`team/${team.urlID}`),
+    manageURL: qualify(`team/${team.urlID}/manage-requests`),
+    ...getUserActionData(user),
+  };
+}
+
+/**
+ * @param blogPost - New blog post
+ * @param team - Team the post was published on
+ * @param author - Author of the post
+ */
+export function getBlogPostEventData(
+  blogPost: BlogPostInstance,
+  team: TeamInstance,
+  author: WebHookUser
+): BlogPostEventData {
+  return {
+    title: blogPost.title,
+    html: blogPost.html,
+    text: blogPost.text,
+    createdOn: blogPost.createdOn,
+    teamName: team.name,
+    author: author.displayName,
+    postURL: qualify(`team/${team.urlID}/post/${blogPost.id}`),
+    teamURL: qualify(`team/${team.urlID}`),
+    authorURL: getUserURL(author),
+  };
+}
+
+export function getAccountRequestEventData(
+  accountRequest: WebHookAccountRequest
+): AccountRequestEventData {
+  return {
+    id: accountRequest.id,
+    plannedReviews: accountRequest.plannedReviews,
+    languages: accountRequest.languages,
+    aboutLinks: accountRequest.aboutLinks,
+    language: accountRequest.language,
+    createdAt: accountRequest.createdAt,
+    manageURL: qualify('actions/manage-requests'),
+  };
+}
+
+/**
+ * Sent when a team moderator tests one of the team's webhooks. Not part of
+ * the catalogue, since it is only sent to that endpoint.
+ */
+export interface TestEventData {
+  teamName: MultilingualString | undefined;
+  teamURL: string;
+  user: string;
+  userURL: string;
+}
+
+/**
+ * @param team - Team whose webhook is tested
+ * @param user - Moderator who tests it
+ */
+export function getTestEventPayload(
+  team: TeamInstance,
+  user: WebHookUser
+): { event: 'test'; data: TestEventData } {
+  return {
+    event: 'test',
+    data: {
+      teamName: team.name,
+      teamURL: qualify(`team/${team.urlID}`),
+      ...getUserActionData(user),
+    },
+  };
+}
+
+let dispatcher: WebHookDispatcher | null = null;
+
+export interface WebHookEmitOptions {
+  /** Teams the event is about; their webhooks receive it as well */
+  teams?: Array<{ id: string }>;
+}
+
+async function dispatchToTeams(
+  teamDispatcher: WebHookDispatcher,
+  eventName: WebHookEventName,
+  teamIDs: string[],
+  payload: WebHookEventPayload
+): Promise<void> {
+  if (!isTeamWebHookEvent(eventName)) return;
+  try {
+    const urls = await TeamWebHook.getURLsForEvent(teamIDs, eventName);
+    await teamDispatcher.dispatch(eventName, urls, payload);
+  } catch (error) {
+    debug.error(`Could not send ${eventName} event to team webhooks:`);
+    debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+  }
+}
+
+const webHookEvents = {
+  /**
+   * Set the dispatcher events are sent with. Until one is set, e.g. in
+   * scripts that don't start the app, events are dropped.
+   */
+  setDispatcher(newDispatcher: WebHookDispatcher | null): void {
+    dispatcher = newDispatcher;
+  },
+
+  /**
+   * Send an event to the endpoints configured for it, in the background.
+   * Failed deliveries are logged and retried by the dispatcher.
+   *
+   * @param eventName - Event from the catalogue
+   * @param data - Data for the event, e.g. from {@link getReviewEventData}
+   * @param options - Teams the event is about
+   */
+  emit<E extends WebHookEventName>(
+    eventName: E,
+    data: WebHookEventCatalogue[E],
+    { teams = [] }: WebHookEmitOptions = {}
+  ): void {
+    if (!dispatcher) return;
+    const payload: WebHookEventPayload<E> = { event: webHookEventIDs[eventName], data };
+    void dispatcher.trigger(eventName, payload);
+    const teamIDs = teams.map(team => team.id).filter(Boolean);
+    if (teamIDs.length) void dispatchToTeams(dispatcher, eventName, teamIDs, payload);
+  },
+};
+
+export { webHookEvents };
+export default webHookEvents;
@@ -1,18 +1,41 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
 import { URL } from 'node:url';
 
 import debug from './debug.ts';
+import publicFetch, { type PublicRequestInit } from './public-fetch.ts';
 
 /** Default timeout for webhook POST requests. */
 const DEFAULT_TIMEOUT_MS = 10_000;
 
+/** Default age in seconds after which receivers reject a signed request. */
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** Header with the HMAC-SHA256 signature of a payload, as `sha256=<hex>`. */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-LibReviews-Signature';
+
+/** Header with the time of signing, in seconds since the Unix epoch. */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-LibReviews-Timestamp';
+
 type FetchImpl = typeof fetch;
 
+type PublicFetchImpl = (url: string, init: PublicRequestInit) => Promise<Response>;
+
 type HeadersRecord = Record<string, string>;
 
-type EndpointsByEvent = Record<string, string[]>;
+/** An endpoint URL, with a shared secret if payloads sent to it are signed. */
+type WebHookEndpoint = string | { url: string; secret?: string };
+
+type EndpointsByEvent = Record<string, WebHookEndpoint[]>;
+
+const getMessage = (error: unknown) =>
+  error && typeof error === 'object' && 'message' in error && typeof error.message === 'string'
+    ? error.message
+    : String(error);
 
 /** Result of a single webhook delivery attempt. */
 export interface WebHookDeliveryResult {
+  /** ID of the stored delivery, if the dispatcher has a delivery store. */
+  id?: string;
   url: string;
   ok: boolean;
   status?: number;
@@ -25,11 +48,35 @@ export interface WebHookDispatchResult {
   deliveries: WebHookDeliveryResult[];
 }
 
+/**
+ * Persistent storage for deliveries, so failed ones can be retried (see
+ * util/webhook-deliveries.ts).
+ */
+export interface WebHookDeliveryStore {
+  /**
+   * Store a delivery of an event to each URL. The deliveries are reserved for
+   * an immediate attempt by the caller.
+   *
+   * @returns IDs of the deliveries, in the order of the URLs
+   */
+  create(
+    eventName: string,
+    urls: string[],
+    payload: unknown,
+    headers: HeadersRecord
+  ): Promise<string[]>;
+  /** Log an attempt and schedule a retry if it failed. */
+  recordAttempt(id: string, result: WebHookDeliveryResult): Promise<void>;
+}
+
 /** Configuration knobs for the webhook dispatcher. */
 export interface WebHookDispatcherOptions {
   fetch?: FetchImpl;
+  /** Used instead of `fetch` for URLs that are not configured */
+  publicFetch?: PublicFetchImpl;
   timeoutMs?: number;
   logger?: (...args: unknown[]) => void;
+  store?: WebHookDeliveryStore;
 }
 
 /**
@@ -37,9 +84,13 @@ export interface WebHookDispatcherOptions {
  */
 class WebHookDispatcher {
   private readonly _fetch: FetchImpl;
+  private readonly _publicFetch: PublicFetchImpl;
   private readonly _timeoutMs: number;
   private readonly _logger: (...args: unknown[]) => void;
   private readonly _endpoints: Map<string, string[]>;
+  private readonly _configuredURLs: Set<string>;
+  private readonly _secrets: Map<string, string>;
+  private readonly _store?: WebHookDeliveryStore;
 
   constructor(endpointsByEvent: EndpointsByEvent = {}, options: WebHookDispatcherOptions = {}) {
     if (!endpointsByEvent || typeof endpointsByEvent !== 'object')
@@ -48,25 +99,45 @@ class WebHookDispatcher {
     this._fetch = options.fetch || globalThis.fetch;
     if (typeof this._fetch !== 'function')
       throw new TypeError('A fetch implementation must be provided.');
+    this._publicFetch = options.publicFetch || publicFetch.fetch;
 
     this._timeoutMs =
       typeof options.timeoutMs === 'number' ? options.timeoutMs : DEFAULT_TIMEOUT_MS;
     this._logger = options.logger || debug.webhooks;
+    this._store = options.store;
 
     this._endpoints = new Map();
-    for (const [eventName, urls] of Object.entries(endpointsByEvent)) {
-      if (!Array.isArray(urls) || urls.length === 0) continue;
+    this._configuredURLs = new Set();
+    this._secrets = new Map();
+    for (const [eventName, endpoints] of Object.entries(endpointsByEvent)) {
+      if (!Array.isArray(endpoints) || endpoints.length === 0) continue;
+
+      const urls: string[] = [];
+      for (const endpoint of endpoints) {
+        const rawURL = typeof endpoint === 'string' ? endpoint : endpoint?.url;
+        if (typeof rawURL !== 'string' || !rawURL.trim().length) continue;
+        const url = rawURL.trim();
+        urls.push(url);
+        this._configuredURLs.add(url);
 
-      const normalized = urls
-        .filter(url => typeof url === 'string' && url.trim().length)
-        .map(url => url.trim());
+        // Secrets belong to the endpoint, so they also apply to retries, which
+        // only know the URL
+        const secret = typeof endpoint === 'object' ? endpoint.secret : undefined;
+        if (!secret) continue;
+        const existing = this._secrets.get(url);
+        if (existing !== undefined && existing !== secret)
+          throw new TypeError(`Webhook endpoint ${url} is configured with different secrets.`);
+        this._secrets.set(url, secret);
+      }
 
-      if (normalized.length) this._endpoints.set(eventName, normalized);
+      if (urls.length) this._endpoints.set(eventName, urls);
     }
   }
 
   /**
-   * Trigger a webhook event and POST the payload to all configured URLs.
+   * Trigger a webhook event and POST the payload to all configured URLs. With
+   * a delivery store, the deliveries are stored first, and failed ones are
+   * retried later. If the store is unavailable, delivery is attempted once.
    *
    * @param eventName - The webhook event identifier.
    * @param payload - Payload to serialise as JSON.
@@ -77,22 +148,59 @@ class WebHookDispatcher {
     payload: unknown,
     headers: HeadersRecord = {}
   ): Promise<WebHookDispatchResult> {
-    const endpoints = this._endpoints.get(eventName) || [];
-    if (!endpoints.length) return { event: eventName, deliveries: [] };
+    return await this.dispatch(eventName, this._endpoints.get(eventName) || [], payload, headers);
+  }
 
-    const mergedHeaders = Object.assign({ 'Content-Type': 'application/json' }, headers);
+  /**
+   * Like {@link trigger}, but POST the payload to the given URLs instead of
+   * the configured ones, e.g. to endpoints registered by teams. Payloads are
+   * signed only for URLs that are also configured with a secret.
+   *
+   * @param eventName - The webhook event identifier.
+   * @param urls - Endpoints to deliver to.
+   * @param payload - Payload to serialise as JSON.
+   * @param headers - Additional HTTP headers for the request.
+   */
+  async dispatch(
+    eventName: string,
+    urls: string[],
+    payload: unknown,
+    headers: HeadersRecord = {}
+  ): Promise<WebHookDispatchResult> {
+    if (!urls.length) return { event: eventName, deliveries: [] };
 
+    const ids = await this._storeDeliveries(eventName, urls, payload, headers);
     const deliveries = await Promise.all(
-      endpoints.map(url => this._deliver(url, payload, mergedHeaders))
+      urls.map(async (url, index) => {
+        const delivery = await this.deliver(url, payload, headers);
+        if (!ids) return delivery;
+        delivery.id = ids[index];
+        await this._recordAttempt(delivery);
+        return delivery;
+      })
     );
 
     return { event: eventName, deliveries };
   }
 
-  private async _deliver(
+  /**
+   * Make one attempt to POST a payload to a URL. The payload is signed if the
+   * endpoint has a secret.
+   *
+   * URLs that are not configured were registered by users, e.g. as team
+   * webhooks. They are requested with util/public-fetch.ts, which checks the
+   * addresses they resolve to before each attempt and does not follow
+   * redirects, so they cannot be used to reach the server itself or its
+   * local network.
+   *
+   * @param url - Endpoint to deliver to.
+   * @param payload - Payload to serialise as JSON.
+   * @param headers - Additional HTTP headers for the request.
+   */
+  async deliver(
     url: string,
     payload: unknown,
-    headers: HeadersRecord
+    headers: HeadersRecord = {}
   ): Promise<WebHookDeliveryResult> {
     const delivery: WebHookDeliveryResult = { url, ok: false };
 
@@ -100,33 +208,129 @@ class WebHookDispatcher {
       // Validate URL before attempting request to catch obvious misconfiguration.
       new URL(url);
 
-      const response = await this._fetch(url, {
+      const isConfigured = this._configuredURLs.has(url);
+      const body = JSON.stringify(payload);
+      const secret = this._secrets.get(url);
+      const init = {
         method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
+        headers: Object.assign(
+          { 'Content-Type': 'application/json' },
+          headers,
+          secret ? signWebHookPayload(body, secret) : {}
+        ),
+        body,
         signal: AbortSignal.timeout(this._timeoutMs),
-      });
+      };
+      const response = isConfigured
+        ? await this._fetch(url, init)
+        : await this._publicFetch(url, init);
 
       delivery.status = response.status;
       delivery.ok = response.ok;
+      if (!isConfigured && response.status >= 300 && response.status < 400)
+        delivery.error = 'Redirects are not followed.';
 
       if (response.ok) this._logger(`Webhook to ${url} succeeded (status ${response.status}).`);
       else this._logger(`Webhook to ${url} responded with ${response.status}.`);
     } catch (error) {
-      const errorMessage =
-        error &&
-        typeof error === 'object' &&
-        'message' in error &&
-        typeof error.message === 'string'
-          ? error.message
-          : String(error);
+      const errorMessage = getMessage(error);
       delivery.error = errorMessage;
       this._logger(`Webhook to ${url} failed: ${errorMessage}`);
     }
 
     return delivery;
   }
+
+  private async _storeDeliveries(
+    eventName: string,
+    urls: string[],
+    payload: unknown,
+    headers: HeadersRecord
+  ): Promise<string[] | null> {
+    if (!this._store) return null;
+    try {
+      return await this._store.create(eventName, urls, payload, headers);
+    } catch (error) {
+      this._logger(`Could not store webhook deliveries for ${eventName}: ${getMessage(error)}`);
+      return null;
+    }
+  }
+
+  private async _recordAttempt(delivery: WebHookDeliveryResult): Promise<void> {
+    if (!this._store || !delivery.id) return;
+    try {
+      await this._store.recordAttempt(delivery.id, delivery);
+    } catch (error) {
+      this._logger(`Could not log webhook delivery ${delivery.id}: ${getMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Sign a webhook payload with HMAC-SHA256. The signature covers the timestamp
+ * and the body, so receivers can reject altered and replayed requests with
+ * {@link verifyWebHookSignature}.
+ *
+ * @param body - Request body exactly as sent
+ * @param secret - Secret shared with the receiver
+ * @param timestamp - Time of signing in seconds since the Unix epoch
+ * @returns Headers to send with the request
+ */
+export function signWebHookPayload(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): HeadersRecord {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return {
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`,
+  };
+}
+
+/** Signed request as seen by a webhook receiver. */
+export interface WebHookSignatureCheck {
+  /** Raw request body, before JSON parsing */
+  body: string | Buffer;
+  /** Value of the signature header */
+  signature: string | undefined;
+  /** Value of the timestamp header */
+  timestamp: string | undefined;
+  secret: string;
+  /** Maximum age of the request, and maximum clock skew, in seconds */
+  toleranceSeconds?: number;
+  /** Current time in milliseconds, for testing */
+  now?: number;
+}
+
+/**
+ * Check that a webhook request was signed with the shared secret, and
+ * recently enough that it is not an old request being replayed. Receivers
+ * that must also reject replays within the tolerance should remember the
+ * signatures they have accepted during that time.
+ *
+ * @returns Whether the request is authentic and fresh
+ */
+export function verifyWebHookSignature({
+  body,
+  signature,
+  timestamp,
+  secret,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now(),
+}: WebHookSignatureCheck): boolean {
+  if (!signature || !timestamp || !secret || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > toleranceSeconds) return false;
+
+  const expected = signWebHookPayload(body.toString(), secret, Number(timestamp))[
+    WEBHOOK_SIGNATURE_HEADER
+  ];
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(signature);
+  return (
+    expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+  );
 }
 
 export default WebHookDispatcher;
-export type { EndpointsByEvent };
+export type { EndpointsByEvent, HeadersRecord, WebHookEndpoint };
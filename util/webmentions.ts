@@ -0,0 +1,346 @@
+import config from 'config';
+import { decodeHTML } from 'entities';
+import isUUID from 'is-uuid';
+
+import { getDAL } from '../bootstrap/dal.ts';
+import type { ReviewInstance } from '../models/manifests/review.ts';
+import debug from './debug.ts';
+import publicFetch from './public-fetch.ts';
+import urlUtils from './url-utils.ts';
+
+/**
+ * Webmentions (https://www.w3.org/TR/webmention/) in both directions. New
+ * reviews notify the sites of their review subjects' URLs, if those sites
+ * advertise an endpoint. Pages that link to a review can notify us; the
+ * mention is stored once the page was fetched and found to link to the
+ * review, and listed on the review page unless a moderator hid it.
+ */
+
+/** A verified mention of a review, as stored in the `webmentions` table. */
+export interface Webmention {
+  id: string;
+  reviewID: string;
+  source: string;
+  title: string | null;
+  hidden: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type WebmentionRow = {
+  id: string;
+  review_id: string;
+  source: string;
+  title: string | null;
+  hidden: boolean;
+  created_at: Date;
+  updated_at: Date;
+};
+
+interface FetchedPage {
+  url: string;
+  status: number;
+  linkHeader: string | null;
+  html: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+// Pages are only searched for links and a title, so the rest is not read
+const MAX_PAGE_BYTES = 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+
+async function runQuery<TRow>(sql: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = (await getDAL().query(sql, values)) as { rows: TRow[] };
+  return result.rows;
+}
+
+const mapRow = (row: WebmentionRow): Webmention => ({
+  id: row.id,
+  reviewID: row.review_id,
+  source: row.source,
+  title: row.title,
+  hidden: row.hidden,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const isEnabled = () =>
+  config.has('webmentions.enabled') ? Boolean(config.get<boolean>('webmentions.enabled')) : false;
+
+const getReviewURL = (reviewID: string) => `${config.qualifiedURL}review/${reviewID}`;
+
+const resolveURL = (url: string, base: string) => {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return null;
+  }
+};
+
+// Attributes of the start tags with one of the given names, in document order
+function* getTags(html: string, names: string[]): Generator<Record<string, string>> {
+  const tagPattern = new RegExp(`<(${names.join('|')})\\b([^>]*)>`, 'gi');
+  const attributePattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const tag of html.matchAll(tagPattern)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of tag[2].matchAll(attributePattern))
+      attributes[name.toLowerCase()] = decodeHTML(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    yield attributes;
+  }
+}
+
+const hasRel = (rel: string | undefined, value: string) =>
+  (rel ?? '').toLowerCase().split(/\s+/).includes(value);
+
+/**
+ * Find the Webmention endpoint a page advertises, in its `Link` header or in
+ * a `<link>` or `<a>` element, as the specification requires.
+ *
+ * @param page - Page as fetched; relative endpoints are resolved against its
+ *  URL
+ * @returns The endpoint URL, or null if the page has none
+ */
+function findEndpoint(page: Pick<FetchedPage, 'url' | 'linkHeader' | 'html'>): string | null {
+  for (const link of (page.linkHeader ?? '').split(/,(?=\s*<)/)) {
+    const match = link.match(/<([^>]*)>(.*)/);
+    const rel = match?.[2].match(/;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i);
+    if (match && rel && hasRel(rel[1] ?? rel[2], 'webmention'))
+      return resolveURL(match[1], page.url);
+  }
+  for (const attributes of getTags(page.html, ['link', 'a']))
+    if (hasRel(attributes.rel, 'webmention') && attributes.href !== undefined)
+      return resolveURL(attributes.href, page.url);
+  return null;
+}
+
+/**
+ * Check whether a page links to a URL.
+ *
+ * @param page - Page as fetched
+ * @param target - URL the page should link to
+ */
+function linksTo(page: Pick<FetchedPage, 'url' | 'html'>, target: string): boolean {
+  for (const attributes of getTags(page.html, ['a', 'link', 'img', 'video', 'audio', 'source'])) {
+    const href = attributes.href ?? attributes.src;
+    if (href !== undefined && resolveURL(href, page.url) === target) return true;
+  }
+  return false;
+}
+
+/**
+ * Read the start of a response body and discard the rest.
+ *
+ * @param response - Response to read
+ * @param maxBytes - Number of bytes to read at most
+ */
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (bytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    const chunk = value.subarray(0, maxBytes - bytes);
+    bytes += chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel();
+  return text + decoder.decode();
+}
+
+function getTitle(html: string): string | null {
+  const match = html.match(/<title\b[^>]*>([^<]*)<\/title>/i);
+  const title = match ? decodeHTML(match[1]).replace(/\s+/g, ' ').trim() : '';
+  return title ? title.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+/**
+ * Fetch a page from a public host with util/public-fetch.ts. Redirects are
+ * followed by hand, so that they cannot lead to a private address either.
+ *
+ * @param url - Page to fetch
+ * @returns The page, or null if it is not on a public host
+ * @throws if a host name resolves to a private address, or on network errors
+ */
+async function fetchPage(url: string): Promise<FetchedPage | null> {
+  let currentURL = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (!urlUtils.isPublic(currentURL)) return null;
+    const response = await publicFetch.fetch(currentURL, {
+      headers: { Accept: 'text/html' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      const nextURL = resolveURL(location, currentURL);
+      if (!nextURL) return null;
+      currentURL = nextURL;
+      continue;
+    }
+    const isHTML = /html/i.test(response.headers.get('content-type') ?? '');
+    const html = isHTML ? await readText(response, MAX_PAGE_BYTES) : '';
+    if (!isHTML) await response.body?.cancel();
+    return {
+      url: currentURL,
+      status: response.status,
+      linkHeader: response.headers.get('link'),
+      html,
+    };
+  }
+  return null;
+}
+
+/**
+ * Notify one URL that a review mentions it, if its site has an endpoint.
+ *
+ * @param source - URL of the review
+ * @param target - URL the review is about
+ */
+async function send(source: string, target: string): Promise<void> {
+  const page = await fetchPage(target);
+  const endpoint = page?.status === 200 ? findEndpoint(page) : null;
+  if (!endpoint || !urlUtils.isPublic(endpoint)) return;
+  const response = await publicFetch.fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ source, target }).toString(),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+  debug.webmentions(`Sent webmention for ${target} to ${endpoint}: ${response.status}`);
+}
+
+/**
+ * Send Webmentions for a new review to the URLs of its subject. Does nothing
+ * if Webmentions are disabled, and never rejects.
+ *
+ * @param review - New review with its thing joined
+ */
+async function sendForReview(review: ReviewInstance): Promise<void> {
+  if (!isEnabled()) return;
+  const source = getReviewURL(review.id);
+  for (const target of review.thing?.urls ?? []) {
+    try {
+      await send(source, target);
+    } catch (error) {
+      debug.webmentions(`Could not send webmention for ${target}: ${String(error)}`);
+    }
+  }
+}
+
+/**
+ * Get the review a Webmention target refers to.
+ *
+ * @param target - Target URL as received
+ * @returns The review ID, or null if the target is not a review on this site
+ */
+function getTargetReviewID(target: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return null;
+  }
+  const site = new URL(config.qualifiedURL);
+  if (url.host !== site.host) return null;
+  const match = url.pathname.match(/^\/review\/([^/]+)\/?$/);
+  return match && isUUID.v4(match[1]) ? match[1] : null;
+}
+
+/**
+ * Verify a received Webmention and store, update or remove it. A source that
+ * is gone or no longer links to the review removes an existing mention, as
+ * the specification requires.
+ *
+ * @param source - URL of the page that mentions the review
+ * @param target - URL of the review, as sent
+ * @param reviewID - ID of the review
+ */
+async function verify(source: string, target: string, reviewID: string): Promise<void> {
+  const page = await fetchPage(source);
+  if (page?.status === 200 && linksTo(page, target)) {
+    await runQuery(
+      `INSERT INTO webmentions (review_id, source, title) VALUES ($1, $2, $3)
+        ON CONFLICT (review_id, source)
+        DO UPDATE SET title = EXCLUDED.title, updated_at = NOW()`,
+      [reviewID, source, getTitle(page.html)]
+    );
+    debug.webmentions(`Verified webmention of review ${reviewID} from ${source}`);
+  } else if (!page || page.status === 200 || page.status === 404 || page.status === 410) {
+    await runQuery('DELETE FROM webmentions WHERE review_id = $1 AND source = $2', [
+      reviewID,
+      source,
+    ]);
+    debug.webmentions(`Webmention of review ${reviewID} from ${source} did not verify`);
+  }
+}
+
+/**
+ * Accept a Webmention for verification in the background.
+ *
+ * @param source - URL of the page that mentions the review
+ * @param target - URL of the review
+ * @returns Null if the mention was accepted, or the reason it was not
+ */
+function receive(source: string, target: string): string | null {
+  if (!urlUtils.isPublic(source)) return 'Source must be a public http(s) URL.';
+  if (source === target) return 'Source and target must differ.';
+  const reviewID = getTargetReviewID(target);
+  if (!reviewID) return 'Target is not a review on this site.';
+
+  void verify(source, target, reviewID).catch(error => {
+    debug.error('Problem verifying webmention:');
+    debug.error({ error: error instanceof Error ? error : new Error(String(error)) });
+  });
+  return null;
+}
+
+/**
+ * Get the mentions of a review, oldest first.
+ *
+ * @param reviewID - ID of the review
+ * @param includeHidden - Whether to include mentions hidden by moderators
+ */
+async function getForReview(reviewID: string, includeHidden = false): Promise<Webmention[]> {
+  const rows = await runQuery<WebmentionRow>(
+    `SELECT * FROM webmentions WHERE review_id = $1 ${includeHidden ? '' : 'AND NOT hidden'}
+      ORDER BY created_at`,
+    [reviewID]
+  );
+  return rows.map(mapRow);
+}
+
+/**
+ * Hide a mention from the review page, or show it again.
+ *
+ * @param id - ID of the mention
+ * @param reviewID - ID of the review it mentions
+ * @param hidden - Whether to hide it
+ * @returns Whether the mention exists
+ */
+async function setHidden(id: string, reviewID: string, hidden: boolean): Promise<boolean> {
+  const rows = await runQuery<{ id: string }>(
+    'UPDATE webmentions SET hidden = $3 WHERE id = $1 AND review_id = $2 RETURNING id',
+    [id, reviewID, hidden]
+  );
+  return rows.length > 0;
+}
+
+const webmentions = {
+  isEnabled,
+  findEndpoint,
+  linksTo,
+  getTargetReviewID,
+  sendForReview,
+  receive,
+  verify,
+  getForReview,
+  setHidden,
+};
+
+export { webmentions };
+export default webmentions;